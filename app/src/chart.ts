@@ -0,0 +1,102 @@
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import type { AnalyticsBucket } from "@solforge/sdk";
+
+interface Series {
+  label: string;
+  color: string;
+  value: (bucket: AnalyticsBucket) => number;
+}
+
+const toSol = (lamports: { toString(): string }) =>
+  Number(lamports.toString()) / LAMPORTS_PER_SOL;
+
+function cssVar(name: string): string {
+  return getComputedStyle(document.documentElement).getPropertyValue(name).trim();
+}
+
+function bucketLabel(start: number, bucketSeconds: number): string {
+  const date = new Date(start * 1000);
+  return bucketSeconds < 86_400
+    ? date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+/**
+ * Grouped bar chart of accrued, burned (auto + manual) and distributed SOL
+ * per bucket.
+ */
+export function drawHistory(
+  canvas: HTMLCanvasElement,
+  buckets: AnalyticsBucket[],
+  bucketSeconds: number
+): void {
+  const ratio = window.devicePixelRatio || 1;
+  const width = canvas.clientWidth;
+  const height = canvas.clientHeight;
+  canvas.width = width * ratio;
+  canvas.height = height * ratio;
+  const ctx = canvas.getContext("2d")!;
+  ctx.scale(ratio, ratio);
+  ctx.clearRect(0, 0, width, height);
+  ctx.font = "11px system-ui, sans-serif";
+  ctx.fillStyle = cssVar("--dim");
+
+  if (buckets.length === 0) {
+    ctx.textAlign = "center";
+    ctx.fillText("No history yet", width / 2, height / 2);
+    return;
+  }
+
+  const series: Series[] = [
+    { label: "Accrued", color: cssVar("--accent2"), value: (b) => toSol(b.gross) },
+    {
+      label: "Burned",
+      color: cssVar("--danger"),
+      value: (b) => toSol(b.autoBurned.add(b.manualBurned)),
+    },
+    { label: "Distributed", color: cssVar("--warn"), value: (b) => toSol(b.distributed) },
+  ];
+
+  const pad = { top: 24, right: 8, bottom: 22, left: 52 };
+  const plotW = width - pad.left - pad.right;
+  const plotH = height - pad.top - pad.bottom;
+  const max = Math.max(...buckets.flatMap((b) => series.map((s) => s.value(b))), 1e-9);
+
+  // Y axis: zero and max
+  ctx.textAlign = "right";
+  ctx.fillText(max.toFixed(3), pad.left - 6, pad.top + 4);
+  ctx.fillText("0", pad.left - 6, pad.top + plotH);
+  ctx.strokeStyle = cssVar("--border");
+  ctx.beginPath();
+  ctx.moveTo(pad.left, pad.top + plotH + 0.5);
+  ctx.lineTo(pad.left + plotW, pad.top + plotH + 0.5);
+  ctx.stroke();
+
+  const slot = plotW / buckets.length;
+  const barW = Math.max(1, (slot * 0.8) / series.length);
+  const labelEvery = Math.ceil(buckets.length / Math.max(1, Math.floor(plotW / 70)));
+  buckets.forEach((bucket, i) => {
+    const x0 = pad.left + i * slot + slot * 0.1;
+    series.forEach((s, j) => {
+      const h = (s.value(bucket) / max) * plotH;
+      ctx.fillStyle = s.color;
+      ctx.fillRect(x0 + j * barW, pad.top + plotH - h, barW - 1, h);
+    });
+    if (i % labelEvery === 0) {
+      ctx.fillStyle = cssVar("--dim");
+      ctx.textAlign = "left";
+      ctx.fillText(bucketLabel(bucket.start, bucketSeconds), x0, height - 6);
+    }
+  });
+
+  // Legend
+  let x = pad.left;
+  ctx.textAlign = "left";
+  for (const s of series) {
+    ctx.fillStyle = s.color;
+    ctx.fillRect(x, 6, 10, 10);
+    ctx.fillStyle = cssVar("--text");
+    ctx.fillText(s.label, x + 14, 15);
+    x += ctx.measureText(s.label).width + 30;
+  }
+}
@@ -0,0 +1,20 @@
+/** Element by id; the markup in index.html is the contract. */
+export function byId<T extends HTMLElement = HTMLElement>(id: string): T {
+  const el = document.getElementById(id);
+  if (!el) throw new Error(`#${id} missing from index.html`);
+  return el as T;
+}
+
+export function setText(id: string, text: string): void {
+  byId(id).textContent = text;
+}
+
+let toastTimer: number | undefined;
+
+export function toast(message: string, isError = false): void {
+  const el = byId("toast");
+  el.textContent = message;
+  el.className = isError ? "show error" : "show";
+  window.clearTimeout(toastTimer);
+  toastTimer = window.setTimeout(() => (el.className = ""), isError ? 8000 : 4000);
+}
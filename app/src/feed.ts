@@ -0,0 +1,110 @@
+import { PublicKey } from "@solana/web3.js";
+import type { SolForgeEvent } from "@solforge/sdk";
+import { bps, shortKey, sol } from "./format";
+
+/** One-line summary of an event for the live feed. */
+export function describeEvent(event: SolForgeEvent): string {
+  switch (event.name) {
+    case "FeeAccrued":
+      return `${shortKey(event.data.payer)} paid ${sol(event.data.gross)} (${sol(event.data.burned)} burned)`;
+    case "SolBurned":
+      return `Burned ${sol(event.data.amount)}`;
+    case "RewardsDistributed":
+      return `Sent ${sol(event.data.amount)} to ${shortKey(event.data.recipient)}`;
+    case "SurplusSwept":
+      return event.data.burned
+        ? `Burned ${sol(event.data.amount)} of unaccounted SOL`
+        : `Accounted ${sol(event.data.amount)} of unaccounted SOL`;
+    case "TokenFeeAccrued":
+      return `${shortKey(event.data.payer)} paid ${event.data.gross} of ${shortKey(event.data.mint)} (${event.data.burned} burned)`;
+    case "TokensBurned":
+      return `Burned ${event.data.amount} of ${shortKey(event.data.mint)}`;
+    case "TokenRewardsDistributed":
+      return `Sent ${event.data.amount} of ${shortKey(event.data.mint)} to ${shortKey(event.data.recipient)}`;
+    case "RewardScheduleCreated":
+      return `Schedule ${shortKey(event.data.schedule)} created for ${shortKey(event.data.recipient)}`;
+    case "RewardScheduleUpdated":
+      return `Schedule ${shortKey(event.data.schedule)} updated`;
+    case "RewardScheduleCanceled":
+      return `Schedule ${shortKey(event.data.schedule)} canceled after ${sol(event.data.totalPaid)}`;
+    case "RewardSchedulePaid":
+      return `Schedule ${shortKey(event.data.schedule)} paid ${sol(event.data.amount)} to ${shortKey(event.data.recipient)}`;
+    case "DistributionCreated":
+      return `Distribution ${shortKey(event.data.distribution)} opened: ${sol(event.data.totalAmount)} for ${event.data.numRecipients} recipients`;
+    case "DistributionClaimed":
+      return `${shortKey(event.data.recipient)} claimed ${sol(event.data.amount)}`;
+    case "DistributionSwept":
+      return `Distribution ${shortKey(event.data.distribution)} swept ${sol(event.data.amount)} back`;
+    case "ParameterUpdateProposed": {
+      const { proposedBurnBps, proposedDelaySecs, proposedFeeBps, proposedSpendingCaps } =
+        event.data;
+      const changes = [
+        proposedBurnBps !== null && `burn ${bps(proposedBurnBps)}`,
+        proposedDelaySecs !== null && `delay ${proposedDelaySecs}s`,
+        proposedFeeBps !== null && `fee ${bps(proposedFeeBps)}`,
+        proposedSpendingCaps !== null && "new spending caps",
+        event.data.proposedAllowlistEnabled !== null &&
+          `allowlist ${event.data.proposedAllowlistEnabled ? "on" : "off"}`,
+        event.data.proposedGuardian !== null &&
+          (event.data.proposedGuardian.equals(PublicKey.default)
+            ? "no guardian"
+            : `guardian ${shortKey(event.data.proposedGuardian)}`),
+      ].filter(Boolean);
+      return `Proposal #${event.data.id} proposes ${changes.join(", ")}`;
+    }
+    case "ParameterUpdateExecuted":
+      return `Proposal #${event.data.id} executed`;
+    case "ParameterUpdateCanceled":
+      return event.data.expired
+        ? `Proposal #${event.data.id} expired`
+        : `Proposal #${event.data.id} canceled`;
+    case "AllowlistAdditionProposed":
+      return `${shortKey(event.data.recipient)} proposed for the allowlist`;
+    case "AllowlistRecipientAdded":
+      return `${shortKey(event.data.recipient)} added to the allowlist`;
+    case "AllowlistRecipientRemoved":
+      return event.data.wasActive
+        ? `${shortKey(event.data.recipient)} removed from the allowlist`
+        : `Allowlist proposal for ${shortKey(event.data.recipient)} withdrawn`;
+    case "VaultPaused":
+      return `Vault paused by guardian ${shortKey(event.data.guardian)}`;
+    case "UnpauseProposed":
+      return "Unpause proposed";
+    case "VaultUnpaused":
+      return "Vault unpaused";
+    case "AuthorityTransferProposed":
+      return `Authority transfer to ${shortKey(event.data.newAuthority)} proposed`;
+    case "AuthorityTransferred":
+      return `Authority transferred to ${shortKey(event.data.newAuthority)}`;
+    case "AuthorityTransferCanceled":
+      return `Authority transfer to ${shortKey(event.data.canceledAuthority)} canceled`;
+  }
+}
+
+/** Newest-first list of live events, capped at `limit` entries. */
+export class EventFeed {
+  constructor(
+    private readonly list: HTMLElement,
+    private readonly cluster: string,
+    private readonly limit = 50
+  ) {}
+
+  push(event: SolForgeEvent, slot: number, signature: string): void {
+    const item = document.createElement("li");
+    const link = document.createElement("a");
+    link.href = `https://explorer.solana.com/tx/${signature}?cluster=${this.cluster}`;
+    link.target = "_blank";
+    link.rel = "noopener";
+    link.textContent = event.name;
+    const text = document.createElement("span");
+    text.textContent = describeEvent(event);
+    const meta = document.createElement("span");
+    meta.className = "dim";
+    meta.textContent = `slot ${slot}`;
+    item.append(link, text, meta);
+
+    this.list.querySelector(".empty")?.remove();
+    this.list.prepend(item);
+    while (this.list.children.length > this.limit) this.list.lastElementChild!.remove();
+  }
+}
@@ -0,0 +1,69 @@
+import { BN } from "@coral-xyz/anchor";
+import { LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+import { SolForgeError, translateError } from "@solforge/sdk";
+
+const LAMPORT_DECIMALS = 9;
+
+/** Lamports as SOL with 4 decimals. */
+export function sol(lamports: BN | number): string {
+  return (Number(lamports.toString()) / LAMPORTS_PER_SOL).toFixed(4) + " SOL";
+}
+
+/** Basis points as a percentage. */
+export function bps(value: number): string {
+  return (value / 100).toFixed(2) + "%";
+}
+
+/** `1d 02:03:04` style countdown. */
+export function duration(seconds: number): string {
+  const s = Math.max(0, Math.floor(seconds));
+  const days = Math.floor(s / 86_400);
+  const clock = [Math.floor(s / 3_600) % 24, Math.floor(s / 60) % 60, s % 60]
+    .map((n) => String(n).padStart(2, "0"))
+    .join(":");
+  return days > 0 ? `${days}d ${clock}` : clock;
+}
+
+export function shortKey(key: PublicKey): string {
+  const text = key.toBase58();
+  return `${text.slice(0, 4)}…${text.slice(-4)}`;
+}
+
+/**
+ * Parse a decimal SOL amount into lamports without going through floats.
+ *
+ * @throws On anything but a non-negative decimal with up to 9 places.
+ */
+export function parseSol(value: string): BN {
+  const match = /^(\d*)(?:\.(\d{0,9}))?$/.exec(value.trim());
+  if (!match || (match[1] === "" && !match[2])) {
+    throw new Error(`Invalid SOL amount: ${value}`);
+  }
+  const [, whole, fraction = ""] = match;
+  return new BN(whole || "0")
+    .mul(new BN(LAMPORTS_PER_SOL))
+    .add(new BN(fraction.padEnd(LAMPORT_DECIMALS, "0")));
+}
+
+/** Parse a non-negative integer input. */
+export function parseInteger(value: string, name: string): number {
+  if (!/^\d+$/.test(value.trim())) throw new Error(`Invalid ${name}: ${value}`);
+  return Number(value);
+}
+
+/** Like `parseInteger`, but an empty input means `undefined`. */
+export function parseOptionalInt(value: string, name: string): number | undefined {
+  return value.trim() === "" ? undefined : parseInteger(value, name);
+}
+
+/**
+ * User-facing message for a failed action: program errors are decoded to
+ * their `ErrorCode` variant, anything else keeps its own message.
+ */
+export function describeError(err: unknown, programId: PublicKey): string {
+  const translated = translateError(err, programId);
+  if (translated instanceof SolForgeError) {
+    return `${translated.variant} (${translated.code}): ${translated.message}`;
+  }
+  return (translated as Error)?.message ?? String(translated);
+}
@@ -0,0 +1,149 @@
+import type { BN } from "@coral-xyz/anchor";
+import type {
+  GovernanceParameters,
+  ProposalInfo,
+  SpendingCapsState,
+} from "@solforge/sdk";
+import { byId } from "./dom";
+import { bps, duration, shortKey, sol } from "./format";
+
+function describeChange(
+  label: string,
+  current: string,
+  proposed: string
+): string {
+  return current === proposed ? `${label}: ${current}` : `${label}: ${current} → ${proposed}`;
+}
+
+function describeCaps(caps: SpendingCapsState): string {
+  const limit = (lamports: BN, share: number) =>
+    !lamports.isZero() ? sol(lamports) : share > 0 ? bps(share) : "uncapped";
+  return caps.windowSeconds.isZero()
+    ? "uncapped"
+    : `distribute ${limit(caps.distributionLamports, caps.distributionBps)}, ` +
+        `burn ${limit(caps.burnLamports, caps.burnBps)} per ${duration(caps.windowSeconds.toNumber())}`;
+}
+
+function line(text: string, className?: string): HTMLDivElement {
+  const div = document.createElement("div");
+  div.textContent = text;
+  if (className) div.className = className;
+  return div;
+}
+
+/** Execute / cancel handler for one proposal's button. */
+export type ProposalAction = (proposal: ProposalInfo, button: HTMLButtonElement) => void;
+
+interface ProposalView {
+  proposal: ProposalInfo;
+  root: HTMLDivElement;
+  countdown: HTMLDivElement;
+  execute: HTMLButtonElement;
+  cancel: HTMLButtonElement;
+}
+
+/**
+ * Open proposals, each with a ticking countdown and its own execute and
+ * cancel buttons. Buttons stay disabled until the connected wallet is the
+ * authority and the proposal is actionable.
+ */
+export class GovernancePanel {
+  private views: ProposalView[] = [];
+  /** `Date.now()` when the proposals were fetched, to tick countdowns locally. */
+  private fetchedAt = 0;
+  private isAuthority = false;
+
+  constructor(
+    private readonly list: HTMLElement,
+    private readonly onExecute: ProposalAction,
+    private readonly onCancel: ProposalAction
+  ) {
+    window.setInterval(() => this.render(), 1000);
+  }
+
+  /** Show the proposals still waiting on the authority. */
+  update(proposals: ProposalInfo[], isAuthority: boolean): void {
+    this.fetchedAt = Date.now();
+    this.isAuthority = isAuthority;
+    // Expired proposals stay listed until canceled, which records them
+    const open = proposals.filter((p) => "pending" in p.state.status);
+    this.views = open.map((p) => this.createView(p));
+    this.list.replaceChildren(
+      ...(this.views.length > 0
+        ? this.views.map((v) => v.root)
+        : [line("No pending proposals", "proposal-info dim")])
+    );
+    this.render();
+  }
+
+  private createView(proposal: ProposalInfo): ProposalView {
+    const format = (p: GovernanceParameters) => ({
+      burn: bps(p.burnPercentageBps),
+      delay: `${p.delaySeconds}s`,
+      fee: bps(p.feeBasisPoints),
+      caps: describeCaps(p.spendingCaps),
+      allowlist: p.allowlistEnabled ? "on" : "off",
+      guardian: p.guardian ? shortKey(p.guardian) : "none",
+    });
+    const current = format(proposal.current);
+    const proposed = format(proposal.proposed);
+    const time = (unix: BN) =>
+      new Date(unix.toNumber() * 1000).toLocaleString();
+
+    const execute = document.createElement("button");
+    execute.className = "btn btn-primary";
+    execute.textContent = "Execute";
+    execute.addEventListener("click", () => this.onExecute(proposal, execute));
+    const cancel = document.createElement("button");
+    cancel.className = "btn btn-danger";
+    cancel.textContent = "Cancel";
+    cancel.addEventListener("click", () => this.onCancel(proposal, cancel));
+    const buttons = document.createElement("div");
+    buttons.className = "btn-row";
+    buttons.append(execute, cancel);
+
+    const countdown = line("", "countdown");
+    const root = document.createElement("div");
+    root.className = "proposal-info";
+    root.append(
+      line(`Proposal #${proposal.id}`, "dim"),
+      line(describeChange("Burn", current.burn, proposed.burn)),
+      line(describeChange("Delay", current.delay, proposed.delay)),
+      line(describeChange("Fee", current.fee, proposed.fee)),
+      line(describeChange("Caps", current.caps, proposed.caps)),
+      line(describeChange("Allowlist", current.allowlist, proposed.allowlist)),
+      line(describeChange("Guardian", current.guardian, proposed.guardian)),
+      line(`Executable at: ${time(proposal.state.releaseTime)}`),
+      line(`Expires at: ${time(proposal.state.expiresAt)}`),
+      countdown,
+      buttons
+    );
+    return { proposal, root, countdown, execute, cancel };
+  }
+
+  render(): void {
+    const elapsed = (Date.now() - this.fetchedAt) / 1000;
+    const notAuthority = this.isAuthority ? "" : "Connect the vault authority";
+    for (const { proposal, countdown, execute, cancel } of this.views) {
+      // Counted from the cluster clock the proposal was fetched at
+      const now = proposal.clusterTime + elapsed;
+      const remaining = Math.max(0, proposal.state.releaseTime.toNumber() - now);
+      const expired = proposal.state.expiresAt.toNumber() < now;
+      countdown.textContent = expired
+        ? "Expired"
+        : remaining === 0
+          ? "Ready to execute"
+          : duration(remaining);
+
+      execute.disabled = !this.isAuthority || remaining > 0 || expired;
+      execute.title =
+        notAuthority ||
+        (expired ? "Execution window has passed" : remaining > 0 ? "Timelock has not expired" : "");
+      cancel.disabled = !this.isAuthority;
+      cancel.title = notAuthority;
+    }
+    const propose = byId<HTMLButtonElement>("proposeBtn");
+    propose.disabled = !this.isAuthority;
+    propose.title = notAuthority;
+  }
+}
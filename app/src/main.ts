@@ -0,0 +1,307 @@
+import "./polyfills";
+import { AnchorProvider } from "@coral-xyz/anchor";
+import {
+  Cluster,
+  clusterApiUrl,
+  Connection,
+  PublicKey,
+  Transaction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  computeVaultAnalytics,
+  DEFAULT_NAMESPACE,
+  MemoryEventStore,
+  namespaceFromName,
+  PROGRAM_ID,
+  CapAllowance,
+  SendResult,
+  SOLFORGE_IDL,
+  SolForgeClient,
+  SolForgeIndexer,
+  SolForgeWallet,
+  VaultState,
+} from "@solforge/sdk";
+import { drawHistory } from "./chart";
+import { byId, setText, toast } from "./dom";
+import { EventFeed } from "./feed";
+import {
+  bps,
+  describeError,
+  duration,
+  parseInteger,
+  parseOptionalInt,
+  parseSol,
+  shortKey,
+  sol,
+} from "./format";
+import { GovernancePanel } from "./governance";
+
+// ---------------------------------------------------------------------------
+// Configuration: ?cluster=devnet&rpc=<url>&program=<pubkey>
+//                &namespace=<pubkey> | &vault-name=<name>
+// ---------------------------------------------------------------------------
+
+const params = new URLSearchParams(location.search);
+const CLUSTER = params.get("cluster") ?? "devnet";
+const RPC_URL = params.get("rpc") ?? clusterApiUrl(CLUSTER as Cluster);
+const PROGRAM = params.has("program")
+  ? new PublicKey(params.get("program")!)
+  : PROGRAM_ID;
+const NAMESPACE = params.has("namespace")
+  ? new PublicKey(params.get("namespace")!)
+  : params.has("vault-name")
+    ? namespaceFromName(params.get("vault-name")!)
+    : DEFAULT_NAMESPACE;
+
+const BUCKET_SECONDS: Record<string, number> = {
+  hour: 3_600,
+  day: 86_400,
+  week: 604_800,
+};
+
+/** Phantom-compatible injected wallet. */
+interface InjectedWallet {
+  isPhantom?: boolean;
+  publicKey: PublicKey | null;
+  connect(): Promise<{ publicKey: PublicKey }>;
+  signTransaction<T extends Transaction | VersionedTransaction>(tx: T): Promise<T>;
+  signAllTransactions<T extends Transaction | VersionedTransaction>(txs: T[]): Promise<T[]>;
+}
+
+declare global {
+  interface Window {
+    solana?: InjectedWallet;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+
+const connection = new Connection(RPC_URL, "confirmed");
+const store = new MemoryEventStore();
+const feed = new EventFeed(byId("eventFeed"), CLUSTER);
+const governance = new GovernancePanel(
+  byId("proposalList"),
+  (proposal, button) =>
+    run(button, `Proposal #${proposal.id} executed`, () =>
+      client.executeParameterUpdate(proposal.id)
+    ),
+  (proposal, button) =>
+    run(button, `Proposal #${proposal.id} canceled`, () =>
+      client.cancelParameterProposal(proposal.id)
+    )
+);
+
+/** Read-only until a wallet connects. */
+let client: SolForgeClient;
+let indexer: SolForgeIndexer;
+let vault: VaultState | null = null;
+let refreshTimer: number | undefined;
+
+function createClient(provider: AnchorProvider | Connection): void {
+  client = SolForgeClient.create(provider, SOLFORGE_IDL, PROGRAM, {
+    namespace: NAMESPACE,
+    preflight: true,
+  });
+  indexer = new SolForgeIndexer(client, store);
+}
+
+function isAuthority(): boolean {
+  return !!client.wallet && !!vault?.authority.equals(client.wallet.publicKey);
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+/** Active, or paused with the time the authority may unpause. */
+function pausedText(state: VaultState): string {
+  if (!state.paused) return "Active";
+  return state.unpauseReleaseTime.isZero()
+    ? "Paused"
+    : `Paused until ${new Date(state.unpauseReleaseTime.toNumber() * 1000).toLocaleString()}`;
+}
+
+/** Remaining allowance of one cap for the current window. */
+function allowanceText(cap: CapAllowance | undefined): string {
+  if (!cap) return "—";
+  return cap.remaining ? `${sol(cap.remaining)} of ${sol(cap.limit!)}` : "Uncapped";
+}
+
+async function refreshVault(): Promise<void> {
+  const [state, balance, surplus, allowance] = await Promise.all([
+    client.getVaultState(),
+    connection.getBalance(client.vaultPda),
+    client.getVaultSurplus(),
+    client.getSpendingAllowance(),
+  ]);
+  vault = state;
+  setText("vBalance", state ? sol(balance) : "Not initialized");
+  setText("vAccrued", state ? sol(state.totalAccrued) : "—");
+  // Lamports sent straight to the PDA, outside accrue_fee
+  setText("vSurplus", surplus ? sol(surplus.surplus) : "—");
+  setText("vFee", state ? bps(state.feeBasisPoints) : "—");
+  setText("vBurn", state ? bps(state.burnPercentageBps) : "—");
+  setText("vDelay", state ? duration(state.delaySeconds.toNumber()) : "—");
+  setText("vDistAllowance", allowanceText(allowance?.distribution));
+  setText("vBurnAllowance", allowanceText(allowance?.burn));
+  setText("vAllowlist", state ? (state.allowlistEnabled ? "On" : "Off") : "—");
+  setText("vPaused", state ? pausedText(state) : "—");
+  byId("vPaused").classList.toggle("paused", !!state?.paused);
+  setText("vAuthority", state ? shortKey(state.authority) : "—");
+  setText("vGuardian", state ? (state.guardian ? shortKey(state.guardian) : "None") : "—");
+}
+
+async function refreshGovernance(): Promise<void> {
+  governance.update(await client.listProposals(), isAuthority());
+}
+
+async function refreshHistory(): Promise<void> {
+  await indexer.sync();
+  const bucketSeconds = BUCKET_SECONDS[byId<HTMLSelectElement>("historyBucket").value];
+  const report = computeVaultAnalytics(await store.getEvents(), {
+    bucket: bucketSeconds,
+    configuredBurnBps: vault?.burnPercentageBps,
+    retained: vault?.totalAccrued,
+  });
+  drawHistory(byId<HTMLCanvasElement>("historyChart"), report.buckets, bucketSeconds);
+  setText(
+    "historyRatio",
+    `Effective burn ${bps(report.ratios.totalBurnBps)}` +
+      (vault ? ` (configured ${bps(vault.burnPercentageBps)})` : "")
+  );
+  setText(
+    "historyRunway",
+    report.runway.seconds === null
+      ? "Runway: not shrinking"
+      : `Runway: ${duration(report.runway.seconds)}`
+  );
+}
+
+async function refresh(): Promise<void> {
+  try {
+    // Governance buttons depend on the vault's authority
+    await refreshVault();
+    await Promise.all([refreshGovernance(), refreshHistory()]);
+  } catch (err) {
+    toast(describeError(err, PROGRAM), true);
+  }
+}
+
+/** Coalesce bursts of live events into one refresh. */
+function scheduleRefresh(): void {
+  window.clearTimeout(refreshTimer);
+  refreshTimer = window.setTimeout(refresh, 1500);
+}
+
+// ---------------------------------------------------------------------------
+// Actions
+// ---------------------------------------------------------------------------
+
+function input(id: string): string {
+  return byId<HTMLInputElement>(id).value;
+}
+
+/** Run a send from `button`, which is disabled while it runs. */
+async function run(
+  button: HTMLButtonElement,
+  label: string,
+  send: () => Promise<SendResult>
+): Promise<void> {
+  if (!client.wallet) return toast("Connect wallet first", true);
+  const wasDisabled = button.disabled;
+  button.disabled = true;
+  try {
+    const result = await send();
+    toast(`${label} — ${result.signature.slice(0, 8)}…`);
+    await refresh();
+  } catch (err) {
+    toast(describeError(err, PROGRAM), true);
+  } finally {
+    button.disabled = wasDisabled;
+    // Governance buttons recompute their own state
+    governance.render();
+  }
+}
+
+/** Wire `buttonId` to a send. */
+function action(
+  buttonId: string,
+  label: string,
+  send: () => Promise<SendResult>
+): void {
+  const button = byId<HTMLButtonElement>(buttonId);
+  button.addEventListener("click", () => run(button, label, send));
+}
+
+async function connectWallet(): Promise<void> {
+  const injected = window.solana;
+  if (!injected?.isPhantom) return toast("Phantom wallet not found", true);
+  try {
+    const { publicKey } = await injected.connect();
+    const wallet: SolForgeWallet = {
+      publicKey,
+      signTransaction: (tx) => injected.signTransaction(tx),
+      signAllTransactions: (txs) => injected.signAllTransactions(txs),
+    };
+    createClient(new AnchorProvider(connection, wallet, { commitment: "confirmed" }));
+    const button = byId("connectBtn");
+    button.textContent = shortKey(publicKey);
+    button.classList.add("connected");
+    await refresh();
+    toast("Wallet connected");
+  } catch (err) {
+    toast(describeError(err, PROGRAM), true);
+  }
+}
+
+function wireActions(): void {
+  byId("connectBtn").addEventListener("click", connectWallet);
+  byId("historyBucket").addEventListener("change", () =>
+    refreshHistory().catch((err) => toast(describeError(err, PROGRAM), true))
+  );
+
+  action("initBtn", "Vault initialized", () =>
+    client.initializeVault(
+      parseInteger(input("initFee"), "fee rate"),
+      parseInteger(input("initBurn"), "burn %"),
+      parseOptionalInt(input("initDelay"), "delay")
+    )
+  );
+  action("accrueBtn", "Fee accrued", () => client.accrueFee(parseSol(input("feeAmount"))));
+  action("burnBtn", "SOL burned", () => client.burnSol(parseSol(input("burnAmount"))));
+  action("distributeBtn", "Rewards distributed", () =>
+    client.distributeRewards(
+      new PublicKey(input("distRecipient")),
+      parseSol(input("distAmount"))
+    )
+  );
+  action("proposeBtn", "Proposal submitted", () =>
+    client.proposeParameterUpdate({
+      burnBps: parseOptionalInt(input("govBurn"), "burn %"),
+      delaySeconds: parseOptionalInt(input("govDelay"), "delay"),
+      feeBps: parseOptionalInt(input("govFee"), "fee rate"),
+    })
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Startup
+// ---------------------------------------------------------------------------
+
+async function start(): Promise<void> {
+  setText("networkBadge", CLUSTER);
+  createClient(connection);
+  wireActions();
+
+  // Logs subscriptions live on the connection, so this survives reconnects
+  client.onVaultEvents((events, slot, signature) => {
+    for (const event of events) feed.push(event, slot, signature);
+    scheduleRefresh();
+  });
+  await refresh();
+}
+
+start().catch((err) => toast(describeError(err, PROGRAM), true));
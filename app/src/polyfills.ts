@@ -0,0 +1,6 @@
+import { Buffer } from "buffer";
+
+// web3.js and Anchor expect Node's `Buffer` global. Imported first by main.ts.
+// @types/node (via web3.js) already declares the global class, so only the
+// runtime value is set here.
+if (!("Buffer" in globalThis)) Object.assign(globalThis, { Buffer });
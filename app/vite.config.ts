@@ -0,0 +1,7 @@
+import { defineConfig } from "vite";
+
+// The SDK is a linked CommonJS package: pre-bundle it like a registry dep.
+export default defineConfig({
+  optimizeDeps: { include: ["@solforge/sdk"] },
+  build: { commonjsOptions: { include: [/sdk/, /node_modules/] } },
+});
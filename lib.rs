@@ -1,5 +1,9 @@
 use anchor_lang::prelude::*;
+use anchor_lang::solana_program::hash::hashv;
 use anchor_lang::system_program;
+use anchor_spl::token_interface::{
+    self, Burn, Mint, TokenAccount, TokenInterface, TransferChecked,
+};
 
 declare_id!("F1aLM6gPxEmoGRCT84ZYTSWAgiaaf3m4JHabr4nkBiHo");
 
@@ -14,17 +18,24 @@ pub const DEFAULT_DELAY_SECONDS: i64 = 86_400;       // 24 hours
 pub const MIN_DELAY_SECONDS: i64 = 3_600;            // 1 hour
 pub const MAX_DELAY_SECONDS: i64 = 604_800;          // 7 days
 pub const MIN_BURN_AMOUNT_LAMPORTS: u64 = 1_000_000; // 0.001 SOL
+pub const PROPOSAL_EXECUTION_WINDOW_SECONDS: i64 = 604_800; // 7 days after release
+// Keeps the claimed bitmap (one bit per recipient) under the 10 KiB
+// limit for accounts created inside an instruction
+pub const MAX_DISTRIBUTION_RECIPIENTS: u32 = 80_000;
 
 #[program]
 pub mod sol_forge {
     use super::*;
 
-    /// Initialize singleton PDA vault
+    /// Initialize a PDA vault under a caller-chosen namespace
+    /// (e.g. the creator's key or a hash of the protocol name)
     pub fn initialize_vault(
         ctx: Context<InitializeVault>,
+        namespace: Pubkey,
         fee_bps: u16,
         burn_bps: u16,
         delay_seconds: Option<i64>,
+        guardian: Option<Pubkey>,
     ) -> Result<()> {
         require!(fee_bps <= 10_000, ErrorCode::InvalidFeeRate);
         require!(burn_bps <= 10_000, ErrorCode::InvalidBurnPercentage);
@@ -38,18 +49,31 @@ pub mod sol_forge {
         let vault = &mut ctx.accounts.vault;
         **vault = Vault {
             authority: *ctx.accounts.authority.key,
+            namespace,
             total_accrued: 0,
             fee_basis_points: fee_bps,
             burn_percentage_bps: burn_bps,
             delay_seconds: delay,
             bump: ctx.bumps.vault,
-            pending_burn_percentage_bps: None,
-            pending_delay_seconds: None,
-            pending_release_time: 0,
+            proposal_count: 0,
+            pending_authority: None,
+            authority_transfer_release_time: 0,
+            spending_caps: SpendingCaps::default(),
+            window_start: 0,
+            window_start_balance: 0,
+            distributed_in_window: 0,
+            burned_in_window: 0,
+            allowlist_enabled: false,
+            guardian,
+            paused: false,
+            unpause_release_time: 0,
+            schedule_count: 0,
+            distribution_count: 0,
         };
 
         msg!(
-            "SolForge vault initialized | authority={} fee={} bps burn={} bps delay={}s",
+            "SolForge vault initialized | namespace={} authority={} fee={} bps burn={} bps delay={}s",
+            vault.namespace,
             vault.authority,
             fee_bps,
             burn_bps,
@@ -61,282 +85,1422 @@ pub mod sol_forge {
     /// Anyone can pay SOL into the vault (real fee capture).
     /// A portion is auto-burned according to current burn %.
     pub fn accrue_fee(ctx: Context<AccrueFee>, amount_lamports: u64) -> Result<()> {
+        require!(!ctx.accounts.vault.paused, ErrorCode::Paused);
         require!(amount_lamports > 0, ErrorCode::AmountTooSmall);
+        accrue_lamports(ctx.accounts, amount_lamports)
+    }
+
+    /// Charge `fee_basis_points` of a stated trade volume (rounded down),
+    /// then auto-burn like `accrue_fee`.
+    pub fn accrue_fee_on_volume(ctx: Context<AccrueFee>, volume_lamports: u64) -> Result<()> {
+        require!(!ctx.accounts.vault.paused, ErrorCode::Paused);
+        let fee_bps = ctx.accounts.vault.fee_basis_points;
+        let fee = ((volume_lamports as u128) * fee_bps as u128 / 10_000) as u64;
+        require!(fee > 0, ErrorCode::AmountTooSmall);
+        accrue_lamports(ctx.accounts, fee)
+    }
+
+    /// Authority manually burns SOL from vault (extra deflation)
+    pub fn burn_sol(ctx: Context<BurnSol>, amount_lamports: u64) -> Result<()> {
+        require!(!ctx.accounts.vault.paused, ErrorCode::Paused);
+        require!(
+            amount_lamports >= MIN_BURN_AMOUNT_LAMPORTS,
+            ErrorCode::AmountTooSmall
+        );
+        require!(
+            amount_lamports <= ctx.accounts.vault.total_accrued,
+            ErrorCode::InsufficientBalance
+        );
+        spend_within_cap(&mut ctx.accounts.vault, Outflow::Burn, amount_lamports)?;
+
+        // The system program cannot debit a data-carrying account
+        ctx.accounts.vault.sub_lamports(amount_lamports)?;
+        ctx.accounts.incinerator.add_lamports(amount_lamports)?;
+
+        let vault = &mut ctx.accounts.vault;
+        vault.total_accrued = vault
+            .total_accrued
+            .checked_sub(amount_lamports)
+            .ok_or(ErrorCode::ArithmeticUnderflow)?;
+
+        emit!(SolBurned {
+            amount: amount_lamports,
+            remaining: vault.total_accrued,
+        });
+        Ok(())
+    }
+
+    /// Authority sends SOL from vault to any address (rewards, treasury,
+    /// etc.), or only to active allowlist entries in allowlist mode.
+    pub fn distribute_rewards(
+        ctx: Context<DistributeRewards>,
+        amount_lamports: u64,
+    ) -> Result<()> {
+        let accounts = ctx.accounts;
+        if accounts.vault.allowlist_enabled {
+            require_allowlisted(&accounts.allowlist_entry)?;
+        }
+        pay_rewards(&mut accounts.vault, &accounts.recipient, amount_lamports)
+    }
 
-        // Grab account infos and bump BEFORE mutable borrow
+    /// Authority accounts for lamports that reached the vault outside
+    /// `accrue_fee` (e.g. plain transfers to the PDA): either add them to
+    /// `total_accrued` or burn them.
+    pub fn sweep_surplus(ctx: Context<SweepSurplus>, burn: bool) -> Result<()> {
+        // Adding the surplus to `total_accrued` moves no funds
+        require!(!(burn && ctx.accounts.vault.paused), ErrorCode::Paused);
         let vault_info = ctx.accounts.vault.to_account_info();
-        let payer_info = ctx.accounts.payer.to_account_info();
-        let incinerator_info = ctx.accounts.incinerator.to_account_info();
-        let system_info = ctx.accounts.system_program.to_account_info();
-        let bump = ctx.accounts.vault.bump;
-        let burn_bps = ctx.accounts.vault.burn_percentage_bps;
+        let rent_exempt = Rent::get()?.minimum_balance(vault_info.data_len());
+        let surplus = vault_info
+            .lamports()
+            .saturating_sub(rent_exempt)
+            .saturating_sub(ctx.accounts.vault.total_accrued);
+        require!(surplus > 0, ErrorCode::NoSurplus);
+        if burn {
+            spend_within_cap(&mut ctx.accounts.vault, Outflow::Burn, surplus)?;
+        }
+
+        let vault = &mut ctx.accounts.vault;
+        if burn {
+            // The vault is owned by this program, so lamports move directly
+            vault.sub_lamports(surplus)?;
+            ctx.accounts.incinerator.add_lamports(surplus)?;
+        } else {
+            vault.total_accrued = vault
+                .total_accrued
+                .checked_add(surplus)
+                .ok_or(ErrorCode::ArithmeticOverflow)?;
+        }
+
+        emit!(SurplusSwept {
+            amount: surplus,
+            burned: burn,
+            total_accrued: vault.total_accrued,
+        });
+        Ok(())
+    }
+
+    // ─── SPL token vaults (one per mint, classic SPL or Token-2022) ─────
+
+    /// Create the per-mint accounting account and the token account the
+    /// vault PDA owns for `mint`.
+    pub fn initialize_token_vault(ctx: Context<InitializeTokenVault>) -> Result<()> {
+        let token_vault = &mut ctx.accounts.token_vault;
+        **token_vault = TokenVault {
+            vault: ctx.accounts.vault.key(),
+            mint: ctx.accounts.mint.key(),
+            token_program: ctx.accounts.token_program.key(),
+            total_accrued: 0,
+            bump: ctx.bumps.token_vault,
+            token_account_bump: ctx.bumps.vault_token_account,
+        };
+
+        msg!(
+            "SolForge token vault initialized | vault={} mint={}",
+            token_vault.vault,
+            token_vault.mint
+        );
+        Ok(())
+    }
+
+    /// Anyone can pay tokens into the vault. The burn share is destroyed
+    /// with an SPL `burn`, reducing the mint's supply.
+    pub fn accrue_token_fee(ctx: Context<AccrueTokenFee>, amount: u64) -> Result<()> {
+        require!(!ctx.accounts.vault.paused, ErrorCode::Paused);
+        require!(amount > 0, ErrorCode::AmountTooSmall);
 
-        // Transfer SOL from payer → vault PDA
-        system_program::transfer(
+        let decimals = ctx.accounts.mint.decimals;
+        let balance_before = ctx.accounts.vault_token_account.amount;
+
+        token_interface::transfer_checked(
             CpiContext::new(
-                system_info.clone(),
-                system_program::Transfer {
-                    from: payer_info,
-                    to: vault_info.clone(),
+                ctx.accounts.token_program.to_account_info(),
+                TransferChecked {
+                    from: ctx.accounts.payer_token_account.to_account_info(),
+                    mint: ctx.accounts.mint.to_account_info(),
+                    to: ctx.accounts.vault_token_account.to_account_info(),
+                    authority: ctx.accounts.payer.to_account_info(),
                 },
             ),
-            amount_lamports,
+            amount,
+            decimals,
         )?;
 
-        let burn_amount =
-            ((amount_lamports as u128) * burn_bps as u128 / 10_000) as u64;
-        let net_amount = amount_lamports.saturating_sub(burn_amount);
+        // Token-2022 transfer fees are withheld from what the vault receives
+        ctx.accounts.vault_token_account.reload()?;
+        let received = ctx
+            .accounts
+            .vault_token_account
+            .amount
+            .checked_sub(balance_before)
+            .ok_or(ErrorCode::ArithmeticUnderflow)?;
+
+        let burn_bps = ctx.accounts.vault.burn_percentage_bps;
+        let burn_amount = ((received as u128) * burn_bps as u128 / 10_000) as u64;
+        let net_amount = received.saturating_sub(burn_amount);
 
-        // Auto-burn portion → incinerator
         if burn_amount > 0 {
-            let seeds = &[b"vault".as_ref(), &[bump]];
-            let signer_seeds = &[&seeds[..]];
+            let namespace = ctx.accounts.vault.namespace;
+            let bump = ctx.accounts.vault.bump;
+            let seeds = &[b"vault".as_ref(), namespace.as_ref(), &[bump]];
+            let signer = &[&seeds[..]];
 
-            system_program::transfer(
+            token_interface::burn(
                 CpiContext::new_with_signer(
-                    system_info,
-                    system_program::Transfer {
-                        from: vault_info,
-                        to: incinerator_info,
+                    ctx.accounts.token_program.to_account_info(),
+                    Burn {
+                        mint: ctx.accounts.mint.to_account_info(),
+                        from: ctx.accounts.vault_token_account.to_account_info(),
+                        authority: ctx.accounts.vault.to_account_info(),
                     },
-                    signer_seeds,
+                    signer,
                 ),
                 burn_amount,
             )?;
         }
 
-        let vault = &mut ctx.accounts.vault;
-        vault.total_accrued = vault
+        let token_vault = &mut ctx.accounts.token_vault;
+        token_vault.total_accrued = token_vault
             .total_accrued
             .checked_add(net_amount)
             .ok_or(ErrorCode::ArithmeticOverflow)?;
 
-        emit!(FeeAccrued {
-            payer: *ctx.accounts.payer.key,
-            gross: amount_lamports,
+        emit!(TokenFeeAccrued {
+            mint: token_vault.mint,
+            payer: ctx.accounts.payer.key(),
+            gross: received,
             burned: burn_amount,
             net: net_amount,
-            total_accrued: vault.total_accrued,
+            total_accrued: token_vault.total_accrued,
         });
         Ok(())
     }
 
-    /// Authority manually burns SOL from vault (extra deflation)
-    pub fn burn_sol(ctx: Context<BurnSol>, amount_lamports: u64) -> Result<()> {
-        require!(
-            amount_lamports >= MIN_BURN_AMOUNT_LAMPORTS,
-            ErrorCode::AmountTooSmall
-        );
+    /// Authority burns tokens held by the vault (SPL `burn`)
+    pub fn burn_tokens(ctx: Context<BurnTokens>, amount: u64) -> Result<()> {
+        require!(!ctx.accounts.vault.paused, ErrorCode::Paused);
+        require!(amount > 0, ErrorCode::AmountTooSmall);
         require!(
-            amount_lamports <= ctx.accounts.vault.total_accrued,
+            amount <= ctx.accounts.token_vault.total_accrued,
             ErrorCode::InsufficientBalance
         );
 
-        // Grab infos before mutable borrow
-        let vault_info = ctx.accounts.vault.to_account_info();
-        let incinerator_info = ctx.accounts.incinerator.to_account_info();
-        let system_info = ctx.accounts.system_program.to_account_info();
+        let namespace = ctx.accounts.vault.namespace;
         let bump = ctx.accounts.vault.bump;
-
-        let seeds = &[b"vault".as_ref(), &[bump]];
+        let seeds = &[b"vault".as_ref(), namespace.as_ref(), &[bump]];
         let signer = &[&seeds[..]];
 
-        system_program::transfer(
+        token_interface::burn(
             CpiContext::new_with_signer(
-                system_info,
-                system_program::Transfer {
-                    from: vault_info,
-                    to: incinerator_info,
+                ctx.accounts.token_program.to_account_info(),
+                Burn {
+                    mint: ctx.accounts.mint.to_account_info(),
+                    from: ctx.accounts.vault_token_account.to_account_info(),
+                    authority: ctx.accounts.vault.to_account_info(),
                 },
                 signer,
             ),
-            amount_lamports,
+            amount,
         )?;
 
-        let vault = &mut ctx.accounts.vault;
-        vault.total_accrued = vault
+        let token_vault = &mut ctx.accounts.token_vault;
+        token_vault.total_accrued = token_vault
             .total_accrued
-            .checked_sub(amount_lamports)
+            .checked_sub(amount)
             .ok_or(ErrorCode::ArithmeticUnderflow)?;
 
-        emit!(SolBurned {
-            amount: amount_lamports,
-            remaining: vault.total_accrued,
+        emit!(TokensBurned {
+            mint: token_vault.mint,
+            amount,
+            remaining: token_vault.total_accrued,
         });
         Ok(())
     }
 
-    /// Authority sends SOL from vault to any address (rewards, treasury, etc.)
-    pub fn distribute_rewards(
-        ctx: Context<DistributeRewards>,
-        amount_lamports: u64,
+    /// Authority sends tokens from the vault to any token account of the
+    /// mint, or only to accounts of allowlisted owners in allowlist mode.
+    pub fn distribute_token_rewards(
+        ctx: Context<DistributeTokenRewards>,
+        amount: u64,
     ) -> Result<()> {
+        require!(!ctx.accounts.vault.paused, ErrorCode::Paused);
+        require!(amount > 0, ErrorCode::AmountTooSmall);
         require!(
-            amount_lamports >= MIN_BURN_AMOUNT_LAMPORTS,
-            ErrorCode::AmountTooSmall
-        );
-        require!(
-            amount_lamports <= ctx.accounts.vault.total_accrued,
+            amount <= ctx.accounts.token_vault.total_accrued,
             ErrorCode::InsufficientBalance
         );
+        if ctx.accounts.vault.allowlist_enabled {
+            require_allowlisted(&ctx.accounts.allowlist_entry)?;
+        }
 
-        // Grab infos before mutable borrow
-        let vault_info = ctx.accounts.vault.to_account_info();
-        let recipient_info = ctx.accounts.recipient.to_account_info();
-        let system_info = ctx.accounts.system_program.to_account_info();
+        let namespace = ctx.accounts.vault.namespace;
         let bump = ctx.accounts.vault.bump;
-
-        let seeds = &[b"vault".as_ref(), &[bump]];
+        let seeds = &[b"vault".as_ref(), namespace.as_ref(), &[bump]];
         let signer = &[&seeds[..]];
 
-        system_program::transfer(
+        token_interface::transfer_checked(
             CpiContext::new_with_signer(
-                system_info,
-                system_program::Transfer {
-                    from: vault_info,
-                    to: recipient_info,
+                ctx.accounts.token_program.to_account_info(),
+                TransferChecked {
+                    from: ctx.accounts.vault_token_account.to_account_info(),
+                    mint: ctx.accounts.mint.to_account_info(),
+                    to: ctx.accounts.recipient_token_account.to_account_info(),
+                    authority: ctx.accounts.vault.to_account_info(),
                 },
                 signer,
             ),
+            amount,
+            ctx.accounts.mint.decimals,
+        )?;
+
+        let token_vault = &mut ctx.accounts.token_vault;
+        token_vault.total_accrued = token_vault
+            .total_accrued
+            .checked_sub(amount)
+            .ok_or(ErrorCode::ArithmeticUnderflow)?;
+
+        emit!(TokenRewardsDistributed {
+            mint: token_vault.mint,
+            recipient: ctx.accounts.recipient_token_account.owner,
+            amount,
+            remaining: token_vault.total_accrued,
+        });
+        Ok(())
+    }
+
+    // ─── Reward schedules (recurring payouts, permissionless crank) ────
+
+    /// Authority creates a recurring payout of either a fixed
+    /// `amount_lamports` or `amount_bps` of the retained balance, due every
+    /// `interval_seconds` starting one interval from now. Its id is the
+    /// vault's `schedule_count`, so ids of closed schedules are not reused.
+    pub fn create_reward_schedule(
+        ctx: Context<CreateRewardSchedule>,
+        recipient: Pubkey,
+        amount_lamports: u64,
+        amount_bps: u16,
+        interval_seconds: i64,
+        end_time: Option<i64>,
+    ) -> Result<()> {
+        let clock = Clock::get()?;
+        validate_schedule(
+            amount_lamports,
+            amount_bps,
+            interval_seconds,
+            end_time,
+            clock.unix_timestamp,
+        )?;
+        if ctx.accounts.vault.allowlist_enabled {
+            require_allowlisted(&ctx.accounts.allowlist_entry)?;
+        }
+
+        let vault = &mut ctx.accounts.vault;
+        let id = vault.schedule_count;
+        vault.schedule_count = id.checked_add(1).ok_or(ErrorCode::ArithmeticOverflow)?;
+
+        let schedule = &mut ctx.accounts.schedule;
+        **schedule = RewardSchedule {
+            vault: vault.key(),
+            id,
+            recipient,
+            amount_lamports,
+            amount_bps,
+            interval_seconds,
+            next_payout_at: clock.unix_timestamp + interval_seconds,
+            end_time,
+            total_paid: 0,
+            bump: ctx.bumps.schedule,
+        };
+
+        emit!(RewardScheduleCreated {
+            schedule: schedule.key(),
+            id,
+            recipient,
+            amount_lamports,
+            amount_bps,
+            interval_seconds,
+            end_time,
+            next_payout_at: schedule.next_payout_at,
+        });
+        Ok(())
+    }
+
+    /// Authority changes amount, interval or end time. The next due time is
+    /// kept; a new interval applies from the payout after it.
+    pub fn update_reward_schedule(
+        ctx: Context<UpdateRewardSchedule>,
+        amount_lamports: u64,
+        amount_bps: u16,
+        interval_seconds: i64,
+        end_time: Option<i64>,
+    ) -> Result<()> {
+        let clock = Clock::get()?;
+        validate_schedule(
             amount_lamports,
+            amount_bps,
+            interval_seconds,
+            end_time,
+            clock.unix_timestamp,
         )?;
 
+        let schedule = &mut ctx.accounts.schedule;
+        schedule.amount_lamports = amount_lamports;
+        schedule.amount_bps = amount_bps;
+        schedule.interval_seconds = interval_seconds;
+        schedule.end_time = end_time;
+
+        emit!(RewardScheduleUpdated {
+            schedule: schedule.key(),
+            amount_lamports,
+            amount_bps,
+            interval_seconds,
+            end_time,
+        });
+        Ok(())
+    }
+
+    /// Authority closes a schedule; its rent goes back to the authority.
+    pub fn cancel_reward_schedule(ctx: Context<CancelRewardSchedule>) -> Result<()> {
+        emit!(RewardScheduleCanceled {
+            schedule: ctx.accounts.schedule.key(),
+            total_paid: ctx.accounts.schedule.total_paid,
+        });
+        Ok(())
+    }
+
+    /// Anyone pays out a due schedule. Each elapsed interval is owed once,
+    /// so a schedule that was not cranked for a while can be cranked
+    /// repeatedly to catch up.
+    pub fn crank_reward_schedule(ctx: Context<CrankRewardSchedule>) -> Result<()> {
+        let clock = Clock::get()?;
+        let accounts = ctx.accounts;
+        let schedule = &accounts.schedule;
+
+        require!(
+            clock.unix_timestamp >= schedule.next_payout_at,
+            ErrorCode::ScheduleNotDue
+        );
+        if let Some(end_time) = schedule.end_time {
+            require!(schedule.next_payout_at <= end_time, ErrorCode::ScheduleEnded);
+        }
+        // Checked on every payout: the recipient may have been removed, or
+        // allowlist mode turned on, since the schedule was created
+        if accounts.vault.allowlist_enabled {
+            require_allowlisted(&accounts.allowlist_entry)?;
+        }
+
+        let amount_lamports = schedule.payout_amount(accounts.vault.total_accrued);
+        pay_rewards(&mut accounts.vault, &accounts.recipient, amount_lamports)?;
+
+        let schedule = &mut accounts.schedule;
+        schedule.total_paid = schedule
+            .total_paid
+            .checked_add(amount_lamports)
+            .ok_or(ErrorCode::ArithmeticOverflow)?;
+        schedule.next_payout_at = schedule
+            .next_payout_at
+            .checked_add(schedule.interval_seconds)
+            .ok_or(ErrorCode::ArithmeticOverflow)?;
+
+        emit!(RewardSchedulePaid {
+            schedule: schedule.key(),
+            recipient: schedule.recipient,
+            amount: amount_lamports,
+            next_payout_at: schedule.next_payout_at,
+        });
+        Ok(())
+    }
+
+    // ─── Merkle distributions (claimable reward rounds) ────────────────
+
+    /// Authority publishes a round: `total_amount` leaves the vault's
+    /// retained balance for the distribution PDA, and each recipient in the
+    /// tree under `merkle_root` can claim their share until `expires_at`.
+    /// Its id is the vault's `distribution_count`, so ids of swept rounds are
+    /// not reused. Not available in allowlist mode.
+    pub fn create_distribution(
+        ctx: Context<CreateDistribution>,
+        merkle_root: [u8; 32],
+        total_amount: u64,
+        num_recipients: u32,
+        expires_at: i64,
+    ) -> Result<()> {
+        require!(!ctx.accounts.vault.paused, ErrorCode::Paused);
+        // The recipients are only known off-chain, so they cannot be
+        // checked against the allowlist
+        require!(
+            !ctx.accounts.vault.allowlist_enabled,
+            ErrorCode::RecipientNotAllowed
+        );
+        let clock = Clock::get()?;
+        require!(
+            num_recipients > 0 && num_recipients <= MAX_DISTRIBUTION_RECIPIENTS,
+            ErrorCode::InvalidDistribution
+        );
+        require!(expires_at > clock.unix_timestamp, ErrorCode::InvalidDistribution);
+        require!(
+            total_amount >= MIN_BURN_AMOUNT_LAMPORTS,
+            ErrorCode::AmountTooSmall
+        );
+        require!(
+            total_amount <= ctx.accounts.vault.total_accrued,
+            ErrorCode::InsufficientBalance
+        );
+        spend_within_cap(&mut ctx.accounts.vault, Outflow::Distribution, total_amount)?;
+
+        // Both accounts are owned by this program, so lamports move directly
+        ctx.accounts.vault.sub_lamports(total_amount)?;
+        ctx.accounts.distribution.add_lamports(total_amount)?;
         let vault = &mut ctx.accounts.vault;
         vault.total_accrued = vault
             .total_accrued
-            .checked_sub(amount_lamports)
+            .checked_sub(total_amount)
             .ok_or(ErrorCode::ArithmeticUnderflow)?;
+        let id = vault.distribution_count;
+        vault.distribution_count = id.checked_add(1).ok_or(ErrorCode::ArithmeticOverflow)?;
 
-        emit!(RewardsDistributed {
-            recipient: *ctx.accounts.recipient.key,
-            amount: amount_lamports,
+        let distribution = &mut ctx.accounts.distribution;
+        **distribution = Distribution {
+            vault: vault.key(),
+            id,
+            merkle_root,
+            total_amount,
+            claimed_amount: 0,
+            num_recipients,
+            num_claimed: 0,
+            expires_at,
+            bump: ctx.bumps.distribution,
+            claimed: vec![0; Distribution::bitmap_len(num_recipients)],
+        };
+
+        emit!(DistributionCreated {
+            distribution: distribution.key(),
+            id,
+            merkle_root,
+            total_amount,
+            num_recipients,
+            expires_at,
             remaining: vault.total_accrued,
         });
         Ok(())
     }
 
+    /// Recipient claims their leaf `(index, claimant, amount)` with a proof
+    /// against the round's merkle root. Each index pays out once.
+    pub fn claim_distribution(
+        ctx: Context<ClaimDistribution>,
+        index: u32,
+        amount: u64,
+        proof: Vec<[u8; 32]>,
+    ) -> Result<()> {
+        require!(!ctx.accounts.vault.paused, ErrorCode::Paused);
+        let clock = Clock::get()?;
+        let distribution = &ctx.accounts.distribution;
+        require!(
+            clock.unix_timestamp < distribution.expires_at,
+            ErrorCode::DistributionExpired
+        );
+        require!(index < distribution.num_recipients, ErrorCode::InvalidProof);
+        require!(!distribution.is_claimed(index), ErrorCode::AlreadyClaimed);
+
+        let leaf = distribution_leaf(index, &ctx.accounts.claimant.key(), amount);
+        require!(
+            verify_merkle_proof(&proof, distribution.merkle_root, leaf),
+            ErrorCode::InvalidProof
+        );
+        let claimed_amount = distribution
+            .claimed_amount
+            .checked_add(amount)
+            .ok_or(ErrorCode::ArithmeticOverflow)?;
+        // Only a root built over more than `total_amount` could trip this
+        require!(
+            claimed_amount <= distribution.total_amount,
+            ErrorCode::InsufficientBalance
+        );
+
+        ctx.accounts.distribution.sub_lamports(amount)?;
+        ctx.accounts.claimant.add_lamports(amount)?;
+
+        let distribution = &mut ctx.accounts.distribution;
+        distribution.set_claimed(index);
+        distribution.claimed_amount = claimed_amount;
+        distribution.num_claimed += 1;
+
+        emit!(DistributionClaimed {
+            distribution: distribution.key(),
+            index,
+            recipient: ctx.accounts.claimant.key(),
+            amount,
+        });
+        Ok(())
+    }
+
+    /// Authority returns the unclaimed balance to the vault and closes the
+    /// round, once it has expired or every recipient has claimed.
+    pub fn sweep_distribution(ctx: Context<SweepDistribution>) -> Result<()> {
+        let clock = Clock::get()?;
+        let distribution = &ctx.accounts.distribution;
+        require!(
+            clock.unix_timestamp >= distribution.expires_at
+                || distribution.num_claimed == distribution.num_recipients,
+            ErrorCode::DistributionNotExpired
+        );
+
+        let unclaimed = distribution
+            .total_amount
+            .checked_sub(distribution.claimed_amount)
+            .ok_or(ErrorCode::ArithmeticUnderflow)?;
+        ctx.accounts.distribution.sub_lamports(unclaimed)?;
+        ctx.accounts.vault.add_lamports(unclaimed)?;
+
+        let vault = &mut ctx.accounts.vault;
+        vault.total_accrued = vault
+            .total_accrued
+            .checked_add(unclaimed)
+            .ok_or(ErrorCode::ArithmeticOverflow)?;
+
+        emit!(DistributionSwept {
+            distribution: ctx.accounts.distribution.key(),
+            amount: unclaimed,
+            total_accrued: vault.total_accrued,
+        });
+        Ok(())
+    }
+
     // ─── Governance (timelocked parameter updates) ─────────────────────
 
+    /// Queue a parameter update as its own `Proposal` account with the next
+    /// id. Proposals are independent: each keeps its values and timelock
+    /// until executed, canceled or expired.
     pub fn propose_parameter_update(
         ctx: Context<ProposeParameterUpdate>,
         new_burn_bps: Option<u16>,
         new_delay_secs: Option<i64>,
+        new_fee_bps: Option<u16>,
+        new_spending_caps: Option<SpendingCaps>,
+        new_allowlist_enabled: Option<bool>,
+        new_guardian: Option<Pubkey>,
     ) -> Result<()> {
         require!(
-            new_burn_bps.is_some() || new_delay_secs.is_some(),
+            new_burn_bps.is_some()
+                || new_delay_secs.is_some()
+                || new_fee_bps.is_some()
+                || new_spending_caps.is_some()
+                || new_allowlist_enabled.is_some()
+                || new_guardian.is_some(),
             ErrorCode::NoChangeProposed
         );
-
-        let vault = &mut ctx.accounts.vault;
-        let clock = Clock::get()?;
-
         if let Some(bps) = new_burn_bps {
             require!(bps <= 10_000, ErrorCode::InvalidBurnPercentage);
-            vault.pending_burn_percentage_bps = Some(bps);
         }
         if let Some(secs) = new_delay_secs {
             require!(
                 secs >= MIN_DELAY_SECONDS && secs <= MAX_DELAY_SECONDS,
                 ErrorCode::InvalidDelay
             );
-            vault.pending_delay_seconds = Some(secs);
         }
+        if let Some(bps) = new_fee_bps {
+            require!(bps <= 10_000, ErrorCode::InvalidFeeRate);
+        }
+        if let Some(caps) = &new_spending_caps {
+            validate_spending_caps(caps)?;
+        }
+
+        let vault = &mut ctx.accounts.vault;
+        let clock = Clock::get()?;
+        let id = vault.proposal_count;
+        vault.proposal_count = id.checked_add(1).ok_or(ErrorCode::ArithmeticOverflow)?;
 
-        vault.pending_release_time = clock.unix_timestamp + vault.delay_seconds;
+        let release_time = clock.unix_timestamp + vault.delay_seconds;
+        let proposal = &mut ctx.accounts.proposal;
+        **proposal = Proposal {
+            vault: vault.key(),
+            id,
+            proposer: ctx.accounts.authority.key(),
+            burn_percentage_bps: new_burn_bps,
+            delay_seconds: new_delay_secs,
+            fee_basis_points: new_fee_bps,
+            spending_caps: new_spending_caps,
+            allowlist_enabled: new_allowlist_enabled,
+            guardian: new_guardian,
+            proposed_at: clock.unix_timestamp,
+            release_time,
+            expires_at: release_time + PROPOSAL_EXECUTION_WINDOW_SECONDS,
+            status: ProposalStatus::Pending,
+            bump: ctx.bumps.proposal,
+        };
 
         emit!(ParameterUpdateProposed {
+            proposal: proposal.key(),
+            id,
             proposed_burn_bps: new_burn_bps,
             proposed_delay_secs: new_delay_secs,
-            release_at: vault.pending_release_time,
+            release_at: release_time,
+            proposed_fee_bps: new_fee_bps,
+            expires_at: proposal.expires_at,
+            proposed_spending_caps: new_spending_caps,
+            proposed_allowlist_enabled: new_allowlist_enabled,
+            proposed_guardian: new_guardian,
         });
         Ok(())
     }
 
     pub fn execute_parameter_update(ctx: Context<ExecuteParameterUpdate>) -> Result<()> {
         let vault = &mut ctx.accounts.vault;
+        let proposal = &mut ctx.accounts.proposal;
         let clock = Clock::get()?;
 
+        require!(!vault.paused, ErrorCode::Paused);
         require!(
-            vault.pending_burn_percentage_bps.is_some() || vault.pending_delay_seconds.is_some(),
+            proposal.status == ProposalStatus::Pending,
             ErrorCode::NoPendingUpdate
         );
         require!(
-            clock.unix_timestamp >= vault.pending_release_time,
+            clock.unix_timestamp >= proposal.release_time,
             ErrorCode::TimelockNotExpired
         );
+        require!(
+            clock.unix_timestamp <= proposal.expires_at,
+            ErrorCode::ProposalExpired
+        );
 
-        if let Some(bps) = vault.pending_burn_percentage_bps {
+        if let Some(bps) = proposal.burn_percentage_bps {
             vault.burn_percentage_bps = bps;
         }
-        if let Some(secs) = vault.pending_delay_seconds {
+        if let Some(secs) = proposal.delay_seconds {
             vault.delay_seconds = secs;
         }
+        if let Some(bps) = proposal.fee_basis_points {
+            vault.fee_basis_points = bps;
+        }
+        if let Some(caps) = proposal.spending_caps {
+            // New caps start a fresh window from now
+            vault.spending_caps = caps;
+            vault.window_start = clock.unix_timestamp;
+            vault.window_start_balance = vault.total_accrued;
+            vault.distributed_in_window = 0;
+            vault.burned_in_window = 0;
+        }
+        if let Some(enabled) = proposal.allowlist_enabled {
+            vault.allowlist_enabled = enabled;
+        }
+        if let Some(guardian) = proposal.guardian {
+            // The default key removes the guardian
+            vault.guardian = (guardian != Pubkey::default()).then_some(guardian);
+        }
+        proposal.status = ProposalStatus::Executed;
 
-        vault.pending_burn_percentage_bps = None;
-        vault.pending_delay_seconds = None;
-        vault.pending_release_time = 0;
-
-        emit!(ParameterUpdateExecuted {});
+        emit!(ParameterUpdateExecuted {
+            proposal: proposal.key(),
+            id: proposal.id,
+        });
         Ok(())
     }
 
+    /// Withdraw a pending proposal. Past its execution window the proposal
+    /// is recorded as `Expired` rather than `Canceled`.
     pub fn cancel_parameter_proposal(ctx: Context<CancelParameterProposal>) -> Result<()> {
-        let vault = &mut ctx.accounts.vault;
+        let proposal = &mut ctx.accounts.proposal;
+        let clock = Clock::get()?;
 
         require!(
-            vault.pending_burn_percentage_bps.is_some() || vault.pending_delay_seconds.is_some(),
+            proposal.status == ProposalStatus::Pending,
             ErrorCode::NoPendingUpdate
         );
 
-        vault.pending_burn_percentage_bps = None;
-        vault.pending_delay_seconds = None;
-        vault.pending_release_time = 0;
+        let expired = clock.unix_timestamp > proposal.expires_at;
+        proposal.status = if expired {
+            ProposalStatus::Expired
+        } else {
+            ProposalStatus::Canceled
+        };
 
-        emit!(ParameterUpdateCanceled {});
+        emit!(ParameterUpdateCanceled {
+            proposal: proposal.key(),
+            id: proposal.id,
+            expired,
+        });
         Ok(())
     }
-}
 
-// ─── Account Definitions ──────────────────────────────────────────────────────
+    // ─── Recipient allowlist (timelocked additions, instant removal) ────
 
-#[account]
-pub struct Vault {
-    pub authority: Pubkey,
-    pub total_accrued: u64,
-    pub fee_basis_points: u16,
-    pub burn_percentage_bps: u16,
-    pub delay_seconds: i64,
-    pub bump: u8,
-    // Pending governance update
-    pub pending_burn_percentage_bps: Option<u16>,
-    pub pending_delay_seconds: Option<i64>,
-    pub pending_release_time: i64,
-}
+    /// Authority proposes `recipient` for the allowlist. It can be added
+    /// after `delay_seconds`.
+    pub fn propose_allowlist_addition(
+        ctx: Context<ProposeAllowlistAddition>,
+        recipient: Pubkey,
+    ) -> Result<()> {
+        let clock = Clock::get()?;
+        let entry = &mut ctx.accounts.entry;
+        **entry = AllowlistEntry {
+            vault: ctx.accounts.vault.key(),
+            recipient,
+            proposed_at: clock.unix_timestamp,
+            release_time: clock.unix_timestamp + ctx.accounts.vault.delay_seconds,
+            active: false,
+            bump: ctx.bumps.entry,
+        };
 
-impl Vault {
-    pub const INIT_SPACE: usize = 8  // discriminator
-        + 32  // authority: Pubkey
-        + 8   // total_accrued: u64
-        + 2   // fee_basis_points: u16
-        + 2   // burn_percentage_bps: u16
-        + 8   // delay_seconds: i64
-        + 1   // bump: u8
-        + (1 + 2)  // Option<u16> pending_burn_percentage_bps
-        + (1 + 8)  // Option<i64> pending_delay_seconds
-        + 8;  // pending_release_time: i64
-}
+        emit!(AllowlistAdditionProposed {
+            recipient,
+            release_at: entry.release_time,
+        });
+        Ok(())
+    }
 
-// ─── Instruction Account Structs ──────────────────────────────────────────────
+    /// Activate a proposed entry once its timelock has expired.
+    pub fn execute_allowlist_addition(ctx: Context<ExecuteAllowlistAddition>) -> Result<()> {
+        let entry = &mut ctx.accounts.entry;
+        let clock = Clock::get()?;
 
-#[derive(Accounts)]
-#[instruction(fee_bps: u16, burn_bps: u16, _delay: Option<i64>)]
-pub struct InitializeVault<'info> {
-    #[account(
-        init,
-        payer = authority,
-        space = Vault::INIT_SPACE,
-        seeds = [b"vault"],
-        bump
+        require!(!ctx.accounts.vault.paused, ErrorCode::Paused);
+        require!(!entry.active, ErrorCode::NoPendingUpdate);
+        require!(
+            clock.unix_timestamp >= entry.release_time,
+            ErrorCode::TimelockNotExpired
+        );
+        entry.active = true;
+
+        emit!(AllowlistRecipientAdded {
+            recipient: entry.recipient,
+        });
+        Ok(())
+    }
+
+    /// Remove an entry, active or still pending, with no timelock. Its rent
+    /// goes back to the authority.
+    pub fn remove_allowlist_recipient(ctx: Context<RemoveAllowlistRecipient>) -> Result<()> {
+        emit!(AllowlistRecipientRemoved {
+            recipient: ctx.accounts.entry.recipient,
+            was_active: ctx.accounts.entry.active,
+        });
+        Ok(())
+    }
+
+    // ─── Emergency pause (guardian pauses, authority unpauses) ─────────
+
+    /// Guardian stops SOL and token accrual, burns, distributions, claims,
+    /// schedule cranks and proposal execution immediately. Pausing a paused
+    /// vault withdraws a pending unpause.
+    pub fn pause(ctx: Context<Pause>) -> Result<()> {
+        let vault = &mut ctx.accounts.vault;
+        vault.paused = true;
+        vault.unpause_release_time = 0;
+
+        emit!(VaultPaused {
+            guardian: ctx.accounts.guardian.key(),
+        });
+        Ok(())
+    }
+
+    /// Authority starts the unpause timelock. Re-proposing restarts it.
+    pub fn propose_unpause(ctx: Context<ProposeUnpause>) -> Result<()> {
+        let vault = &mut ctx.accounts.vault;
+        let clock = Clock::get()?;
+
+        require!(vault.paused, ErrorCode::NoChangeProposed);
+        vault.unpause_release_time = clock.unix_timestamp + vault.delay_seconds;
+
+        emit!(UnpauseProposed {
+            release_at: vault.unpause_release_time,
+        });
+        Ok(())
+    }
+
+    /// Authority resumes the vault once the unpause timelock has expired.
+    pub fn unpause(ctx: Context<Unpause>) -> Result<()> {
+        let vault = &mut ctx.accounts.vault;
+        let clock = Clock::get()?;
+
+        require!(
+            vault.paused && vault.unpause_release_time > 0,
+            ErrorCode::NoPendingUpdate
+        );
+        require!(
+            clock.unix_timestamp >= vault.unpause_release_time,
+            ErrorCode::TimelockNotExpired
+        );
+        vault.paused = false;
+        vault.unpause_release_time = 0;
+
+        emit!(VaultUnpaused {
+            authority: ctx.accounts.authority.key(),
+        });
+        Ok(())
+    }
+
+    // ─── Authority transfer (timelocked two-step handoff) ──────────────
+
+    /// Nominate a new authority. It can accept after `delay_seconds`;
+    /// re-proposing replaces the nominee and restarts the timelock.
+    pub fn propose_authority_transfer(
+        ctx: Context<ProposeAuthorityTransfer>,
+        new_authority: Pubkey,
+    ) -> Result<()> {
+        let vault = &mut ctx.accounts.vault;
+        let clock = Clock::get()?;
+
+        require!(new_authority != vault.authority, ErrorCode::NoChangeProposed);
+
+        vault.pending_authority = Some(new_authority);
+        vault.authority_transfer_release_time = clock.unix_timestamp + vault.delay_seconds;
+
+        emit!(AuthorityTransferProposed {
+            current_authority: vault.authority,
+            new_authority,
+            release_at: vault.authority_transfer_release_time,
+        });
+        Ok(())
+    }
+
+    /// Nominee takes over once the timelock has expired.
+    pub fn accept_authority_transfer(ctx: Context<AcceptAuthorityTransfer>) -> Result<()> {
+        let vault = &mut ctx.accounts.vault;
+        let clock = Clock::get()?;
+
+        let new_authority = vault.pending_authority.ok_or(ErrorCode::NoPendingUpdate)?;
+        require!(
+            ctx.accounts.new_authority.key() == new_authority,
+            ErrorCode::Unauthorized
+        );
+        require!(
+            clock.unix_timestamp >= vault.authority_transfer_release_time,
+            ErrorCode::TimelockNotExpired
+        );
+
+        let previous_authority = vault.authority;
+        vault.authority = new_authority;
+        vault.pending_authority = None;
+        vault.authority_transfer_release_time = 0;
+
+        emit!(AuthorityTransferred {
+            previous_authority,
+            new_authority,
+        });
+        Ok(())
+    }
+
+    pub fn cancel_authority_transfer(ctx: Context<CancelAuthorityTransfer>) -> Result<()> {
+        let vault = &mut ctx.accounts.vault;
+
+        let canceled_authority = vault.pending_authority.ok_or(ErrorCode::NoPendingUpdate)?;
+        vault.pending_authority = None;
+        vault.authority_transfer_release_time = 0;
+
+        emit!(AuthorityTransferCanceled { canceled_authority });
+        Ok(())
+    }
+}
+
+// ─── Shared Handler Logic ─────────────────────────────────────────────────────
+
+/// Move `amount_lamports` from the payer into the vault and burn the
+/// vault's burn share of it.
+fn accrue_lamports(accounts: &mut AccrueFee, amount_lamports: u64) -> Result<()> {
+    let burn_bps = accounts.vault.burn_percentage_bps;
+
+    // Transfer SOL from payer → vault PDA
+    system_program::transfer(
+        CpiContext::new(
+            accounts.system_program.to_account_info(),
+            system_program::Transfer {
+                from: accounts.payer.to_account_info(),
+                to: accounts.vault.to_account_info(),
+            },
+        ),
+        amount_lamports,
+    )?;
+
+    let burn_amount =
+        ((amount_lamports as u128) * burn_bps as u128 / 10_000) as u64;
+    let net_amount = amount_lamports.saturating_sub(burn_amount);
+
+    // Auto-burn portion → incinerator
+    if burn_amount > 0 {
+        accounts.vault.sub_lamports(burn_amount)?;
+        accounts.incinerator.add_lamports(burn_amount)?;
+    }
+
+    let vault = &mut accounts.vault;
+    vault.total_accrued = vault
+        .total_accrued
+        .checked_add(net_amount)
+        .ok_or(ErrorCode::ArithmeticOverflow)?;
+
+    emit!(FeeAccrued {
+        payer: *accounts.payer.key,
+        gross: amount_lamports,
+        burned: burn_amount,
+        net: net_amount,
+        total_accrued: vault.total_accrued,
+    });
+    Ok(())
+}
+
+/// Send `amount_lamports` from the vault to `recipient` with the pause,
+/// dust, balance and spending cap checks of `distribute_rewards`.
+fn pay_rewards<'info>(
+    vault: &mut Account<'info, Vault>,
+    recipient: &AccountInfo<'info>,
+    amount_lamports: u64,
+) -> Result<()> {
+    require!(!vault.paused, ErrorCode::Paused);
+    require!(
+        amount_lamports >= MIN_BURN_AMOUNT_LAMPORTS,
+        ErrorCode::AmountTooSmall
+    );
+    require!(
+        amount_lamports <= vault.total_accrued,
+        ErrorCode::InsufficientBalance
+    );
+    spend_within_cap(vault, Outflow::Distribution, amount_lamports)?;
+
+    vault.sub_lamports(amount_lamports)?;
+    recipient.add_lamports(amount_lamports)?;
+
+    vault.total_accrued = vault
+        .total_accrued
+        .checked_sub(amount_lamports)
+        .ok_or(ErrorCode::ArithmeticUnderflow)?;
+
+    emit!(RewardsDistributed {
+        recipient: recipient.key(),
+        amount: amount_lamports,
+        remaining: vault.total_accrued,
+    });
+    Ok(())
+}
+
+/// `entry` must be an active `AllowlistEntry`. Its address is already
+/// pinned to the vault and recipient by the account constraints.
+fn require_allowlisted(entry: &AccountInfo) -> Result<()> {
+    // An address that was never proposed has no account at all
+    require!(*entry.owner == crate::ID, ErrorCode::RecipientNotAllowed);
+    let data = entry.try_borrow_data()?;
+    let entry = AllowlistEntry::try_deserialize(&mut &data[..])
+        .map_err(|_| error!(ErrorCode::RecipientNotAllowed))?;
+    require!(entry.active, ErrorCode::RecipientNotAllowed);
+    Ok(())
+}
+
+/// Count `amount` against the vault's cap for `outflow` in the current
+/// window, starting a new window first if the last one has ended.
+fn spend_within_cap(vault: &mut Vault, outflow: Outflow, amount: u64) -> Result<()> {
+    vault.roll_spending_window(Clock::get()?.unix_timestamp);
+    let caps = vault.spending_caps;
+    let base = vault.window_start_balance;
+    let (limit, spent) = match outflow {
+        Outflow::Distribution => (
+            cap_limit(caps.distribution_lamports, caps.distribution_bps, base),
+            &mut vault.distributed_in_window,
+        ),
+        Outflow::Burn => (
+            cap_limit(caps.burn_lamports, caps.burn_bps, base),
+            &mut vault.burned_in_window,
+        ),
+    };
+    let total = spent.checked_add(amount).ok_or(ErrorCode::ArithmeticOverflow)?;
+    if let Some(limit) = limit {
+        require!(total <= limit, ErrorCode::SpendingCapExceeded);
+    }
+    *spent = total;
+    Ok(())
+}
+
+/// Lamports a cap allows per window, or `None` when uncapped. A bps cap is
+/// a share of `base` (`total_accrued` at the window start).
+fn cap_limit(lamports: u64, bps: u16, base: u64) -> Option<u64> {
+    if lamports > 0 {
+        Some(lamports)
+    } else if bps > 0 {
+        Some(((base as u128) * bps as u128 / 10_000) as u64)
+    } else {
+        None
+    }
+}
+
+/// Each cap is at most one of a fixed amount or a bps share, and any cap
+/// needs a positive window.
+fn validate_spending_caps(caps: &SpendingCaps) -> Result<()> {
+    require!(
+        caps.distribution_lamports == 0 || caps.distribution_bps == 0,
+        ErrorCode::InvalidSpendingCap
+    );
+    require!(
+        caps.burn_lamports == 0 || caps.burn_bps == 0,
+        ErrorCode::InvalidSpendingCap
+    );
+    require!(
+        caps.distribution_bps <= 10_000 && caps.burn_bps <= 10_000,
+        ErrorCode::InvalidSpendingCap
+    );
+    require!(
+        caps.window_seconds > 0 || (caps.window_seconds == 0 && caps.is_uncapped()),
+        ErrorCode::InvalidSpendingCap
+    );
+    Ok(())
+}
+
+/// Exactly one of a fixed amount (above the dust floor) or a bps share,
+/// a positive interval, and an end time in the future.
+fn validate_schedule(
+    amount_lamports: u64,
+    amount_bps: u16,
+    interval_seconds: i64,
+    end_time: Option<i64>,
+    now: i64,
+) -> Result<()> {
+    require!(
+        (amount_lamports == 0) != (amount_bps == 0),
+        ErrorCode::InvalidSchedule
+    );
+    require!(
+        amount_lamports == 0 || amount_lamports >= MIN_BURN_AMOUNT_LAMPORTS,
+        ErrorCode::AmountTooSmall
+    );
+    require!(amount_bps <= 10_000, ErrorCode::InvalidSchedule);
+    require!(interval_seconds > 0, ErrorCode::InvalidSchedule);
+    if let Some(end_time) = end_time {
+        require!(end_time > now, ErrorCode::InvalidSchedule);
+    }
+    Ok(())
+}
+
+/// Leaf of a distribution tree: `sha256(0x00 || index || recipient || amount)`
+/// with integers little-endian.
+fn distribution_leaf(index: u32, recipient: &Pubkey, amount: u64) -> [u8; 32] {
+    hashv(&[
+        &[0u8],
+        &index.to_le_bytes(),
+        recipient.as_ref(),
+        &amount.to_le_bytes(),
+    ])
+    .to_bytes()
+}
+
+/// Fold `proof` into `leaf`, hashing each pair as
+/// `sha256(0x01 || min || max)`, and compare with `root`.
+fn verify_merkle_proof(proof: &[[u8; 32]], root: [u8; 32], leaf: [u8; 32]) -> bool {
+    let computed = proof.iter().fold(leaf, |node, sibling| {
+        let (left, right) = if node <= *sibling {
+            (node, *sibling)
+        } else {
+            (*sibling, node)
+        };
+        hashv(&[&[1u8], &left, &right]).to_bytes()
+    });
+    computed == root
+}
+
+// ─── Account Definitions ──────────────────────────────────────────────────────
+
+#[account]
+pub struct Vault {
+    pub authority: Pubkey,
+    pub namespace: Pubkey,
+    pub total_accrued: u64,
+    pub fee_basis_points: u16,
+    pub burn_percentage_bps: u16,
+    pub delay_seconds: i64,
+    pub bump: u8,
+    /// Id the next governance proposal will get
+    pub proposal_count: u64,
+    // Pending authority transfer
+    pub pending_authority: Option<Pubkey>,
+    pub authority_transfer_release_time: i64,
+    // Spending caps and what the current window has used
+    pub spending_caps: SpendingCaps,
+    pub window_start: i64,
+    /// `total_accrued` when the window started, the base for bps caps
+    pub window_start_balance: u64,
+    pub distributed_in_window: u64,
+    pub burned_in_window: u64,
+    /// Outflows to chosen recipients only pay active allowlist entries
+    pub allowlist_enabled: bool,
+    /// Key that can pause the vault, separate from `authority`
+    pub guardian: Option<Pubkey>,
+    pub paused: bool,
+    /// When the authority may unpause; 0 if no unpause is pending
+    pub unpause_release_time: i64,
+    /// Id the next reward schedule will get
+    pub schedule_count: u64,
+    /// Id the next distribution round will get
+    pub distribution_count: u64,
+}
+
+impl Vault {
+    pub const INIT_SPACE: usize = 8  // discriminator
+        + 32  // authority: Pubkey
+        + 32  // namespace: Pubkey
+        + 8   // total_accrued: u64
+        + 2   // fee_basis_points: u16
+        + 2   // burn_percentage_bps: u16
+        + 8   // delay_seconds: i64
+        + 1   // bump: u8
+        + 8   // proposal_count: u64
+        + (1 + 32) // Option<Pubkey> pending_authority
+        + 8   // authority_transfer_release_time: i64
+        + SpendingCaps::SIZE
+        + 8   // window_start: i64
+        + 8   // window_start_balance: u64
+        + 8   // distributed_in_window: u64
+        + 8   // burned_in_window: u64
+        + 1   // allowlist_enabled: bool
+        + (1 + 32) // Option<Pubkey> guardian
+        + 1   // paused: bool
+        + 8   // unpause_release_time: i64
+        + 8   // schedule_count: u64
+        + 8;  // distribution_count: u64
+
+    /// Start a new cap window if the current one has ended. Windows stay
+    /// aligned to the start of the first one.
+    pub fn roll_spending_window(&mut self, now: i64) {
+        let window = self.spending_caps.window_seconds;
+        if window <= 0 || now < self.window_start + window {
+            return;
+        }
+        self.window_start += (now - self.window_start) / window * window;
+        self.window_start_balance = self.total_accrued;
+        self.distributed_in_window = 0;
+        self.burned_in_window = 0;
+    }
+}
+
+/// Per-window limits on SOL leaving the vault. Each limit is a fixed
+/// amount or bps of `total_accrued` at the window start; zero in both
+/// leaves it uncapped. Token outflows are not capped: the limits are in
+/// lamports and do not translate to other mints.
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy, Default, PartialEq, Eq)]
+pub struct SpendingCaps {
+    pub window_seconds: i64,
+    /// Covers `distribute_rewards`, schedule cranks and distribution rounds
+    pub distribution_lamports: u64,
+    pub distribution_bps: u16,
+    /// Covers `burn_sol` and burned surplus; auto-burns on accrual are not
+    /// capped
+    pub burn_lamports: u64,
+    pub burn_bps: u16,
+}
+
+impl SpendingCaps {
+    pub const SIZE: usize = 8  // window_seconds: i64
+        + 8   // distribution_lamports: u64
+        + 2   // distribution_bps: u16
+        + 8   // burn_lamports: u64
+        + 2;  // burn_bps: u16
+
+    pub fn is_uncapped(&self) -> bool {
+        self.distribution_lamports == 0
+            && self.distribution_bps == 0
+            && self.burn_lamports == 0
+            && self.burn_bps == 0
+    }
+}
+
+/// Which cap an outflow counts against.
+#[derive(Clone, Copy)]
+pub enum Outflow {
+    Distribution,
+    Burn,
+}
+
+/// Per-mint accounting for tokens held by a vault. The tokens sit in the
+/// PDA token account `["vault_tokens", vault, mint]`, owned by the vault PDA.
+#[account]
+pub struct TokenVault {
+    pub vault: Pubkey,
+    pub mint: Pubkey,
+    pub token_program: Pubkey,
+    pub total_accrued: u64,
+    pub bump: u8,
+    pub token_account_bump: u8,
+}
+
+impl TokenVault {
+    pub const INIT_SPACE: usize = 8  // discriminator
+        + 32  // vault: Pubkey
+        + 32  // mint: Pubkey
+        + 32  // token_program: Pubkey
+        + 8   // total_accrued: u64
+        + 1   // bump: u8
+        + 1;  // token_account_bump: u8
+}
+
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy, PartialEq, Eq)]
+pub enum ProposalStatus {
+    Pending,
+    Executed,
+    Canceled,
+    /// Canceled after its execution window closed
+    Expired,
+}
+
+/// Timelocked parameter update. PDA seeds `["proposal", vault, id (u64 LE)]`;
+/// kept after execution or cancellation as a record.
+#[account]
+pub struct Proposal {
+    pub vault: Pubkey,
+    pub id: u64,
+    pub proposer: Pubkey,
+    pub burn_percentage_bps: Option<u16>,
+    pub delay_seconds: Option<i64>,
+    pub fee_basis_points: Option<u16>,
+    pub spending_caps: Option<SpendingCaps>,
+    pub allowlist_enabled: Option<bool>,
+    /// `Pubkey::default()` removes the guardian
+    pub guardian: Option<Pubkey>,
+    pub proposed_at: i64,
+    /// Executable from this time
+    pub release_time: i64,
+    /// No longer executable after this time
+    pub expires_at: i64,
+    pub status: ProposalStatus,
+    pub bump: u8,
+}
+
+impl Proposal {
+    pub const INIT_SPACE: usize = 8  // discriminator
+        + 32  // vault: Pubkey
+        + 8   // id: u64
+        + 32  // proposer: Pubkey
+        + (1 + 2)  // Option<u16> burn_percentage_bps
+        + (1 + 8)  // Option<i64> delay_seconds
+        + (1 + 2)  // Option<u16> fee_basis_points
+        + (1 + SpendingCaps::SIZE) // Option<SpendingCaps> spending_caps
+        + (1 + 1)  // Option<bool> allowlist_enabled
+        + (1 + 32) // Option<Pubkey> guardian
+        + 8   // proposed_at: i64
+        + 8   // release_time: i64
+        + 8   // expires_at: i64
+        + 1   // status: ProposalStatus
+        + 1;  // bump: u8
+}
+
+/// Recipient the vault may pay in allowlist mode. PDA seeds
+/// `["allowlist", vault, recipient]`.
+#[account]
+pub struct AllowlistEntry {
+    pub vault: Pubkey,
+    pub recipient: Pubkey,
+    pub proposed_at: i64,
+    /// Can be activated from this time
+    pub release_time: i64,
+    pub active: bool,
+    pub bump: u8,
+}
+
+impl AllowlistEntry {
+    pub const INIT_SPACE: usize = 8  // discriminator
+        + 32  // vault: Pubkey
+        + 32  // recipient: Pubkey
+        + 8   // proposed_at: i64
+        + 8   // release_time: i64
+        + 1   // active: bool
+        + 1;  // bump: u8
+}
+
+/// Recurring payout from a vault, cranked by anyone once due. PDA seeds
+/// `["schedule", vault, id (u64 LE)]`.
+#[account]
+pub struct RewardSchedule {
+    pub vault: Pubkey,
+    pub id: u64,
+    pub recipient: Pubkey,
+    /// Fixed payout; 0 when `amount_bps` is used
+    pub amount_lamports: u64,
+    /// Payout as a share of `total_accrued` at crank time; 0 when fixed
+    pub amount_bps: u16,
+    pub interval_seconds: i64,
+    pub next_payout_at: i64,
+    /// No payouts due after this time
+    pub end_time: Option<i64>,
+    pub total_paid: u64,
+    pub bump: u8,
+}
+
+impl RewardSchedule {
+    pub const INIT_SPACE: usize = 8  // discriminator
+        + 32  // vault: Pubkey
+        + 8   // id: u64
+        + 32  // recipient: Pubkey
+        + 8   // amount_lamports: u64
+        + 2   // amount_bps: u16
+        + 8   // interval_seconds: i64
+        + 8   // next_payout_at: i64
+        + (1 + 8)  // Option<i64> end_time
+        + 8   // total_paid: u64
+        + 1;  // bump: u8
+
+    /// Lamports one payout sends, given the vault's retained balance.
+    pub fn payout_amount(&self, total_accrued: u64) -> u64 {
+        if self.amount_bps > 0 {
+            ((total_accrued as u128) * self.amount_bps as u128 / 10_000) as u64
+        } else {
+            self.amount_lamports
+        }
+    }
+}
+
+/// Claimable reward round funded from a vault. PDA seeds
+/// `["distribution", vault, id (u64 LE)]`; holds the unclaimed lamports.
+#[account]
+pub struct Distribution {
+    pub vault: Pubkey,
+    pub id: u64,
+    pub merkle_root: [u8; 32],
+    pub total_amount: u64,
+    pub claimed_amount: u64,
+    pub num_recipients: u32,
+    pub num_claimed: u32,
+    /// Claims close, and sweeping opens, at this time
+    pub expires_at: i64,
+    pub bump: u8,
+    /// One bit per leaf index, set once claimed
+    pub claimed: Vec<u8>,
+}
+
+impl Distribution {
+    pub const BASE_SPACE: usize = 8  // discriminator
+        + 32  // vault: Pubkey
+        + 8   // id: u64
+        + 32  // merkle_root: [u8; 32]
+        + 8   // total_amount: u64
+        + 8   // claimed_amount: u64
+        + 4   // num_recipients: u32
+        + 4   // num_claimed: u32
+        + 8   // expires_at: i64
+        + 1   // bump: u8
+        + 4;  // claimed: Vec<u8> length prefix
+
+    pub fn bitmap_len(num_recipients: u32) -> usize {
+        (num_recipients as usize + 7) / 8
+    }
+
+    pub fn space(num_recipients: u32) -> usize {
+        Self::BASE_SPACE + Self::bitmap_len(num_recipients)
+    }
+
+    pub fn is_claimed(&self, index: u32) -> bool {
+        self.claimed[index as usize / 8] & (1 << (index % 8)) != 0
+    }
+
+    fn set_claimed(&mut self, index: u32) {
+        self.claimed[index as usize / 8] |= 1 << (index % 8);
+    }
+}
+
+// ─── Instruction Account Structs ──────────────────────────────────────────────
+
+#[derive(Accounts)]
+#[instruction(namespace: Pubkey, fee_bps: u16, burn_bps: u16, _delay: Option<i64>)]
+pub struct InitializeVault<'info> {
+    #[account(
+        init,
+        payer = authority,
+        space = Vault::INIT_SPACE,
+        seeds = [b"vault", namespace.as_ref()],
+        bump
     )]
     pub vault: Account<'info, Vault>,
     #[account(mut)]
@@ -346,7 +1510,7 @@ pub struct InitializeVault<'info> {
 
 #[derive(Accounts)]
 pub struct AccrueFee<'info> {
-    #[account(mut, seeds = [b"vault"], bump = vault.bump)]
+    #[account(mut, seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
     pub vault: Account<'info, Vault>,
     #[account(mut)]
     pub payer: Signer<'info>,
@@ -358,47 +1522,409 @@ pub struct AccrueFee<'info> {
 
 #[derive(Accounts)]
 pub struct BurnSol<'info> {
-    #[account(mut, seeds = [b"vault"], bump = vault.bump)]
+    #[account(mut, seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
     pub vault: Account<'info, Vault>,
     #[account(mut, constraint = authority.key() == vault.authority @ ErrorCode::Unauthorized)]
     pub authority: Signer<'info>,
     /// CHECK: Solana incinerator address
     #[account(mut, address = INCINERATOR)]
     pub incinerator: AccountInfo<'info>,
-    pub system_program: Program<'info, System>,
 }
 
 #[derive(Accounts)]
 pub struct DistributeRewards<'info> {
-    #[account(mut, seeds = [b"vault"], bump = vault.bump)]
+    #[account(mut, seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
     pub vault: Account<'info, Vault>,
     #[account(mut, constraint = authority.key() == vault.authority @ ErrorCode::Unauthorized)]
     pub authority: Signer<'info>,
-    /// CHECK: Any recipient address chosen by authority
+    /// CHECK: Any recipient address chosen by authority; in allowlist mode
+    /// it must have an active entry
     #[account(mut)]
     pub recipient: AccountInfo<'info>,
+    /// CHECK: The recipient's allowlist entry PDA, which may not exist.
+    /// Read only in allowlist mode (`require_allowlisted`).
+    #[account(seeds = [b"allowlist", vault.key().as_ref(), recipient.key().as_ref()], bump)]
+    pub allowlist_entry: AccountInfo<'info>,
+}
+
+#[derive(Accounts)]
+pub struct SweepSurplus<'info> {
+    #[account(mut, seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
+    pub vault: Account<'info, Vault>,
+    #[account(constraint = authority.key() == vault.authority @ ErrorCode::Unauthorized)]
+    pub authority: Signer<'info>,
+    /// CHECK: Solana incinerator address
+    #[account(mut, address = INCINERATOR)]
+    pub incinerator: AccountInfo<'info>,
+}
+
+#[derive(Accounts)]
+pub struct InitializeTokenVault<'info> {
+    #[account(seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
+    pub vault: Account<'info, Vault>,
+    #[account(
+        init,
+        payer = authority,
+        space = TokenVault::INIT_SPACE,
+        seeds = [b"token_vault", vault.key().as_ref(), mint.key().as_ref()],
+        bump
+    )]
+    pub token_vault: Account<'info, TokenVault>,
+    #[account(mint::token_program = token_program)]
+    pub mint: InterfaceAccount<'info, Mint>,
+    #[account(
+        init,
+        payer = authority,
+        seeds = [b"vault_tokens", vault.key().as_ref(), mint.key().as_ref()],
+        bump,
+        token::mint = mint,
+        token::authority = vault,
+        token::token_program = token_program
+    )]
+    pub vault_token_account: InterfaceAccount<'info, TokenAccount>,
+    #[account(mut, constraint = authority.key() == vault.authority @ ErrorCode::Unauthorized)]
+    pub authority: Signer<'info>,
+    pub token_program: Interface<'info, TokenInterface>,
     pub system_program: Program<'info, System>,
 }
 
 #[derive(Accounts)]
-pub struct ProposeParameterUpdate<'info> {
-    #[account(mut, seeds = [b"vault"], bump = vault.bump)]
+pub struct AccrueTokenFee<'info> {
+    #[account(seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
+    pub vault: Account<'info, Vault>,
+    #[account(
+        mut,
+        seeds = [b"token_vault", vault.key().as_ref(), mint.key().as_ref()],
+        bump = token_vault.bump
+    )]
+    pub token_vault: Account<'info, TokenVault>,
+    #[account(mut)]
+    pub mint: InterfaceAccount<'info, Mint>,
+    #[account(
+        mut,
+        seeds = [b"vault_tokens", vault.key().as_ref(), mint.key().as_ref()],
+        bump = token_vault.token_account_bump
+    )]
+    pub vault_token_account: InterfaceAccount<'info, TokenAccount>,
+    #[account(mut, token::mint = mint, token::token_program = token_program)]
+    pub payer_token_account: InterfaceAccount<'info, TokenAccount>,
+    pub payer: Signer<'info>,
+    #[account(address = token_vault.token_program)]
+    pub token_program: Interface<'info, TokenInterface>,
+}
+
+#[derive(Accounts)]
+pub struct BurnTokens<'info> {
+    #[account(seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
+    pub vault: Account<'info, Vault>,
+    #[account(
+        mut,
+        seeds = [b"token_vault", vault.key().as_ref(), mint.key().as_ref()],
+        bump = token_vault.bump
+    )]
+    pub token_vault: Account<'info, TokenVault>,
+    #[account(mut)]
+    pub mint: InterfaceAccount<'info, Mint>,
+    #[account(
+        mut,
+        seeds = [b"vault_tokens", vault.key().as_ref(), mint.key().as_ref()],
+        bump = token_vault.token_account_bump
+    )]
+    pub vault_token_account: InterfaceAccount<'info, TokenAccount>,
+    #[account(constraint = authority.key() == vault.authority @ ErrorCode::Unauthorized)]
+    pub authority: Signer<'info>,
+    #[account(address = token_vault.token_program)]
+    pub token_program: Interface<'info, TokenInterface>,
+}
+
+#[derive(Accounts)]
+pub struct DistributeTokenRewards<'info> {
+    #[account(seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
     pub vault: Account<'info, Vault>,
+    #[account(
+        mut,
+        seeds = [b"token_vault", vault.key().as_ref(), mint.key().as_ref()],
+        bump = token_vault.bump
+    )]
+    pub token_vault: Account<'info, TokenVault>,
+    pub mint: InterfaceAccount<'info, Mint>,
+    #[account(
+        mut,
+        seeds = [b"vault_tokens", vault.key().as_ref(), mint.key().as_ref()],
+        bump = token_vault.token_account_bump
+    )]
+    pub vault_token_account: InterfaceAccount<'info, TokenAccount>,
+    /// Any token account of the mint chosen by authority; in allowlist mode
+    /// its owner must have an active entry
+    #[account(mut, token::mint = mint, token::token_program = token_program)]
+    pub recipient_token_account: InterfaceAccount<'info, TokenAccount>,
+    /// CHECK: The owner's allowlist entry PDA, which may not exist.
+    /// Read only in allowlist mode (`require_allowlisted`).
+    #[account(
+        seeds = [b"allowlist", vault.key().as_ref(), recipient_token_account.owner.as_ref()],
+        bump
+    )]
+    pub allowlist_entry: AccountInfo<'info>,
     #[account(constraint = authority.key() == vault.authority @ ErrorCode::Unauthorized)]
     pub authority: Signer<'info>,
+    #[account(address = token_vault.token_program)]
+    pub token_program: Interface<'info, TokenInterface>,
+}
+
+#[derive(Accounts)]
+#[instruction(recipient: Pubkey)]
+pub struct CreateRewardSchedule<'info> {
+    #[account(mut, seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
+    pub vault: Account<'info, Vault>,
+    #[account(
+        init,
+        payer = authority,
+        space = RewardSchedule::INIT_SPACE,
+        seeds = [b"schedule", vault.key().as_ref(), &vault.schedule_count.to_le_bytes()],
+        bump
+    )]
+    pub schedule: Account<'info, RewardSchedule>,
+    /// CHECK: The recipient's allowlist entry PDA, which may not exist.
+    /// Read only in allowlist mode (`require_allowlisted`).
+    #[account(seeds = [b"allowlist", vault.key().as_ref(), recipient.as_ref()], bump)]
+    pub allowlist_entry: AccountInfo<'info>,
+    #[account(mut, constraint = authority.key() == vault.authority @ ErrorCode::Unauthorized)]
+    pub authority: Signer<'info>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct UpdateRewardSchedule<'info> {
+    #[account(seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
+    pub vault: Account<'info, Vault>,
+    #[account(
+        mut,
+        seeds = [b"schedule", vault.key().as_ref(), &schedule.id.to_le_bytes()],
+        bump = schedule.bump
+    )]
+    pub schedule: Account<'info, RewardSchedule>,
+    #[account(constraint = authority.key() == vault.authority @ ErrorCode::Unauthorized)]
+    pub authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct CancelRewardSchedule<'info> {
+    #[account(seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
+    pub vault: Account<'info, Vault>,
+    #[account(
+        mut,
+        close = authority,
+        seeds = [b"schedule", vault.key().as_ref(), &schedule.id.to_le_bytes()],
+        bump = schedule.bump
+    )]
+    pub schedule: Account<'info, RewardSchedule>,
+    #[account(mut, constraint = authority.key() == vault.authority @ ErrorCode::Unauthorized)]
+    pub authority: Signer<'info>,
+}
+
+/// Permissionless: the transaction fee payer is the only signer.
+#[derive(Accounts)]
+pub struct CrankRewardSchedule<'info> {
+    #[account(mut, seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
+    pub vault: Account<'info, Vault>,
+    #[account(
+        mut,
+        seeds = [b"schedule", vault.key().as_ref(), &schedule.id.to_le_bytes()],
+        bump = schedule.bump
+    )]
+    pub schedule: Account<'info, RewardSchedule>,
+    /// CHECK: Must be the schedule's recipient
+    #[account(mut, address = schedule.recipient)]
+    pub recipient: AccountInfo<'info>,
+    /// CHECK: The recipient's allowlist entry PDA, which may not exist.
+    /// Read only in allowlist mode (`require_allowlisted`).
+    #[account(seeds = [b"allowlist", vault.key().as_ref(), recipient.key().as_ref()], bump)]
+    pub allowlist_entry: AccountInfo<'info>,
+}
+
+#[derive(Accounts)]
+#[instruction(merkle_root: [u8; 32], total_amount: u64, num_recipients: u32)]
+pub struct CreateDistribution<'info> {
+    #[account(mut, seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
+    pub vault: Account<'info, Vault>,
+    #[account(
+        init,
+        payer = authority,
+        space = Distribution::space(num_recipients),
+        seeds = [b"distribution", vault.key().as_ref(), &vault.distribution_count.to_le_bytes()],
+        bump
+    )]
+    pub distribution: Account<'info, Distribution>,
+    #[account(mut, constraint = authority.key() == vault.authority @ ErrorCode::Unauthorized)]
+    pub authority: Signer<'info>,
+    pub system_program: Program<'info, System>,
+}
+
+/// Signed by the recipient, who receives the lamports.
+#[derive(Accounts)]
+pub struct ClaimDistribution<'info> {
+    #[account(seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
+    pub vault: Account<'info, Vault>,
+    #[account(
+        mut,
+        seeds = [b"distribution", vault.key().as_ref(), &distribution.id.to_le_bytes()],
+        bump = distribution.bump
+    )]
+    pub distribution: Account<'info, Distribution>,
+    #[account(mut)]
+    pub claimant: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct SweepDistribution<'info> {
+    #[account(mut, seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
+    pub vault: Account<'info, Vault>,
+    #[account(
+        mut,
+        close = authority,
+        seeds = [b"distribution", vault.key().as_ref(), &distribution.id.to_le_bytes()],
+        bump = distribution.bump
+    )]
+    pub distribution: Account<'info, Distribution>,
+    #[account(mut, constraint = authority.key() == vault.authority @ ErrorCode::Unauthorized)]
+    pub authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct ProposeParameterUpdate<'info> {
+    #[account(mut, seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
+    pub vault: Account<'info, Vault>,
+    #[account(
+        init,
+        payer = authority,
+        space = Proposal::INIT_SPACE,
+        seeds = [b"proposal", vault.key().as_ref(), &vault.proposal_count.to_le_bytes()],
+        bump
+    )]
+    pub proposal: Account<'info, Proposal>,
+    #[account(mut, constraint = authority.key() == vault.authority @ ErrorCode::Unauthorized)]
+    pub authority: Signer<'info>,
+    pub system_program: Program<'info, System>,
 }
 
 #[derive(Accounts)]
 pub struct ExecuteParameterUpdate<'info> {
-    #[account(mut, seeds = [b"vault"], bump = vault.bump)]
+    #[account(mut, seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
     pub vault: Account<'info, Vault>,
+    #[account(
+        mut,
+        seeds = [b"proposal", vault.key().as_ref(), &proposal.id.to_le_bytes()],
+        bump = proposal.bump
+    )]
+    pub proposal: Account<'info, Proposal>,
     #[account(constraint = authority.key() == vault.authority @ ErrorCode::Unauthorized)]
     pub authority: Signer<'info>,
 }
 
 #[derive(Accounts)]
 pub struct CancelParameterProposal<'info> {
-    #[account(mut, seeds = [b"vault"], bump = vault.bump)]
+    #[account(seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
+    pub vault: Account<'info, Vault>,
+    #[account(
+        mut,
+        seeds = [b"proposal", vault.key().as_ref(), &proposal.id.to_le_bytes()],
+        bump = proposal.bump
+    )]
+    pub proposal: Account<'info, Proposal>,
+    #[account(constraint = authority.key() == vault.authority @ ErrorCode::Unauthorized)]
+    pub authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+#[instruction(recipient: Pubkey)]
+pub struct ProposeAllowlistAddition<'info> {
+    #[account(seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
+    pub vault: Account<'info, Vault>,
+    #[account(
+        init,
+        payer = authority,
+        space = AllowlistEntry::INIT_SPACE,
+        seeds = [b"allowlist", vault.key().as_ref(), recipient.as_ref()],
+        bump
+    )]
+    pub entry: Account<'info, AllowlistEntry>,
+    #[account(mut, constraint = authority.key() == vault.authority @ ErrorCode::Unauthorized)]
+    pub authority: Signer<'info>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct ExecuteAllowlistAddition<'info> {
+    #[account(seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
+    pub vault: Account<'info, Vault>,
+    #[account(
+        mut,
+        seeds = [b"allowlist", vault.key().as_ref(), entry.recipient.as_ref()],
+        bump = entry.bump
+    )]
+    pub entry: Account<'info, AllowlistEntry>,
+    #[account(constraint = authority.key() == vault.authority @ ErrorCode::Unauthorized)]
+    pub authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct RemoveAllowlistRecipient<'info> {
+    #[account(seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
+    pub vault: Account<'info, Vault>,
+    #[account(
+        mut,
+        close = authority,
+        seeds = [b"allowlist", vault.key().as_ref(), entry.recipient.as_ref()],
+        bump = entry.bump
+    )]
+    pub entry: Account<'info, AllowlistEntry>,
+    #[account(mut, constraint = authority.key() == vault.authority @ ErrorCode::Unauthorized)]
+    pub authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct Pause<'info> {
+    #[account(mut, seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
+    pub vault: Account<'info, Vault>,
+    #[account(constraint = vault.guardian == Some(guardian.key()) @ ErrorCode::Unauthorized)]
+    pub guardian: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct ProposeUnpause<'info> {
+    #[account(mut, seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
+    pub vault: Account<'info, Vault>,
+    #[account(constraint = authority.key() == vault.authority @ ErrorCode::Unauthorized)]
+    pub authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct Unpause<'info> {
+    #[account(mut, seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
+    pub vault: Account<'info, Vault>,
+    #[account(constraint = authority.key() == vault.authority @ ErrorCode::Unauthorized)]
+    pub authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct ProposeAuthorityTransfer<'info> {
+    #[account(mut, seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
+    pub vault: Account<'info, Vault>,
+    #[account(constraint = authority.key() == vault.authority @ ErrorCode::Unauthorized)]
+    pub authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct AcceptAuthorityTransfer<'info> {
+    #[account(mut, seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
+    pub vault: Account<'info, Vault>,
+    /// Must match `vault.pending_authority` (checked in the handler)
+    pub new_authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct CancelAuthorityTransfer<'info> {
+    #[account(mut, seeds = [b"vault", vault.namespace.as_ref()], bump = vault.bump)]
     pub vault: Account<'info, Vault>,
     #[account(constraint = authority.key() == vault.authority @ ErrorCode::Unauthorized)]
     pub authority: Signer<'info>,
@@ -428,18 +1954,180 @@ pub struct RewardsDistributed {
     pub remaining: u64,
 }
 
+/// Unaccounted lamports either added to `total_accrued` or burned.
+#[event]
+pub struct SurplusSwept {
+    pub amount: u64,
+    pub burned: bool,
+    pub total_accrued: u64,
+}
+
+#[event]
+pub struct TokenFeeAccrued {
+    pub mint: Pubkey,
+    pub payer: Pubkey,
+    /// Amount the vault received (net of any Token-2022 transfer fee)
+    pub gross: u64,
+    pub burned: u64,
+    pub net: u64,
+    pub total_accrued: u64,
+}
+
+#[event]
+pub struct TokensBurned {
+    pub mint: Pubkey,
+    pub amount: u64,
+    pub remaining: u64,
+}
+
+#[event]
+pub struct TokenRewardsDistributed {
+    pub mint: Pubkey,
+    /// Owner of the receiving token account
+    pub recipient: Pubkey,
+    pub amount: u64,
+    pub remaining: u64,
+}
+
+#[event]
+pub struct RewardScheduleCreated {
+    pub schedule: Pubkey,
+    pub id: u64,
+    pub recipient: Pubkey,
+    pub amount_lamports: u64,
+    pub amount_bps: u16,
+    pub interval_seconds: i64,
+    pub end_time: Option<i64>,
+    pub next_payout_at: i64,
+}
+
+#[event]
+pub struct RewardScheduleUpdated {
+    pub schedule: Pubkey,
+    pub amount_lamports: u64,
+    pub amount_bps: u16,
+    pub interval_seconds: i64,
+    pub end_time: Option<i64>,
+}
+
+#[event]
+pub struct RewardScheduleCanceled {
+    pub schedule: Pubkey,
+    pub total_paid: u64,
+}
+
+#[event]
+pub struct RewardSchedulePaid {
+    pub schedule: Pubkey,
+    pub recipient: Pubkey,
+    pub amount: u64,
+    pub next_payout_at: i64,
+}
+
+#[event]
+pub struct DistributionCreated {
+    pub distribution: Pubkey,
+    pub id: u64,
+    pub merkle_root: [u8; 32],
+    pub total_amount: u64,
+    pub num_recipients: u32,
+    pub expires_at: i64,
+    pub remaining: u64,
+}
+
+#[event]
+pub struct DistributionClaimed {
+    pub distribution: Pubkey,
+    pub index: u32,
+    pub recipient: Pubkey,
+    pub amount: u64,
+}
+
+#[event]
+pub struct DistributionSwept {
+    pub distribution: Pubkey,
+    pub amount: u64,
+    pub total_accrued: u64,
+}
+
 #[event]
 pub struct ParameterUpdateProposed {
+    pub proposal: Pubkey,
+    pub id: u64,
     pub proposed_burn_bps: Option<u16>,
     pub proposed_delay_secs: Option<i64>,
     pub release_at: i64,
+    pub proposed_fee_bps: Option<u16>,
+    pub expires_at: i64,
+    pub proposed_spending_caps: Option<SpendingCaps>,
+    pub proposed_allowlist_enabled: Option<bool>,
+    pub proposed_guardian: Option<Pubkey>,
+}
+
+#[event]
+pub struct ParameterUpdateExecuted {
+    pub proposal: Pubkey,
+    pub id: u64,
+}
+
+#[event]
+pub struct ParameterUpdateCanceled {
+    pub proposal: Pubkey,
+    pub id: u64,
+    /// Past the execution window: recorded as `Expired`
+    pub expired: bool,
+}
+
+#[event]
+pub struct AllowlistAdditionProposed {
+    pub recipient: Pubkey,
+    pub release_at: i64,
+}
+
+#[event]
+pub struct AllowlistRecipientAdded {
+    pub recipient: Pubkey,
+}
+
+#[event]
+pub struct AllowlistRecipientRemoved {
+    pub recipient: Pubkey,
+    /// `false` when a pending addition was withdrawn
+    pub was_active: bool,
+}
+
+#[event]
+pub struct VaultPaused {
+    pub guardian: Pubkey,
+}
+
+#[event]
+pub struct UnpauseProposed {
+    pub release_at: i64,
 }
 
 #[event]
-pub struct ParameterUpdateExecuted {}
+pub struct VaultUnpaused {
+    pub authority: Pubkey,
+}
 
 #[event]
-pub struct ParameterUpdateCanceled {}
+pub struct AuthorityTransferProposed {
+    pub current_authority: Pubkey,
+    pub new_authority: Pubkey,
+    pub release_at: i64,
+}
+
+#[event]
+pub struct AuthorityTransferred {
+    pub previous_authority: Pubkey,
+    pub new_authority: Pubkey,
+}
+
+#[event]
+pub struct AuthorityTransferCanceled {
+    pub canceled_authority: Pubkey,
+}
 
 // ─── Errors ───────────────────────────────────────────────────────────────────
 
@@ -467,4 +2155,32 @@ pub enum ErrorCode {
     NoPendingUpdate,
     #[msg("Unauthorized caller")]
     Unauthorized,
+    #[msg("Invalid reward schedule")]
+    InvalidSchedule,
+    #[msg("Reward schedule payout not yet due")]
+    ScheduleNotDue,
+    #[msg("Reward schedule has ended")]
+    ScheduleEnded,
+    #[msg("Invalid distribution")]
+    InvalidDistribution,
+    #[msg("Distribution has expired")]
+    DistributionExpired,
+    #[msg("Distribution has not expired")]
+    DistributionNotExpired,
+    #[msg("Distribution already claimed")]
+    AlreadyClaimed,
+    #[msg("Invalid merkle proof")]
+    InvalidProof,
+    #[msg("Vault holds no unaccounted lamports")]
+    NoSurplus,
+    #[msg("Proposal execution window has passed")]
+    ProposalExpired,
+    #[msg("Spending cap for the current window exceeded")]
+    SpendingCapExceeded,
+    #[msg("Invalid spending cap")]
+    InvalidSpendingCap,
+    #[msg("Recipient is not on the allowlist")]
+    RecipientNotAllowed,
+    #[msg("Vault is paused")]
+    Paused,
 }
@@ -0,0 +1,131 @@
+import { BN } from "@coral-xyz/anchor";
+import { AccountInfo, PublicKey } from "@solana/web3.js";
+import { PROGRAM_ID } from "./constants";
+import type { SolForgeClient } from "./index";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Allowlist entry account (mirrors on-chain `AllowlistEntry` struct). */
+export interface AllowlistEntryState {
+  vault: PublicKey;
+  recipient: PublicKey;
+  proposedAt: BN;
+  /** Can be activated from this time. */
+  releaseTime: BN;
+  active: boolean;
+  bump: number;
+}
+
+/**
+ * - `pending`: proposed, timelock still running.
+ * - `executable`: timelock expired, `execute_allowlist_addition` will
+ *   succeed.
+ * - `active`: `distribute_rewards` may pay this recipient.
+ */
+export type AllowlistEntryStatus = "pending" | "executable" | "active";
+
+/** An entry found by `listAllowlist`, with its status at the cluster time. */
+export interface AllowlistEntryInfo {
+  address: PublicKey;
+  status: AllowlistEntryStatus;
+  state: AllowlistEntryState;
+}
+
+// ---------------------------------------------------------------------------
+// Addresses & status
+// ---------------------------------------------------------------------------
+
+const ALLOWLIST_SEED = Buffer.from("allowlist");
+
+/**
+ * Derive an allowlist entry PDA: seeds `["allowlist", vault, recipient]`.
+ *
+ * @param vault     Vault PDA.
+ * @param recipient Allowlisted recipient.
+ * @param programId Program ID (defaults to on-chain address).
+ */
+export function findAllowlistEntryAddress(
+  vault: PublicKey,
+  recipient: PublicKey,
+  programId: PublicKey = PROGRAM_ID
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [ALLOWLIST_SEED, vault.toBuffer(), recipient.toBuffer()],
+    programId
+  );
+}
+
+/**
+ * Status of `entry` at cluster time `now`.
+ *
+ * @param now Cluster unix time (from the `Clock` sysvar, not local time).
+ */
+export function allowlistEntryStatus(
+  entry: AllowlistEntryState,
+  now: number
+): AllowlistEntryStatus {
+  if (entry.active) return "active";
+  return entry.releaseTime.lten(now) ? "executable" : "pending";
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/**
+ * Every allowlist entry of `client`'s vault, active and pending, by
+ * recipient.
+ */
+export async function fetchAllowlist(client: SolForgeClient): Promise<AllowlistEntryInfo[]> {
+  const coder = client.program.coder.accounts;
+  const [accounts, now] = await Promise.all([
+    client.provider.connection.getProgramAccounts(client.program.programId, {
+      filters: [
+        { memcmp: coder.memcmp("allowlistEntry") },
+        // `vault` follows the 8-byte discriminator
+        { memcmp: { offset: 8, bytes: client.vaultPda.toBase58() } },
+      ],
+    }),
+    client.getClusterTime(),
+  ]);
+  return accounts
+    .map(({ pubkey, account }) => {
+      const state = coder.decode<AllowlistEntryState>("allowlistEntry", account.data);
+      return { address: pubkey, status: allowlistEntryStatus(state, now), state };
+    })
+    .sort((a, b) => a.state.recipient.toBase58().localeCompare(b.state.recipient.toBase58()));
+}
+
+/**
+ * Recipients `distribute_rewards` would reject right now.
+ *
+ * @returns An empty list when the vault is not in allowlist mode (or not
+ *          initialized).
+ */
+export async function findDisallowedRecipients(
+  client: SolForgeClient,
+  recipients: PublicKey[]
+): Promise<PublicKey[]> {
+  const vault = await client.getVaultState();
+  if (!vault?.allowlistEnabled) return [];
+  const addresses = recipients.map((r) => client.allowlistEntryAddress(r));
+  const infos: (AccountInfo<Buffer> | null)[] = [];
+  // getMultipleAccounts takes at most 100 keys
+  for (let i = 0; i < addresses.length; i += 100) {
+    infos.push(
+      ...(await client.provider.connection.getMultipleAccountsInfo(
+        addresses.slice(i, i + 100)
+      ))
+    );
+  }
+  return recipients.filter((_, i) => {
+    const info = infos[i];
+    if (!info) return true;
+    return !client.program.coder.accounts.decode<AllowlistEntryState>(
+      "allowlistEntry",
+      info.data
+    ).active;
+  });
+}
@@ -0,0 +1,354 @@
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { BPS_DENOMINATOR } from "./constants";
+import type { EventStore, IndexedEvent } from "./indexer";
+import { toPlain } from "./json";
+import type { SolForgeClient } from "./index";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Bucket length in seconds, a named period, or Solana epochs (by slot). */
+export type BucketSize = number | "hour" | "day" | "week" | "epoch";
+
+export interface AnalyticsOptions {
+  /** Window start, unix seconds, inclusive (default: first event). */
+  from?: number;
+  /** Window end, unix seconds, exclusive (default: after the last event). */
+  to?: number;
+  /** Time bucketing (default `"day"`). */
+  bucket?: BucketSize;
+  /** Slots per epoch for `"epoch"` buckets (default 432 000, mainnet). */
+  slotsPerEpoch?: number;
+  /** Configured `burn_percentage_bps` to compare the effective ratio with. */
+  configuredBurnBps?: number;
+  /** Current retained balance (default: latest `remaining` / `totalAccrued`). */
+  retained?: BN;
+  /** Number of fee payers ranked in `topPayers` (default 10). */
+  topPayers?: number;
+}
+
+export interface FlowTotals {
+  /** Gross `accrue_fee` deposits. */
+  gross: BN;
+  autoBurned: BN;
+  /** Retained part of deposits (`gross - autoBurned`). */
+  net: BN;
+  manualBurned: BN;
+  distributed: BN;
+  feePayments: number;
+  burns: number;
+  distributions: number;
+}
+
+export interface AnalyticsBucket extends FlowTotals {
+  /**
+   * Bucket start: unix seconds, or the epoch number for `"epoch"` buckets.
+   */
+  start: number;
+  /** Exclusive end, same unit as `start`. */
+  end: number;
+}
+
+export interface PayerStats {
+  payer: PublicKey;
+  gross: BN;
+  autoBurned: BN;
+  payments: number;
+  /** Share of all gross deposits in the window, bps (truncated). */
+  shareBps: number;
+}
+
+export interface RecipientStats {
+  recipient: PublicKey;
+  amount: BN;
+  distributions: number;
+}
+
+export interface BurnRatios {
+  /** `burn_percentage_bps` the ratios are compared with, if known. */
+  configuredBps: number | null;
+  /** Auto-burned / gross, bps (truncated). Below configured by rounding only. */
+  autoBurnBps: number;
+  /** (Auto + manual burns) / gross, bps (truncated). */
+  totalBurnBps: number;
+  /** `autoBurnBps - configuredBps`, or `null` without a configured rate. */
+  autoBurnDeviationBps: number | null;
+}
+
+/**
+ * How long the retained balance lasts at the window's average pace.
+ * `seconds` is `null` while inflows cover outflows (balance not shrinking).
+ */
+export interface Runway {
+  retained: BN;
+  /** Average manual burns + distributions per day. */
+  outflowPerDay: BN;
+  /** Average retained deposits (`net`) per day. */
+  inflowPerDay: BN;
+  seconds: number | null;
+}
+
+export interface VaultAnalytics {
+  /** Window actually covered, unix seconds `[from, to)`. */
+  from: number;
+  to: number;
+  bucket: BucketSize;
+  totals: FlowTotals;
+  /** Average burned (auto + manual) per day over the window. */
+  burnedPerDay: BN;
+  ratios: BurnRatios;
+  buckets: AnalyticsBucket[];
+  topPayers: PayerStats[];
+  /** Every recipient, largest total first. */
+  recipients: RecipientStats[];
+  runway: Runway;
+  /** Events ignored because their block time is unknown. */
+  skippedEvents: number;
+}
+
+// ---------------------------------------------------------------------------
+// Computation
+// ---------------------------------------------------------------------------
+
+const SECONDS_PER_DAY = 86_400;
+const NAMED_BUCKETS: Record<string, number> = {
+  hour: 3_600,
+  day: SECONDS_PER_DAY,
+  week: 7 * SECONDS_PER_DAY,
+};
+
+function emptyTotals(): FlowTotals {
+  return {
+    gross: new BN(0),
+    autoBurned: new BN(0),
+    net: new BN(0),
+    manualBurned: new BN(0),
+    distributed: new BN(0),
+    feePayments: 0,
+    burns: 0,
+    distributions: 0,
+  };
+}
+
+/** Add one event to `totals`. Events other than the three flows are ignored. */
+function accumulate(totals: FlowTotals, event: IndexedEvent): void {
+  switch (event.name) {
+    case "FeeAccrued":
+      totals.gross = totals.gross.add(event.data.gross);
+      totals.autoBurned = totals.autoBurned.add(event.data.burned);
+      totals.net = totals.net.add(event.data.net);
+      totals.feePayments++;
+      break;
+    case "SolBurned":
+      totals.manualBurned = totals.manualBurned.add(event.data.amount);
+      totals.burns++;
+      break;
+    case "RewardsDistributed":
+      totals.distributed = totals.distributed.add(event.data.amount);
+      totals.distributions++;
+      break;
+  }
+}
+
+function ratioBps(part: BN, whole: BN): number {
+  return whole.isZero() ? 0 : part.muln(BPS_DENOMINATOR).div(whole).toNumber();
+}
+
+function perDay(amount: BN, seconds: number): BN {
+  return seconds <= 0 ? new BN(0) : amount.muln(SECONDS_PER_DAY).div(new BN(seconds));
+}
+
+/**
+ * Vault `total_accrued` after the latest event that reports it, from its
+ * `remaining` or `totalAccrued` field.
+ */
+function latestRetained(events: IndexedEvent[]): BN {
+  for (let i = events.length - 1; i >= 0; i--) {
+    const event = events[i];
+    switch (event.name) {
+      case "FeeAccrued":
+      case "SurplusSwept":
+      case "DistributionSwept":
+        return event.data.totalAccrued;
+      case "SolBurned":
+      case "RewardsDistributed":
+      case "DistributionCreated":
+        return event.data.remaining;
+    }
+  }
+  return new BN(0);
+}
+
+/**
+ * Compute vault analytics over a time window from indexed events (e.g.
+ * `store.getEvents()` of a `SolForgeIndexer` store).
+ *
+ * @param events  Events of one vault, in any order.
+ * @param options Window, bucketing and comparison inputs.
+ */
+export function computeVaultAnalytics(
+  events: IndexedEvent[],
+  options: AnalyticsOptions = {}
+): VaultAnalytics {
+  const bucket = options.bucket ?? "day";
+  const slotsPerEpoch = options.slotsPerEpoch ?? 432_000;
+  const bucketSeconds =
+    typeof bucket === "number" ? bucket : NAMED_BUCKETS[bucket] ?? null;
+  if (bucketSeconds !== null && !(bucketSeconds > 0)) {
+    throw new RangeError("bucket must be a positive number of seconds");
+  }
+
+  const sorted = [...events].sort((a, b) => a.slot - b.slot || a.index - b.index);
+  const timed = sorted.filter((e) => e.blockTime !== null);
+  const from = options.from ?? timed[0]?.blockTime ?? 0;
+  const to = options.to ?? (timed.length ? timed[timed.length - 1].blockTime! + 1 : from);
+  const inWindow = timed.filter((e) => e.blockTime! >= from && e.blockTime! < to);
+
+  const totals = emptyTotals();
+  const bucketMap = new Map<number, AnalyticsBucket>();
+  const payers = new Map<string, PayerStats>();
+  const recipients = new Map<string, RecipientStats>();
+
+  for (const event of inWindow) {
+    accumulate(totals, event);
+
+    const key =
+      bucketSeconds === null
+        ? Math.floor(event.slot / slotsPerEpoch)
+        : from + Math.floor((event.blockTime! - from) / bucketSeconds) * bucketSeconds;
+    let entry = bucketMap.get(key);
+    if (!entry) {
+      entry = { start: key, end: key + (bucketSeconds ?? 1), ...emptyTotals() };
+      bucketMap.set(key, entry);
+    }
+    accumulate(entry, event);
+
+    if (event.name === "FeeAccrued") {
+      const id = event.data.payer.toBase58();
+      const stats = payers.get(id) ?? {
+        payer: event.data.payer,
+        gross: new BN(0),
+        autoBurned: new BN(0),
+        payments: 0,
+        shareBps: 0,
+      };
+      stats.gross = stats.gross.add(event.data.gross);
+      stats.autoBurned = stats.autoBurned.add(event.data.burned);
+      stats.payments++;
+      payers.set(id, stats);
+    } else if (event.name === "RewardsDistributed") {
+      const id = event.data.recipient.toBase58();
+      const stats = recipients.get(id) ?? {
+        recipient: event.data.recipient,
+        amount: new BN(0),
+        distributions: 0,
+      };
+      stats.amount = stats.amount.add(event.data.amount);
+      stats.distributions++;
+      recipients.set(id, stats);
+    }
+  }
+
+  const topPayers = [...payers.values()]
+    .map((p) => ({ ...p, shareBps: ratioBps(p.gross, totals.gross) }))
+    .sort((a, b) => b.gross.cmp(a.gross))
+    .slice(0, options.topPayers ?? 10);
+
+  const burned = totals.autoBurned.add(totals.manualBurned);
+  const autoBurnBps = ratioBps(totals.autoBurned, totals.gross);
+  const configuredBps = options.configuredBurnBps ?? null;
+
+  const duration = to - from;
+  const outflowPerDay = perDay(totals.manualBurned.add(totals.distributed), duration);
+  const inflowPerDay = perDay(totals.net, duration);
+  const retained = options.retained ?? latestRetained(sorted);
+  const shrinkPerDay = outflowPerDay.sub(inflowPerDay);
+
+  return {
+    from,
+    to,
+    bucket,
+    totals,
+    burnedPerDay: perDay(burned, duration),
+    ratios: {
+      configuredBps,
+      autoBurnBps,
+      totalBurnBps: ratioBps(burned, totals.gross),
+      autoBurnDeviationBps: configuredBps === null ? null : autoBurnBps - configuredBps,
+    },
+    buckets: [...bucketMap.values()].sort((a, b) => a.start - b.start),
+    topPayers,
+    recipients: [...recipients.values()].sort((a, b) => b.amount.cmp(a.amount)),
+    runway: {
+      retained,
+      outflowPerDay,
+      inflowPerDay,
+      seconds: shrinkPerDay.lten(0)
+        ? null
+        : retained.muln(SECONDS_PER_DAY).div(shrinkPerDay).toNumber(),
+    },
+    skippedEvents: sorted.length - timed.length,
+  };
+}
+
+/**
+ * Analytics for `client`'s vault from an indexer store, comparing against
+ * the vault's configured burn rate and current retained balance.
+ */
+export async function fetchVaultAnalytics(
+  client: SolForgeClient,
+  store: EventStore,
+  options: AnalyticsOptions = {}
+): Promise<VaultAnalytics> {
+  const [events, vault] = await Promise.all([
+    store.getEvents(),
+    client.getVaultState(),
+  ]);
+  return computeVaultAnalytics(events, {
+    configuredBurnBps: vault?.burnPercentageBps,
+    retained: vault?.totalAccrued,
+    ...options,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/** JSON with lamport amounts as decimal strings and keys as base58. */
+export function analyticsToJson(report: VaultAnalytics): string {
+  return JSON.stringify(toPlain(report), null, 2);
+}
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: object[]): string {
+  if (rows.length === 0) return "";
+  const plain = rows.map((row) => toPlain(row) as Record<string, unknown>);
+  const columns = Object.keys(plain[0]);
+  return [
+    columns.join(","),
+    ...plain.map((row) => columns.map((c) => csvCell(row[c])).join(",")),
+  ].join("\n") + "\n";
+}
+
+/** One CSV table per section; amounts in lamports, times in unix seconds. */
+export interface AnalyticsCsv {
+  buckets: string;
+  payers: string;
+  recipients: string;
+}
+
+/** CSV tables for spreadsheets. Empty sections yield an empty string. */
+export function analyticsToCsv(report: VaultAnalytics): AnalyticsCsv {
+  return {
+    buckets: toCsv(report.buckets),
+    payers: toCsv(report.topPayers),
+    recipients: toCsv(report.recipients),
+  };
+}
@@ -0,0 +1,279 @@
+import { BN } from "@coral-xyz/anchor";
+import {
+  AddressLookupTableAccount,
+  AddressLookupTableProgram,
+  ComputeBudgetProgram,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  TransactionInstruction,
+  TransactionExpiredBlockheightExceededError,
+  TransactionMessage,
+  TransactionSignature,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { findDisallowedRecipients } from "./allowlist";
+import {
+  InsufficientBalanceError,
+  RecipientNotAllowedError,
+  SolForgeError,
+} from "./errors";
+import { checkSpendingCap, checkWithdrawal } from "./preflight";
+import { ConfirmationTimeoutError, SendOptions } from "./sender";
+import type { SolForgeClient } from "./index";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RewardPayment {
+  recipient: PublicKey;
+  amount: BN | number;
+}
+
+/**
+ * Send options for every batch transaction. The compute unit limit is set per
+ * transaction from `computeUnitsPerPayment`; `lookupTables` let more payments
+ * fit per transaction.
+ */
+export interface BatchOptions extends Omit<SendOptions, "computeUnitLimit"> {
+  /** Compute units budgeted per `distribute_rewards` (default 20 000). */
+  computeUnitsPerPayment?: number;
+  /** Hard cap on payments per transaction (default: size / compute bound). */
+  maxPaymentsPerTransaction?: number;
+}
+
+/**
+ * - `sent`: confirmed on-chain.
+ * - `failed`: definitely did not land (program error or blockhash expired) —
+ *   safe to re-send.
+ * - `unknown`: confirmation could not be determined (e.g. RPC failure or
+ *   confirmation timeout) — check `signature`, if known, before re-sending.
+ */
+export type PaymentStatus = "sent" | "failed" | "unknown";
+
+export interface PaymentResult {
+  recipient: PublicKey;
+  amount: BN;
+  status: PaymentStatus;
+  /** Always set when `sent`; otherwise only if the sender reported it. */
+  signature?: TransactionSignature;
+  error?: unknown;
+}
+
+export interface BatchReport {
+  results: PaymentResult[];
+  totalSent: BN;
+  /** Payments that can be passed straight back to `distributeRewardsBatch`. */
+  retryable: RewardPayment[];
+}
+
+/** Solana's per-transaction compute ceiling. */
+const MAX_COMPUTE_UNITS = 1_400_000;
+
+// ---------------------------------------------------------------------------
+// Packing
+// ---------------------------------------------------------------------------
+
+function compile(
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  lookupTables: AddressLookupTableAccount[],
+  blockhash: string
+): VersionedTransaction {
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: blockhash,
+    instructions,
+  }).compileToV0Message(lookupTables);
+  return new VersionedTransaction(message);
+}
+
+function withBudget(
+  ixs: TransactionInstruction[],
+  unitsPerPayment: number,
+  microLamports: number
+): TransactionInstruction[] {
+  return [
+    ComputeBudgetProgram.setComputeUnitLimit({
+      units: Math.min(MAX_COMPUTE_UNITS, ixs.length * unitsPerPayment),
+    }),
+    ...(microLamports > 0
+      ? [ComputeBudgetProgram.setComputeUnitPrice({ microLamports })]
+      : []),
+    ...ixs,
+  ];
+}
+
+/**
+ * Greedily group instructions so each group fits in one packet and within
+ * the compute budget.
+ */
+function pack(
+  payer: PublicKey,
+  ixs: TransactionInstruction[],
+  options: BatchOptions,
+  microLamports: number
+): number[][] {
+  const unitsPerPayment = options.computeUnitsPerPayment ?? 20_000;
+  const maxPerTx = Math.min(
+    options.maxPaymentsPerTransaction ?? Infinity,
+    Math.floor(MAX_COMPUTE_UNITS / unitsPerPayment)
+  );
+  const lookupTables = options.lookupTables ?? [];
+  // Size does not depend on the blockhash value
+  const placeholder = PublicKey.default.toBase58();
+
+  const groups: number[][] = [];
+  let current: number[] = [];
+  for (let i = 0; i < ixs.length; i++) {
+    const candidate = [...current, i];
+    const fits =
+      candidate.length <= maxPerTx &&
+      compile(
+        payer,
+        withBudget(candidate.map((j) => ixs[j]), unitsPerPayment, microLamports),
+        lookupTables,
+        placeholder
+      ).serialize().length <= PACKET_DATA_SIZE;
+
+    if (fits) {
+      current = candidate;
+    } else {
+      if (current.length === 0) throw new Error("Payment does not fit in a transaction");
+      groups.push(current);
+      current = [i];
+    }
+  }
+  if (current.length > 0) groups.push(current);
+  return groups;
+}
+
+// ---------------------------------------------------------------------------
+// Batch distribution
+// ---------------------------------------------------------------------------
+
+/**
+ * Pay many recipients with as few transactions as possible.
+ *
+ * Every amount is checked against the dust floor, the sum against
+ * `total_accrued` and the distribution cap, and every recipient against the
+ * allowlist (in allowlist mode) before anything is sent. Transactions go
+ * through the client's sender, so custom senders, send defaults and blockhash
+ * retries apply. A `failed` result means the payment can never land and is
+ * safe to retry.
+ */
+export async function distributeRewardsBatch(
+  client: SolForgeClient,
+  payments: RewardPayment[],
+  options: BatchOptions = {}
+): Promise<BatchReport> {
+  const wallet = client.requireWallet();
+  const normalized = payments.map((p) => ({
+    recipient: p.recipient,
+    amount: typeof p.amount === "number" ? new BN(p.amount) : p.amount,
+  }));
+
+  const [vault, now] = await Promise.all([
+    client.getVaultState(),
+    client.getClusterTime(),
+  ]);
+  if (!vault) throw new Error("Vault is not initialized");
+  for (const p of normalized) checkWithdrawal(vault, wallet.publicKey, p.amount);
+  const total = normalized.reduce((sum, p) => sum.add(p.amount), new BN(0));
+  if (total.gt(vault.totalAccrued)) throw new InsufficientBalanceError();
+  checkSpendingCap(vault, "distribution", total, now);
+  const disallowed = await findDisallowedRecipients(
+    client,
+    normalized.map((p) => p.recipient)
+  );
+  if (disallowed.length > 0) {
+    throw new RecipientNotAllowedError(
+      `Not on the allowlist: ${disallowed.map((r) => r.toBase58()).join(", ")}`
+    );
+  }
+
+  const ixs = await Promise.all(
+    normalized.map((p) => client.distributeRewardsIx(p.recipient, p.amount))
+  );
+  const unitsPerPayment = options.computeUnitsPerPayment ?? 20_000;
+  const microLamports =
+    options.computeUnitPrice ?? (await options.priorityFeeEstimator?.(ixs)) ?? 0;
+  const results: PaymentResult[] = [];
+
+  for (const group of pack(wallet.publicKey, ixs, options, microLamports)) {
+    let status: PaymentStatus;
+    let signature: TransactionSignature | undefined;
+    let error: unknown;
+    try {
+      ({ signature } = await client.sendInstructions(
+        group.map((i) => ixs[i]),
+        {
+          ...options,
+          computeUnitLimit: Math.min(MAX_COMPUTE_UNITS, group.length * unitsPerPayment),
+          computeUnitPrice: microLamports,
+        }
+      ));
+      status = "sent";
+    } catch (err: unknown) {
+      // Program error, preflight rejection or expired blockhash: the tx cannot land.
+      status =
+        err instanceof SolForgeError ||
+        (typeof err === "object" && err !== null && "logs" in err) ||
+        err instanceof TransactionExpiredBlockheightExceededError
+          ? "failed"
+          : "unknown";
+      if (err instanceof ConfirmationTimeoutError) signature = err.signature;
+      error = err;
+    }
+
+    for (const i of group) {
+      results.push({ ...normalized[i], status, signature, error });
+    }
+  }
+
+  return {
+    results,
+    totalSent: results
+      .filter((r) => r.status === "sent")
+      .reduce((sum, r) => sum.add(r.amount), new BN(0)),
+    retryable: results
+      .filter((r) => r.status === "failed")
+      .map(({ recipient, amount }) => ({ recipient, amount })),
+  };
+}
+
+/**
+ * Create an address lookup table holding `addresses` (e.g. the vault,
+ * authority and recurring recipients) for use with `BatchOptions`.
+ *
+ * A new table is only usable from the slot after its last extension.
+ */
+export async function createLookupTable(
+  client: SolForgeClient,
+  addresses: PublicKey[]
+): Promise<AddressLookupTableAccount> {
+  const connection = client.provider.connection;
+  const authority = client.requireWallet().publicKey;
+
+  const [createIx, table] = AddressLookupTableProgram.createLookupTable({
+    authority,
+    payer: authority,
+    recentSlot: await connection.getSlot("finalized"),
+  });
+  await client.sendInstructions([createIx]);
+
+  // ~30 addresses fit in one extend instruction
+  for (let i = 0; i < addresses.length; i += 30) {
+    const extendIx = AddressLookupTableProgram.extendLookupTable({
+      lookupTable: table,
+      authority,
+      payer: authority,
+      addresses: addresses.slice(i, i + 30),
+    });
+    await client.sendInstructions([extendIx]);
+  }
+
+  const { value } = await connection.getAddressLookupTable(table);
+  if (!value) throw new Error("Lookup table not found after creation");
+  return value;
+}
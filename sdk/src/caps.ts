@@ -0,0 +1,192 @@
+import { BN } from "@coral-xyz/anchor";
+import { BPS_DENOMINATOR } from "./constants";
+import type { SolForgeClient, VaultState } from "./index";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** On-chain `SpendingCaps` struct, as Anchor decodes it. */
+export interface SpendingCapsState {
+  windowSeconds: BN;
+  distributionLamports: BN;
+  distributionBps: number;
+  burnLamports: BN;
+  burnBps: number;
+}
+
+/**
+ * Limit on one outflow per window: a fixed amount, a share of
+ * `totalAccrued` at the window start, or `null` for uncapped.
+ */
+export type SpendingLimit = { lamports: BN | number } | { bps: number } | null;
+
+export interface SpendingCapsParams {
+  /** Window length in seconds; must be positive if any cap is set. */
+  windowSeconds: number;
+  /** Covers `distribute_rewards`, schedule cranks and distribution rounds. */
+  distribution?: SpendingLimit;
+  /** Covers `burn_sol` and `sweep_surplus` with `burn`. */
+  burn?: SpendingLimit;
+}
+
+/**
+ * - `distribution`: `distribute_rewards`, `crank_reward_schedule` and
+ *   `create_distribution`.
+ * - `burn`: `burn_sol` and `sweep_surplus` with `burn`.
+ */
+export type Outflow = "distribution" | "burn";
+
+export interface CapAllowance {
+  /** Lamports allowed per window, or `null` if uncapped. */
+  limit: BN | null;
+  /** Lamports already spent this window. */
+  spent: BN;
+  /** `limit - spent`, or `null` if uncapped. */
+  remaining: BN | null;
+}
+
+/** What the current cap window still allows, at a given cluster time. */
+export interface SpendingAllowance {
+  caps: SpendingCapsState;
+  /** Unix time the current window started. */
+  windowStart: number;
+  /** Unix time the next window starts, or `null` without windows. */
+  windowEnd: number | null;
+  /** `totalAccrued` at the window start, the base for bps caps. */
+  windowStartBalance: BN;
+  distribution: CapAllowance;
+  burn: CapAllowance;
+}
+
+// ---------------------------------------------------------------------------
+// Caps
+// ---------------------------------------------------------------------------
+
+function limitArgs(limit: SpendingLimit | undefined): { lamports: BN; bps: number } {
+  if (!limit) return { lamports: new BN(0), bps: 0 };
+  return "bps" in limit
+    ? { lamports: new BN(0), bps: limit.bps }
+    : { lamports: new BN(limit.lamports), bps: 0 };
+}
+
+/** The on-chain `SpendingCaps` argument for `params`. */
+export function spendingCapsArgs(params: SpendingCapsParams): SpendingCapsState {
+  const distribution = limitArgs(params.distribution);
+  const burn = limitArgs(params.burn);
+  return {
+    windowSeconds: new BN(params.windowSeconds),
+    distributionLamports: distribution.lamports,
+    distributionBps: distribution.bps,
+    burnLamports: burn.lamports,
+    burnBps: burn.bps,
+  };
+}
+
+/** Whether `caps` leaves both outflows uncapped. */
+export function isUncapped(caps: SpendingCapsState): boolean {
+  return (
+    caps.distributionLamports.isZero() &&
+    caps.distributionBps === 0 &&
+    caps.burnLamports.isZero() &&
+    caps.burnBps === 0
+  );
+}
+
+/**
+ * Lamports a cap allows per window (mirrors `cap_limit` in `lib.rs`).
+ *
+ * @returns `null` when uncapped.
+ */
+export function capLimit(lamports: BN, bps: number, base: BN): BN | null {
+  if (!lamports.isZero()) return lamports;
+  if (bps > 0) return base.muln(bps).divn(BPS_DENOMINATOR);
+  return null;
+}
+
+/**
+ * Move `vault` into the window containing `now`, as the program does before
+ * counting an outflow. Windows stay aligned to the first one's start.
+ */
+export function rollSpendingWindow(vault: VaultState, now: number): void {
+  const window = vault.spendingCaps.windowSeconds.toNumber();
+  const start = vault.windowStart.toNumber();
+  if (window <= 0 || now < start + window) return;
+  vault.windowStart = new BN(start + Math.floor((now - start) / window) * window);
+  vault.windowStartBalance = vault.totalAccrued;
+  vault.distributedInWindow = new BN(0);
+  vault.burnedInWindow = new BN(0);
+}
+
+/**
+ * Remaining allowance of `vault` at cluster time `now`. A window that has
+ * ended counts as fresh, as it will for the next outflow.
+ *
+ * @param now Cluster unix time (from the `Clock` sysvar, not local time).
+ */
+export function computeSpendingAllowance(
+  vault: VaultState,
+  now: number
+): SpendingAllowance {
+  const rolled: VaultState = { ...vault };
+  rollSpendingWindow(rolled, now);
+  const caps = rolled.spendingCaps;
+  const base = rolled.windowStartBalance;
+  const allowance = (limit: BN | null, spent: BN): CapAllowance => ({
+    limit,
+    spent,
+    remaining: limit && BN.max(limit.sub(spent), new BN(0)),
+  });
+  const window = caps.windowSeconds.toNumber();
+  return {
+    caps,
+    windowStart: rolled.windowStart.toNumber(),
+    windowEnd: window > 0 ? rolled.windowStart.toNumber() + window : null,
+    windowStartBalance: base,
+    distribution: allowance(
+      capLimit(caps.distributionLamports, caps.distributionBps, base),
+      rolled.distributedInWindow
+    ),
+    burn: allowance(
+      capLimit(caps.burnLamports, caps.burnBps, base),
+      rolled.burnedInWindow
+    ),
+  };
+}
+
+/**
+ * Count `amount` against `vault`'s window the way the program does, so a
+ * locally tracked vault stays in step across several sends.
+ */
+export function recordSpending(
+  vault: VaultState,
+  outflow: Outflow,
+  amount: BN,
+  now: number
+): void {
+  rollSpendingWindow(vault, now);
+  if (outflow === "distribution") {
+    vault.distributedInWindow = vault.distributedInWindow.add(amount);
+  } else {
+    vault.burnedInWindow = vault.burnedInWindow.add(amount);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/**
+ * Remaining allowance of `client`'s vault at the current cluster time.
+ *
+ * @returns `null` if the vault is not initialized.
+ */
+export async function fetchSpendingAllowance(
+  client: SolForgeClient
+): Promise<SpendingAllowance | null> {
+  const [vault, now] = await Promise.all([
+    client.getVaultState(),
+    client.getClusterTime(),
+  ]);
+  return vault && computeSpendingAllowance(vault, now);
+}
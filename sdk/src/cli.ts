@@ -0,0 +1,956 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { AnchorProvider, BN, Wallet } from "@coral-xyz/anchor";
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  analyticsToCsv,
+  analyticsToJson,
+  BucketSize,
+  createAssociatedTokenAccountIdempotentIx,
+  DistributionTree,
+  ERROR_CODE_OFFSET,
+  isScheduleDue,
+  JsonFileEventStore,
+  namespaceFromName,
+  PROGRAM_ID,
+  RecipientNotAllowedError,
+  RewardScheduleParams,
+  SendOptions,
+  SolForgeClient,
+  SolForgeError,
+  SOLFORGE_IDL,
+  SolForgeIdl,
+  SolForgeIndexer,
+  SpendingCapsParams,
+  SpendingLimit,
+  toPlain,
+  translateError,
+  VaultState,
+  withComputeBudget,
+} from "./index";
+
+// ---------------------------------------------------------------------------
+// Exit codes
+// ---------------------------------------------------------------------------
+
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+/** Program errors exit with 10 + their `ErrorCode` index. */
+export function exitCodeFor(err: SolForgeError): number {
+  return 10 + err.code - ERROR_CODE_OFFSET;
+}
+
+class UsageError extends Error {}
+
+// ---------------------------------------------------------------------------
+// Argument parsing
+// ---------------------------------------------------------------------------
+
+const USAGE = `Usage: solforge <command> [args] [options]
+
+Commands:
+  status                          Show vault state
+  list                            List every vault of the program
+  quote <volume>                  Fee, burn and net for a trade volume
+  analytics <store.json>          Sync events into a JSON store and report
+                                  burn/retention metrics (--from, --to in
+                                  unix seconds; --bucket hour|day|week|
+                                  epoch|<secs>; --csv buckets|payers|
+                                  recipients)
+  init <feeBps> <burnBps>         Initialize the vault (--delay <secs>,
+                                  --guardian <pubkey>)
+  init-token <mint>               Create the vault's token account for a mint
+  accrue <amount>                 Pay a fee into the vault (--on-volume:
+                                  charge the fee rate on <amount> of volume)
+  burn <amount>                   Burn from the vault
+  distribute <recipient> <amount> Send from the vault
+  reconcile                       Explain lamports the vault holds beyond
+                                  rent and total_accrued, from its history
+  sweep-surplus                   Add that surplus to total_accrued
+                                  (--burn: burn it instead)
+  proposals                       List the vault's governance proposals
+  propose                         Propose an update (--burn-bps, --delay,
+                                  --fee-bps, --allowlist on|off,
+                                  --guardian <pubkey>|none; spending
+                                  caps with --window
+                                  <secs> and --distribution-cap/--burn-cap
+                                  <lamports> or --distribution-cap-bps/
+                                  --burn-cap-bps <n>, replacing all caps)
+  allowance                       Show what the current spending cap
+                                  window still allows
+  execute <id>                    Execute a proposal once its timelock ends
+  cancel <id>                     Cancel a pending proposal
+  allowlist                       List allowlisted and proposed recipients
+  allowlist-add <recipient>       Propose a recipient for the allowlist
+  allowlist-execute <recipient>   Activate it once its timelock ends
+  allowlist-remove <recipient>    Remove a recipient (immediately)
+  pause                           Pause the vault (as the guardian)
+  propose-unpause                 Start the unpause timelock
+  unpause                         Unpause once the timelock ends
+  transfer-authority <pubkey>     Propose a new authority
+  accept-authority                Accept a pending transfer (as the nominee)
+  cancel-transfer                 Cancel the pending authority transfer
+  schedules                       List the vault's reward schedules
+  create-schedule <recipient>     Create a recurring payout (--amount
+                                  <lamports> or --bps <n>, --interval
+                                  <secs>, --end <unix time>)
+  update-schedule <address>       Change a schedule (same options)
+  cancel-schedule <address>       Close a schedule
+  crank                           Pay out every due schedule (--catch-up:
+                                  also pay missed intervals)
+  distributions                   List the vault's distribution rounds
+  create-distribution <file>      Fund a claimable round from a JSON list
+                                  of {recipient, amount} (--expires <unix
+                                  time>, --out <tree.json> to save the tree
+                                  for claimants)
+  claim <address> <tree.json>     Claim the signer's share of a round
+  claim-status <address> <tree.json> <recipient>
+                                  Show whether a recipient can claim
+  sweep <address>                 Return a round's unclaimed SOL to the
+                                  vault (after expiry)
+
+Options:
+  -u, --url <url>          Cluster RPC URL (default: devnet)
+  -k, --keypair <path>     Signer keypair (default: ~/.config/solana/id.json)
+  --program-id <pubkey>    Program ID (default: ${PROGRAM_ID.toBase58()})
+  --namespace <pubkey>     Vault namespace (default: the default vault)
+  --vault-name <name>      Vault namespace derived from a name
+  --mint <pubkey>          Token mint for accrue/burn/distribute/status
+                           (amounts in base units; default: SOL in lamports)
+  --idl <path>             IDL JSON (default: the IDL bundled with the SDK)
+  --json                   Print machine-readable JSON
+  --dry-run                Simulate instead of sending
+  --compute-units <n>      Compute unit limit
+  --priority-fee <n>       Compute unit price in micro-lamports
+  --retries <n>            Re-send on blockhash expiry (default: 0)
+  -h, --help               Show this help`;
+
+const COMMANDS = new Set([
+  "status",
+  "list",
+  "quote",
+  "analytics",
+  "init",
+  "init-token",
+  "accrue",
+  "burn",
+  "distribute",
+  "reconcile",
+  "sweep-surplus",
+  "proposals",
+  "propose",
+  "allowance",
+  "execute",
+  "cancel",
+  "allowlist",
+  "allowlist-add",
+  "allowlist-execute",
+  "allowlist-remove",
+  "pause",
+  "propose-unpause",
+  "unpause",
+  "transfer-authority",
+  "accept-authority",
+  "cancel-transfer",
+  "schedules",
+  "create-schedule",
+  "update-schedule",
+  "cancel-schedule",
+  "crank",
+  "distributions",
+  "create-distribution",
+  "claim",
+  "claim-status",
+  "sweep",
+]);
+
+const SHORT_FLAGS: Record<string, string> = { u: "url", k: "keypair", h: "help" };
+const BOOLEAN_FLAGS = new Set([
+  "json",
+  "dry-run",
+  "help",
+  "on-volume",
+  "catch-up",
+  "burn",
+]);
+
+interface ParsedArgs {
+  command?: string;
+  positionals: string[];
+  options: Record<string, string | true>;
+}
+
+export function parseArgs(argv: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const options: Record<string, string | true> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("-") || arg === "-") {
+      positionals.push(arg);
+      continue;
+    }
+    let [name, value] = arg.replace(/^--?/, "").split("=", 2) as [
+      string,
+      string | undefined
+    ];
+    if (!arg.startsWith("--")) name = SHORT_FLAGS[name] ?? name;
+    if (BOOLEAN_FLAGS.has(name)) {
+      options[name] = true;
+      continue;
+    }
+    value ??= argv[++i];
+    if (value === undefined) throw new UsageError(`Missing value for --${name}`);
+    options[name] = value;
+  }
+
+  const [command, ...rest] = positionals;
+  return { command, positionals: rest, options };
+}
+
+function option(args: ParsedArgs, name: string): string | undefined {
+  const value = args.options[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+function positional(args: ParsedArgs, index: number, name: string): string {
+  const value = args.positionals[index];
+  if (value === undefined) throw new UsageError(`Missing <${name}>`);
+  return value;
+}
+
+function parseInteger(value: string, name: string): number {
+  if (!/^\d+$/.test(value)) throw new UsageError(`Invalid ${name}: ${value}`);
+  return Number(value);
+}
+
+function parseAmount(value: string): BN {
+  if (!/^\d+$/.test(value)) throw new UsageError(`Invalid amount: ${value}`);
+  return new BN(value);
+}
+
+function parsePubkey(value: string, name: string): PublicKey {
+  try {
+    return new PublicKey(value);
+  } catch {
+    throw new UsageError(`Invalid ${name}: ${value}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Client setup
+// ---------------------------------------------------------------------------
+
+function loadKeypair(path: string): Keypair {
+  const resolved = path.replace(/^~(?=$|\/)/, homedir());
+  const secret = JSON.parse(readFileSync(resolved, "utf8"));
+  return Keypair.fromSecretKey(Uint8Array.from(secret));
+}
+
+/** Queries never load the keypair, so they work without one. */
+const READ_ONLY_COMMANDS = new Set([
+  "status",
+  "list",
+  "quote",
+  "analytics",
+  "reconcile",
+  "proposals",
+  "allowance",
+  "allowlist",
+  "schedules",
+  "distributions",
+  "claim-status",
+]);
+
+async function createClient(args: ParsedArgs): Promise<SolForgeClient> {
+  const programIdArg = option(args, "program-id");
+  const programId = programIdArg
+    ? parsePubkey(programIdArg, "program ID")
+    : PROGRAM_ID;
+  const namespaceArg = option(args, "namespace");
+  const vaultName = option(args, "vault-name");
+  const namespace = namespaceArg
+    ? parsePubkey(namespaceArg, "namespace")
+    : vaultName !== undefined
+    ? namespaceFromName(vaultName)
+    : undefined;
+  const send = sendOptions(args);
+
+  const idlPath = option(args, "idl");
+  const idl: SolForgeIdl = idlPath
+    ? JSON.parse(readFileSync(idlPath, "utf8"))
+    : SOLFORGE_IDL;
+  const connection = new Connection(
+    option(args, "url") ?? "https://api.devnet.solana.com",
+    "confirmed"
+  );
+  // The keypair is loaded last, so argument errors win over a missing keypair
+  const provider = READ_ONLY_COMMANDS.has(args.command!)
+    ? connection
+    : new AnchorProvider(
+        connection,
+        new Wallet(
+          loadKeypair(option(args, "keypair") ?? "~/.config/solana/id.json")
+        ),
+        { commitment: "confirmed" }
+      );
+  return SolForgeClient.create(provider, idl, programId, { namespace, send });
+}
+
+function sendOptions(args: ParsedArgs): SendOptions {
+  const integer = (name: string) => {
+    const value = option(args, name);
+    return value === undefined ? undefined : parseInteger(value, name);
+  };
+  return {
+    computeUnitLimit: integer("compute-units"),
+    computeUnitPrice: integer("priority-fee"),
+    maxRetries: integer("retries"),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Output
+// ---------------------------------------------------------------------------
+
+function print(args: ParsedArgs, result: Record<string, unknown>): void {
+  if (args.options.json) {
+    console.log(JSON.stringify(toPlain(result), null, 2));
+    return;
+  }
+  for (const [key, value] of Object.entries(toPlain(result) as object)) {
+    const text = Array.isArray(value)
+      ? value.join("\n  ")
+      : value && typeof value === "object"
+      ? JSON.stringify(value)
+      : value;
+    console.log(`${key}: ${text}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Commands
+// ---------------------------------------------------------------------------
+
+/** Builds a send command's instructions once a client exists. */
+type InstructionBuilder = (client: SolForgeClient) => Promise<TransactionInstruction[]>;
+
+/**
+ * Validate a send command's arguments without touching the network or the
+ * keypair, so bad arguments are reported as usage errors.
+ */
+function parseInstructions(args: ParsedArgs): InstructionBuilder {
+  const mintArg = option(args, "mint");
+  const mint = mintArg !== undefined ? parsePubkey(mintArg, "mint") : undefined;
+  switch (args.command) {
+    case "init-token": {
+      const tokenMint = parsePubkey(positional(args, 0, "mint"), "mint");
+      return async (client) => [await client.initializeTokenVaultIx(tokenMint)];
+    }
+    case "accrue": {
+      const amount = parseAmount(positional(args, 0, "amount"));
+      if (args.options["on-volume"]) {
+        if (mint) throw new UsageError("--on-volume is SOL only");
+        return async (client) => [await client.accrueFeeOnVolumeIx(amount)];
+      }
+      return async (client) => [
+        mint
+          ? await client.accrueTokenFeeIx(mint, amount)
+          : await client.accrueFeeIx(amount),
+      ];
+    }
+    case "burn": {
+      const amount = parseAmount(positional(args, 0, "amount"));
+      return async (client) => [
+        mint
+          ? await client.burnTokensIx(mint, amount)
+          : await client.burnSolIx(amount),
+      ];
+    }
+    case "distribute": {
+      const recipient = parsePubkey(positional(args, 0, "recipient"), "recipient");
+      const amount = parseAmount(positional(args, 1, "amount"));
+      return async (client) => {
+        if (!mint) {
+          if (!(await client.isAllowlisted(recipient))) {
+            throw new RecipientNotAllowedError(
+              `${recipient.toBase58()} is not on the allowlist`
+            );
+          }
+          return [await client.distributeRewardsIx(recipient, amount)];
+        }
+        const tokenVault = await client.getTokenVaultState(mint);
+        if (!tokenVault) throw new Error(`No token vault for mint ${mint.toBase58()}`);
+        return [
+          createAssociatedTokenAccountIdempotentIx(
+            client.requireWallet().publicKey,
+            recipient,
+            mint,
+            tokenVault.tokenProgram
+          ),
+          await client.distributeTokenRewardsIx(mint, recipient, amount),
+        ];
+      };
+    }
+    default: {
+      const build = parseInstruction(args);
+      return async (client) => [await build(client)];
+    }
+  }
+}
+
+function parseScheduleParams(args: ParsedArgs): RewardScheduleParams {
+  const amount = option(args, "amount");
+  const bps = option(args, "bps");
+  const interval = option(args, "interval");
+  const end = option(args, "end");
+  if ((amount === undefined) === (bps === undefined)) {
+    throw new UsageError("Pass exactly one of --amount and --bps");
+  }
+  if (interval === undefined) throw new UsageError("Missing --interval");
+  return {
+    amount:
+      amount !== undefined
+        ? { lamports: parseAmount(amount) }
+        : { bps: parseInteger(bps!, "bps") },
+    intervalSeconds: parseInteger(interval, "interval"),
+    endTime: end !== undefined ? parseInteger(end, "end") : null,
+  };
+}
+
+function parseSpendingLimit(
+  args: ParsedArgs,
+  name: "distribution" | "burn"
+): SpendingLimit {
+  const lamports = option(args, `${name}-cap`);
+  const bps = option(args, `${name}-cap-bps`);
+  if (lamports !== undefined && bps !== undefined) {
+    throw new UsageError(`Pass at most one of --${name}-cap and --${name}-cap-bps`);
+  }
+  if (lamports !== undefined) return { lamports: parseAmount(lamports) };
+  if (bps !== undefined) return { bps: parseInteger(bps, `${name}-cap-bps`) };
+  return null;
+}
+
+/** Proposed caps, or `undefined` if no cap flag was passed. */
+function parseSpendingCaps(args: ParsedArgs): SpendingCapsParams | undefined {
+  const flags = [
+    "window",
+    "distribution-cap",
+    "distribution-cap-bps",
+    "burn-cap",
+    "burn-cap-bps",
+  ];
+  if (!flags.some((name) => option(args, name) !== undefined)) return undefined;
+  const window = option(args, "window");
+  const distribution = parseSpendingLimit(args, "distribution");
+  const burn = parseSpendingLimit(args, "burn");
+  if (window === undefined && (distribution || burn)) {
+    throw new UsageError("Spending caps need --window");
+  }
+  return {
+    windowSeconds: window !== undefined ? parseInteger(window, "window") : 0,
+    distribution,
+    burn,
+  };
+}
+
+/**
+ * A `{ recipient, amount }[]` list, or a tree saved by
+ * `create-distribution --out` (checked against its root).
+ */
+function loadDistributionTree(path: string): DistributionTree {
+  const json = JSON.parse(readFileSync(path, "utf8"));
+  if (!Array.isArray(json)) return DistributionTree.fromJSON(json);
+  return new DistributionTree(
+    json.map((entry: { recipient: string; amount: string | number }) => ({
+      recipient: parsePubkey(entry.recipient, "recipient"),
+      amount: parseAmount(String(entry.amount)),
+    }))
+  );
+}
+
+/** `parseInstructions` for commands that send a single instruction. */
+function parseInstruction(
+  args: ParsedArgs
+): (client: SolForgeClient) => Promise<TransactionInstruction> {
+  switch (args.command) {
+    case "init": {
+      const feeBps = parseInteger(positional(args, 0, "feeBps"), "feeBps");
+      const burnBps = parseInteger(positional(args, 1, "burnBps"), "burnBps");
+      const delay = option(args, "delay");
+      const delaySeconds = delay !== undefined ? parseInteger(delay, "delay") : undefined;
+      const guardianArg = option(args, "guardian");
+      const guardian =
+        guardianArg !== undefined ? parsePubkey(guardianArg, "guardian") : undefined;
+      return (client) => client.initializeVaultIx(feeBps, burnBps, delaySeconds, guardian);
+    }
+    case "propose": {
+      const burnBps = option(args, "burn-bps");
+      const delay = option(args, "delay");
+      const feeBps = option(args, "fee-bps");
+      const caps = parseSpendingCaps(args);
+      const allowlist = option(args, "allowlist");
+      if (allowlist !== undefined && allowlist !== "on" && allowlist !== "off") {
+        throw new UsageError("--allowlist must be on or off");
+      }
+      const guardian = option(args, "guardian");
+      if (
+        burnBps === undefined &&
+        delay === undefined &&
+        feeBps === undefined &&
+        caps === undefined &&
+        allowlist === undefined &&
+        guardian === undefined
+      ) {
+        throw new UsageError(
+          "propose needs --burn-bps, --delay, --fee-bps, --allowlist, --guardian and/or spending caps"
+        );
+      }
+      const update = {
+        burnBps: burnBps !== undefined ? parseInteger(burnBps, "burn-bps") : undefined,
+        delaySeconds: delay !== undefined ? parseInteger(delay, "delay") : undefined,
+        feeBps: feeBps !== undefined ? parseInteger(feeBps, "fee-bps") : undefined,
+        spendingCaps: caps,
+        allowlistEnabled: allowlist !== undefined ? allowlist === "on" : undefined,
+        guardian:
+          guardian === "none"
+            ? PublicKey.default
+            : guardian !== undefined
+              ? parsePubkey(guardian, "guardian")
+              : undefined,
+      };
+      return async (client) =>
+        client.proposeParameterUpdateIx(await client.nextProposalId(), update);
+    }
+    case "execute": {
+      const id = parseInteger(positional(args, 0, "id"), "id");
+      return (client) => client.executeParameterUpdateIx(id);
+    }
+    case "cancel": {
+      const id = parseInteger(positional(args, 0, "id"), "id");
+      return (client) => client.cancelParameterProposalIx(id);
+    }
+    case "allowlist-add": {
+      const recipient = parsePubkey(positional(args, 0, "recipient"), "recipient");
+      return (client) => client.proposeAllowlistAdditionIx(recipient);
+    }
+    case "allowlist-execute": {
+      const recipient = parsePubkey(positional(args, 0, "recipient"), "recipient");
+      return (client) => client.executeAllowlistAdditionIx(recipient);
+    }
+    case "allowlist-remove": {
+      const recipient = parsePubkey(positional(args, 0, "recipient"), "recipient");
+      return (client) => client.removeAllowlistRecipientIx(recipient);
+    }
+    case "pause":
+      return (client) => client.pauseIx();
+    case "propose-unpause":
+      return (client) => client.proposeUnpauseIx();
+    case "unpause":
+      return (client) => client.unpauseIx();
+    case "transfer-authority": {
+      const pubkey = parsePubkey(positional(args, 0, "pubkey"), "pubkey");
+      return (client) => client.proposeAuthorityTransferIx(pubkey);
+    }
+    case "accept-authority":
+      return (client) => client.acceptAuthorityTransferIx();
+    case "cancel-transfer":
+      return (client) => client.cancelAuthorityTransferIx();
+    case "sweep-surplus": {
+      const burn = args.options.burn === true;
+      return (client) => client.sweepSurplusIx(burn);
+    }
+    case "create-schedule": {
+      const schedule = {
+        recipient: parsePubkey(positional(args, 0, "recipient"), "recipient"),
+        ...parseScheduleParams(args),
+      };
+      return async (client) =>
+        client.createRewardScheduleIx(await client.nextRewardScheduleId(), schedule);
+    }
+    case "update-schedule": {
+      const address = parsePubkey(positional(args, 0, "address"), "address");
+      const params = parseScheduleParams(args);
+      return (client) => client.updateRewardScheduleIx(address, params);
+    }
+    case "cancel-schedule": {
+      const address = parsePubkey(positional(args, 0, "address"), "address");
+      return (client) => client.cancelRewardScheduleIx(address);
+    }
+    case "create-distribution": {
+      const tree = loadDistributionTree(positional(args, 0, "file"));
+      const expires = option(args, "expires");
+      if (expires === undefined) throw new UsageError("Missing --expires");
+      const expiresAt = parseInteger(expires, "expires");
+      const out = option(args, "out");
+      return async (client) => {
+        if (out !== undefined) writeFileSync(out, JSON.stringify(tree.toJSON(), null, 2));
+        return client.createDistributionIx(await client.nextDistributionId(), tree, expiresAt);
+      };
+    }
+    case "claim": {
+      const address = parsePubkey(positional(args, 0, "address"), "address");
+      const tree = loadDistributionTree(positional(args, 1, "tree.json"));
+      return (client) => {
+        const claimant = client.requireWallet().publicKey;
+        const claim = tree.claim(claimant);
+        if (!claim) throw new Error(`${claimant.toBase58()} is not in this distribution`);
+        return client.claimDistributionIx(address, claim);
+      };
+    }
+    case "sweep": {
+      const address = parsePubkey(positional(args, 0, "address"), "address");
+      return (client) => client.sweepDistributionIx(address);
+    }
+    default:
+      throw new UsageError(`Unknown command: ${args.command}`);
+  }
+}
+
+async function quote(client: SolForgeClient, args: ParsedArgs): Promise<void> {
+  const result = await client.quoteFee(parseAmount(positional(args, 0, "volume")));
+  print(args, { ...result });
+}
+
+function parseBucket(value: string | undefined): BucketSize | undefined {
+  if (value === undefined) return undefined;
+  if (["hour", "day", "week", "epoch"].includes(value)) return value as BucketSize;
+  return parseInteger(value, "bucket");
+}
+
+async function analytics(client: SolForgeClient, args: ParsedArgs): Promise<void> {
+  const store = new JsonFileEventStore(positional(args, 0, "store"));
+  await new SolForgeIndexer(client, store).sync();
+  const from = option(args, "from");
+  const to = option(args, "to");
+  const report = await client.getAnalytics(store, {
+    from: from === undefined ? undefined : parseInteger(from, "from"),
+    to: to === undefined ? undefined : parseInteger(to, "to"),
+    bucket: parseBucket(option(args, "bucket")),
+  });
+
+  const csv = option(args, "csv");
+  if (csv !== undefined) {
+    const tables = analyticsToCsv(report);
+    if (!(csv in tables)) {
+      throw new UsageError("--csv must be buckets, payers or recipients");
+    }
+    process.stdout.write(tables[csv as keyof typeof tables]);
+  } else if (args.options.json) {
+    console.log(analyticsToJson(report));
+  } else {
+    print(args, {
+      from: report.from,
+      to: report.to,
+      ...report.totals,
+      burnedPerDay: report.burnedPerDay,
+      ...report.ratios,
+      retained: report.runway.retained,
+      runwaySeconds: report.runway.seconds,
+      buckets: report.buckets.length,
+      topPayers: report.topPayers.map((p) => `${p.payer.toBase58()} ${p.gross}`),
+      skippedEvents: report.skippedEvents,
+    });
+  }
+}
+
+async function status(client: SolForgeClient, args: ParsedArgs): Promise<void> {
+  const vault: VaultState | null = await client.getVaultState();
+  const balance = await client.provider.connection.getBalance(client.vaultPda);
+  const mint = option(args, "mint");
+  const tokenVault = mint
+    ? await client.getTokenVaultState(parsePubkey(mint, "mint"))
+    : null;
+  print(args, {
+    vault: client.vaultPda,
+    initialized: vault !== null,
+    balance,
+    ...vault,
+    ...(mint && {
+      mint,
+      tokenVaultInitialized: tokenVault !== null,
+      tokenTotalAccrued: tokenVault?.totalAccrued ?? null,
+    }),
+  });
+}
+
+async function list(client: SolForgeClient, args: ParsedArgs): Promise<void> {
+  const vaults = await client.listVaults();
+  if (args.options.json) {
+    print(args, { vaults });
+    return;
+  }
+  for (const { address, state } of vaults) {
+    console.log(
+      `${address.toBase58()}  namespace=${state.namespace.toBase58()} ` +
+        `authority=${state.authority.toBase58()} ` +
+        `totalAccrued=${state.totalAccrued.toString()}`
+    );
+  }
+}
+
+async function reconcile(client: SolForgeClient, args: ParsedArgs): Promise<void> {
+  const report = await client.reconcile();
+  if (!report) throw new Error(`Vault ${client.vaultPda.toBase58()} not initialized`);
+  print(args, {
+    balance: report.balance,
+    rentExempt: report.rentExempt,
+    totalAccrued: report.totalAccrued,
+    surplus: report.surplus,
+    unexplained: report.unexplained,
+    transactions: report.transactions,
+    discrepancies: args.options.json
+      ? report.discrepancies
+      : report.discrepancies.map(
+          (d) => `${d.signature} ${d.cause} ${d.amount.toString()} from ${d.feePayer.toBase58()}`
+        ),
+  });
+}
+
+async function proposals(client: SolForgeClient, args: ParsedArgs): Promise<void> {
+  const found = await client.listProposals();
+  if (args.options.json) {
+    print(args, { proposals: found });
+    return;
+  }
+  for (const { address, id, status, state } of found) {
+    const changes = [
+      state.burnPercentageBps !== null && `burn=${state.burnPercentageBps}bps`,
+      state.delaySeconds !== null && `delay=${state.delaySeconds.toString()}s`,
+      state.feeBasisPoints !== null && `fee=${state.feeBasisPoints}bps`,
+      state.spendingCaps !== null && `caps=${JSON.stringify(toPlain(state.spendingCaps))}`,
+      state.allowlistEnabled !== null && `allowlist=${state.allowlistEnabled ? "on" : "off"}`,
+      state.guardian !== null &&
+        `guardian=${state.guardian.equals(PublicKey.default) ? "none" : state.guardian.toBase58()}`,
+    ].filter(Boolean);
+    console.log(
+      `${address.toBase58()}  id=${id.toString()} status=${status} ` +
+        `${changes.join(" ")} release=${state.releaseTime.toString()} ` +
+        `expires=${state.expiresAt.toString()}`
+    );
+  }
+}
+
+async function allowance(client: SolForgeClient, args: ParsedArgs): Promise<void> {
+  const report = await client.getSpendingAllowance();
+  if (!report) throw new Error(`Vault ${client.vaultPda.toBase58()} not initialized`);
+  print(args, {
+    windowSeconds: report.caps.windowSeconds,
+    windowStart: report.windowStart,
+    windowEnd: report.windowEnd,
+    windowStartBalance: report.windowStartBalance,
+    distributionLimit: report.distribution.limit,
+    distributed: report.distribution.spent,
+    distributionRemaining: report.distribution.remaining,
+    burnLimit: report.burn.limit,
+    burned: report.burn.spent,
+    burnRemaining: report.burn.remaining,
+  });
+}
+
+async function allowlist(client: SolForgeClient, args: ParsedArgs): Promise<void> {
+  const [vault, entries] = await Promise.all([
+    client.getVaultState(),
+    client.listAllowlist(),
+  ]);
+  if (!vault) throw new Error(`Vault ${client.vaultPda.toBase58()} not initialized`);
+  if (args.options.json) {
+    print(args, { enabled: vault.allowlistEnabled, entries });
+    return;
+  }
+  console.log(`allowlist mode: ${vault.allowlistEnabled ? "on" : "off"}`);
+  for (const { state, status } of entries) {
+    console.log(
+      `${state.recipient.toBase58()}  status=${status} ` +
+        `release=${state.releaseTime.toString()}`
+    );
+  }
+}
+
+async function schedules(client: SolForgeClient, args: ParsedArgs): Promise<void> {
+  const found = await client.listRewardSchedules();
+  if (args.options.json) {
+    print(args, { schedules: found });
+    return;
+  }
+  for (const { address, state } of found) {
+    const amount = state.amountBps > 0
+      ? `${state.amountBps}bps`
+      : `${state.amountLamports.toString()} lamports`;
+    console.log(
+      `${address.toBase58()}  id=${state.id.toString()} ` +
+        `recipient=${state.recipient.toBase58()} amount=${amount} ` +
+        `every=${state.intervalSeconds.toString()}s ` +
+        `next=${state.nextPayoutAt.toString()} paid=${state.totalPaid.toString()}`
+    );
+  }
+}
+
+async function crank(client: SolForgeClient, args: ParsedArgs): Promise<void> {
+  if (args.options["dry-run"]) {
+    const now = await client.getClusterTime();
+    const due = (await client.listRewardSchedules()).filter(({ state }) =>
+      isScheduleDue(state, now)
+    );
+    print(args, { due: due.map(({ address }) => address) });
+    return;
+  }
+  const report = await client.crankDueSchedules({
+    catchUp: args.options["catch-up"] === true,
+  });
+  print(args, {
+    totalPaid: report.totalPaid,
+    results: report.results.map(({ schedule, amount, status, signature, error }) =>
+      args.options.json
+        ? { schedule, amount, status, signature, error: (error as Error)?.message }
+        : `${schedule.toBase58()} ${status} ${amount.toString()}` +
+          (signature ? ` ${signature}` : "") +
+          (error ? ` (${(error as Error).message})` : "")
+    ),
+  });
+}
+
+async function distributions(client: SolForgeClient, args: ParsedArgs): Promise<void> {
+  const found = await client.listDistributions();
+  if (args.options.json) {
+    // The claimed bitmap is noise in a listing
+    print(args, {
+      distributions: found.map(({ address, state: { claimed, ...state } }) => ({
+        address,
+        state,
+      })),
+    });
+    return;
+  }
+  for (const { address, state } of found) {
+    console.log(
+      `${address.toBase58()}  id=${state.id.toString()} ` +
+        `claimed=${state.numClaimed}/${state.numRecipients} ` +
+        `amount=${state.claimedAmount.toString()}/${state.totalAmount.toString()} ` +
+        `expires=${state.expiresAt.toString()}`
+    );
+  }
+}
+
+async function claimStatus(client: SolForgeClient, args: ParsedArgs): Promise<void> {
+  const { status, leaf } = await client.getClaimStatus(
+    parsePubkey(positional(args, 0, "address"), "address"),
+    loadDistributionTree(positional(args, 1, "tree.json")),
+    parsePubkey(positional(args, 2, "recipient"), "recipient")
+  );
+  print(args, { status, index: leaf?.index ?? null, amount: leaf?.amount ?? null });
+}
+
+async function send(
+  client: SolForgeClient,
+  args: ParsedArgs,
+  build: InstructionBuilder
+): Promise<void> {
+  const ixs = await build(client);
+
+  if (args.options["dry-run"]) {
+    const tx = await client.buildTransaction(
+      await withComputeBudget(ixs, sendOptions(args))
+    );
+    const { value } = await client.provider.connection.simulateTransaction(tx);
+    if (value.err) {
+      throw Object.assign(new Error(`Simulation failed: ${JSON.stringify(value.err)}`), {
+        logs: value.logs ?? [],
+      });
+    }
+    print(args, { simulated: true, logs: value.logs });
+    return;
+  }
+
+  const result = await client.sendInstructions(ixs);
+  print(args, {
+    signature: result.signature,
+    slot: result.slot,
+    fee: result.fee,
+    events: result.events.map((e) => e.name),
+  });
+}
+
+/** Commands that do more than send instructions built from their arguments. */
+const HANDLERS = new Map<
+  string,
+  (client: SolForgeClient, args: ParsedArgs) => Promise<void>
+>([
+  ["status", status],
+  ["list", list],
+  ["quote", quote],
+  ["analytics", analytics],
+  ["reconcile", reconcile],
+  ["proposals", proposals],
+  ["allowance", allowance],
+  ["allowlist", allowlist],
+  ["schedules", schedules],
+  ["crank", crank],
+  ["distributions", distributions],
+  ["claim-status", claimStatus],
+]);
+
+/**
+ * Run the CLI and resolve to its exit code.
+ *
+ * @param argv Arguments after the executable name.
+ */
+export async function main(argv: string[]): Promise<number> {
+  let args: ParsedArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (err: unknown) {
+    console.error(`${err instanceof Error ? err.message : err}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  if (args.options.help || !args.command) {
+    console.log(USAGE);
+    return args.command || args.options.help ? EXIT_OK : EXIT_USAGE;
+  }
+  if (!COMMANDS.has(args.command)) {
+    console.error(`Unknown command: ${args.command}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  try {
+    const handler = HANDLERS.get(args.command);
+    if (handler) {
+      await handler(await createClient(args), args);
+    } else {
+      // Before `createClient`, which loads the keypair
+      const build = parseInstructions(args);
+      await send(await createClient(args), args, build);
+    }
+    return EXIT_OK;
+  } catch (err: unknown) {
+    if (err instanceof UsageError) {
+      console.error(`${err.message}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+    const programErr = translateError(err);
+    if (programErr instanceof SolForgeError) {
+      const { variant, code, message } = programErr;
+      if (args.options.json) {
+        console.error(JSON.stringify({ error: variant, code, message }));
+      } else {
+        console.error(`Error: ${variant} (${code}): ${message}`);
+      }
+      return exitCodeFor(programErr);
+    }
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    return EXIT_FAILURE;
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then((code) => process.exit(code));
+}
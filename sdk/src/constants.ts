@@ -0,0 +1,33 @@
+import { PublicKey } from "@solana/web3.js";
+
+// ---------------------------------------------------------------------------
+// Program constants (mirror `lib.rs`)
+// ---------------------------------------------------------------------------
+
+export const PROGRAM_ID = new PublicKey(
+  "F1aLM6gPxEmoGRCT84ZYTSWAgiaaf3m4JHabr4nkBiHo"
+);
+
+/** Solana native incinerator address */
+export const INCINERATOR = new PublicKey(
+  "1nc1nerator11111111111111111111111111111111"
+);
+
+/** Namespace of the default vault (all-zero key). */
+export const DEFAULT_NAMESPACE = PublicKey.default;
+
+/** Basis-point denominator (100 %). */
+export const BPS_DENOMINATOR = 10_000;
+
+export const DEFAULT_DELAY_SECONDS = 86_400; // 24 hours
+export const MIN_DELAY_SECONDS = 3_600; // 1 hour
+export const MAX_DELAY_SECONDS = 604_800; // 7 days
+
+/** How long a proposal stays executable after its timelock expires. */
+export const PROPOSAL_EXECUTION_WINDOW_SECONDS = 604_800; // 7 days
+
+/** Dust floor for `burn_sol` and `distribute_rewards` (0.001 SOL). */
+export const MIN_BURN_AMOUNT_LAMPORTS = 1_000_000;
+
+/** Largest distribution round (its claimed bitmap must fit in 10 KiB). */
+export const MAX_DISTRIBUTION_RECIPIENTS = 80_000;
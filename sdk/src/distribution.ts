@@ -0,0 +1,281 @@
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { sha256 } from "@noble/hashes/sha256";
+import type { RewardPayment } from "./batch";
+import { PROGRAM_ID } from "./constants";
+import type { SolForgeClient } from "./index";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Distribution round account (mirrors on-chain `Distribution` struct). */
+export interface DistributionState {
+  vault: PublicKey;
+  id: BN;
+  merkleRoot: number[];
+  totalAmount: BN;
+  claimedAmount: BN;
+  numRecipients: number;
+  numClaimed: number;
+  expiresAt: BN;
+  bump: number;
+  /** One bit per leaf index, set once claimed. */
+  claimed: Buffer;
+}
+
+/** A round found by `listDistributions`. */
+export interface DistributionInfo {
+  address: PublicKey;
+  state: DistributionState;
+}
+
+export interface DistributionLeaf {
+  index: number;
+  recipient: PublicKey;
+  amount: BN;
+}
+
+export interface NewDistribution {
+  tree: DistributionTree;
+  /** Unix time when claims close and sweeping opens. */
+  expiresAt: number;
+}
+
+/** Everything `claim_distribution` needs for one leaf. */
+export interface DistributionClaim extends DistributionLeaf {
+  proof: Buffer[];
+}
+
+/**
+ * - `claimable`: in the tree, unclaimed, and the round is open.
+ * - `claimed`: already paid out.
+ * - `expired`: unclaimed, but the round has expired.
+ * - `ineligible`: not in the tree.
+ */
+export type ClaimStatus = "claimable" | "claimed" | "expired" | "ineligible";
+
+export interface DistributionClaimStatus {
+  status: ClaimStatus;
+  /** The recipient's leaf, or `null` when `ineligible`. */
+  leaf: DistributionLeaf | null;
+}
+
+/** Serialized tree, for publishing the recipient list to claimants. */
+export interface DistributionTreeJson {
+  /** Hex merkle root. */
+  root: string;
+  total: string;
+  entries: { recipient: string; amount: string }[];
+}
+
+// ---------------------------------------------------------------------------
+// Hashing (must match `distribution_leaf` / `verify_merkle_proof` in lib.rs)
+// ---------------------------------------------------------------------------
+
+const LEAF_PREFIX = Buffer.from([0]);
+const NODE_PREFIX = Buffer.from([1]);
+
+/** `sha256(0x00 || index (u32 LE) || recipient || amount (u64 LE))`. */
+export function hashDistributionLeaf(
+  index: number,
+  recipient: PublicKey,
+  amount: BN | number
+): Buffer {
+  const indexBytes = Buffer.alloc(4);
+  indexBytes.writeUInt32LE(index);
+  return Buffer.from(
+    sha256(
+      Buffer.concat([
+        LEAF_PREFIX,
+        indexBytes,
+        recipient.toBuffer(),
+        new BN(amount).toArrayLike(Buffer, "le", 8),
+      ])
+    )
+  );
+}
+
+/** `sha256(0x01 || min || max)`: sorted, so proofs need no left/right flags. */
+export function hashDistributionPair(a: Uint8Array, b: Uint8Array): Buffer {
+  const [left, right] = Buffer.compare(a, b) <= 0 ? [a, b] : [b, a];
+  return Buffer.from(sha256(Buffer.concat([NODE_PREFIX, left, right])));
+}
+
+/** Whether `proof` links `leaf` to `root`. */
+export function verifyDistributionProof(
+  root: Uint8Array,
+  leaf: Uint8Array,
+  proof: Uint8Array[]
+): boolean {
+  const computed = proof.reduce<Uint8Array>(hashDistributionPair, leaf);
+  return Buffer.compare(computed, root) === 0;
+}
+
+// ---------------------------------------------------------------------------
+// Tree
+// ---------------------------------------------------------------------------
+
+/**
+ * Merkle tree over a `{ recipient, amount }` list, leaf `i` being entry `i`.
+ * An odd node at the end of a level is carried up unhashed.
+ */
+export class DistributionTree {
+  readonly leaves: readonly DistributionLeaf[];
+  readonly total: BN;
+  readonly root: Buffer;
+  /** `layers[0]` are the leaf hashes, the last layer is `[root]`. */
+  private readonly layers: Buffer[][];
+  private readonly byRecipient = new Map<string, DistributionLeaf>();
+
+  constructor(entries: readonly RewardPayment[]) {
+    if (entries.length === 0) throw new RangeError("Distribution has no recipients");
+    this.leaves = entries.map(({ recipient, amount }, index) => {
+      const leaf = { index, recipient, amount: new BN(amount) };
+      if (leaf.amount.lten(0)) {
+        throw new RangeError(`Amount for ${recipient.toBase58()} must be positive`);
+      }
+      if (this.byRecipient.has(recipient.toBase58())) {
+        throw new RangeError(`Duplicate recipient ${recipient.toBase58()}`);
+      }
+      this.byRecipient.set(recipient.toBase58(), leaf);
+      return leaf;
+    });
+    this.total = this.leaves.reduce((sum, leaf) => sum.add(leaf.amount), new BN(0));
+
+    let layer = this.leaves.map((l) => hashDistributionLeaf(l.index, l.recipient, l.amount));
+    this.layers = [layer];
+    while (layer.length > 1) {
+      const next: Buffer[] = [];
+      for (let i = 0; i < layer.length; i += 2) {
+        next.push(i + 1 < layer.length ? hashDistributionPair(layer[i], layer[i + 1]) : layer[i]);
+      }
+      this.layers.push(next);
+      layer = next;
+    }
+    this.root = layer[0];
+  }
+
+  /** Rebuild a published tree, checking it still hashes to `json.root`. */
+  static fromJSON(json: DistributionTreeJson): DistributionTree {
+    const tree = new DistributionTree(
+      json.entries.map((e) => ({
+        recipient: new PublicKey(e.recipient),
+        amount: new BN(e.amount),
+      }))
+    );
+    if (tree.root.toString("hex") !== json.root) {
+      throw new Error("Distribution entries do not match the published root");
+    }
+    return tree;
+  }
+
+  toJSON(): DistributionTreeJson {
+    return {
+      root: this.root.toString("hex"),
+      total: this.total.toString(),
+      entries: this.leaves.map((l) => ({
+        recipient: l.recipient.toBase58(),
+        amount: l.amount.toString(),
+      })),
+    };
+  }
+
+  /** `recipient`'s leaf, or `null` if they are not in the tree. */
+  find(recipient: PublicKey): DistributionLeaf | null {
+    return this.byRecipient.get(recipient.toBase58()) ?? null;
+  }
+
+  /** Sibling hashes from leaf `index` up to the root. */
+  proof(index: number): Buffer[] {
+    if (index < 0 || index >= this.leaves.length) {
+      throw new RangeError(`Leaf ${index} out of range`);
+    }
+    const proof: Buffer[] = [];
+    for (const layer of this.layers.slice(0, -1)) {
+      const sibling = index ^ 1;
+      if (sibling < layer.length) proof.push(layer[sibling]);
+      index >>= 1;
+    }
+    return proof;
+  }
+
+  /** `recipient`'s leaf with its proof, or `null` if they are not in the tree. */
+  claim(recipient: PublicKey): DistributionClaim | null {
+    const leaf = this.find(recipient);
+    return leaf && { ...leaf, proof: this.proof(leaf.index) };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Addresses & state
+// ---------------------------------------------------------------------------
+
+const DISTRIBUTION_SEED = Buffer.from("distribution");
+
+/**
+ * Derive a distribution PDA: seeds `["distribution", vault, id (u64 LE)]`.
+ *
+ * @param vault     Vault PDA.
+ * @param id        Round id.
+ * @param programId Program ID (defaults to on-chain address).
+ */
+export function findDistributionAddress(
+  vault: PublicKey,
+  id: BN | number,
+  programId: PublicKey = PROGRAM_ID
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [DISTRIBUTION_SEED, vault.toBuffer(), new BN(id).toArrayLike(Buffer, "le", 8)],
+    programId
+  );
+}
+
+/** Whether leaf `index` of `distribution` has been claimed. */
+export function isDistributionClaimed(
+  distribution: DistributionState,
+  index: number
+): boolean {
+  return (distribution.claimed[index >> 3] & (1 << (index & 7))) !== 0;
+}
+
+/**
+ * Where `recipient` stands in a round.
+ *
+ * @param now Cluster unix time (from the `Clock` sysvar).
+ */
+export function distributionClaimStatus(
+  distribution: DistributionState,
+  tree: DistributionTree,
+  recipient: PublicKey,
+  now: number
+): DistributionClaimStatus {
+  const leaf = tree.find(recipient);
+  if (!leaf) return { status: "ineligible", leaf };
+  if (isDistributionClaimed(distribution, leaf.index)) return { status: "claimed", leaf };
+  if (distribution.expiresAt.lten(now)) return { status: "expired", leaf };
+  return { status: "claimable", leaf };
+}
+
+/** Every round of `client`'s vault, by id. */
+export async function fetchDistributions(
+  client: SolForgeClient
+): Promise<DistributionInfo[]> {
+  const coder = client.program.coder.accounts;
+  const accounts = await client.provider.connection.getProgramAccounts(
+    client.program.programId,
+    {
+      filters: [
+        { memcmp: coder.memcmp("distribution") },
+        // `vault` follows the 8-byte discriminator
+        { memcmp: { offset: 8, bytes: client.vaultPda.toBase58() } },
+      ],
+    }
+  );
+  return accounts
+    .map(({ pubkey, account }) => ({
+      address: pubkey,
+      state: coder.decode<DistributionState>("distribution", account.data),
+    }))
+    .sort((a, b) => a.state.id.cmp(b.state.id));
+}
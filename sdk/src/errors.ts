@@ -0,0 +1,288 @@
+import { AnchorError } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+
+// ---------------------------------------------------------------------------
+// Error hierarchy (one class per on-chain `ErrorCode` variant)
+// ---------------------------------------------------------------------------
+
+/** Anchor numbers custom `#[error_code]` variants from 6000. */
+export const ERROR_CODE_OFFSET = 6000;
+
+export interface SolForgeErrorDetails {
+  /** Program logs of the failed transaction, if it reached the cluster. */
+  logs?: string[];
+  /** The underlying error (e.g. the `AnchorError`). */
+  cause?: unknown;
+}
+
+/**
+ * Base class for program errors. Thrown both for on-chain failures and by the
+ * client-side preflight checks, so callers can handle them the same way.
+ */
+export class SolForgeError extends Error {
+  /** Anchor error number, e.g. 6008. */
+  readonly code: number;
+  /** `ErrorCode` variant name, e.g. `"TimelockNotExpired"`. */
+  readonly variant: string;
+  readonly logs: string[];
+  readonly cause?: unknown;
+
+  constructor(
+    code: number,
+    variant: string,
+    message: string,
+    details: SolForgeErrorDetails = {}
+  ) {
+    super(message);
+    this.name = `${variant}Error`;
+    this.code = code;
+    this.variant = variant;
+    this.logs = details.logs ?? [];
+    this.cause = details.cause;
+  }
+}
+
+export class InvalidFeeRateError extends SolForgeError {
+  constructor(message = "Fee or burn rate > 100% (10000 bps)", details?: SolForgeErrorDetails) {
+    super(6000, "InvalidFeeRate", message, details);
+  }
+}
+
+export class InvalidBurnPercentageError extends SolForgeError {
+  constructor(message = "Burn percentage > 10000 bps", details?: SolForgeErrorDetails) {
+    super(6001, "InvalidBurnPercentage", message, details);
+  }
+}
+
+export class InvalidDelayError extends SolForgeError {
+  constructor(message = "Delay outside allowed range", details?: SolForgeErrorDetails) {
+    super(6002, "InvalidDelay", message, details);
+  }
+}
+
+export class ArithmeticOverflowError extends SolForgeError {
+  constructor(message = "Arithmetic overflow", details?: SolForgeErrorDetails) {
+    super(6003, "ArithmeticOverflow", message, details);
+  }
+}
+
+export class ArithmeticUnderflowError extends SolForgeError {
+  constructor(message = "Arithmetic underflow", details?: SolForgeErrorDetails) {
+    super(6004, "ArithmeticUnderflow", message, details);
+  }
+}
+
+export class InsufficientBalanceError extends SolForgeError {
+  constructor(message = "Insufficient vault balance", details?: SolForgeErrorDetails) {
+    super(6005, "InsufficientBalance", message, details);
+  }
+}
+
+export class AmountTooSmallError extends SolForgeError {
+  constructor(message = "Amount below dust protection threshold", details?: SolForgeErrorDetails) {
+    super(6006, "AmountTooSmall", message, details);
+  }
+}
+
+export class NoChangeProposedError extends SolForgeError {
+  constructor(message = "No parameter change was proposed", details?: SolForgeErrorDetails) {
+    super(6007, "NoChangeProposed", message, details);
+  }
+}
+
+export class TimelockNotExpiredError extends SolForgeError {
+  constructor(message = "Timelock has not yet expired", details?: SolForgeErrorDetails) {
+    super(6008, "TimelockNotExpired", message, details);
+  }
+}
+
+export class NoPendingUpdateError extends SolForgeError {
+  constructor(message = "No pending governance update exists", details?: SolForgeErrorDetails) {
+    super(6009, "NoPendingUpdate", message, details);
+  }
+}
+
+export class UnauthorizedError extends SolForgeError {
+  constructor(message = "Unauthorized caller", details?: SolForgeErrorDetails) {
+    super(6010, "Unauthorized", message, details);
+  }
+}
+
+export class InvalidScheduleError extends SolForgeError {
+  constructor(message = "Invalid reward schedule", details?: SolForgeErrorDetails) {
+    super(6011, "InvalidSchedule", message, details);
+  }
+}
+
+export class ScheduleNotDueError extends SolForgeError {
+  constructor(message = "Reward schedule payout not yet due", details?: SolForgeErrorDetails) {
+    super(6012, "ScheduleNotDue", message, details);
+  }
+}
+
+export class ScheduleEndedError extends SolForgeError {
+  constructor(message = "Reward schedule has ended", details?: SolForgeErrorDetails) {
+    super(6013, "ScheduleEnded", message, details);
+  }
+}
+
+export class InvalidDistributionError extends SolForgeError {
+  constructor(message = "Invalid distribution", details?: SolForgeErrorDetails) {
+    super(6014, "InvalidDistribution", message, details);
+  }
+}
+
+export class DistributionExpiredError extends SolForgeError {
+  constructor(message = "Distribution has expired", details?: SolForgeErrorDetails) {
+    super(6015, "DistributionExpired", message, details);
+  }
+}
+
+export class DistributionNotExpiredError extends SolForgeError {
+  constructor(message = "Distribution has not expired", details?: SolForgeErrorDetails) {
+    super(6016, "DistributionNotExpired", message, details);
+  }
+}
+
+export class AlreadyClaimedError extends SolForgeError {
+  constructor(message = "Distribution already claimed", details?: SolForgeErrorDetails) {
+    super(6017, "AlreadyClaimed", message, details);
+  }
+}
+
+export class InvalidProofError extends SolForgeError {
+  constructor(message = "Invalid merkle proof", details?: SolForgeErrorDetails) {
+    super(6018, "InvalidProof", message, details);
+  }
+}
+
+export class NoSurplusError extends SolForgeError {
+  constructor(message = "Vault holds no unaccounted lamports", details?: SolForgeErrorDetails) {
+    super(6019, "NoSurplus", message, details);
+  }
+}
+
+export class ProposalExpiredError extends SolForgeError {
+  constructor(message = "Proposal execution window has passed", details?: SolForgeErrorDetails) {
+    super(6020, "ProposalExpired", message, details);
+  }
+}
+
+export class SpendingCapExceededError extends SolForgeError {
+  constructor(message = "Spending cap for the current window exceeded", details?: SolForgeErrorDetails) {
+    super(6021, "SpendingCapExceeded", message, details);
+  }
+}
+
+export class InvalidSpendingCapError extends SolForgeError {
+  constructor(message = "Invalid spending cap", details?: SolForgeErrorDetails) {
+    super(6022, "InvalidSpendingCap", message, details);
+  }
+}
+
+export class RecipientNotAllowedError extends SolForgeError {
+  constructor(message = "Recipient is not on the allowlist", details?: SolForgeErrorDetails) {
+    super(6023, "RecipientNotAllowed", message, details);
+  }
+}
+
+export class PausedError extends SolForgeError {
+  constructor(message = "Vault is paused", details?: SolForgeErrorDetails) {
+    super(6024, "Paused", message, details);
+  }
+}
+
+type SolForgeErrorClass = new (
+  message?: string,
+  details?: SolForgeErrorDetails
+) => SolForgeError;
+
+/** Error classes indexed by `code - ERROR_CODE_OFFSET` (declaration order). */
+export const ERROR_CLASSES: readonly SolForgeErrorClass[] = [
+  InvalidFeeRateError,
+  InvalidBurnPercentageError,
+  InvalidDelayError,
+  ArithmeticOverflowError,
+  ArithmeticUnderflowError,
+  InsufficientBalanceError,
+  AmountTooSmallError,
+  NoChangeProposedError,
+  TimelockNotExpiredError,
+  NoPendingUpdateError,
+  UnauthorizedError,
+  InvalidScheduleError,
+  ScheduleNotDueError,
+  ScheduleEndedError,
+  InvalidDistributionError,
+  DistributionExpiredError,
+  DistributionNotExpiredError,
+  AlreadyClaimedError,
+  InvalidProofError,
+  NoSurplusError,
+  ProposalExpiredError,
+  SpendingCapExceededError,
+  InvalidSpendingCapError,
+  RecipientNotAllowedError,
+  PausedError,
+];
+
+/**
+ * Build the typed error for an Anchor error number.
+ *
+ * @returns `null` if `code` is not a SolForge `ErrorCode`.
+ */
+export function errorFromCode(
+  code: number,
+  details?: SolForgeErrorDetails
+): SolForgeError | null {
+  const ErrorClass = ERROR_CLASSES[code - ERROR_CODE_OFFSET];
+  return ErrorClass ? new ErrorClass(undefined, details) : null;
+}
+
+/**
+ * Map whatever a send or simulation threw to a `SolForgeError`.
+ *
+ * Understands `AnchorError`s and web3 / Anchor errors that only carry the
+ * program logs. Anything else is returned unchanged.
+ *
+ * @param err       The thrown value.
+ * @param programId Only map errors raised by this program (recommended when
+ *                  the transaction also calls other Anchor programs).
+ */
+export function translateError(err: unknown, programId?: PublicKey): unknown {
+  if (err instanceof SolForgeError) return err;
+
+  const anchorErr = err instanceof AnchorError ? err : AnchorError.parse(logsOf(err));
+  if (!anchorErr) return err;
+  if (programId && !anchorErr.program.equals(programId)) return err;
+
+  return (
+    errorFromCode(anchorErr.error.errorCode.number, {
+      logs: anchorErr.logs,
+      cause: err,
+    }) ?? err
+  );
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((line) => typeof line === "string");
+}
+
+/**
+ * Program logs carried by a thrown value: `SendTransactionError.logs`, or the
+ * `simulationResponse` Anchor attaches when simulation fails.
+ */
+function logsOf(err: unknown): string[] {
+  if (typeof err !== "object" || err === null) return [];
+  if ("logs" in err && isStringArray(err.logs)) return err.logs;
+  if (
+    "simulationResponse" in err &&
+    typeof err.simulationResponse === "object" &&
+    err.simulationResponse !== null &&
+    "logs" in err.simulationResponse &&
+    isStringArray(err.simulationResponse.logs)
+  ) {
+    return err.simulationResponse.logs;
+  }
+  return [];
+}
@@ -0,0 +1,287 @@
+import { BN, EventParser, Program } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import type { SpendingCapsState } from "./caps";
+import type { SolForgeIdl } from "./idl";
+
+// ---------------------------------------------------------------------------
+// Event types (mirror the on-chain `#[event]` structs)
+// ---------------------------------------------------------------------------
+
+export interface FeeAccruedEvent {
+  payer: PublicKey;
+  gross: BN;
+  burned: BN;
+  net: BN;
+  totalAccrued: BN;
+}
+
+export interface SolBurnedEvent {
+  amount: BN;
+  remaining: BN;
+}
+
+export interface RewardsDistributedEvent {
+  recipient: PublicKey;
+  amount: BN;
+  remaining: BN;
+}
+
+/** Unaccounted lamports added to `total_accrued`, or burned if `burned`. */
+export interface SurplusSweptEvent {
+  amount: BN;
+  burned: boolean;
+  totalAccrued: BN;
+}
+
+export interface TokenFeeAccruedEvent {
+  mint: PublicKey;
+  payer: PublicKey;
+  /** Amount the vault received (net of any Token-2022 transfer fee). */
+  gross: BN;
+  burned: BN;
+  net: BN;
+  totalAccrued: BN;
+}
+
+export interface TokensBurnedEvent {
+  mint: PublicKey;
+  amount: BN;
+  remaining: BN;
+}
+
+export interface TokenRewardsDistributedEvent {
+  mint: PublicKey;
+  /** Owner of the receiving token account. */
+  recipient: PublicKey;
+  amount: BN;
+  remaining: BN;
+}
+
+export interface RewardScheduleCreatedEvent {
+  schedule: PublicKey;
+  id: BN;
+  recipient: PublicKey;
+  amountLamports: BN;
+  amountBps: number;
+  intervalSeconds: BN;
+  endTime: BN | null;
+  nextPayoutAt: BN;
+}
+
+export interface RewardScheduleUpdatedEvent {
+  schedule: PublicKey;
+  amountLamports: BN;
+  amountBps: number;
+  intervalSeconds: BN;
+  endTime: BN | null;
+}
+
+export interface RewardScheduleCanceledEvent {
+  schedule: PublicKey;
+  totalPaid: BN;
+}
+
+/** Emitted by a crank, after the `RewardsDistributed` of the payout. */
+export interface RewardSchedulePaidEvent {
+  schedule: PublicKey;
+  recipient: PublicKey;
+  amount: BN;
+  nextPayoutAt: BN;
+}
+
+export interface DistributionCreatedEvent {
+  distribution: PublicKey;
+  id: BN;
+  merkleRoot: number[];
+  totalAmount: BN;
+  numRecipients: number;
+  expiresAt: BN;
+  /** Vault `total_accrued` after funding the round. */
+  remaining: BN;
+}
+
+export interface DistributionClaimedEvent {
+  distribution: PublicKey;
+  index: number;
+  recipient: PublicKey;
+  amount: BN;
+}
+
+/** Unclaimed lamports returned to the vault when a round is closed. */
+export interface DistributionSweptEvent {
+  distribution: PublicKey;
+  amount: BN;
+  totalAccrued: BN;
+}
+
+export interface ParameterUpdateProposedEvent {
+  proposal: PublicKey;
+  id: BN;
+  proposedBurnBps: number | null;
+  proposedDelaySecs: BN | null;
+  releaseAt: BN;
+  proposedFeeBps: number | null;
+  /** No longer executable after this time. */
+  expiresAt: BN;
+  proposedSpendingCaps: SpendingCapsState | null;
+  proposedAllowlistEnabled: boolean | null;
+  /** `PublicKey.default` removes the guardian. */
+  proposedGuardian: PublicKey | null;
+}
+
+/** The applied values are readable from the proposal account. */
+export interface ParameterUpdateExecutedEvent {
+  proposal: PublicKey;
+  id: BN;
+}
+
+export interface ParameterUpdateCanceledEvent {
+  proposal: PublicKey;
+  id: BN;
+  /** Canceled past its execution window, so recorded as expired. */
+  expired: boolean;
+}
+
+export interface AllowlistAdditionProposedEvent {
+  recipient: PublicKey;
+  releaseAt: BN;
+}
+
+export interface AllowlistRecipientAddedEvent {
+  recipient: PublicKey;
+}
+
+export interface AllowlistRecipientRemovedEvent {
+  recipient: PublicKey;
+  /** `false` when a pending addition was withdrawn. */
+  wasActive: boolean;
+}
+
+export interface VaultPausedEvent {
+  guardian: PublicKey;
+}
+
+export interface UnpauseProposedEvent {
+  releaseAt: BN;
+}
+
+export interface VaultUnpausedEvent {
+  authority: PublicKey;
+}
+
+export interface AuthorityTransferProposedEvent {
+  currentAuthority: PublicKey;
+  newAuthority: PublicKey;
+  releaseAt: BN;
+}
+
+export interface AuthorityTransferredEvent {
+  previousAuthority: PublicKey;
+  newAuthority: PublicKey;
+}
+
+export interface AuthorityTransferCanceledEvent {
+  canceledAuthority: PublicKey;
+}
+
+/** Event name → payload type for every event the program emits. */
+export interface SolForgeEvents {
+  FeeAccrued: FeeAccruedEvent;
+  SolBurned: SolBurnedEvent;
+  RewardsDistributed: RewardsDistributedEvent;
+  SurplusSwept: SurplusSweptEvent;
+  TokenFeeAccrued: TokenFeeAccruedEvent;
+  TokensBurned: TokensBurnedEvent;
+  TokenRewardsDistributed: TokenRewardsDistributedEvent;
+  RewardScheduleCreated: RewardScheduleCreatedEvent;
+  RewardScheduleUpdated: RewardScheduleUpdatedEvent;
+  RewardScheduleCanceled: RewardScheduleCanceledEvent;
+  RewardSchedulePaid: RewardSchedulePaidEvent;
+  DistributionCreated: DistributionCreatedEvent;
+  DistributionClaimed: DistributionClaimedEvent;
+  DistributionSwept: DistributionSweptEvent;
+  ParameterUpdateProposed: ParameterUpdateProposedEvent;
+  ParameterUpdateExecuted: ParameterUpdateExecutedEvent;
+  ParameterUpdateCanceled: ParameterUpdateCanceledEvent;
+  AllowlistAdditionProposed: AllowlistAdditionProposedEvent;
+  AllowlistRecipientAdded: AllowlistRecipientAddedEvent;
+  AllowlistRecipientRemoved: AllowlistRecipientRemovedEvent;
+  VaultPaused: VaultPausedEvent;
+  UnpauseProposed: UnpauseProposedEvent;
+  VaultUnpaused: VaultUnpausedEvent;
+  AuthorityTransferProposed: AuthorityTransferProposedEvent;
+  AuthorityTransferred: AuthorityTransferredEvent;
+  AuthorityTransferCanceled: AuthorityTransferCanceledEvent;
+}
+
+export type SolForgeEventName = keyof SolForgeEvents;
+
+/** A decoded event, discriminated on `name`. */
+export type SolForgeEvent = {
+  [N in SolForgeEventName]: { name: N; data: SolForgeEvents[N] };
+}[SolForgeEventName];
+
+export type SolForgeEventHandler<N extends SolForgeEventName> = (
+  event: SolForgeEvents[N],
+  slot: number,
+  signature: string
+) => void;
+
+export const SOLFORGE_EVENT_NAMES: readonly SolForgeEventName[] = [
+  "FeeAccrued",
+  "SolBurned",
+  "RewardsDistributed",
+  "SurplusSwept",
+  "TokenFeeAccrued",
+  "TokensBurned",
+  "TokenRewardsDistributed",
+  "RewardScheduleCreated",
+  "RewardScheduleUpdated",
+  "RewardScheduleCanceled",
+  "RewardSchedulePaid",
+  "DistributionCreated",
+  "DistributionClaimed",
+  "DistributionSwept",
+  "ParameterUpdateProposed",
+  "ParameterUpdateExecuted",
+  "ParameterUpdateCanceled",
+  "AllowlistAdditionProposed",
+  "AllowlistRecipientAdded",
+  "AllowlistRecipientRemoved",
+  "VaultPaused",
+  "UnpauseProposed",
+  "VaultUnpaused",
+  "AuthorityTransferProposed",
+  "AuthorityTransferred",
+  "AuthorityTransferCanceled",
+];
+
+// ---------------------------------------------------------------------------
+// Decoding
+// ---------------------------------------------------------------------------
+
+export function isSolForgeEventName(name: string): name is SolForgeEventName {
+  return (SOLFORGE_EVENT_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Decode all SolForge events from a transaction's log messages.
+ *
+ * Events emitted by other programs (or by a SolForge CPI from another
+ * program) are skipped unless they were logged by `program`.
+ *
+ * @param program The SolForge `Program` whose coder is used.
+ * @param logs    `meta.logMessages` of a confirmed transaction.
+ */
+export function decodeEvents(program: Program<SolForgeIdl>, logs: string[]): SolForgeEvent[] {
+  const parser = new EventParser(program.programId, program.coder);
+  const events: SolForgeEvent[] = [];
+  for (const event of parser.parseLogs(logs)) {
+    // Anchor's coder uses the camelCased IDL name (`feeAccrued`)
+    const name = event.name.charAt(0).toUpperCase() + event.name.slice(1);
+    if (isSolForgeEventName(name)) {
+      events.push({ name, data: event.data } as SolForgeEvent);
+    }
+  }
+  return events;
+}
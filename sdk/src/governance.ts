@@ -0,0 +1,223 @@
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import type { SpendingCapsParams, SpendingCapsState } from "./caps";
+import { PROGRAM_ID } from "./constants";
+import type { SolForgeClient, VaultState } from "./index";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** On-chain `ProposalStatus` enum, as Anchor decodes it. */
+export type ProposalAccountStatus =
+  | { pending: Record<string, never> }
+  | { executed: Record<string, never> }
+  | { canceled: Record<string, never> }
+  | { expired: Record<string, never> };
+
+/**
+ * Changes for `propose_parameter_update`. Unset fields keep their current
+ * value; at least one must be set.
+ */
+export interface ParameterUpdate {
+  /** New burn percentage in bps. */
+  burnBps?: number;
+  /** New governance delay in seconds. */
+  delaySeconds?: number;
+  /** New fee rate in bps. */
+  feeBps?: number;
+  /** Replaces all caps and starts a fresh window once executed. */
+  spendingCaps?: SpendingCapsParams;
+  /** Turn allowlist mode on or off. */
+  allowlistEnabled?: boolean;
+  /** New guardian; `PublicKey.default` removes it. */
+  guardian?: PublicKey;
+}
+
+/** Proposal account (mirrors on-chain `Proposal` struct). */
+export interface ProposalState {
+  vault: PublicKey;
+  id: BN;
+  /** Authority that signed the proposal. */
+  proposer: PublicKey;
+  burnPercentageBps: number | null;
+  delaySeconds: BN | null;
+  feeBasisPoints: number | null;
+  spendingCaps: SpendingCapsState | null;
+  allowlistEnabled: boolean | null;
+  /** `PublicKey.default` removes the guardian. */
+  guardian: PublicKey | null;
+  proposedAt: BN;
+  releaseTime: BN;
+  expiresAt: BN;
+  status: ProposalAccountStatus;
+  bump: number;
+}
+
+/**
+ * - `pending`: timelock still running.
+ * - `executable`: timelock expired, `execute_parameter_update` will succeed.
+ * - `executed`: applied to the vault.
+ * - `canceled`: withdrawn by the authority.
+ * - `expired`: not executed within its window; it can only be canceled,
+ *   which records it as expired on-chain.
+ */
+export type ProposalStatus =
+  | "pending"
+  | "executable"
+  | "executed"
+  | "canceled"
+  | "expired";
+
+export interface GovernanceParameters {
+  burnPercentageBps: number;
+  delaySeconds: BN;
+  feeBasisPoints: number;
+  spendingCaps: SpendingCapsState;
+  allowlistEnabled: boolean;
+  guardian: PublicKey | null;
+}
+
+/** A proposal with its status at the cluster time it was fetched. */
+export interface ProposalInfo {
+  address: PublicKey;
+  id: BN;
+  status: ProposalStatus;
+  state: ProposalState;
+  current: GovernanceParameters;
+  /**
+   * Values the vault would have if the proposal executed now (unset fields
+   * keep `current`).
+   */
+  proposed: GovernanceParameters;
+  /** Seconds until executable, measured against the cluster clock. */
+  secondsRemaining: number;
+  /** Cluster unix time the status was computed at. */
+  clusterTime: number;
+}
+
+// ---------------------------------------------------------------------------
+// Addresses & status
+// ---------------------------------------------------------------------------
+
+const PROPOSAL_SEED = Buffer.from("proposal");
+
+/**
+ * Derive a proposal PDA: seeds `["proposal", vault, id (u64 LE)]`.
+ *
+ * @param vault     Vault PDA.
+ * @param id        Proposal id.
+ * @param programId Program ID (defaults to on-chain address).
+ */
+export function findProposalAddress(
+  vault: PublicKey,
+  id: BN | number,
+  programId: PublicKey = PROGRAM_ID
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [PROPOSAL_SEED, vault.toBuffer(), new BN(id).toArrayLike(Buffer, "le", 8)],
+    programId
+  );
+}
+
+/**
+ * Status of `proposal` at cluster time `now`.
+ *
+ * @param now Cluster unix time (from the `Clock` sysvar, not local time).
+ */
+export function proposalStatus(proposal: ProposalState, now: number): ProposalStatus {
+  if ("executed" in proposal.status) return "executed";
+  if ("canceled" in proposal.status) return "canceled";
+  if ("expired" in proposal.status || proposal.expiresAt.ltn(now)) return "expired";
+  return proposal.releaseTime.lten(now) ? "executable" : "pending";
+}
+
+/** Combine a proposal with the vault's parameters and the cluster time. */
+export function describeProposal(
+  address: PublicKey,
+  proposal: ProposalState,
+  vault: VaultState,
+  now: number
+): ProposalInfo {
+  const current: GovernanceParameters = {
+    burnPercentageBps: vault.burnPercentageBps,
+    delaySeconds: vault.delaySeconds,
+    feeBasisPoints: vault.feeBasisPoints,
+    spendingCaps: vault.spendingCaps,
+    allowlistEnabled: vault.allowlistEnabled,
+    guardian: vault.guardian,
+  };
+  return {
+    address,
+    id: proposal.id,
+    status: proposalStatus(proposal, now),
+    state: proposal,
+    current,
+    proposed: {
+      burnPercentageBps: proposal.burnPercentageBps ?? current.burnPercentageBps,
+      delaySeconds: proposal.delaySeconds ?? current.delaySeconds,
+      feeBasisPoints: proposal.feeBasisPoints ?? current.feeBasisPoints,
+      spendingCaps: proposal.spendingCaps ?? current.spendingCaps,
+      allowlistEnabled: proposal.allowlistEnabled ?? current.allowlistEnabled,
+      guardian: proposal.guardian
+        ? proposal.guardian.equals(PublicKey.default)
+          ? null
+          : proposal.guardian
+        : current.guardian,
+    },
+    secondsRemaining: Math.max(0, proposal.releaseTime.toNumber() - now),
+    clusterTime: now,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/**
+ * Fetch one proposal of `client`'s vault.
+ *
+ * @returns `null` if the vault is not initialized or the proposal does not
+ *          exist.
+ */
+export async function fetchProposal(
+  client: SolForgeClient,
+  id: BN | number
+): Promise<ProposalInfo | null> {
+  const address = client.proposalAddress(id);
+  const [info, vault, now] = await Promise.all([
+    client.provider.connection.getAccountInfo(address),
+    client.getVaultState(),
+    client.getClusterTime(),
+  ]);
+  if (!info || !vault) return null;
+  const state = client.program.coder.accounts.decode<ProposalState>("proposal", info.data);
+  return describeProposal(address, state, vault, now);
+}
+
+/** Every proposal of `client`'s vault, by id. */
+export async function fetchProposals(client: SolForgeClient): Promise<ProposalInfo[]> {
+  const coder = client.program.coder.accounts;
+  const [accounts, vault, now] = await Promise.all([
+    client.provider.connection.getProgramAccounts(client.program.programId, {
+      filters: [
+        { memcmp: coder.memcmp("proposal") },
+        // `vault` follows the 8-byte discriminator
+        { memcmp: { offset: 8, bytes: client.vaultPda.toBase58() } },
+      ],
+    }),
+    client.getVaultState(),
+    client.getClusterTime(),
+  ]);
+  if (!vault) return [];
+  return accounts
+    .map(({ pubkey, account }) =>
+      describeProposal(
+        pubkey,
+        coder.decode<ProposalState>("proposal", account.data),
+        vault,
+        now
+      )
+    )
+    .sort((a, b) => a.id.cmp(b.id));
+}
@@ -0,0 +1,16 @@
+import type { SolForge } from "./sol_forge";
+import idl from "./sol_forge.json";
+
+export type { SolForge };
+
+/**
+ * `SolForge` deployed at any address, e.g. a devnet build under another
+ * program ID. The generated type pins `address` to the mainnet ID.
+ */
+export type SolForgeIdl = Omit<SolForge, "address"> & { address: string };
+
+/**
+ * The program's IDL as `anchor build` emits it (snake_case names), typed as
+ * the camelCase `SolForge` that `Program` converts it to.
+ */
+export const SOLFORGE_IDL = idl as SolForge;
@@ -0,0 +1,3123 @@
+/**
+ * Program IDL in camelCase format in order to be used in JS/TS.
+ *
+ * Note that this is only a type helper and is not the actual IDL. The original
+ * IDL can be found at `sol_forge.json`.
+ */
+export type SolForge = {
+  "address": "F1aLM6gPxEmoGRCT84ZYTSWAgiaaf3m4JHabr4nkBiHo",
+  "metadata": {
+    "name": "solForge",
+    "version": "0.1.0",
+    "spec": "0.1.0",
+    "description": "Created with Anchor"
+  },
+  "instructions": [
+    {
+      "name": "acceptAuthorityTransfer",
+      "docs": [
+        "Nominee takes over once the timelock has expired."
+      ],
+      "discriminator": [239, 248, 177, 2, 206, 97, 46, 255],
+      "accounts": [
+        {
+          "name": "vault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "newAuthority",
+          "docs": [
+            "Must match `vault.pending_authority` (checked in the handler)"
+          ],
+          "signer": true
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "accrueFee",
+      "docs": [
+        "Anyone can pay SOL into the vault (real fee capture).",
+        "A portion is auto-burned according to current burn %."
+      ],
+      "discriminator": [195, 95, 246, 102, 250, 61, 187, 28],
+      "accounts": [
+        {
+          "name": "vault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "payer",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "incinerator",
+          "docs": [
+            "CHECK: Solana incinerator address — no data, no owner check needed"
+          ],
+          "writable": true,
+          "address": "1nc1nerator11111111111111111111111111111111"
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "amountLamports",
+          "type": "u64"
+        }
+      ]
+    },
+    {
+      "name": "accrueFeeOnVolume",
+      "docs": [
+        "Charge `fee_basis_points` of a stated trade volume (rounded down),",
+        "then auto-burn like `accrue_fee`."
+      ],
+      "discriminator": [101, 91, 99, 165, 86, 188, 82, 88],
+      "accounts": [
+        {
+          "name": "vault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "payer",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "incinerator",
+          "docs": [
+            "CHECK: Solana incinerator address — no data, no owner check needed"
+          ],
+          "writable": true,
+          "address": "1nc1nerator11111111111111111111111111111111"
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "volumeLamports",
+          "type": "u64"
+        }
+      ]
+    },
+    {
+      "name": "accrueTokenFee",
+      "docs": [
+        "Anyone can pay tokens into the vault. The burn share is destroyed",
+        "with an SPL `burn`, reducing the mint's supply."
+      ],
+      "discriminator": [129, 105, 207, 87, 242, 70, 53, 28],
+      "accounts": [
+        {
+          "name": "vault",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "tokenVault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [116, 111, 107, 101, 110, 95, 118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "account",
+                "path": "mint"
+              }
+            ]
+          }
+        },
+        {
+          "name": "mint",
+          "writable": true
+        },
+        {
+          "name": "vaultTokenAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116, 95, 116, 111, 107, 101, 110, 115]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "account",
+                "path": "mint"
+              }
+            ]
+          }
+        },
+        {
+          "name": "payerTokenAccount",
+          "writable": true
+        },
+        {
+          "name": "payer",
+          "signer": true
+        },
+        {
+          "name": "tokenProgram"
+        }
+      ],
+      "args": [
+        {
+          "name": "amount",
+          "type": "u64"
+        }
+      ]
+    },
+    {
+      "name": "burnSol",
+      "docs": [
+        "Authority manually burns SOL from vault (extra deflation)"
+      ],
+      "discriminator": [159, 187, 77, 201, 116, 73, 86, 88],
+      "accounts": [
+        {
+          "name": "vault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "incinerator",
+          "docs": [
+            "CHECK: Solana incinerator address"
+          ],
+          "writable": true,
+          "address": "1nc1nerator11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "amountLamports",
+          "type": "u64"
+        }
+      ]
+    },
+    {
+      "name": "burnTokens",
+      "docs": [
+        "Authority burns tokens held by the vault (SPL `burn`)"
+      ],
+      "discriminator": [76, 15, 51, 254, 229, 215, 121, 66],
+      "accounts": [
+        {
+          "name": "vault",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "tokenVault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [116, 111, 107, 101, 110, 95, 118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "account",
+                "path": "mint"
+              }
+            ]
+          }
+        },
+        {
+          "name": "mint",
+          "writable": true
+        },
+        {
+          "name": "vaultTokenAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116, 95, 116, 111, 107, 101, 110, 115]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "account",
+                "path": "mint"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "signer": true
+        },
+        {
+          "name": "tokenProgram"
+        }
+      ],
+      "args": [
+        {
+          "name": "amount",
+          "type": "u64"
+        }
+      ]
+    },
+    {
+      "name": "cancelAuthorityTransfer",
+      "discriminator": [94, 131, 125, 184, 183, 24, 125, 229],
+      "accounts": [
+        {
+          "name": "vault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "signer": true
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "cancelParameterProposal",
+      "docs": [
+        "Withdraw a pending proposal. Past its execution window the proposal",
+        "is recorded as `Expired` rather than `Canceled`."
+      ],
+      "discriminator": [124, 201, 218, 123, 89, 53, 217, 146],
+      "accounts": [
+        {
+          "name": "vault",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "proposal",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [112, 114, 111, 112, 111, 115, 97, 108]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "account",
+                "path": "proposal.id",
+                "account": "proposal"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "signer": true
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "cancelRewardSchedule",
+      "docs": [
+        "Authority closes a schedule; its rent goes back to the authority."
+      ],
+      "discriminator": [135, 178, 131, 139, 113, 175, 101, 237],
+      "accounts": [
+        {
+          "name": "vault",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "schedule",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [115, 99, 104, 101, 100, 117, 108, 101]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "account",
+                "path": "schedule.id",
+                "account": "rewardSchedule"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "writable": true,
+          "signer": true
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "claimDistribution",
+      "docs": [
+        "Recipient claims their leaf `(index, claimant, amount)` with a proof",
+        "against the round's merkle root. Each index pays out once."
+      ],
+      "discriminator": [204, 156, 94, 85, 2, 125, 232, 180],
+      "accounts": [
+        {
+          "name": "vault",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "distribution",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [100, 105, 115, 116, 114, 105, 98, 117, 116, 105, 111, 110]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "account",
+                "path": "distribution.id",
+                "account": "distribution"
+              }
+            ]
+          }
+        },
+        {
+          "name": "claimant",
+          "writable": true,
+          "signer": true
+        }
+      ],
+      "args": [
+        {
+          "name": "index",
+          "type": "u32"
+        },
+        {
+          "name": "amount",
+          "type": "u64"
+        },
+        {
+          "name": "proof",
+          "type": {
+            "vec": {
+              "array": [
+                "u8",
+                32
+              ]
+            }
+          }
+        }
+      ]
+    },
+    {
+      "name": "crankRewardSchedule",
+      "docs": [
+        "Anyone pays out a due schedule. Each elapsed interval is owed once,",
+        "so a schedule that was not cranked for a while can be cranked",
+        "repeatedly to catch up."
+      ],
+      "discriminator": [124, 126, 183, 103, 133, 7, 41, 107],
+      "accounts": [
+        {
+          "name": "vault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "schedule",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [115, 99, 104, 101, 100, 117, 108, 101]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "account",
+                "path": "schedule.id",
+                "account": "rewardSchedule"
+              }
+            ]
+          }
+        },
+        {
+          "name": "recipient",
+          "docs": [
+            "CHECK: Must be the schedule's recipient"
+          ],
+          "writable": true
+        },
+        {
+          "name": "allowlistEntry",
+          "docs": [
+            "CHECK: The recipient's allowlist entry PDA, which may not exist.",
+            "Read only in allowlist mode (`require_allowlisted`)."
+          ],
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [97, 108, 108, 111, 119, 108, 105, 115, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "account",
+                "path": "recipient"
+              }
+            ]
+          }
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "createDistribution",
+      "docs": [
+        "Authority publishes a round: `total_amount` leaves the vault's",
+        "retained balance for the distribution PDA, and each recipient in the",
+        "tree under `merkle_root` can claim their share until `expires_at`.",
+        "Its id is the vault's `distribution_count`, so ids of swept rounds are",
+        "not reused. Not available in allowlist mode."
+      ],
+      "discriminator": [237, 83, 162, 50, 49, 6, 28, 115],
+      "accounts": [
+        {
+          "name": "vault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "distribution",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [100, 105, 115, 116, 114, 105, 98, 117, 116, 105, 111, 110]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "account",
+                "path": "vault.distributionCount",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "merkleRoot",
+          "type": {
+            "array": [
+              "u8",
+              32
+            ]
+          }
+        },
+        {
+          "name": "totalAmount",
+          "type": "u64"
+        },
+        {
+          "name": "numRecipients",
+          "type": "u32"
+        },
+        {
+          "name": "expiresAt",
+          "type": "i64"
+        }
+      ]
+    },
+    {
+      "name": "createRewardSchedule",
+      "docs": [
+        "Authority creates a recurring payout of either a fixed",
+        "`amount_lamports` or `amount_bps` of the retained balance, due every",
+        "`interval_seconds` starting one interval from now. Its id is the",
+        "vault's `schedule_count`, so ids of closed schedules are not reused."
+      ],
+      "discriminator": [36, 27, 141, 30, 218, 110, 184, 31],
+      "accounts": [
+        {
+          "name": "vault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "schedule",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [115, 99, 104, 101, 100, 117, 108, 101]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "account",
+                "path": "vault.scheduleCount",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "allowlistEntry",
+          "docs": [
+            "CHECK: The recipient's allowlist entry PDA, which may not exist.",
+            "Read only in allowlist mode (`require_allowlisted`)."
+          ],
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [97, 108, 108, 111, 119, 108, 105, 115, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "arg",
+                "path": "recipient"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "recipient",
+          "type": "pubkey"
+        },
+        {
+          "name": "amountLamports",
+          "type": "u64"
+        },
+        {
+          "name": "amountBps",
+          "type": "u16"
+        },
+        {
+          "name": "intervalSeconds",
+          "type": "i64"
+        },
+        {
+          "name": "endTime",
+          "type": {
+            "option": "i64"
+          }
+        }
+      ]
+    },
+    {
+      "name": "distributeRewards",
+      "docs": [
+        "Authority sends SOL from vault to any address (rewards, treasury,",
+        "etc.), or only to active allowlist entries in allowlist mode."
+      ],
+      "discriminator": [97, 6, 227, 255, 124, 165, 3, 148],
+      "accounts": [
+        {
+          "name": "vault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "recipient",
+          "docs": [
+            "CHECK: Any recipient address chosen by authority; in allowlist mode",
+            "it must have an active entry"
+          ],
+          "writable": true
+        },
+        {
+          "name": "allowlistEntry",
+          "docs": [
+            "CHECK: The recipient's allowlist entry PDA, which may not exist.",
+            "Read only in allowlist mode (`require_allowlisted`)."
+          ],
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [97, 108, 108, 111, 119, 108, 105, 115, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "account",
+                "path": "recipient"
+              }
+            ]
+          }
+        }
+      ],
+      "args": [
+        {
+          "name": "amountLamports",
+          "type": "u64"
+        }
+      ]
+    },
+    {
+      "name": "distributeTokenRewards",
+      "docs": [
+        "Authority sends tokens from the vault to any token account of the",
+        "mint, or only to accounts of allowlisted owners in allowlist mode."
+      ],
+      "discriminator": [10, 236, 0, 10, 73, 20, 124, 45],
+      "accounts": [
+        {
+          "name": "vault",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "tokenVault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [116, 111, 107, 101, 110, 95, 118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "account",
+                "path": "mint"
+              }
+            ]
+          }
+        },
+        {
+          "name": "mint"
+        },
+        {
+          "name": "vaultTokenAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116, 95, 116, 111, 107, 101, 110, 115]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "account",
+                "path": "mint"
+              }
+            ]
+          }
+        },
+        {
+          "name": "recipientTokenAccount",
+          "docs": [
+            "Any token account of the mint chosen by authority; in allowlist mode",
+            "its owner must have an active entry"
+          ],
+          "writable": true
+        },
+        {
+          "name": "allowlistEntry",
+          "docs": [
+            "CHECK: The owner's allowlist entry PDA, which may not exist.",
+            "Read only in allowlist mode (`require_allowlisted`)."
+          ],
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [97, 108, 108, 111, 119, 108, 105, 115, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "account",
+                "path": "recipientTokenAccount.owner",
+                "account": "tokenAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "signer": true
+        },
+        {
+          "name": "tokenProgram"
+        }
+      ],
+      "args": [
+        {
+          "name": "amount",
+          "type": "u64"
+        }
+      ]
+    },
+    {
+      "name": "executeAllowlistAddition",
+      "docs": [
+        "Activate a proposed entry once its timelock has expired."
+      ],
+      "discriminator": [107, 226, 182, 106, 43, 209, 19, 220],
+      "accounts": [
+        {
+          "name": "vault",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "entry",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [97, 108, 108, 111, 119, 108, 105, 115, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "account",
+                "path": "entry.recipient",
+                "account": "allowlistEntry"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "signer": true
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "executeParameterUpdate",
+      "discriminator": [235, 25, 232, 79, 184, 238, 170, 67],
+      "accounts": [
+        {
+          "name": "vault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "proposal",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [112, 114, 111, 112, 111, 115, 97, 108]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "account",
+                "path": "proposal.id",
+                "account": "proposal"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "signer": true
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "initializeTokenVault",
+      "docs": [
+        "Create the per-mint accounting account and the token account the",
+        "vault PDA owns for `mint`."
+      ],
+      "discriminator": [64, 202, 113, 205, 22, 210, 178, 225],
+      "accounts": [
+        {
+          "name": "vault",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "tokenVault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [116, 111, 107, 101, 110, 95, 118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "account",
+                "path": "mint"
+              }
+            ]
+          }
+        },
+        {
+          "name": "mint"
+        },
+        {
+          "name": "vaultTokenAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116, 95, 116, 111, 107, 101, 110, 115]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "account",
+                "path": "mint"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "tokenProgram"
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "initializeVault",
+      "docs": [
+        "Initialize a PDA vault under a caller-chosen namespace",
+        "(e.g. the creator's key or a hash of the protocol name)"
+      ],
+      "discriminator": [48, 191, 163, 44, 71, 129, 63, 164],
+      "accounts": [
+        {
+          "name": "vault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "arg",
+                "path": "namespace"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "namespace",
+          "type": "pubkey"
+        },
+        {
+          "name": "feeBps",
+          "type": "u16"
+        },
+        {
+          "name": "burnBps",
+          "type": "u16"
+        },
+        {
+          "name": "delaySeconds",
+          "type": {
+            "option": "i64"
+          }
+        },
+        {
+          "name": "guardian",
+          "type": {
+            "option": "pubkey"
+          }
+        }
+      ]
+    },
+    {
+      "name": "pause",
+      "docs": [
+        "Guardian stops SOL and token accrual, burns, distributions, claims,",
+        "schedule cranks and proposal execution immediately. Pausing a paused",
+        "vault withdraws a pending unpause."
+      ],
+      "discriminator": [211, 22, 221, 251, 74, 121, 193, 47],
+      "accounts": [
+        {
+          "name": "vault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "guardian",
+          "signer": true
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "proposeAllowlistAddition",
+      "docs": [
+        "Authority proposes `recipient` for the allowlist. It can be added",
+        "after `delay_seconds`."
+      ],
+      "discriminator": [121, 185, 63, 186, 158, 154, 202, 59],
+      "accounts": [
+        {
+          "name": "vault",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "entry",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [97, 108, 108, 111, 119, 108, 105, 115, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "arg",
+                "path": "recipient"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "recipient",
+          "type": "pubkey"
+        }
+      ]
+    },
+    {
+      "name": "proposeAuthorityTransfer",
+      "docs": [
+        "Nominate a new authority. It can accept after `delay_seconds`;",
+        "re-proposing replaces the nominee and restarts the timelock."
+      ],
+      "discriminator": [57, 206, 225, 129, 35, 111, 174, 145],
+      "accounts": [
+        {
+          "name": "vault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "signer": true
+        }
+      ],
+      "args": [
+        {
+          "name": "newAuthority",
+          "type": "pubkey"
+        }
+      ]
+    },
+    {
+      "name": "proposeParameterUpdate",
+      "docs": [
+        "Queue a parameter update as its own `Proposal` account with the next",
+        "id. Proposals are independent: each keeps its values and timelock",
+        "until executed, canceled or expired."
+      ],
+      "discriminator": [7, 7, 94, 243, 147, 64, 32, 151],
+      "accounts": [
+        {
+          "name": "vault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "proposal",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [112, 114, 111, 112, 111, 115, 97, 108]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "account",
+                "path": "vault.proposalCount",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "newBurnBps",
+          "type": {
+            "option": "u16"
+          }
+        },
+        {
+          "name": "newDelaySecs",
+          "type": {
+            "option": "i64"
+          }
+        },
+        {
+          "name": "newFeeBps",
+          "type": {
+            "option": "u16"
+          }
+        },
+        {
+          "name": "newSpendingCaps",
+          "type": {
+            "option": {
+              "defined": {
+                "name": "spendingCaps"
+              }
+            }
+          }
+        },
+        {
+          "name": "newAllowlistEnabled",
+          "type": {
+            "option": "bool"
+          }
+        },
+        {
+          "name": "newGuardian",
+          "type": {
+            "option": "pubkey"
+          }
+        }
+      ]
+    },
+    {
+      "name": "proposeUnpause",
+      "docs": [
+        "Authority starts the unpause timelock. Re-proposing restarts it."
+      ],
+      "discriminator": [45, 136, 163, 143, 156, 57, 113, 132],
+      "accounts": [
+        {
+          "name": "vault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "signer": true
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "removeAllowlistRecipient",
+      "docs": [
+        "Remove an entry, active or still pending, with no timelock. Its rent",
+        "goes back to the authority."
+      ],
+      "discriminator": [206, 81, 160, 136, 100, 94, 80, 12],
+      "accounts": [
+        {
+          "name": "vault",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "entry",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [97, 108, 108, 111, 119, 108, 105, 115, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "account",
+                "path": "entry.recipient",
+                "account": "allowlistEntry"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "writable": true,
+          "signer": true
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "sweepDistribution",
+      "docs": [
+        "Authority returns the unclaimed balance to the vault and closes the",
+        "round, once it has expired or every recipient has claimed."
+      ],
+      "discriminator": [36, 79, 91, 41, 92, 119, 76, 179],
+      "accounts": [
+        {
+          "name": "vault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "distribution",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [100, 105, 115, 116, 114, 105, 98, 117, 116, 105, 111, 110]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "account",
+                "path": "distribution.id",
+                "account": "distribution"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "writable": true,
+          "signer": true
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "sweepSurplus",
+      "docs": [
+        "Authority accounts for lamports that reached the vault outside",
+        "`accrue_fee` (e.g. plain transfers to the PDA): either add them to",
+        "`total_accrued` or burn them."
+      ],
+      "discriminator": [144, 67, 197, 177, 218, 200, 50, 24],
+      "accounts": [
+        {
+          "name": "vault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "signer": true
+        },
+        {
+          "name": "incinerator",
+          "docs": [
+            "CHECK: Solana incinerator address"
+          ],
+          "writable": true,
+          "address": "1nc1nerator11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "burn",
+          "type": "bool"
+        }
+      ]
+    },
+    {
+      "name": "unpause",
+      "docs": [
+        "Authority resumes the vault once the unpause timelock has expired."
+      ],
+      "discriminator": [169, 144, 4, 38, 10, 141, 188, 255],
+      "accounts": [
+        {
+          "name": "vault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "signer": true
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "updateRewardSchedule",
+      "docs": [
+        "Authority changes amount, interval or end time. The next due time is",
+        "kept; a new interval applies from the payout after it."
+      ],
+      "discriminator": [24, 84, 147, 97, 66, 244, 125, 141],
+      "accounts": [
+        {
+          "name": "vault",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [118, 97, 117, 108, 116]
+              },
+              {
+                "kind": "account",
+                "path": "vault.namespace",
+                "account": "vault"
+              }
+            ]
+          }
+        },
+        {
+          "name": "schedule",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [115, 99, 104, 101, 100, 117, 108, 101]
+              },
+              {
+                "kind": "account",
+                "path": "vault"
+              },
+              {
+                "kind": "account",
+                "path": "schedule.id",
+                "account": "rewardSchedule"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "signer": true
+        }
+      ],
+      "args": [
+        {
+          "name": "amountLamports",
+          "type": "u64"
+        },
+        {
+          "name": "amountBps",
+          "type": "u16"
+        },
+        {
+          "name": "intervalSeconds",
+          "type": "i64"
+        },
+        {
+          "name": "endTime",
+          "type": {
+            "option": "i64"
+          }
+        }
+      ]
+    }
+  ],
+  "accounts": [
+    {
+      "name": "allowlistEntry",
+      "discriminator": [42, 59, 88, 1, 124, 138, 92, 236]
+    },
+    {
+      "name": "distribution",
+      "discriminator": [176, 85, 17, 11, 13, 194, 18, 1]
+    },
+    {
+      "name": "proposal",
+      "discriminator": [26, 94, 189, 187, 116, 136, 53, 33]
+    },
+    {
+      "name": "rewardSchedule",
+      "discriminator": [117, 152, 128, 28, 85, 150, 35, 79]
+    },
+    {
+      "name": "tokenVault",
+      "discriminator": [121, 7, 84, 254, 151, 228, 43, 144]
+    },
+    {
+      "name": "vault",
+      "discriminator": [211, 8, 232, 43, 2, 152, 117, 119]
+    }
+  ],
+  "events": [
+    {
+      "name": "allowlistAdditionProposed",
+      "discriminator": [174, 205, 111, 16, 12, 185, 38, 123]
+    },
+    {
+      "name": "allowlistRecipientAdded",
+      "discriminator": [130, 160, 21, 218, 163, 46, 111, 158]
+    },
+    {
+      "name": "allowlistRecipientRemoved",
+      "discriminator": [29, 225, 96, 244, 59, 6, 186, 205]
+    },
+    {
+      "name": "authorityTransferCanceled",
+      "discriminator": [113, 6, 40, 234, 214, 48, 102, 238]
+    },
+    {
+      "name": "authorityTransferProposed",
+      "discriminator": [103, 244, 27, 116, 177, 4, 100, 119]
+    },
+    {
+      "name": "authorityTransferred",
+      "discriminator": [245, 109, 179, 54, 135, 92, 22, 64]
+    },
+    {
+      "name": "distributionClaimed",
+      "discriminator": [28, 224, 98, 55, 240, 215, 209, 4]
+    },
+    {
+      "name": "distributionCreated",
+      "discriminator": [100, 216, 19, 39, 169, 192, 151, 94]
+    },
+    {
+      "name": "distributionSwept",
+      "discriminator": [6, 58, 36, 11, 73, 13, 246, 199]
+    },
+    {
+      "name": "feeAccrued",
+      "discriminator": [61, 83, 48, 144, 144, 50, 153, 45]
+    },
+    {
+      "name": "parameterUpdateCanceled",
+      "discriminator": [27, 74, 113, 52, 209, 60, 245, 211]
+    },
+    {
+      "name": "parameterUpdateExecuted",
+      "discriminator": [65, 67, 203, 95, 115, 31, 157, 30]
+    },
+    {
+      "name": "parameterUpdateProposed",
+      "discriminator": [21, 52, 43, 66, 193, 173, 45, 39]
+    },
+    {
+      "name": "rewardScheduleCanceled",
+      "discriminator": [141, 11, 161, 61, 205, 241, 85, 40]
+    },
+    {
+      "name": "rewardScheduleCreated",
+      "discriminator": [215, 145, 171, 52, 118, 17, 83, 127]
+    },
+    {
+      "name": "rewardSchedulePaid",
+      "discriminator": [46, 63, 132, 39, 227, 107, 132, 212]
+    },
+    {
+      "name": "rewardScheduleUpdated",
+      "discriminator": [209, 45, 128, 70, 102, 12, 92, 104]
+    },
+    {
+      "name": "rewardsDistributed",
+      "discriminator": [11, 43, 154, 0, 229, 9, 116, 85]
+    },
+    {
+      "name": "solBurned",
+      "discriminator": [99, 153, 38, 220, 23, 163, 174, 80]
+    },
+    {
+      "name": "surplusSwept",
+      "discriminator": [10, 228, 130, 83, 221, 240, 210, 32]
+    },
+    {
+      "name": "tokenFeeAccrued",
+      "discriminator": [124, 75, 7, 40, 254, 176, 57, 92]
+    },
+    {
+      "name": "tokenRewardsDistributed",
+      "discriminator": [252, 25, 60, 227, 126, 34, 216, 216]
+    },
+    {
+      "name": "tokensBurned",
+      "discriminator": [230, 255, 34, 113, 226, 53, 227, 9]
+    },
+    {
+      "name": "unpauseProposed",
+      "discriminator": [93, 170, 169, 123, 51, 131, 233, 122]
+    },
+    {
+      "name": "vaultPaused",
+      "discriminator": [198, 157, 22, 151, 68, 100, 162, 35]
+    },
+    {
+      "name": "vaultUnpaused",
+      "discriminator": [116, 95, 48, 104, 229, 9, 64, 84]
+    }
+  ],
+  "errors": [
+    {
+      "code": 6000,
+      "name": "invalidFeeRate",
+      "msg": "Fee or burn rate > 100% (10000 bps)"
+    },
+    {
+      "code": 6001,
+      "name": "invalidBurnPercentage",
+      "msg": "Burn percentage > 10000 bps"
+    },
+    {
+      "code": 6002,
+      "name": "invalidDelay",
+      "msg": "Delay outside allowed range"
+    },
+    {
+      "code": 6003,
+      "name": "arithmeticOverflow",
+      "msg": "Arithmetic overflow"
+    },
+    {
+      "code": 6004,
+      "name": "arithmeticUnderflow",
+      "msg": "Arithmetic underflow"
+    },
+    {
+      "code": 6005,
+      "name": "insufficientBalance",
+      "msg": "Insufficient vault balance"
+    },
+    {
+      "code": 6006,
+      "name": "amountTooSmall",
+      "msg": "Amount below dust protection threshold"
+    },
+    {
+      "code": 6007,
+      "name": "noChangeProposed",
+      "msg": "No parameter change was proposed"
+    },
+    {
+      "code": 6008,
+      "name": "timelockNotExpired",
+      "msg": "Timelock has not yet expired"
+    },
+    {
+      "code": 6009,
+      "name": "noPendingUpdate",
+      "msg": "No pending governance update exists"
+    },
+    {
+      "code": 6010,
+      "name": "unauthorized",
+      "msg": "Unauthorized caller"
+    },
+    {
+      "code": 6011,
+      "name": "invalidSchedule",
+      "msg": "Invalid reward schedule"
+    },
+    {
+      "code": 6012,
+      "name": "scheduleNotDue",
+      "msg": "Reward schedule payout not yet due"
+    },
+    {
+      "code": 6013,
+      "name": "scheduleEnded",
+      "msg": "Reward schedule has ended"
+    },
+    {
+      "code": 6014,
+      "name": "invalidDistribution",
+      "msg": "Invalid distribution"
+    },
+    {
+      "code": 6015,
+      "name": "distributionExpired",
+      "msg": "Distribution has expired"
+    },
+    {
+      "code": 6016,
+      "name": "distributionNotExpired",
+      "msg": "Distribution has not expired"
+    },
+    {
+      "code": 6017,
+      "name": "alreadyClaimed",
+      "msg": "Distribution already claimed"
+    },
+    {
+      "code": 6018,
+      "name": "invalidProof",
+      "msg": "Invalid merkle proof"
+    },
+    {
+      "code": 6019,
+      "name": "noSurplus",
+      "msg": "Vault holds no unaccounted lamports"
+    },
+    {
+      "code": 6020,
+      "name": "proposalExpired",
+      "msg": "Proposal execution window has passed"
+    },
+    {
+      "code": 6021,
+      "name": "spendingCapExceeded",
+      "msg": "Spending cap for the current window exceeded"
+    },
+    {
+      "code": 6022,
+      "name": "invalidSpendingCap",
+      "msg": "Invalid spending cap"
+    },
+    {
+      "code": 6023,
+      "name": "recipientNotAllowed",
+      "msg": "Recipient is not on the allowlist"
+    },
+    {
+      "code": 6024,
+      "name": "paused",
+      "msg": "Vault is paused"
+    }
+  ],
+  "types": [
+    {
+      "name": "allowlistAdditionProposed",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "recipient",
+            "type": "pubkey"
+          },
+          {
+            "name": "releaseAt",
+            "type": "i64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "allowlistEntry",
+      "docs": [
+        "Recipient the vault may pay in allowlist mode. PDA seeds",
+        "`[\"allowlist\", vault, recipient]`."
+      ],
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "vault",
+            "type": "pubkey"
+          },
+          {
+            "name": "recipient",
+            "type": "pubkey"
+          },
+          {
+            "name": "proposedAt",
+            "type": "i64"
+          },
+          {
+            "name": "releaseTime",
+            "docs": [
+              "Can be activated from this time"
+            ],
+            "type": "i64"
+          },
+          {
+            "name": "active",
+            "type": "bool"
+          },
+          {
+            "name": "bump",
+            "type": "u8"
+          }
+        ]
+      }
+    },
+    {
+      "name": "allowlistRecipientAdded",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "recipient",
+            "type": "pubkey"
+          }
+        ]
+      }
+    },
+    {
+      "name": "allowlistRecipientRemoved",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "recipient",
+            "type": "pubkey"
+          },
+          {
+            "name": "wasActive",
+            "docs": [
+              "`false` when a pending addition was withdrawn"
+            ],
+            "type": "bool"
+          }
+        ]
+      }
+    },
+    {
+      "name": "authorityTransferCanceled",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "canceledAuthority",
+            "type": "pubkey"
+          }
+        ]
+      }
+    },
+    {
+      "name": "authorityTransferProposed",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "currentAuthority",
+            "type": "pubkey"
+          },
+          {
+            "name": "newAuthority",
+            "type": "pubkey"
+          },
+          {
+            "name": "releaseAt",
+            "type": "i64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "authorityTransferred",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "previousAuthority",
+            "type": "pubkey"
+          },
+          {
+            "name": "newAuthority",
+            "type": "pubkey"
+          }
+        ]
+      }
+    },
+    {
+      "name": "distribution",
+      "docs": [
+        "Claimable reward round funded from a vault. PDA seeds",
+        "`[\"distribution\", vault, id (u64 LE)]`; holds the unclaimed lamports."
+      ],
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "vault",
+            "type": "pubkey"
+          },
+          {
+            "name": "id",
+            "type": "u64"
+          },
+          {
+            "name": "merkleRoot",
+            "type": {
+              "array": [
+                "u8",
+                32
+              ]
+            }
+          },
+          {
+            "name": "totalAmount",
+            "type": "u64"
+          },
+          {
+            "name": "claimedAmount",
+            "type": "u64"
+          },
+          {
+            "name": "numRecipients",
+            "type": "u32"
+          },
+          {
+            "name": "numClaimed",
+            "type": "u32"
+          },
+          {
+            "name": "expiresAt",
+            "docs": [
+              "Claims close, and sweeping opens, at this time"
+            ],
+            "type": "i64"
+          },
+          {
+            "name": "bump",
+            "type": "u8"
+          },
+          {
+            "name": "claimed",
+            "docs": [
+              "One bit per leaf index, set once claimed"
+            ],
+            "type": "bytes"
+          }
+        ]
+      }
+    },
+    {
+      "name": "distributionClaimed",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "distribution",
+            "type": "pubkey"
+          },
+          {
+            "name": "index",
+            "type": "u32"
+          },
+          {
+            "name": "recipient",
+            "type": "pubkey"
+          },
+          {
+            "name": "amount",
+            "type": "u64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "distributionCreated",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "distribution",
+            "type": "pubkey"
+          },
+          {
+            "name": "id",
+            "type": "u64"
+          },
+          {
+            "name": "merkleRoot",
+            "type": {
+              "array": [
+                "u8",
+                32
+              ]
+            }
+          },
+          {
+            "name": "totalAmount",
+            "type": "u64"
+          },
+          {
+            "name": "numRecipients",
+            "type": "u32"
+          },
+          {
+            "name": "expiresAt",
+            "type": "i64"
+          },
+          {
+            "name": "remaining",
+            "type": "u64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "distributionSwept",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "distribution",
+            "type": "pubkey"
+          },
+          {
+            "name": "amount",
+            "type": "u64"
+          },
+          {
+            "name": "totalAccrued",
+            "type": "u64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "feeAccrued",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "payer",
+            "type": "pubkey"
+          },
+          {
+            "name": "gross",
+            "type": "u64"
+          },
+          {
+            "name": "burned",
+            "type": "u64"
+          },
+          {
+            "name": "net",
+            "type": "u64"
+          },
+          {
+            "name": "totalAccrued",
+            "type": "u64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "parameterUpdateCanceled",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "proposal",
+            "type": "pubkey"
+          },
+          {
+            "name": "id",
+            "type": "u64"
+          },
+          {
+            "name": "expired",
+            "docs": [
+              "Past the execution window: recorded as `Expired`"
+            ],
+            "type": "bool"
+          }
+        ]
+      }
+    },
+    {
+      "name": "parameterUpdateExecuted",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "proposal",
+            "type": "pubkey"
+          },
+          {
+            "name": "id",
+            "type": "u64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "parameterUpdateProposed",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "proposal",
+            "type": "pubkey"
+          },
+          {
+            "name": "id",
+            "type": "u64"
+          },
+          {
+            "name": "proposedBurnBps",
+            "type": {
+              "option": "u16"
+            }
+          },
+          {
+            "name": "proposedDelaySecs",
+            "type": {
+              "option": "i64"
+            }
+          },
+          {
+            "name": "releaseAt",
+            "type": "i64"
+          },
+          {
+            "name": "proposedFeeBps",
+            "type": {
+              "option": "u16"
+            }
+          },
+          {
+            "name": "expiresAt",
+            "type": "i64"
+          },
+          {
+            "name": "proposedSpendingCaps",
+            "type": {
+              "option": {
+                "defined": {
+                  "name": "spendingCaps"
+                }
+              }
+            }
+          },
+          {
+            "name": "proposedAllowlistEnabled",
+            "type": {
+              "option": "bool"
+            }
+          },
+          {
+            "name": "proposedGuardian",
+            "type": {
+              "option": "pubkey"
+            }
+          }
+        ]
+      }
+    },
+    {
+      "name": "proposal",
+      "docs": [
+        "Timelocked parameter update. PDA seeds `[\"proposal\", vault, id (u64 LE)]`;",
+        "kept after execution or cancellation as a record."
+      ],
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "vault",
+            "type": "pubkey"
+          },
+          {
+            "name": "id",
+            "type": "u64"
+          },
+          {
+            "name": "proposer",
+            "type": "pubkey"
+          },
+          {
+            "name": "burnPercentageBps",
+            "type": {
+              "option": "u16"
+            }
+          },
+          {
+            "name": "delaySeconds",
+            "type": {
+              "option": "i64"
+            }
+          },
+          {
+            "name": "feeBasisPoints",
+            "type": {
+              "option": "u16"
+            }
+          },
+          {
+            "name": "spendingCaps",
+            "type": {
+              "option": {
+                "defined": {
+                  "name": "spendingCaps"
+                }
+              }
+            }
+          },
+          {
+            "name": "allowlistEnabled",
+            "type": {
+              "option": "bool"
+            }
+          },
+          {
+            "name": "guardian",
+            "docs": [
+              "`Pubkey::default()` removes the guardian"
+            ],
+            "type": {
+              "option": "pubkey"
+            }
+          },
+          {
+            "name": "proposedAt",
+            "type": "i64"
+          },
+          {
+            "name": "releaseTime",
+            "docs": [
+              "Executable from this time"
+            ],
+            "type": "i64"
+          },
+          {
+            "name": "expiresAt",
+            "docs": [
+              "No longer executable after this time"
+            ],
+            "type": "i64"
+          },
+          {
+            "name": "status",
+            "type": {
+              "defined": {
+                "name": "proposalStatus"
+              }
+            }
+          },
+          {
+            "name": "bump",
+            "type": "u8"
+          }
+        ]
+      }
+    },
+    {
+      "name": "proposalStatus",
+      "type": {
+        "kind": "enum",
+        "variants": [
+          {
+            "name": "pending"
+          },
+          {
+            "name": "executed"
+          },
+          {
+            "name": "canceled"
+          },
+          {
+            "name": "expired"
+          }
+        ]
+      }
+    },
+    {
+      "name": "rewardSchedule",
+      "docs": [
+        "Recurring payout from a vault, cranked by anyone once due. PDA seeds",
+        "`[\"schedule\", vault, id (u64 LE)]`."
+      ],
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "vault",
+            "type": "pubkey"
+          },
+          {
+            "name": "id",
+            "type": "u64"
+          },
+          {
+            "name": "recipient",
+            "type": "pubkey"
+          },
+          {
+            "name": "amountLamports",
+            "docs": [
+              "Fixed payout; 0 when `amount_bps` is used"
+            ],
+            "type": "u64"
+          },
+          {
+            "name": "amountBps",
+            "docs": [
+              "Payout as a share of `total_accrued` at crank time; 0 when fixed"
+            ],
+            "type": "u16"
+          },
+          {
+            "name": "intervalSeconds",
+            "type": "i64"
+          },
+          {
+            "name": "nextPayoutAt",
+            "type": "i64"
+          },
+          {
+            "name": "endTime",
+            "docs": [
+              "No payouts due after this time"
+            ],
+            "type": {
+              "option": "i64"
+            }
+          },
+          {
+            "name": "totalPaid",
+            "type": "u64"
+          },
+          {
+            "name": "bump",
+            "type": "u8"
+          }
+        ]
+      }
+    },
+    {
+      "name": "rewardScheduleCanceled",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "schedule",
+            "type": "pubkey"
+          },
+          {
+            "name": "totalPaid",
+            "type": "u64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "rewardScheduleCreated",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "schedule",
+            "type": "pubkey"
+          },
+          {
+            "name": "id",
+            "type": "u64"
+          },
+          {
+            "name": "recipient",
+            "type": "pubkey"
+          },
+          {
+            "name": "amountLamports",
+            "type": "u64"
+          },
+          {
+            "name": "amountBps",
+            "type": "u16"
+          },
+          {
+            "name": "intervalSeconds",
+            "type": "i64"
+          },
+          {
+            "name": "endTime",
+            "type": {
+              "option": "i64"
+            }
+          },
+          {
+            "name": "nextPayoutAt",
+            "type": "i64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "rewardSchedulePaid",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "schedule",
+            "type": "pubkey"
+          },
+          {
+            "name": "recipient",
+            "type": "pubkey"
+          },
+          {
+            "name": "amount",
+            "type": "u64"
+          },
+          {
+            "name": "nextPayoutAt",
+            "type": "i64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "rewardScheduleUpdated",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "schedule",
+            "type": "pubkey"
+          },
+          {
+            "name": "amountLamports",
+            "type": "u64"
+          },
+          {
+            "name": "amountBps",
+            "type": "u16"
+          },
+          {
+            "name": "intervalSeconds",
+            "type": "i64"
+          },
+          {
+            "name": "endTime",
+            "type": {
+              "option": "i64"
+            }
+          }
+        ]
+      }
+    },
+    {
+      "name": "rewardsDistributed",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "recipient",
+            "type": "pubkey"
+          },
+          {
+            "name": "amount",
+            "type": "u64"
+          },
+          {
+            "name": "remaining",
+            "type": "u64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "solBurned",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "amount",
+            "type": "u64"
+          },
+          {
+            "name": "remaining",
+            "type": "u64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "spendingCaps",
+      "docs": [
+        "Per-window limits on SOL leaving the vault. Each limit is a fixed",
+        "amount or bps of `total_accrued` at the window start; zero in both",
+        "leaves it uncapped. Token outflows are not capped: the limits are in",
+        "lamports and do not translate to other mints."
+      ],
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "windowSeconds",
+            "type": "i64"
+          },
+          {
+            "name": "distributionLamports",
+            "docs": [
+              "Covers `distribute_rewards`, schedule cranks and distribution rounds"
+            ],
+            "type": "u64"
+          },
+          {
+            "name": "distributionBps",
+            "type": "u16"
+          },
+          {
+            "name": "burnLamports",
+            "docs": [
+              "Covers `burn_sol` and burned surplus; auto-burns on accrual are not",
+              "capped"
+            ],
+            "type": "u64"
+          },
+          {
+            "name": "burnBps",
+            "type": "u16"
+          }
+        ]
+      }
+    },
+    {
+      "name": "surplusSwept",
+      "docs": [
+        "Unaccounted lamports either added to `total_accrued` or burned."
+      ],
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "amount",
+            "type": "u64"
+          },
+          {
+            "name": "burned",
+            "type": "bool"
+          },
+          {
+            "name": "totalAccrued",
+            "type": "u64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "tokenFeeAccrued",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "mint",
+            "type": "pubkey"
+          },
+          {
+            "name": "payer",
+            "type": "pubkey"
+          },
+          {
+            "name": "gross",
+            "docs": [
+              "Amount the vault received (net of any Token-2022 transfer fee)"
+            ],
+            "type": "u64"
+          },
+          {
+            "name": "burned",
+            "type": "u64"
+          },
+          {
+            "name": "net",
+            "type": "u64"
+          },
+          {
+            "name": "totalAccrued",
+            "type": "u64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "tokenRewardsDistributed",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "mint",
+            "type": "pubkey"
+          },
+          {
+            "name": "recipient",
+            "docs": [
+              "Owner of the receiving token account"
+            ],
+            "type": "pubkey"
+          },
+          {
+            "name": "amount",
+            "type": "u64"
+          },
+          {
+            "name": "remaining",
+            "type": "u64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "tokenVault",
+      "docs": [
+        "Per-mint accounting for tokens held by a vault. The tokens sit in the",
+        "PDA token account `[\"vault_tokens\", vault, mint]`, owned by the vault PDA."
+      ],
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "vault",
+            "type": "pubkey"
+          },
+          {
+            "name": "mint",
+            "type": "pubkey"
+          },
+          {
+            "name": "tokenProgram",
+            "type": "pubkey"
+          },
+          {
+            "name": "totalAccrued",
+            "type": "u64"
+          },
+          {
+            "name": "bump",
+            "type": "u8"
+          },
+          {
+            "name": "tokenAccountBump",
+            "type": "u8"
+          }
+        ]
+      }
+    },
+    {
+      "name": "tokensBurned",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "mint",
+            "type": "pubkey"
+          },
+          {
+            "name": "amount",
+            "type": "u64"
+          },
+          {
+            "name": "remaining",
+            "type": "u64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "unpauseProposed",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "releaseAt",
+            "type": "i64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "vault",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "authority",
+            "type": "pubkey"
+          },
+          {
+            "name": "namespace",
+            "type": "pubkey"
+          },
+          {
+            "name": "totalAccrued",
+            "type": "u64"
+          },
+          {
+            "name": "feeBasisPoints",
+            "type": "u16"
+          },
+          {
+            "name": "burnPercentageBps",
+            "type": "u16"
+          },
+          {
+            "name": "delaySeconds",
+            "type": "i64"
+          },
+          {
+            "name": "bump",
+            "type": "u8"
+          },
+          {
+            "name": "proposalCount",
+            "docs": [
+              "Id the next governance proposal will get"
+            ],
+            "type": "u64"
+          },
+          {
+            "name": "pendingAuthority",
+            "type": {
+              "option": "pubkey"
+            }
+          },
+          {
+            "name": "authorityTransferReleaseTime",
+            "type": "i64"
+          },
+          {
+            "name": "spendingCaps",
+            "type": {
+              "defined": {
+                "name": "spendingCaps"
+              }
+            }
+          },
+          {
+            "name": "windowStart",
+            "type": "i64"
+          },
+          {
+            "name": "windowStartBalance",
+            "docs": [
+              "`total_accrued` when the window started, the base for bps caps"
+            ],
+            "type": "u64"
+          },
+          {
+            "name": "distributedInWindow",
+            "type": "u64"
+          },
+          {
+            "name": "burnedInWindow",
+            "type": "u64"
+          },
+          {
+            "name": "allowlistEnabled",
+            "docs": [
+              "Outflows to chosen recipients only pay active allowlist entries"
+            ],
+            "type": "bool"
+          },
+          {
+            "name": "guardian",
+            "docs": [
+              "Key that can pause the vault, separate from `authority`"
+            ],
+            "type": {
+              "option": "pubkey"
+            }
+          },
+          {
+            "name": "paused",
+            "type": "bool"
+          },
+          {
+            "name": "unpauseReleaseTime",
+            "docs": [
+              "When the authority may unpause; 0 if no unpause is pending"
+            ],
+            "type": "i64"
+          },
+          {
+            "name": "scheduleCount",
+            "docs": [
+              "Id the next reward schedule will get"
+            ],
+            "type": "u64"
+          },
+          {
+            "name": "distributionCount",
+            "docs": [
+              "Id the next distribution round will get"
+            ],
+            "type": "u64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "vaultPaused",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "guardian",
+            "type": "pubkey"
+          }
+        ]
+      }
+    },
+    {
+      "name": "vaultUnpaused",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "authority",
+            "type": "pubkey"
+          }
+        ]
+      }
+    }
+  ]
+};
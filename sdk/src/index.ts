@@ -1,47 +1,242 @@
 import {
   Program,
   AnchorProvider,
+  Provider,
   BN,
-  Idl,
-  IdlAccounts,
+  utils,
 } from "@coral-xyz/anchor";
 import {
   PublicKey,
   SystemProgram,
+  Commitment,
+  ConfirmOptions,
   Connection,
   Keypair,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
   TransactionSignature,
+  VersionedTransaction,
+  AddressLookupTableAccount,
+  SYSVAR_CLOCK_PUBKEY,
 } from "@solana/web3.js";
+import {
+  decodeEvents,
+  SolForgeEvent,
+  SolForgeEventHandler,
+  SolForgeEventName,
+  SolForgeEvents,
+} from "./events";
+import {
+  AllowlistEntryInfo,
+  AllowlistEntryState,
+  fetchAllowlist,
+  findAllowlistEntryAddress,
+} from "./allowlist";
+import {
+  AnalyticsOptions,
+  fetchVaultAnalytics,
+  VaultAnalytics,
+} from "./analytics";
+import {
+  BatchOptions,
+  BatchReport,
+  distributeRewardsBatch,
+  RewardPayment,
+} from "./batch";
+import {
+  fetchSpendingAllowance,
+  SpendingAllowance,
+  spendingCapsArgs,
+} from "./caps";
+import { DEFAULT_NAMESPACE, INCINERATOR, PROGRAM_ID } from "./constants";
+import {
+  DistributionClaim,
+  DistributionClaimStatus,
+  distributionClaimStatus,
+  DistributionInfo,
+  DistributionState,
+  DistributionTree,
+  fetchDistributions,
+  findDistributionAddress,
+  NewDistribution,
+} from "./distribution";
+import { translateError } from "./errors";
+import { SOLFORGE_IDL, SolForgeIdl } from "./idl";
+import type { EventStore } from "./indexer";
+import { computeFeeQuote, FeeQuote } from "./model";
+import {
+  fetchProposal,
+  fetchProposals,
+  findProposalAddress,
+  ParameterUpdate,
+  ProposalInfo,
+} from "./governance";
+import {
+  checkAcceptAuthorityTransfer,
+  checkAccrueFee,
+  checkAccrueFeeOnVolume,
+  checkAllowlisted,
+  checkCancelAuthorityTransfer,
+  checkCancelParameterProposal,
+  checkClaimDistribution,
+  checkCreateDistribution,
+  checkExecuteAllowlistAddition,
+  checkExecuteParameterUpdate,
+  checkInitializeVault,
+  checkManageAllowlist,
+  checkNotPaused,
+  checkPause,
+  checkProposeAuthorityTransfer,
+  checkCrankRewardSchedule,
+  checkProposeParameterUpdate,
+  checkProposeUnpause,
+  checkRewardSchedule,
+  checkSpendingCap,
+  checkSweepDistribution,
+  checkSweepSurplus,
+  checkTokenWithdrawal,
+  checkUnpause,
+  checkWithdrawal,
+} from "./preflight";
+import {
+  buildOfflineTransaction,
+  DurableNonceOptions,
+  SignedTransactionInput,
+  SigningRequest,
+  submitSigned,
+  toSigningRequest,
+} from "./offline";
+import {
+  CrankOptions,
+  CrankReport,
+  crankDueSchedules,
+  fetchRewardSchedules,
+  findRewardScheduleAddress,
+  NewRewardSchedule,
+  RewardScheduleInfo,
+  RewardScheduleParams,
+  RewardScheduleState,
+  scheduleAmountArgs,
+} from "./schedule";
+import {
+  fetchVaultSurplus,
+  ReconcileOptions,
+  ReconcileReport,
+  reconcileVault,
+  VaultSurplus,
+} from "./reconcile";
+import {
+  RpcSender,
+  SendOptions,
+  SendResult,
+  TransactionSender,
+  withComputeBudget,
+} from "./sender";
+import {
+  createAssociatedTokenAccountIdempotentIx,
+  fetchTokenProgram,
+  findTokenVaultAddress,
+  findVaultTokenAccountAddress,
+  getAssociatedTokenAddress,
+  TokenVaultState,
+} from "./token";
+import { fetchVaultState, VaultState } from "./vault";
+
+export * from "./allowlist";
+export * from "./analytics";
+export * from "./batch";
+export * from "./caps";
+export * from "./constants";
+export * from "./distribution";
+export * from "./errors";
+export * from "./events";
+export * from "./governance";
+export * from "./idl";
+export * from "./indexer";
+export * from "./json";
+export * from "./model";
+export * from "./offline";
+export * from "./preflight";
+export * from "./reconcile";
+export * from "./schedule";
+export * from "./sender";
+export * from "./token";
+export * from "./vault";
 
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
 
-export const PROGRAM_ID = new PublicKey(
-  "F1aLM6gPxEmoGRCT84ZYTSWAgiaaf3m4JHabr4nkBiHo"
-);
+const VAULT_SEED = Buffer.from("vault");
+
+/**
+ * Derive a vault namespace from a human-readable name (sha256 of the name).
+ *
+ * @param name e.g. `"my-dex"`.
+ */
+export function namespaceFromName(name: string): PublicKey {
+  return new PublicKey(Buffer.from(utils.sha256.hash(name), "hex"));
+}
 
-/** Solana native incinerator address */
-export const INCINERATOR = new PublicKey(
-  "1nc1nerator11111111111111111111111111111111"
-);
+/**
+ * Derive the vault PDA for `namespace`: seeds `["vault", namespace]`.
+ *
+ * @param namespace Vault namespace (defaults to `DEFAULT_NAMESPACE`).
+ * @param programId Program ID (defaults to on-chain address).
+ */
+export function findVaultAddress(
+  namespace: PublicKey = DEFAULT_NAMESPACE,
+  programId: PublicKey = PROGRAM_ID
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [VAULT_SEED, namespace.toBuffer()],
+    programId
+  );
+}
 
-const VAULT_SEED = Buffer.from("vault");
+/** Normalise a lamport amount to `BN`. */
+function toBN(amount: BN | number): BN {
+  return typeof amount === "number" ? new BN(amount) : amount;
+}
 
-// ---------------------------------------------------------------------------
-// Vault account type (mirrors on-chain Vault struct)
-// ---------------------------------------------------------------------------
+/** Signing wallet of a client (Anchor's provider wallet interface). */
+export type SolForgeWallet = AnchorProvider["wallet"];
+
+/**
+ * What a signing client needs from its provider: the connection and wallet,
+ * plus default confirm options if it has them. `AnchorProvider` fits, as do
+ * providers that only implement Anchor's `Provider` (e.g. bankrun's).
+ */
+export interface SolForgeProvider extends Provider {
+  readonly wallet: SolForgeWallet;
+  readonly opts?: ConfirmOptions;
+}
+
+/** A vault found by `listVaults`. */
+export interface VaultInfo {
+  address: PublicKey;
+  state: VaultState;
+}
+
+export interface SolForgeClientOptions {
+  /**
+   * Namespace of the vault this client operates on (a creator key or
+   * `namespaceFromName(...)`). Defaults to `DEFAULT_NAMESPACE`.
+   */
+  namespace?: PublicKey;
+
+  /**
+   * Validate arguments and vault state locally before sending, throwing the
+   * same `SolForgeError` the program would (default `false`).
+   */
+  preflight?: boolean;
 
-export interface VaultState {
-  authority: PublicKey;
-  totalAccrued: BN;
-  feeBasisPoints: number;
-  burnPercentageBps: number;
-  delaySeconds: BN;
-  bump: number;
-  pendingBurnPercentageBps: number | null;
-  pendingDelaySeconds: BN | null;
-  pendingReleaseTime: BN;
+  /** Defaults for every send; each instruction method can override them. */
+  send?: SendOptions;
+
+  /** Transport for sends (default: `RpcSender` over the provider). */
+  sender?: TransactionSender;
 }
 
 // ---------------------------------------------------------------------------
@@ -49,208 +244,1983 @@ export interface VaultState {
 // ---------------------------------------------------------------------------
 
 export class SolForgeClient {
-  readonly program: Program;
-  readonly provider: AnchorProvider;
+  readonly program: Program<SolForgeIdl>;
+  readonly provider: Provider;
+
+  /** Signing wallet, or `null` for a read-only client. */
+  readonly wallet: SolForgeWallet | null;
+
+  /** Default commitment for sends and confirmations. */
+  readonly commitment: Commitment;
+
+  /** Namespace seed of this client's vault */
+  readonly namespace: PublicKey;
 
-  /** Vault PDA address (singleton) */
+  /** Vault PDA address: seeds `["vault", namespace]` */
   readonly vaultPda: PublicKey;
   readonly vaultBump: number;
 
+  private readonly options: SolForgeClientOptions;
+
+  /** Whether client-side preflight checks are enabled. */
+  readonly preflight: boolean;
+
+  /** Token program per mint address, looked up on first use. */
+  private readonly tokenPrograms = new Map<string, PublicKey>();
+
   private constructor(
-    program: Program,
-    provider: AnchorProvider,
+    program: Program<SolForgeIdl>,
+    provider: Provider,
+    wallet: SolForgeWallet | null,
+    commitment: Commitment,
     vaultPda: PublicKey,
-    vaultBump: number
+    vaultBump: number,
+    options: SolForgeClientOptions
   ) {
     this.program = program;
     this.provider = provider;
+    this.wallet = wallet;
+    this.commitment = commitment;
+    this.namespace = options.namespace ?? DEFAULT_NAMESPACE;
     this.vaultPda = vaultPda;
     this.vaultBump = vaultBump;
+    this.preflight = options.preflight ?? false;
+    this.options = options;
   }
 
   /**
    * Create a new SolForgeClient.
    *
-   * @param provider  An `AnchorProvider` with wallet & connection.
-   * @param idl       The parsed IDL JSON for the SolForge program.
+   * Given a bare `Connection` the client is read-only: queries and
+   * instruction builders (with explicit signer keys) work, sending needs a
+   * wallet or an external signer via `submitSigned`.
+   *
+   * @param provider  A provider with wallet & connection (e.g.
+   *                  `AnchorProvider`), or a `Connection` for a read-only
+   *                  client.
+   * @param idl       IDL of the SolForge program (defaults to the bundled
+   *                  `SOLFORGE_IDL`).
    * @param programId Override program ID (defaults to on-chain address).
+   * @param options   Vault namespace and client behaviour (preflight).
    */
   static create(
-    provider: AnchorProvider,
-    idl: Idl,
-    programId: PublicKey = PROGRAM_ID
+    provider: SolForgeProvider | Connection,
+    idl: SolForgeIdl = SOLFORGE_IDL,
+    programId: PublicKey = PROGRAM_ID,
+    options: SolForgeClientOptions = {}
   ): SolForgeClient {
-    const program = new Program(idl, programId, provider);
-    const [vaultPda, vaultBump] = PublicKey.findProgramAddressSync(
-      [VAULT_SEED],
+    const readOnly = !("wallet" in provider);
+    const anchorProvider: Provider = readOnly ? { connection: provider } : provider;
+    // `Program` takes its address from the IDL
+    const program = new Program<SolForgeIdl>(
+      { ...idl, address: programId.toBase58() },
+      anchorProvider
+    );
+    const commitment = readOnly
+      ? provider.commitment
+      : provider.opts?.commitment;
+    const [vaultPda, vaultBump] = findVaultAddress(
+      options.namespace,
       programId
     );
-    return new SolForgeClient(program, provider, vaultPda, vaultBump);
+    return new SolForgeClient(
+      program,
+      anchorProvider,
+      readOnly ? null : provider.wallet,
+      commitment ?? "confirmed",
+      vaultPda,
+      vaultBump,
+      options
+    );
+  }
+
+  /**
+   * A client for another vault of the same program, sharing this client's
+   * program, wallet and options.
+   *
+   * @param namespace Namespace of the other vault.
+   */
+  forVault(namespace: PublicKey): SolForgeClient {
+    const [vaultPda, vaultBump] = findVaultAddress(
+      namespace,
+      this.program.programId
+    );
+    return new SolForgeClient(
+      this.program,
+      this.provider,
+      this.wallet,
+      this.commitment,
+      vaultPda,
+      vaultBump,
+      { ...this.options, namespace }
+    );
+  }
+
+  /**
+   * The signing wallet.
+   *
+   * @throws If the client was created from a bare `Connection`.
+   */
+  requireWallet(): SolForgeWallet {
+    if (!this.wallet) {
+      throw new Error(
+        "Read-only client: pass signer keys explicitly or create it with a wallet"
+      );
+    }
+    return this.wallet;
   }
 
   // -----------------------------------------------------------------------
-  // Instructions
+  // Instruction builders
+  //
+  // Each builder returns an unsigned `TransactionInstruction` so callers can
+  // compose SolForge instructions with their own (e.g. a DEX routing its fee
+  // into `accrue_fee` in the same transaction as the swap).
   // -----------------------------------------------------------------------
 
   /**
-   * Initialize the singleton vault PDA.
+   * Build an `initialize_vault` instruction for this client's namespace.
    *
    * @param feeBps        Fee rate in basis points (0-10 000).
    * @param burnBps       Burn percentage in basis points (0-10 000).
    * @param delaySeconds  Governance timelock delay (optional, default 86 400).
+   * @param guardian      Key that can pause the vault (optional).
+   * @param authority     Vault authority & rent payer (defaults to wallet).
    */
-  async initializeVault(
+  async initializeVaultIx(
     feeBps: number,
     burnBps: number,
-    delaySeconds?: number
-  ): Promise<TransactionSignature> {
-    const authority = this.provider.wallet.publicKey;
-
+    delaySeconds?: number,
+    guardian?: PublicKey,
+    authority: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
     return this.program.methods
-      .initializeVault(feeBps, burnBps, delaySeconds ? new BN(delaySeconds) : null)
-      .accounts({
+      .initializeVault(
+        this.namespace,
+        feeBps,
+        burnBps,
+        delaySeconds ? new BN(delaySeconds) : null,
+        guardian ?? null
+      )
+      .accountsStrict({
         vault: this.vaultPda,
         authority,
         systemProgram: SystemProgram.programId,
       })
-      .rpc();
+      .instruction();
   }
 
   /**
-   * Pay SOL into the vault. A portion is auto-burned per the current burn %.
+   * Build an `accrue_fee` instruction.
    *
    * @param amountLamports Amount of lamports to accrue.
+   * @param payer          Account paying the fee (defaults to wallet).
    */
-  async accrueFee(amountLamports: BN | number): Promise<TransactionSignature> {
-    const amount =
-      typeof amountLamports === "number"
-        ? new BN(amountLamports)
-        : amountLamports;
+  async accrueFeeIx(
+    amountLamports: BN | number,
+    payer: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
+    return this.program.methods
+      .accrueFee(toBN(amountLamports))
+      .accountsStrict({
+        vault: this.vaultPda,
+        payer,
+        incinerator: INCINERATOR,
+        systemProgram: SystemProgram.programId,
+      })
+      .instruction();
+  }
 
+  /**
+   * Build an `accrue_fee_on_volume` instruction: the fee is `fee_bps` of
+   * `volumeLamports`, see `quoteFee`.
+   *
+   * @param volumeLamports Trade volume the fee is charged on.
+   * @param payer          Account paying the fee (defaults to wallet).
+   */
+  async accrueFeeOnVolumeIx(
+    volumeLamports: BN | number,
+    payer: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
     return this.program.methods
-      .accrueFee(amount)
-      .accounts({
+      .accrueFeeOnVolume(toBN(volumeLamports))
+      .accountsStrict({
         vault: this.vaultPda,
-        payer: this.provider.wallet.publicKey,
+        payer,
         incinerator: INCINERATOR,
         systemProgram: SystemProgram.programId,
       })
-      .rpc();
+      .instruction();
   }
 
   /**
-   * Authority manually burns SOL from the vault to the incinerator.
+   * Build a `burn_sol` instruction.
    *
    * @param amountLamports Amount of lamports to burn (≥ 1 000 000).
+   * @param authority      Vault authority (defaults to wallet).
    */
-  async burnSol(amountLamports: BN | number): Promise<TransactionSignature> {
-    const amount =
-      typeof amountLamports === "number"
-        ? new BN(amountLamports)
-        : amountLamports;
-
+  async burnSolIx(
+    amountLamports: BN | number,
+    authority: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
     return this.program.methods
-      .burnSol(amount)
-      .accounts({
+      .burnSol(toBN(amountLamports))
+      .accountsStrict({
         vault: this.vaultPda,
-        authority: this.provider.wallet.publicKey,
+        authority,
         incinerator: INCINERATOR,
-        systemProgram: SystemProgram.programId,
       })
-      .rpc();
+      .instruction();
   }
 
   /**
-   * Authority distributes SOL from the vault to any recipient.
+   * Build a `distribute_rewards` instruction.
    *
    * @param recipient      Destination public key.
    * @param amountLamports Amount of lamports to send (≥ 1 000 000).
+   * @param authority      Vault authority (defaults to wallet).
    */
-  async distributeRewards(
+  async distributeRewardsIx(
+    recipient: PublicKey,
+    amountLamports: BN | number,
+    authority: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
+    return this.program.methods
+      .distributeRewards(toBN(amountLamports))
+      .accountsStrict({
+        vault: this.vaultPda,
+        authority,
+        recipient,
+        allowlistEntry: this.allowlistEntryAddress(recipient),
+      })
+      .instruction();
+  }
+
+  /**
+   * Build a `sweep_surplus` instruction.
+   *
+   * @param burn      Burn the surplus instead of adding it to `total_accrued`.
+   * @param authority Vault authority (defaults to wallet).
+   */
+  async sweepSurplusIx(
+    burn = false,
+    authority: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
+    return this.program.methods
+      .sweepSurplus(burn)
+      .accountsStrict({
+        vault: this.vaultPda,
+        authority,
+        incinerator: INCINERATOR,
+      })
+      .instruction();
+  }
+
+  /**
+   * Build an `initialize_token_vault` instruction for `mint`.
+   *
+   * @param mint      Classic SPL or Token-2022 mint.
+   * @param authority Vault authority & rent payer (defaults to wallet).
+   */
+  async initializeTokenVaultIx(
+    mint: PublicKey,
+    authority: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
+    return this.program.methods
+      .initializeTokenVault()
+      .accountsStrict({
+        ...this.tokenVaultAccounts(mint),
+        authority,
+        tokenProgram: await this.tokenProgramOf(mint),
+        systemProgram: SystemProgram.programId,
+      })
+      .instruction();
+  }
+
+  /**
+   * Build an `accrue_token_fee` instruction paying from the payer's
+   * associated token account.
+   *
+   * @param mint   Token mint.
+   * @param amount Amount in base units.
+   * @param payer  Owner of the paying token account (defaults to wallet).
+   */
+  async accrueTokenFeeIx(
+    mint: PublicKey,
+    amount: BN | number,
+    payer: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
+    const tokenProgram = await this.tokenProgramOf(mint);
+    return this.program.methods
+      .accrueTokenFee(toBN(amount))
+      .accountsStrict({
+        ...this.tokenVaultAccounts(mint),
+        payerTokenAccount: getAssociatedTokenAddress(mint, payer, tokenProgram),
+        payer,
+        tokenProgram,
+      })
+      .instruction();
+  }
+
+  /**
+   * Build a `burn_tokens` instruction.
+   *
+   * @param mint      Token mint.
+   * @param amount    Amount in base units.
+   * @param authority Vault authority (defaults to wallet).
+   */
+  async burnTokensIx(
+    mint: PublicKey,
+    amount: BN | number,
+    authority: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
+    return this.program.methods
+      .burnTokens(toBN(amount))
+      .accountsStrict({
+        ...this.tokenVaultAccounts(mint),
+        authority,
+        tokenProgram: await this.tokenProgramOf(mint),
+      })
+      .instruction();
+  }
+
+  /**
+   * Build a `distribute_token_rewards` instruction paying into the
+   * recipient's associated token account, which must exist (see
+   * `distributeTokenRewards`).
+   *
+   * @param mint      Token mint.
+   * @param recipient Wallet receiving the tokens.
+   * @param amount    Amount in base units.
+   * @param authority Vault authority (defaults to wallet).
+   */
+  async distributeTokenRewardsIx(
+    mint: PublicKey,
     recipient: PublicKey,
-    amountLamports: BN | number
-  ): Promise<TransactionSignature> {
-    const amount =
-      typeof amountLamports === "number"
-        ? new BN(amountLamports)
-        : amountLamports;
+    amount: BN | number,
+    authority: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
+    const tokenProgram = await this.tokenProgramOf(mint);
+    return this.program.methods
+      .distributeTokenRewards(toBN(amount))
+      .accountsStrict({
+        ...this.tokenVaultAccounts(mint),
+        recipientTokenAccount: getAssociatedTokenAddress(
+          mint,
+          recipient,
+          tokenProgram
+        ),
+        allowlistEntry: this.allowlistEntryAddress(recipient),
+        authority,
+        tokenProgram,
+      })
+      .instruction();
+  }
+
+  /** Vault-side accounts shared by every token instruction. */
+  private tokenVaultAccounts(mint: PublicKey) {
+    const programId = this.program.programId;
+    return {
+      vault: this.vaultPda,
+      tokenVault: findTokenVaultAddress(this.vaultPda, mint, programId)[0],
+      mint,
+      vaultTokenAccount: findVaultTokenAccountAddress(
+        this.vaultPda,
+        mint,
+        programId
+      )[0],
+    };
+  }
+
+  /** Token program owning `mint` (classic SPL or Token-2022). */
+  private async tokenProgramOf(mint: PublicKey): Promise<PublicKey> {
+    const cached = this.tokenPrograms.get(mint.toBase58());
+    if (cached) return cached;
+    const tokenProgram = await fetchTokenProgram(this.provider.connection, mint);
+    this.tokenPrograms.set(mint.toBase58(), tokenProgram);
+    return tokenProgram;
+  }
 
+  /**
+   * Build a `create_reward_schedule` instruction.
+   *
+   * @param id        Schedule id; must be the vault's current
+   *                  `scheduleCount` (see `nextRewardScheduleId`).
+   * @param schedule  Recipient, amount, interval and optional end time.
+   * @param authority Vault authority & rent payer (defaults to wallet).
+   */
+  async createRewardScheduleIx(
+    id: BN | number,
+    schedule: NewRewardSchedule,
+    authority: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
+    const [amountLamports, amountBps] = scheduleAmountArgs(schedule.amount);
+    return this.program.methods
+      .createRewardSchedule(
+        schedule.recipient,
+        amountLamports,
+        amountBps,
+        new BN(schedule.intervalSeconds),
+        schedule.endTime != null ? new BN(schedule.endTime) : null
+      )
+      .accountsStrict({
+        vault: this.vaultPda,
+        schedule: this.rewardScheduleAddress(id),
+        allowlistEntry: this.allowlistEntryAddress(schedule.recipient),
+        authority,
+        systemProgram: SystemProgram.programId,
+      })
+      .instruction();
+  }
+
+  /**
+   * Build an `update_reward_schedule` instruction.
+   *
+   * @param schedule  Schedule address.
+   * @param params    New amount, interval and end time.
+   * @param authority Vault authority (defaults to wallet).
+   */
+  async updateRewardScheduleIx(
+    schedule: PublicKey,
+    params: RewardScheduleParams,
+    authority: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
+    const [amountLamports, amountBps] = scheduleAmountArgs(params.amount);
+    return this.program.methods
+      .updateRewardSchedule(
+        amountLamports,
+        amountBps,
+        new BN(params.intervalSeconds),
+        params.endTime != null ? new BN(params.endTime) : null
+      )
+      .accountsStrict({
+        vault: this.vaultPda,
+        schedule,
+        authority,
+      })
+      .instruction();
+  }
+
+  /**
+   * Build a `cancel_reward_schedule` instruction (rent returns to the
+   * authority).
+   *
+   * @param schedule  Schedule address.
+   * @param authority Vault authority (defaults to wallet).
+   */
+  async cancelRewardScheduleIx(
+    schedule: PublicKey,
+    authority: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
+    return this.program.methods
+      .cancelRewardSchedule()
+      .accountsStrict({
+        vault: this.vaultPda,
+        schedule,
+        authority,
+      })
+      .instruction();
+  }
+
+  /**
+   * Build a permissionless `crank_reward_schedule` instruction.
+   *
+   * @param schedule  Schedule address.
+   * @param recipient The schedule's recipient.
+   */
+  async crankRewardScheduleIx(
+    schedule: PublicKey,
+    recipient: PublicKey
+  ): Promise<TransactionInstruction> {
     return this.program.methods
-      .distributeRewards(amount)
-      .accounts({
+      .crankRewardSchedule()
+      .accountsStrict({
         vault: this.vaultPda,
-        authority: this.provider.wallet.publicKey,
+        schedule,
         recipient,
+        allowlistEntry: this.allowlistEntryAddress(recipient),
+      })
+      .instruction();
+  }
+
+  /** PDA of this vault's schedule `id`. */
+  rewardScheduleAddress(id: BN | number): PublicKey {
+    return findRewardScheduleAddress(this.vaultPda, id, this.program.programId)[0];
+  }
+
+  /**
+   * Build a `create_distribution` instruction, funding the round from the
+   * vault's retained balance.
+   *
+   * @param id        Round id; must be the vault's current
+   *                  `distributionCount` (see `nextDistributionId`).
+   * @param tree      Recipients and amounts; only the root and totals go
+   *                  on-chain.
+   * @param expiresAt Unix time when claims close and sweeping opens.
+   * @param authority Vault authority & rent payer (defaults to wallet).
+   */
+  async createDistributionIx(
+    id: BN | number,
+    tree: DistributionTree,
+    expiresAt: number,
+    authority: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
+    return this.program.methods
+      .createDistribution(
+        Array.from(tree.root),
+        tree.total,
+        tree.leaves.length,
+        new BN(expiresAt)
+      )
+      .accountsStrict({
+        vault: this.vaultPda,
+        distribution: this.distributionAddress(id),
+        authority,
         systemProgram: SystemProgram.programId,
       })
-      .rpc();
+      .instruction();
   }
 
   /**
-   * Propose a timelocked parameter update (burn % and/or delay).
+   * Build a `claim_distribution` instruction.
    *
-   * @param newBurnBps     New burn percentage in bps (optional).
-   * @param newDelaySecs   New governance delay in seconds (optional).
+   * @param distribution Round address.
+   * @param claim        Leaf index, amount and proof of `claimant`.
+   * @param claimant     Recipient; signs and receives (defaults to wallet).
    */
-  async proposeParameterUpdate(
-    newBurnBps?: number,
-    newDelaySecs?: number
-  ): Promise<TransactionSignature> {
+  async claimDistributionIx(
+    distribution: PublicKey,
+    claim: DistributionClaim,
+    claimant: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
+    return this.program.methods
+      .claimDistribution(
+        claim.index,
+        claim.amount,
+        claim.proof.map((node) => Array.from(node))
+      )
+      .accountsStrict({
+        vault: this.vaultPda,
+        distribution,
+        claimant,
+      })
+      .instruction();
+  }
+
+  /**
+   * Build a `sweep_distribution` instruction (unclaimed lamports return to
+   * the vault, rent to the authority).
+   *
+   * @param distribution Round address.
+   * @param authority    Vault authority (defaults to wallet).
+   */
+  async sweepDistributionIx(
+    distribution: PublicKey,
+    authority: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
+    return this.program.methods
+      .sweepDistribution()
+      .accountsStrict({
+        vault: this.vaultPda,
+        distribution,
+        authority,
+      })
+      .instruction();
+  }
+
+  /** PDA of this vault's distribution round `id`. */
+  distributionAddress(id: BN | number): PublicKey {
+    return findDistributionAddress(this.vaultPda, id, this.program.programId)[0];
+  }
+
+  /**
+   * Build a `propose_parameter_update` instruction.
+   *
+   * @param id        Proposal id; must be the vault's current
+   *                  `proposalCount` (see `nextProposalId`).
+   * @param update    Parameters to change; unset fields are left as they are.
+   * @param authority Vault authority (defaults to wallet).
+   */
+  async proposeParameterUpdateIx(
+    id: BN | number,
+    update: ParameterUpdate,
+    authority: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
     return this.program.methods
       .proposeParameterUpdate(
-        newBurnBps ?? null,
-        newDelaySecs ? new BN(newDelaySecs) : null
+        update.burnBps ?? null,
+        update.delaySeconds !== undefined ? new BN(update.delaySeconds) : null,
+        update.feeBps ?? null,
+        update.spendingCaps ? spendingCapsArgs(update.spendingCaps) : null,
+        update.allowlistEnabled ?? null,
+        update.guardian ?? null
       )
-      .accounts({
+      .accountsStrict({
         vault: this.vaultPda,
-        authority: this.provider.wallet.publicKey,
+        proposal: this.proposalAddress(id),
+        authority,
+        systemProgram: SystemProgram.programId,
       })
-      .rpc();
+      .instruction();
   }
 
   /**
-   * Execute a pending parameter update after the timelock has expired.
+   * Build an `execute_parameter_update` instruction.
+   *
+   * @param id        Proposal id.
+   * @param authority Vault authority (defaults to wallet).
    */
-  async executeParameterUpdate(): Promise<TransactionSignature> {
+  async executeParameterUpdateIx(
+    id: BN | number,
+    authority: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
     return this.program.methods
       .executeParameterUpdate()
-      .accounts({
+      .accountsStrict({
         vault: this.vaultPda,
-        authority: this.provider.wallet.publicKey,
+        proposal: this.proposalAddress(id),
+        authority,
       })
-      .rpc();
+      .instruction();
   }
 
   /**
-   * Cancel a pending parameter proposal.
+   * Build a `cancel_parameter_proposal` instruction.
+   *
+   * @param id        Proposal id.
+   * @param authority Vault authority (defaults to wallet).
    */
-  async cancelParameterProposal(): Promise<TransactionSignature> {
+  async cancelParameterProposalIx(
+    id: BN | number,
+    authority: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
     return this.program.methods
       .cancelParameterProposal()
-      .accounts({
+      .accountsStrict({
         vault: this.vaultPda,
-        authority: this.provider.wallet.publicKey,
+        proposal: this.proposalAddress(id),
+        authority,
       })
-      .rpc();
+      .instruction();
   }
 
-  // -----------------------------------------------------------------------
-  // Queries
-  // -----------------------------------------------------------------------
+  /** PDA of this vault's governance proposal `id`. */
+  proposalAddress(id: BN | number): PublicKey {
+    return findProposalAddress(this.vaultPda, id, this.program.programId)[0];
+  }
 
   /**
-   * Fetch the current on-chain vault state.
+   * Build a `propose_allowlist_addition` instruction.
    *
-   * @returns The deserialized `VaultState`, or `null` if not yet initialized.
+   * @param recipient Recipient to allowlist once the timelock expires.
+   * @param authority Vault authority (defaults to wallet).
    */
-  async getVaultState(): Promise<VaultState | null> {
-    try {
-      const raw = await this.program.account.vault.fetch(this.vaultPda);
-      return raw as unknown as VaultState;
-    } catch {
-      // Account does not exist yet
-      return null;
-    }
+  async proposeAllowlistAdditionIx(
+    recipient: PublicKey,
+    authority: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
+    return this.program.methods
+      .proposeAllowlistAddition(recipient)
+      .accountsStrict({
+        vault: this.vaultPda,
+        entry: this.allowlistEntryAddress(recipient),
+        authority,
+        systemProgram: SystemProgram.programId,
+      })
+      .instruction();
+  }
+
+  /**
+   * Build an `execute_allowlist_addition` instruction.
+   *
+   * @param recipient Proposed recipient.
+   * @param authority Vault authority (defaults to wallet).
+   */
+  async executeAllowlistAdditionIx(
+    recipient: PublicKey,
+    authority: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
+    return this.program.methods
+      .executeAllowlistAddition()
+      .accountsStrict({
+        vault: this.vaultPda,
+        entry: this.allowlistEntryAddress(recipient),
+        authority,
+      })
+      .instruction();
+  }
+
+  /**
+   * Build a `remove_allowlist_recipient` instruction (rent returns to the
+   * authority).
+   *
+   * @param recipient Active or pending recipient.
+   * @param authority Vault authority (defaults to wallet).
+   */
+  async removeAllowlistRecipientIx(
+    recipient: PublicKey,
+    authority: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
+    return this.program.methods
+      .removeAllowlistRecipient()
+      .accountsStrict({
+        vault: this.vaultPda,
+        entry: this.allowlistEntryAddress(recipient),
+        authority,
+      })
+      .instruction();
+  }
+
+  /** PDA of `recipient`'s allowlist entry for this vault. */
+  allowlistEntryAddress(recipient: PublicKey): PublicKey {
+    return findAllowlistEntryAddress(this.vaultPda, recipient, this.program.programId)[0];
+  }
+
+  /**
+   * Build a `pause` instruction.
+   *
+   * @param guardian Vault guardian (defaults to wallet).
+   */
+  async pauseIx(
+    guardian: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
+    return this.program.methods
+      .pause()
+      .accountsStrict({
+        vault: this.vaultPda,
+        guardian,
+      })
+      .instruction();
+  }
+
+  /**
+   * Build a `propose_unpause` instruction.
+   *
+   * @param authority Vault authority (defaults to wallet).
+   */
+  async proposeUnpauseIx(
+    authority: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
+    return this.program.methods
+      .proposeUnpause()
+      .accountsStrict({
+        vault: this.vaultPda,
+        authority,
+      })
+      .instruction();
+  }
+
+  /**
+   * Build an `unpause` instruction.
+   *
+   * @param authority Vault authority (defaults to wallet).
+   */
+  async unpauseIx(
+    authority: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
+    return this.program.methods
+      .unpause()
+      .accountsStrict({
+        vault: this.vaultPda,
+        authority,
+      })
+      .instruction();
+  }
+
+  /**
+   * Build a `propose_authority_transfer` instruction.
+   *
+   * @param newAuthority Nominated authority.
+   * @param authority    Current vault authority (defaults to wallet).
+   */
+  async proposeAuthorityTransferIx(
+    newAuthority: PublicKey,
+    authority: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
+    return this.program.methods
+      .proposeAuthorityTransfer(newAuthority)
+      .accountsStrict({
+        vault: this.vaultPda,
+        authority,
+      })
+      .instruction();
+  }
+
+  /**
+   * Build an `accept_authority_transfer` instruction.
+   *
+   * @param newAuthority Nominated authority, must sign (defaults to wallet).
+   */
+  async acceptAuthorityTransferIx(
+    newAuthority: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
+    return this.program.methods
+      .acceptAuthorityTransfer()
+      .accountsStrict({
+        vault: this.vaultPda,
+        newAuthority,
+      })
+      .instruction();
+  }
+
+  /**
+   * Build a `cancel_authority_transfer` instruction.
+   *
+   * @param authority Current vault authority (defaults to wallet).
+   */
+  async cancelAuthorityTransferIx(
+    authority: PublicKey = this.requireWallet().publicKey
+  ): Promise<TransactionInstruction> {
+    return this.program.methods
+      .cancelAuthorityTransfer()
+      .accountsStrict({
+        vault: this.vaultPda,
+        authority,
+      })
+      .instruction();
+  }
+
+  // -----------------------------------------------------------------------
+  // Transaction builders
+  // -----------------------------------------------------------------------
+
+  /**
+   * Wrap instructions in an unsigned legacy `Transaction` with a recent
+   * blockhash.
+   *
+   * @param instructions Instructions to include, in order.
+   * @param feePayer     Fee payer (defaults to wallet).
+   */
+  async buildTransaction(
+    instructions: TransactionInstruction[],
+    feePayer: PublicKey = this.requireWallet().publicKey
+  ): Promise<Transaction> {
+    const { blockhash, lastValidBlockHeight } =
+      await this.provider.connection.getLatestBlockhash();
+    return new Transaction({ feePayer, blockhash, lastValidBlockHeight }).add(
+      ...instructions
+    );
+  }
+
+  /**
+   * Wrap instructions in an unsigned v0 `VersionedTransaction`.
+   *
+   * @param instructions Instructions to include, in order.
+   * @param feePayer     Fee payer (defaults to wallet).
+   * @param lookupTables Address lookup tables to compress account keys.
+   */
+  async buildVersionedTransaction(
+    instructions: TransactionInstruction[],
+    feePayer: PublicKey = this.requireWallet().publicKey,
+    lookupTables: AddressLookupTableAccount[] = []
+  ): Promise<VersionedTransaction> {
+    const { blockhash } = await this.provider.connection.getLatestBlockhash();
+    const message = new TransactionMessage({
+      payerKey: feePayer,
+      recentBlockhash: blockhash,
+      instructions,
+    }).compileToV0Message(lookupTables);
+    return new VersionedTransaction(message);
+  }
+
+  /**
+   * Send instructions in one transaction with this client's send defaults,
+   * merged with `options`. Compute budget instructions are prepended as
+   * configured. Program failures are rethrown as typed `SolForgeError`s.
+   *
+   * @param instructions Instructions to include, in order.
+   * @param options      Per-call overrides of the client's send defaults.
+   */
+  async sendInstructions(
+    instructions: TransactionInstruction[],
+    options: SendOptions = {}
+  ): Promise<SendResult> {
+    const merged = { ...this.options.send, ...options };
+    const sender =
+      this.options.sender ??
+      new RpcSender(this.provider.connection, this.requireWallet(), this.commitment);
+    try {
+      const landed = await sender.send(
+        await withComputeBudget(instructions, merged),
+        merged
+      );
+      return {
+        signature: landed.signature,
+        slot: landed.slot,
+        fee: landed.fee,
+        events: this.decodeEvents(landed.logs),
+      };
+    } catch (err) {
+      throw translateError(err, this.program.programId);
+    }
+  }
+
+  /**
+   * Run `check` against the current vault state if preflight is enabled.
+   * A missing vault is left for the program to report.
+   */
+  private async preflightVault(
+    check: (vault: VaultState, authority: PublicKey) => void | Promise<void>
+  ): Promise<void> {
+    if (!this.preflight) return;
+    const vault = await this.getVaultState();
+    if (vault) await check(vault, this.requireWallet().publicKey);
+  }
+
+  // -----------------------------------------------------------------------
+  // Offline signing
+  //
+  // For authorities that sign out of band (cold storage, multi-party
+  // approval): build with a durable nonce, hand out the serialized
+  // transaction, and submit once every signature is collected.
+  // -----------------------------------------------------------------------
+
+  /**
+   * Build an unsigned durable-nonce transaction, e.g. from
+   * `[await client.burnSolIx(amount, coldAuthority)]`.
+   *
+   * @param instructions Instructions to include after the nonce advance.
+   * @param options      Nonce account, nonce authority and fee payer.
+   */
+  async buildOfflineTransaction(
+    instructions: TransactionInstruction[],
+    options: DurableNonceOptions
+  ): Promise<Transaction> {
+    return buildOfflineTransaction(this, instructions, options);
+  }
+
+  /**
+   * JSON signing request for a built or partially signed transaction.
+   *
+   * @param input Transaction, base64 wire bytes or an earlier request.
+   */
+  toSigningRequest(input: SignedTransactionInput): SigningRequest {
+    return toSigningRequest(this, input);
+  }
+
+  /**
+   * Submit a transaction signed elsewhere. Works on read-only clients.
+   *
+   * @param input   Fully signed transaction, base64 or signing request.
+   * @param options Commitment, preflight and confirmation timeout.
+   */
+  async submitSigned(
+    input: SignedTransactionInput,
+    options: SendOptions = {}
+  ): Promise<SendResult> {
+    return submitSigned(this, input, options);
+  }
+
+  // -----------------------------------------------------------------------
+  // Instructions
+  // -----------------------------------------------------------------------
+
+  /**
+   * Initialize this client's vault PDA.
+   *
+   * @param feeBps        Fee rate in basis points (0-10 000).
+   * @param burnBps       Burn percentage in basis points (0-10 000).
+   * @param delaySeconds  Governance timelock delay (optional, default 86 400).
+   * @param guardian      Key that can pause the vault (optional; can be set
+   *                      later by proposal).
+   * @param options       Send overrides.
+   */
+  async initializeVault(
+    feeBps: number,
+    burnBps: number,
+    delaySeconds?: number,
+    guardian?: PublicKey,
+    options?: SendOptions
+  ): Promise<SendResult> {
+    if (this.preflight) checkInitializeVault(feeBps, burnBps, delaySeconds);
+    return this.sendInstructions(
+      [await this.initializeVaultIx(feeBps, burnBps, delaySeconds, guardian)],
+      options
+    );
+  }
+
+  /**
+   * Pay SOL into the vault. A portion is auto-burned per the current burn %.
+   *
+   * @param amountLamports Amount of lamports to accrue.
+   * @param options        Send overrides.
+   */
+  async accrueFee(
+    amountLamports: BN | number,
+    options?: SendOptions
+  ): Promise<SendResult> {
+    await this.preflightVault(checkNotPaused);
+    if (this.preflight) checkAccrueFee(toBN(amountLamports));
+    return this.sendInstructions([await this.accrueFeeIx(amountLamports)], options);
+  }
+
+  /**
+   * Pay the vault's fee rate on a trade's volume; the fee is then split
+   * like `accrueFee`. Use `quoteFee` to preview the amounts.
+   *
+   * @param volumeLamports Trade volume the fee is charged on.
+   * @param options        Send overrides.
+   */
+  async accrueFeeOnVolume(
+    volumeLamports: BN | number,
+    options?: SendOptions
+  ): Promise<SendResult> {
+    await this.preflightVault((vault) =>
+      checkAccrueFeeOnVolume(vault, toBN(volumeLamports))
+    );
+    return this.sendInstructions(
+      [await this.accrueFeeOnVolumeIx(volumeLamports)],
+      options
+    );
+  }
+
+  /**
+   * Authority manually burns SOL from the vault to the incinerator.
+   *
+   * @param amountLamports Amount of lamports to burn (≥ 1 000 000).
+   * @param options        Send overrides.
+   */
+  async burnSol(
+    amountLamports: BN | number,
+    options?: SendOptions
+  ): Promise<SendResult> {
+    await this.preflightVault(async (vault, authority) => {
+      checkWithdrawal(vault, authority, toBN(amountLamports));
+      checkSpendingCap(vault, "burn", toBN(amountLamports), await this.getClusterTime());
+    });
+    return this.sendInstructions([await this.burnSolIx(amountLamports)], options);
+  }
+
+  /**
+   * Authority distributes SOL from the vault to any recipient.
+   *
+   * @param recipient      Destination public key.
+   * @param amountLamports Amount of lamports to send (≥ 1 000 000).
+   * @param options        Send overrides.
+   */
+  async distributeRewards(
+    recipient: PublicKey,
+    amountLamports: BN | number,
+    options?: SendOptions
+  ): Promise<SendResult> {
+    await this.preflightVault(async (vault, authority) => {
+      checkWithdrawal(vault, authority, toBN(amountLamports));
+      checkSpendingCap(
+        vault,
+        "distribution",
+        toBN(amountLamports),
+        await this.getClusterTime()
+      );
+      if (vault.allowlistEnabled) {
+        checkAllowlisted(vault, await this.getAllowlistEntry(recipient));
+      }
+    });
+    return this.sendInstructions(
+      [await this.distributeRewardsIx(recipient, amountLamports)],
+      options
+    );
+  }
+
+  /**
+   * Account for lamports that reached the vault outside `accrue_fee` (see
+   * `getVaultSurplus`): add them to `total_accrued`, or burn them.
+   *
+   * @param burn    Burn the surplus instead (default `false`).
+   * @param options Send overrides.
+   */
+  async sweepSurplus(burn = false, options?: SendOptions): Promise<SendResult> {
+    await this.preflightVault(async (vault, authority) =>
+      checkSweepSurplus(
+        vault,
+        authority,
+        (await this.getVaultSurplus())?.surplus ?? new BN(0),
+        burn,
+        await this.getClusterTime()
+      )
+    );
+    return this.sendInstructions([await this.sweepSurplusIx(burn)], options);
+  }
+
+  /**
+   * Pay many recipients, packing as many `distribute_rewards` instructions
+   * per transaction as size and compute limits allow.
+   *
+   * @param payments Recipients and amounts (each ≥ 1 000 000).
+   * @param options  Lookup tables, packing limits and send overrides; unset
+   *                 fields fall back to the send defaults.
+   * @returns Per-recipient outcome; `retryable` can be passed straight back.
+   */
+  async distributeRewardsBatch(
+    payments: RewardPayment[],
+    options: BatchOptions = {}
+  ): Promise<BatchReport> {
+    const defaults = this.options.send ?? {};
+    // The fee is resolved up front to size transactions; the rest is merged
+    // by `sendInstructions`
+    return distributeRewardsBatch(this, payments, {
+      computeUnitPrice: defaults.computeUnitPrice,
+      priorityFeeEstimator: defaults.priorityFeeEstimator,
+      ...options,
+    });
+  }
+
+  /**
+   * Create the vault's token account and accounting for `mint`.
+   *
+   * @param mint    Classic SPL or Token-2022 mint.
+   * @param options Send overrides.
+   */
+  async initializeTokenVault(
+    mint: PublicKey,
+    options?: SendOptions
+  ): Promise<SendResult> {
+    return this.sendInstructions([await this.initializeTokenVaultIx(mint)], options);
+  }
+
+  /**
+   * Pay tokens from the wallet's associated token account into the vault.
+   * The burn share is burned per the vault's burn %.
+   *
+   * @param mint    Token mint.
+   * @param amount  Amount in base units.
+   * @param options Send overrides.
+   */
+  async accrueTokenFee(
+    mint: PublicKey,
+    amount: BN | number,
+    options?: SendOptions
+  ): Promise<SendResult> {
+    await this.preflightVault(checkNotPaused);
+    if (this.preflight) checkAccrueFee(toBN(amount));
+    return this.sendInstructions(
+      [await this.accrueTokenFeeIx(mint, amount)],
+      options
+    );
+  }
+
+  /**
+   * Burn tokens held by the vault.
+   *
+   * @param mint    Token mint.
+   * @param amount  Amount in base units.
+   * @param options Send overrides.
+   */
+  async burnTokens(
+    mint: PublicKey,
+    amount: BN | number,
+    options?: SendOptions
+  ): Promise<SendResult> {
+    await this.preflightVault(async (vault, authority) =>
+      checkTokenWithdrawal(
+        vault,
+        await this.getTokenVaultState(mint),
+        authority,
+        toBN(amount)
+      )
+    );
+    return this.sendInstructions([await this.burnTokensIx(mint, amount)], options);
+  }
+
+  /**
+   * Send tokens from the vault to `recipient`, creating its associated
+   * token account (paid by the wallet) if needed.
+   *
+   * @param mint      Token mint.
+   * @param recipient Wallet receiving the tokens.
+   * @param amount    Amount in base units.
+   * @param options   Send overrides.
+   */
+  async distributeTokenRewards(
+    mint: PublicKey,
+    recipient: PublicKey,
+    amount: BN | number,
+    options?: SendOptions
+  ): Promise<SendResult> {
+    await this.preflightVault(async (vault, authority) => {
+      checkTokenWithdrawal(
+        vault,
+        await this.getTokenVaultState(mint),
+        authority,
+        toBN(amount)
+      );
+      if (vault.allowlistEnabled) {
+        checkAllowlisted(vault, await this.getAllowlistEntry(recipient));
+      }
+    });
+    const createAta = createAssociatedTokenAccountIdempotentIx(
+      this.requireWallet().publicKey,
+      recipient,
+      mint,
+      await this.tokenProgramOf(mint)
+    );
+    return this.sendInstructions(
+      [createAta, await this.distributeTokenRewardsIx(mint, recipient, amount)],
+      options
+    );
+  }
+
+  /**
+   * Create a recurring payout that anyone can crank once due. The first
+   * payout is due one interval after creation.
+   *
+   * @param schedule Recipient, amount, interval and optional end time.
+   * @param options  Send overrides.
+   * @returns The send result with the new schedule's address and id.
+   */
+  async createRewardSchedule(
+    schedule: NewRewardSchedule,
+    options?: SendOptions
+  ): Promise<SendResult & { schedule: PublicKey; id: BN }> {
+    await this.preflightVault(async (vault, authority) => {
+      checkRewardSchedule(vault, authority, schedule, await this.getClusterTime());
+      if (vault.allowlistEnabled) {
+        checkAllowlisted(vault, await this.getAllowlistEntry(schedule.recipient));
+      }
+    });
+    const id = await this.nextRewardScheduleId();
+    const result = await this.sendInstructions(
+      [await this.createRewardScheduleIx(id, schedule)],
+      options
+    );
+    return { ...result, schedule: this.rewardScheduleAddress(id), id };
+  }
+
+  /**
+   * Change a schedule's amount, interval or end time. Its next due time
+   * is kept.
+   *
+   * @param schedule Schedule address.
+   * @param params   New amount, interval and end time.
+   * @param options  Send overrides.
+   */
+  async updateRewardSchedule(
+    schedule: PublicKey,
+    params: RewardScheduleParams,
+    options?: SendOptions
+  ): Promise<SendResult> {
+    await this.preflightVault(async (vault, authority) =>
+      checkRewardSchedule(vault, authority, params, await this.getClusterTime())
+    );
+    return this.sendInstructions(
+      [await this.updateRewardScheduleIx(schedule, params)],
+      options
+    );
+  }
+
+  /**
+   * Close a schedule; its rent returns to the authority.
+   *
+   * @param schedule Schedule address.
+   * @param options  Send overrides.
+   */
+  async cancelRewardSchedule(
+    schedule: PublicKey,
+    options?: SendOptions
+  ): Promise<SendResult> {
+    return this.sendInstructions(
+      [await this.cancelRewardScheduleIx(schedule)],
+      options
+    );
+  }
+
+  /**
+   * Pay out one due schedule. Any wallet can crank.
+   *
+   * @param schedule Schedule address.
+   * @param options  Send overrides.
+   * @throws If the schedule does not exist.
+   */
+  async crankRewardSchedule(
+    schedule: PublicKey,
+    options?: SendOptions
+  ): Promise<SendResult> {
+    const state = await this.getRewardSchedule(schedule);
+    if (!state) throw new Error(`Reward schedule ${schedule.toBase58()} not found`);
+    await this.preflightVault(async (vault) =>
+      checkCrankRewardSchedule(
+        vault,
+        state,
+        vault.allowlistEnabled ? await this.getAllowlistEntry(state.recipient) : null,
+        await this.getClusterTime()
+      )
+    );
+    return this.sendInstructions(
+      [await this.crankRewardScheduleIx(schedule, state.recipient)],
+      options
+    );
+  }
+
+  /**
+   * Crank every due schedule of this vault, skipping payouts the program
+   * would reject at the current balance.
+   *
+   * @param options `catchUp` to pay every missed interval, plus send overrides.
+   */
+  async crankDueSchedules(options: CrankOptions = {}): Promise<CrankReport> {
+    return crankDueSchedules(this, options);
+  }
+
+  /**
+   * Publish a claimable distribution round. Its total leaves the vault's
+   * retained balance now; share `round.tree.toJSON()` with recipients so
+   * they can build their proofs.
+   *
+   * @param round   Tree and expiry.
+   * @param options Send overrides.
+   * @returns The send result with the new round's address and id.
+   */
+  async createDistribution(
+    round: NewDistribution,
+    options?: SendOptions
+  ): Promise<SendResult & { distribution: PublicKey; id: BN }> {
+    await this.preflightVault(async (vault, authority) =>
+      checkCreateDistribution(
+        vault,
+        authority,
+        round.tree.total,
+        round.tree.leaves.length,
+        round.expiresAt,
+        await this.getClusterTime()
+      )
+    );
+    const id = await this.nextDistributionId();
+    const result = await this.sendInstructions(
+      [await this.createDistributionIx(id, round.tree, round.expiresAt)],
+      options
+    );
+    return { ...result, distribution: this.distributionAddress(id), id };
+  }
+
+  /**
+   * Claim the wallet's share of a round.
+   *
+   * @param distribution Round address.
+   * @param claim        The round's tree (the wallet's leaf is looked up),
+   *                     or a ready-made claim.
+   * @param options      Send overrides.
+   * @throws If the wallet is not in `claim`'s tree.
+   */
+  async claimDistribution(
+    distribution: PublicKey,
+    claim: DistributionTree | DistributionClaim,
+    options?: SendOptions
+  ): Promise<SendResult> {
+    const claimant = this.requireWallet().publicKey;
+    const resolved = claim instanceof DistributionTree ? claim.claim(claimant) : claim;
+    if (!resolved) {
+      throw new Error(`${claimant.toBase58()} is not a recipient of this distribution`);
+    }
+    await this.preflightVault(async (vault) => {
+      const state = await this.getDistribution(distribution);
+      if (state) {
+        checkClaimDistribution(
+          vault,
+          state,
+          resolved,
+          claimant,
+          await this.getClusterTime()
+        );
+      }
+    });
+    return this.sendInstructions(
+      [await this.claimDistributionIx(distribution, resolved)],
+      options
+    );
+  }
+
+  /**
+   * Return a round's unclaimed lamports to the vault and close it. Allowed
+   * once the round has expired or every recipient has claimed.
+   *
+   * @param distribution Round address.
+   * @param options      Send overrides.
+   */
+  async sweepDistribution(
+    distribution: PublicKey,
+    options?: SendOptions
+  ): Promise<SendResult> {
+    await this.preflightVault(async (vault, authority) => {
+      const state = await this.getDistribution(distribution);
+      if (state) {
+        checkSweepDistribution(vault, authority, state, await this.getClusterTime());
+      }
+    });
+    return this.sendInstructions(
+      [await this.sweepDistributionIx(distribution)],
+      options
+    );
+  }
+
+  /**
+   * Propose a timelocked parameter update (burn %, delay, fee rate,
+   * spending caps, allowlist mode and/or guardian) as a new proposal.
+   * Earlier proposals are left as they are.
+   *
+   * @param update  Parameters to change, e.g. `{ burnBps: 3000 }`.
+   * @param options Send overrides.
+   * @returns The send result with the new proposal's address and id.
+   */
+  async proposeParameterUpdate(
+    update: ParameterUpdate,
+    options?: SendOptions
+  ): Promise<SendResult & { proposal: PublicKey; id: BN }> {
+    await this.preflightVault((vault, authority) =>
+      checkProposeParameterUpdate(vault, authority, update)
+    );
+    const id = await this.nextProposalId();
+    const result = await this.sendInstructions(
+      [await this.proposeParameterUpdateIx(id, update)],
+      options
+    );
+    return { ...result, proposal: this.proposalAddress(id), id };
+  }
+
+  /**
+   * Execute a proposal after its timelock has expired and before its
+   * execution window closes.
+   *
+   * @param id      Proposal id.
+   * @param options Send overrides.
+   */
+  async executeParameterUpdate(
+    id: BN | number,
+    options?: SendOptions
+  ): Promise<SendResult> {
+    await this.preflightVault(async (vault, authority) => {
+      const proposal = await this.getProposal(id);
+      if (proposal) {
+        checkExecuteParameterUpdate(vault, authority, proposal.state, proposal.clusterTime);
+      }
+    });
+    return this.sendInstructions([await this.executeParameterUpdateIx(id)], options);
+  }
+
+  /**
+   * Cancel a pending proposal. One past its execution window is recorded
+   * as expired instead.
+   *
+   * @param id      Proposal id.
+   * @param options Send overrides.
+   */
+  async cancelParameterProposal(
+    id: BN | number,
+    options?: SendOptions
+  ): Promise<SendResult> {
+    await this.preflightVault(async (vault, authority) => {
+      const proposal = await this.getProposal(id);
+      if (proposal) checkCancelParameterProposal(vault, authority, proposal.state);
+    });
+    return this.sendInstructions([await this.cancelParameterProposalIx(id)], options);
+  }
+
+  /**
+   * Propose `recipient` for the allowlist. It can be added with
+   * `executeAllowlistAddition` once `delaySeconds` have passed.
+   *
+   * @param recipient Recipient to allowlist.
+   * @param options   Send overrides.
+   * @returns The send result with the entry's address.
+   */
+  async proposeAllowlistAddition(
+    recipient: PublicKey,
+    options?: SendOptions
+  ): Promise<SendResult & { entry: PublicKey }> {
+    await this.preflightVault(checkManageAllowlist);
+    const result = await this.sendInstructions(
+      [await this.proposeAllowlistAdditionIx(recipient)],
+      options
+    );
+    return { ...result, entry: this.allowlistEntryAddress(recipient) };
+  }
+
+  /**
+   * Activate a proposed recipient after its timelock has expired.
+   *
+   * @param recipient Proposed recipient.
+   * @param options   Send overrides.
+   */
+  async executeAllowlistAddition(
+    recipient: PublicKey,
+    options?: SendOptions
+  ): Promise<SendResult> {
+    await this.preflightVault(async (vault, authority) => {
+      const entry = await this.getAllowlistEntry(recipient);
+      if (entry) {
+        checkExecuteAllowlistAddition(vault, authority, entry, await this.getClusterTime());
+      }
+    });
+    return this.sendInstructions(
+      [await this.executeAllowlistAdditionIx(recipient)],
+      options
+    );
+  }
+
+  /**
+   * Remove a recipient from the allowlist, or withdraw its pending
+   * addition. Takes effect immediately.
+   *
+   * @param recipient Active or pending recipient.
+   * @param options   Send overrides.
+   */
+  async removeAllowlistRecipient(
+    recipient: PublicKey,
+    options?: SendOptions
+  ): Promise<SendResult> {
+    await this.preflightVault(checkManageAllowlist);
+    return this.sendInstructions(
+      [await this.removeAllowlistRecipientIx(recipient)],
+      options
+    );
+  }
+
+  /**
+   * Pause the vault: fee accrual, burns, `distribute_rewards`, schedule
+   * cranks and proposal execution stop immediately. Pausing a paused vault
+   * withdraws a pending unpause. The client wallet must be the guardian.
+   *
+   * @param options Send overrides.
+   */
+  async pause(options?: SendOptions): Promise<SendResult> {
+    await this.preflightVault(checkPause);
+    return this.sendInstructions([await this.pauseIx()], options);
+  }
+
+  /**
+   * Start the unpause timelock. The vault can be unpaused with `unpause`
+   * once `delaySeconds` have passed; pausing again withdraws it.
+   *
+   * @param options Send overrides.
+   */
+  async proposeUnpause(options?: SendOptions): Promise<SendResult> {
+    await this.preflightVault(checkProposeUnpause);
+    return this.sendInstructions([await this.proposeUnpauseIx()], options);
+  }
+
+  /**
+   * Resume a paused vault after the unpause timelock has expired.
+   *
+   * @param options Send overrides.
+   */
+  async unpause(options?: SendOptions): Promise<SendResult> {
+    await this.preflightVault(async (vault, authority) =>
+      checkUnpause(vault, authority, await this.getClusterTime())
+    );
+    return this.sendInstructions([await this.unpauseIx()], options);
+  }
+
+  /**
+   * Nominate a new authority. It takes over by calling
+   * `acceptAuthorityTransfer` once `delaySeconds` have passed.
+   *
+   * @param newAuthority Nominated authority.
+   * @param options      Send overrides.
+   */
+  async proposeAuthorityTransfer(
+    newAuthority: PublicKey,
+    options?: SendOptions
+  ): Promise<SendResult> {
+    await this.preflightVault((vault, authority) =>
+      checkProposeAuthorityTransfer(vault, authority, newAuthority)
+    );
+    return this.sendInstructions(
+      [await this.proposeAuthorityTransferIx(newAuthority)],
+      options
+    );
+  }
+
+  /**
+   * Accept a pending authority transfer. The client wallet must be the
+   * nominated authority.
+   *
+   * @param options Send overrides.
+   */
+  async acceptAuthorityTransfer(options?: SendOptions): Promise<SendResult> {
+    await this.preflightVault(async (vault, signer) =>
+      checkAcceptAuthorityTransfer(vault, signer, await this.getClusterTime())
+    );
+    return this.sendInstructions([await this.acceptAuthorityTransferIx()], options);
+  }
+
+  /**
+   * Cancel a pending authority transfer.
+   *
+   * @param options Send overrides.
+   */
+  async cancelAuthorityTransfer(options?: SendOptions): Promise<SendResult> {
+    await this.preflightVault(checkCancelAuthorityTransfer);
+    return this.sendInstructions([await this.cancelAuthorityTransferIx()], options);
+  }
+
+  // -----------------------------------------------------------------------
+  // Queries
+  // -----------------------------------------------------------------------
+
+  /**
+   * Fetch the current on-chain vault state.
+   *
+   * @returns The deserialized `VaultState`, or `null` if not yet initialized.
+   * @throws On RPC failures, or if the PDA holds something other than a vault.
+   */
+  async getVaultState(): Promise<VaultState | null> {
+    return fetchVaultState(
+      this.provider.connection,
+      this.vaultPda,
+      this.program.programId
+    );
+  }
+
+  /**
+   * Fee, burn and net amounts `accrueFeeOnVolume(volume)` would produce at
+   * the vault's current rates.
+   *
+   * @param volumeLamports Trade volume.
+   * @throws If the vault is not initialized.
+   */
+  async quoteFee(volumeLamports: BN | number): Promise<FeeQuote> {
+    const vault = await this.getVaultState();
+    if (!vault) throw new Error(`Vault ${this.vaultPda.toBase58()} not initialized`);
+    return computeFeeQuote(
+      toBN(volumeLamports),
+      vault.feeBasisPoints,
+      vault.burnPercentageBps
+    );
+  }
+
+  /**
+   * Fetch the vault's accounting for `mint`.
+   *
+   * @returns The deserialized `TokenVaultState`, or `null` if
+   *          `initializeTokenVault` has not been called for the mint.
+   */
+  async getTokenVaultState(mint: PublicKey): Promise<TokenVaultState | null> {
+    const info = await this.provider.connection.getAccountInfo(
+      this.tokenVaultAccounts(mint).tokenVault
+    );
+    if (!info) return null;
+    return this.program.coder.accounts.decode<TokenVaultState>(
+      "tokenVault",
+      info.data
+    );
+  }
+
+  /**
+   * Fetch a governance proposal with its status, current vs proposed
+   * values and seconds remaining on the cluster clock.
+   *
+   * @param id Proposal id.
+   * @returns `null` if the vault is not initialized or the proposal does
+   *          not exist.
+   */
+  async getProposal(id: BN | number): Promise<ProposalInfo | null> {
+    return fetchProposal(this, id);
+  }
+
+  /** Every governance proposal of this vault, by id. */
+  async listProposals(): Promise<ProposalInfo[]> {
+    return fetchProposals(this);
+  }
+
+  /**
+   * Id the next proposal will get (the vault's `proposalCount`).
+   *
+   * @throws If the vault is not initialized.
+   */
+  async nextProposalId(): Promise<BN> {
+    const vault = await this.getVaultState();
+    if (!vault) throw new Error(`Vault ${this.vaultPda.toBase58()} not initialized`);
+    return vault.proposalCount;
+  }
+
+  /**
+   * What the current spending cap window still allows for distributions
+   * and burns, at the cluster time.
+   *
+   * @returns `null` if the vault is not initialized.
+   */
+  async getSpendingAllowance(): Promise<SpendingAllowance | null> {
+    return fetchSpendingAllowance(this);
+  }
+
+  /**
+   * The vault's lamports split into rent, `total_accrued` and the surplus
+   * no instruction can spend until `sweepSurplus`.
+   *
+   * @returns `null` if the vault is not initialized.
+   */
+  async getVaultSurplus(): Promise<VaultSurplus | null> {
+    return fetchVaultSurplus(this);
+  }
+
+  /**
+   * `getVaultSurplus` plus the transactions that created it, found by
+   * comparing each transaction's lamport change with its events.
+   *
+   * @param options History commitment.
+   * @returns `null` if the vault is not initialized.
+   */
+  async reconcile(options: ReconcileOptions = {}): Promise<ReconcileReport | null> {
+    return reconcileVault(this, options);
+  }
+
+  /**
+   * Burn, retention and distribution metrics from indexed events, compared
+   * against the vault's configured burn rate and current balance.
+   *
+   * @param store   Store filled by a `SolForgeIndexer` for this vault.
+   * @param options Window and bucketing; explicit values override on-chain ones.
+   */
+  async getAnalytics(
+    store: EventStore,
+    options: AnalyticsOptions = {}
+  ): Promise<VaultAnalytics> {
+    return fetchVaultAnalytics(this, store, options);
+  }
+
+  /**
+   * List every vault of the program via `getProgramAccounts`.
+   */
+  async listVaults(): Promise<VaultInfo[]> {
+    const accounts = await this.program.account.vault.all();
+    return accounts.map(({ publicKey, account }) => ({
+      address: publicKey,
+      state: account,
+    }));
+  }
+
+  /**
+   * Fetch `recipient`'s allowlist entry.
+   *
+   * @returns `null` if it was never proposed or has been removed.
+   */
+  async getAllowlistEntry(recipient: PublicKey): Promise<AllowlistEntryState | null> {
+    const info = await this.provider.connection.getAccountInfo(
+      this.allowlistEntryAddress(recipient)
+    );
+    if (!info) return null;
+    return this.program.coder.accounts.decode<AllowlistEntryState>(
+      "allowlistEntry",
+      info.data
+    );
+  }
+
+  /** Every allowlist entry of this vault, active and pending. */
+  async listAllowlist(): Promise<AllowlistEntryInfo[]> {
+    return fetchAllowlist(this);
+  }
+
+  /**
+   * Whether the vault would pay `recipient` right now: the vault
+   * is not in allowlist mode, or the recipient's entry is active.
+   *
+   * @throws If the vault is not initialized.
+   */
+  async isAllowlisted(recipient: PublicKey): Promise<boolean> {
+    const vault = await this.getVaultState();
+    if (!vault) throw new Error(`Vault ${this.vaultPda.toBase58()} not initialized`);
+    return !vault.allowlistEnabled || !!(await this.getAllowlistEntry(recipient))?.active;
+  }
+
+  /**
+   * Whether the guardian has paused the vault.
+   *
+   * @throws If the vault is not initialized.
+   */
+  async isPaused(): Promise<boolean> {
+    const vault = await this.getVaultState();
+    if (!vault) throw new Error(`Vault ${this.vaultPda.toBase58()} not initialized`);
+    return vault.paused;
+  }
+
+  /**
+   * Fetch a reward schedule.
+   *
+   * @returns The deserialized `RewardScheduleState`, or `null` if it does
+   *          not exist (never created or canceled).
+   */
+  async getRewardSchedule(schedule: PublicKey): Promise<RewardScheduleState | null> {
+    const info = await this.provider.connection.getAccountInfo(schedule);
+    if (!info) return null;
+    return this.program.coder.accounts.decode<RewardScheduleState>(
+      "rewardSchedule",
+      info.data
+    );
+  }
+
+  /** Every reward schedule of this vault, by id. */
+  async listRewardSchedules(): Promise<RewardScheduleInfo[]> {
+    return fetchRewardSchedules(this);
+  }
+
+  /**
+   * Id the next reward schedule will get (the vault's `scheduleCount`).
+   *
+   * @throws If the vault is not initialized.
+   */
+  async nextRewardScheduleId(): Promise<BN> {
+    const vault = await this.getVaultState();
+    if (!vault) throw new Error(`Vault ${this.vaultPda.toBase58()} not initialized`);
+    return vault.scheduleCount;
+  }
+
+  /**
+   * Fetch a distribution round.
+   *
+   * @returns The deserialized `DistributionState`, or `null` if it does not
+   *          exist (never created or swept).
+   */
+  async getDistribution(distribution: PublicKey): Promise<DistributionState | null> {
+    const info = await this.provider.connection.getAccountInfo(distribution);
+    if (!info) return null;
+    return this.program.coder.accounts.decode<DistributionState>(
+      "distribution",
+      info.data
+    );
+  }
+
+  /** Every open distribution round of this vault, by id. */
+  async listDistributions(): Promise<DistributionInfo[]> {
+    return fetchDistributions(this);
+  }
+
+  /**
+   * Id the next distribution round will get (the vault's
+   * `distributionCount`).
+   *
+   * @throws If the vault is not initialized.
+   */
+  async nextDistributionId(): Promise<BN> {
+    const vault = await this.getVaultState();
+    if (!vault) throw new Error(`Vault ${this.vaultPda.toBase58()} not initialized`);
+    return vault.distributionCount;
+  }
+
+  /**
+   * Whether `recipient` can still claim from a round.
+   *
+   * @param distribution Round address.
+   * @param tree         The round's tree.
+   * @param recipient    Defaults to the wallet.
+   * @throws If the round does not exist.
+   */
+  async getClaimStatus(
+    distribution: PublicKey,
+    tree: DistributionTree,
+    recipient: PublicKey = this.requireWallet().publicKey
+  ): Promise<DistributionClaimStatus> {
+    const [state, now] = await Promise.all([
+      this.getDistribution(distribution),
+      this.getClusterTime(),
+    ]);
+    if (!state) throw new Error(`Distribution ${distribution.toBase58()} not found`);
+    return distributionClaimStatus(state, tree, recipient, now);
+  }
+
+  /**
+   * Read the cluster's unix time from the `Clock` sysvar — the same value
+   * the program compares timelocks against.
+   */
+  async getClusterTime(): Promise<number> {
+    const info = await this.provider.connection.getAccountInfo(
+      SYSVAR_CLOCK_PUBKEY
+    );
+    if (!info) throw new Error("Clock sysvar not found");
+    // Clock { slot: u64, epoch_start_timestamp: i64, epoch: u64,
+    //         leader_schedule_epoch: u64, unix_timestamp: i64 }
+    return Number(info.data.readBigInt64LE(32));
+  }
+
+  // -----------------------------------------------------------------------
+  // Events
+  // -----------------------------------------------------------------------
+
+  /**
+   * Decode SolForge events from a transaction's log messages.
+   *
+   * @param logs `meta.logMessages` of a confirmed transaction.
+   */
+  decodeEvents(logs: string[]): SolForgeEvent[] {
+    return decodeEvents(this.program, logs);
+  }
+
+  /**
+   * Fetch a confirmed transaction and decode the events it emitted.
+   *
+   * @param signature Transaction signature.
+   * @returns The decoded events (empty if the transaction is not found).
+   */
+  async getTransactionEvents(
+    signature: TransactionSignature
+  ): Promise<SolForgeEvent[]> {
+    const tx = await this.provider.connection.getTransaction(signature, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0,
+    });
+    return this.decodeEvents(tx?.meta?.logMessages ?? []);
+  }
+
+  /**
+   * Subscribe to a program event over the websocket connection.
+   *
+   * Events are program-wide: a subscription also receives events emitted
+   * by other vaults of the same program.
+   *
+   * @param name    Event name, e.g. `"FeeAccrued"`.
+   * @param handler Called with the typed payload, slot and signature.
+   * @returns A listener id for `removeEventListener`.
+   */
+  onEvent<N extends SolForgeEventName>(
+    name: N,
+    handler: SolForgeEventHandler<N>
+  ): number {
+    // Anchor listens under the camelCased IDL name (`feeAccrued`)
+    const idlName = (name.charAt(0).toLowerCase() + name.slice(1)) as Uncapitalize<N>;
+    return this.program.addEventListener(idlName, (event, slot, signature) =>
+      handler(event as SolForgeEvents[N], slot, signature)
+    );
+  }
+
+  /**
+   * Unsubscribe a listener registered with `onEvent`.
+   *
+   * @param listenerId Id returned by `onEvent`.
+   */
+  async removeEventListener(listenerId: number): Promise<void> {
+    await this.program.removeEventListener(listenerId);
+  }
+
+  /**
+   * Subscribe to the events of transactions that touch this vault (a
+   * `logsSubscribe` on the vault address). Unlike `onEvent`, other vaults'
+   * events are not delivered. Failed transactions are skipped.
+   *
+   * @param handler Called once per transaction with its decoded events.
+   * @returns A listener id for `removeVaultEventListener`.
+   */
+  onVaultEvents(
+    handler: (
+      events: SolForgeEvent[],
+      slot: number,
+      signature: TransactionSignature
+    ) => void
+  ): number {
+    return this.provider.connection.onLogs(
+      this.vaultPda,
+      (logs, { slot }) => {
+        if (logs.err) return;
+        const events = this.decodeEvents(logs.logs);
+        if (events.length > 0) handler(events, slot, logs.signature);
+      },
+      this.commitment
+    );
+  }
+
+  /**
+   * Unsubscribe a listener registered with `onVaultEvents`.
+   *
+   * @param listenerId Id returned by `onVaultEvents`.
+   */
+  async removeVaultEventListener(listenerId: number): Promise<void> {
+    await this.provider.connection.removeOnLogsListener(listenerId);
   }
 }
 
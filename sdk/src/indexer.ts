@@ -0,0 +1,373 @@
+import { promises as fs } from "fs";
+import { BN } from "@coral-xyz/anchor";
+import {
+  ConfirmedSignatureInfo,
+  Finality,
+  PublicKey,
+  TransactionSignature,
+} from "@solana/web3.js";
+import type { SolForgeClient } from "./index";
+import { isSolForgeEventName, SolForgeEvent, SolForgeEventName } from "./events";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A decoded event together with the transaction it was emitted in. */
+export type IndexedEvent = SolForgeEvent & {
+  signature: TransactionSignature;
+  slot: number;
+  /** Unix timestamp of the block, if the RPC node has it. */
+  blockTime: number | null;
+  /** Position of the event within its transaction's logs. */
+  index: number;
+};
+
+/** Last finalized signature the indexer has fully processed. */
+export interface IndexerCheckpoint {
+  signature: TransactionSignature;
+  slot: number;
+}
+
+export interface EventFilter {
+  name?: SolForgeEventName;
+  fromSlot?: number;
+  toSlot?: number;
+}
+
+/**
+ * Persistence backend for `SolForgeIndexer`.
+ *
+ * `putEvents` must be idempotent on `(signature, index)`.
+ */
+export interface EventStore {
+  getCheckpoint(): Promise<IndexerCheckpoint | null>;
+  saveCheckpoint(checkpoint: IndexerCheckpoint): Promise<void>;
+  putEvents(events: IndexedEvent[]): Promise<void>;
+  /** Drop events above `slot` (not yet finalized, may have been reorged). */
+  removeEventsAfterSlot(slot: number): Promise<void>;
+  /** Events matching `filter`, ordered by slot then position. */
+  getEvents(filter?: EventFilter): Promise<IndexedEvent[]>;
+}
+
+export interface IndexerOptions {
+  /** Signatures fetched per `getSignaturesForAddress` page (max 1000). */
+  pageSize?: number;
+  /** Commitment used to discover transactions (default `"confirmed"`). */
+  commitment?: Finality;
+}
+
+export interface IndexerSyncResult {
+  /** Successful transactions processed. */
+  transactions: number;
+  /** Failed transactions skipped (they emit no events). */
+  failed: number;
+  /**
+   * Transactions the RPC node did not return. The checkpoint stops before
+   * the first one, so the next `sync()` fetches them again.
+   */
+  missing: number;
+  /** Events written to the store. */
+  events: number;
+  checkpoint: IndexerCheckpoint | null;
+}
+
+// ---------------------------------------------------------------------------
+// Stores
+// ---------------------------------------------------------------------------
+
+function eventKey(event: IndexedEvent): string {
+  return `${event.signature}:${event.index}`;
+}
+
+function matches(event: IndexedEvent, filter: EventFilter): boolean {
+  return (
+    (filter.name === undefined || event.name === filter.name) &&
+    (filter.fromSlot === undefined || event.slot >= filter.fromSlot) &&
+    (filter.toSlot === undefined || event.slot <= filter.toSlot)
+  );
+}
+
+/** Volatile store, useful for tests and short-lived processes. */
+export class MemoryEventStore implements EventStore {
+  protected events = new Map<string, IndexedEvent>();
+  protected checkpoint: IndexerCheckpoint | null = null;
+
+  async getCheckpoint(): Promise<IndexerCheckpoint | null> {
+    return this.checkpoint;
+  }
+
+  async saveCheckpoint(checkpoint: IndexerCheckpoint): Promise<void> {
+    this.checkpoint = checkpoint;
+  }
+
+  async putEvents(events: IndexedEvent[]): Promise<void> {
+    for (const event of events) {
+      this.events.set(eventKey(event), event);
+    }
+  }
+
+  async removeEventsAfterSlot(slot: number): Promise<void> {
+    for (const [key, event] of this.events) {
+      if (event.slot > slot) this.events.delete(key);
+    }
+  }
+
+  async getEvents(filter: EventFilter = {}): Promise<IndexedEvent[]> {
+    return [...this.events.values()]
+      .filter((e) => matches(e, filter))
+      .sort((a, b) => a.slot - b.slot || a.index - b.index);
+  }
+}
+
+// BN and PublicKey values are tagged so they survive a JSON round trip,
+// including inside nested structs such as `proposedSpendingCaps`.
+function encodeValue(value: unknown): unknown {
+  if (BN.isBN(value)) return { $bn: (value as BN).toString() };
+  if (value instanceof PublicKey) return { $pubkey: value.toBase58() };
+  if (Array.isArray(value)) return value.map(encodeValue);
+  if (value && typeof value === "object") return mapData(value, encodeValue);
+  return value;
+}
+
+function decodeValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (value && typeof value === "object") {
+    if ("$bn" in value && typeof value.$bn === "string") return new BN(value.$bn);
+    if ("$pubkey" in value && typeof value.$pubkey === "string") {
+      return new PublicKey(value.$pubkey);
+    }
+    return mapData(value, decodeValue);
+  }
+  return value;
+}
+
+function mapData(
+  data: object,
+  fn: (v: unknown) => unknown
+): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(data).map(([k, v]) => [k, fn(v)]));
+}
+
+interface JsonStoreFile {
+  checkpoint: IndexerCheckpoint | null;
+  /** `IndexedEvent`s with `data` run through `encodeValue`. */
+  events: unknown[];
+}
+
+/**
+ * Envelope check for an event read back from disk. The `data` fields are
+ * trusted: they were checked when the event was first decoded.
+ */
+function isIndexedEvent(value: unknown): value is IndexedEvent {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "name" in value &&
+    typeof value.name === "string" &&
+    isSolForgeEventName(value.name) &&
+    "data" in value &&
+    typeof value.data === "object" &&
+    value.data !== null &&
+    "signature" in value &&
+    typeof value.signature === "string" &&
+    "slot" in value &&
+    typeof value.slot === "number" &&
+    "index" in value &&
+    typeof value.index === "number"
+  );
+}
+
+/**
+ * File-backed store. The whole file is rewritten on every mutation via a
+ * temporary file and rename, so a crash never leaves it half-written.
+ */
+export class JsonFileEventStore extends MemoryEventStore {
+  private loaded = false;
+
+  constructor(readonly path: string) {
+    super();
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) return;
+    try {
+      const file: JsonStoreFile = JSON.parse(await fs.readFile(this.path, "utf8"));
+      this.checkpoint = file.checkpoint;
+      for (const raw of file.events) {
+        const event = decodeValue(raw);
+        if (!isIndexedEvent(event)) {
+          throw new Error(`Malformed event in ${this.path}`);
+        }
+        this.events.set(eventKey(event), event);
+      }
+    } catch (err: unknown) {
+      // No file yet is an empty store
+      if (!(err instanceof Error && "code" in err && err.code === "ENOENT")) throw err;
+    }
+    this.loaded = true;
+  }
+
+  private async flush(): Promise<void> {
+    const file: JsonStoreFile = {
+      checkpoint: this.checkpoint,
+      events: (await super.getEvents()).map(encodeValue),
+    };
+    const tmp = `${this.path}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(file, null, 2));
+    await fs.rename(tmp, this.path);
+  }
+
+  async getCheckpoint(): Promise<IndexerCheckpoint | null> {
+    await this.load();
+    return super.getCheckpoint();
+  }
+
+  async saveCheckpoint(checkpoint: IndexerCheckpoint): Promise<void> {
+    await this.load();
+    await super.saveCheckpoint(checkpoint);
+    await this.flush();
+  }
+
+  async putEvents(events: IndexedEvent[]): Promise<void> {
+    await this.load();
+    await super.putEvents(events);
+    await this.flush();
+  }
+
+  async removeEventsAfterSlot(slot: number): Promise<void> {
+    await this.load();
+    await super.removeEventsAfterSlot(slot);
+    await this.flush();
+  }
+
+  async getEvents(filter: EventFilter = {}): Promise<IndexedEvent[]> {
+    await this.load();
+    return super.getEvents(filter);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Indexer
+// ---------------------------------------------------------------------------
+
+/**
+ * Walks the vault PDA's transaction history and writes decoded events to an
+ * `EventStore`.
+ *
+ * The checkpoint only ever advances over finalized transactions, and never
+ * past one the RPC node failed to return. Events from newer (confirmed but
+ * not finalized) transactions are stored too, but are dropped and re-fetched
+ * on the next `sync()` so a reorg cannot leave stale entries behind.
+ */
+export class SolForgeIndexer {
+  private readonly pageSize: number;
+  private readonly commitment: Finality;
+
+  constructor(
+    readonly client: SolForgeClient,
+    readonly store: EventStore,
+    options: IndexerOptions = {}
+  ) {
+    this.pageSize = options.pageSize ?? 1000;
+    this.commitment = options.commitment ?? "confirmed";
+  }
+
+  /** List signatures newer than `until`, oldest first. */
+  private async fetchSignatures(
+    until?: TransactionSignature
+  ): Promise<ConfirmedSignatureInfo[]> {
+    const connection = this.client.provider.connection;
+    const all: ConfirmedSignatureInfo[] = [];
+    let before: TransactionSignature | undefined;
+
+    for (;;) {
+      const page = await connection.getSignaturesForAddress(
+        this.client.vaultPda,
+        { before, until, limit: this.pageSize },
+        this.commitment
+      );
+      all.push(...page);
+      if (page.length < this.pageSize) break;
+      before = page[page.length - 1].signature;
+    }
+    return all.reverse();
+  }
+
+  /**
+   * Index every transaction since the last checkpoint.
+   *
+   * Safe to interrupt: the checkpoint is saved after each page, so the next
+   * run resumes where this one stopped.
+   */
+  async sync(): Promise<IndexerSyncResult> {
+    const connection = this.client.provider.connection;
+    let checkpoint = await this.store.getCheckpoint();
+
+    // Anything stored past the checkpoint was not final when written.
+    await this.store.removeEventsAfterSlot(checkpoint?.slot ?? -1);
+
+    const finalizedSlot = await connection.getSlot("finalized");
+    const signatures = await this.fetchSignatures(checkpoint?.signature);
+    const result: IndexerSyncResult = {
+      transactions: 0,
+      failed: 0,
+      missing: 0,
+      events: 0,
+      checkpoint,
+    };
+    // Set once a transaction could not be fetched; the checkpoint must not
+    // move past it
+    let stalled = false;
+
+    for (let i = 0; i < signatures.length; i += this.pageSize) {
+      const page = signatures.slice(i, i + this.pageSize);
+      const ok = page.filter((s) => s.err === null);
+      result.failed += page.length - ok.length;
+
+      const txs = await connection.getTransactions(
+        ok.map((s) => s.signature),
+        { commitment: this.commitment, maxSupportedTransactionVersion: 0 }
+      );
+
+      const events: IndexedEvent[] = [];
+      let fetchedUntil = page.length;
+      txs.forEach((tx, j) => {
+        if (!tx) {
+          result.missing++;
+          fetchedUntil = Math.min(fetchedUntil, page.indexOf(ok[j]));
+          return;
+        }
+        if (tx.meta?.err) return;
+        result.transactions++;
+        this.client
+          .decodeEvents(tx.meta?.logMessages ?? [])
+          .forEach((event, index) =>
+            events.push({
+              ...event,
+              signature: ok[j].signature,
+              slot: tx.slot,
+              blockTime: tx.blockTime ?? null,
+              index,
+            })
+          );
+      });
+      await this.store.putEvents(events);
+      result.events += events.length;
+
+      if (stalled) continue;
+      const lastFinal = page
+        .slice(0, fetchedUntil)
+        .reverse()
+        .find((s) => s.slot <= finalizedSlot);
+      if (lastFinal) {
+        checkpoint = { signature: lastFinal.signature, slot: lastFinal.slot };
+        await this.store.saveCheckpoint(checkpoint);
+      }
+      stalled = fetchedUntil < page.length;
+    }
+
+    result.checkpoint = checkpoint;
+    return result;
+  }
+}
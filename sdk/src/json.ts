@@ -0,0 +1,18 @@
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+
+/**
+ * Copy of `value` with every BN as a decimal string and every public key as
+ * base58, recursing into arrays and plain objects, ready for `JSON.stringify`.
+ */
+export function toPlain(value: unknown): unknown {
+  if (BN.isBN(value)) return (value as BN).toString();
+  if (value instanceof PublicKey) return value.toBase58();
+  if (Array.isArray(value)) return value.map(toPlain);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, toPlain(v)])
+    );
+  }
+  return value;
+}
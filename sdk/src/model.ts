@@ -0,0 +1,347 @@
+import { BN } from "@coral-xyz/anchor";
+import {
+  BPS_DENOMINATOR,
+  DEFAULT_DELAY_SECONDS,
+  MAX_DELAY_SECONDS,
+  MIN_BURN_AMOUNT_LAMPORTS,
+  MIN_DELAY_SECONDS,
+  PROPOSAL_EXECUTION_WINDOW_SECONDS,
+} from "./constants";
+
+// ---------------------------------------------------------------------------
+// On-chain math
+//
+// Everything below reproduces `lib.rs` bit for bit: u64 amounts, u128
+// intermediates for the burn split, truncating division, and the same
+// dust / overflow checks. Use BN throughout — lamport totals exceed 2^53.
+// ---------------------------------------------------------------------------
+
+const U64_MAX = new BN(2).pow(new BN(64)).subn(1);
+
+export interface BurnSplit {
+  burned: BN;
+  net: BN;
+}
+
+/**
+ * Split a deposit the way `accrue_fee` does:
+ * `burn = (amount as u128 * burn_bps as u128 / 10_000) as u64`.
+ *
+ * @param amountLamports Gross deposit (u64).
+ * @param burnBps        Burn percentage in bps (0-10 000).
+ */
+export function computeBurnSplit(amountLamports: BN, burnBps: number): BurnSplit {
+  if (amountLamports.isNeg() || amountLamports.gt(U64_MAX)) {
+    throw new RangeError("amount is not a u64");
+  }
+  validateBurnBps(burnBps);
+  const burned = amountLamports.muln(burnBps).divn(BPS_DENOMINATOR);
+  return { burned, net: amountLamports.sub(burned) };
+}
+
+export interface FeeQuote {
+  volume: BN;
+  /** `fee_bps` of the volume — what the payer is charged. */
+  fee: BN;
+  burned: BN;
+  net: BN;
+}
+
+/**
+ * Quote `accrue_fee_on_volume`:
+ * `fee = (volume as u128 * fee_bps as u128 / 10_000) as u64`, then the burn
+ * split of the fee.
+ *
+ * @param volumeLamports Trade volume (u64).
+ * @param feeBps         Fee rate in bps (0-10 000).
+ * @param burnBps        Burn percentage in bps (0-10 000).
+ */
+export function computeFeeQuote(
+  volumeLamports: BN,
+  feeBps: number,
+  burnBps: number
+): FeeQuote {
+  if (volumeLamports.isNeg() || volumeLamports.gt(U64_MAX)) {
+    throw new RangeError("volume is not a u64");
+  }
+  if (!Number.isInteger(feeBps) || feeBps < 0 || feeBps > BPS_DENOMINATOR) {
+    throw new RangeError("InvalidFeeRate");
+  }
+  const fee = volumeLamports.muln(feeBps).divn(BPS_DENOMINATOR);
+  return { volume: volumeLamports, fee, ...computeBurnSplit(fee, burnBps) };
+}
+
+/**
+ * Lamports one `crank_reward_schedule` pays: the fixed amount, or
+ * `(total_accrued as u128 * amount_bps as u128 / 10_000) as u64` for a
+ * bps schedule.
+ *
+ * @param amountLamports Fixed payout (0 for a bps schedule).
+ * @param amountBps      Share of the retained balance (0 for fixed).
+ * @param totalAccrued   Vault's retained balance at crank time.
+ */
+export function computeScheduledPayout(
+  amountLamports: BN,
+  amountBps: number,
+  totalAccrued: BN
+): BN {
+  return amountBps > 0
+    ? totalAccrued.muln(amountBps).divn(BPS_DENOMINATOR)
+    : amountLamports;
+}
+
+function validateBurnBps(burnBps: number): void {
+  if (!Number.isInteger(burnBps) || burnBps < 0 || burnBps > BPS_DENOMINATOR) {
+    throw new RangeError("InvalidBurnPercentage");
+  }
+}
+
+/** `checked_add` on a u64 — throws where the program returns `ArithmeticOverflow`. */
+function checkedAdd(a: BN, b: BN): BN {
+  const sum = a.add(b);
+  if (sum.gt(U64_MAX)) throw new RangeError("ArithmeticOverflow");
+  return sum;
+}
+
+// ---------------------------------------------------------------------------
+// Fee flows
+// ---------------------------------------------------------------------------
+
+/** Returns the individual `accrue_fee` payments made during `period`. */
+export type FeeFlow = (period: number) => BN[];
+
+/**
+ * The same payment(s) every period.
+ *
+ * @param amountLamports   Size of each payment.
+ * @param paymentsPerPeriod Number of `accrue_fee` calls per period.
+ */
+export function constantFlow(amountLamports: BN, paymentsPerPeriod = 1): FeeFlow {
+  return () => Array.from({ length: paymentsPerPeriod }, () => amountLamports);
+}
+
+export interface FlowStep {
+  /** First period (inclusive) this step applies to. */
+  fromPeriod: number;
+  amountLamports: BN;
+  paymentsPerPeriod?: number;
+}
+
+/**
+ * Piecewise-constant flow, e.g. volume growing after a launch.
+ *
+ * @param steps Steps in any order; the latest step starting at or before a
+ *              period applies. Periods before the first step have no flow.
+ */
+export function steppedFlow(steps: FlowStep[]): FeeFlow {
+  const sorted = [...steps].sort((a, b) => b.fromPeriod - a.fromPeriod);
+  return (period) => {
+    const step = sorted.find((s) => s.fromPeriod <= period);
+    if (!step) return [];
+    return constantFlow(step.amountLamports, step.paymentsPerPeriod)(period);
+  };
+}
+
+export interface RecordedPayment {
+  /** Unix timestamp of the payment. */
+  timestamp: number;
+  /** Gross amount paid into `accrue_fee`. */
+  amountLamports: BN;
+}
+
+/**
+ * Replay recorded payments (e.g. `gross` of indexed `FeeAccrued` events),
+ * bucketed into periods starting at `startTime`.
+ *
+ * @param payments      Recorded payments.
+ * @param startTime     Unix timestamp of period 0.
+ * @param periodSeconds Period length in seconds.
+ */
+export function replayFlow(
+  payments: RecordedPayment[],
+  startTime: number,
+  periodSeconds: number
+): FeeFlow {
+  const buckets = new Map<number, BN[]>();
+  for (const p of payments) {
+    if (p.timestamp < startTime) continue;
+    const period = Math.floor((p.timestamp - startTime) / periodSeconds);
+    buckets.set(period, [...(buckets.get(period) ?? []), p.amountLamports]);
+  }
+  return (period) => buckets.get(period) ?? [];
+}
+
+// ---------------------------------------------------------------------------
+// Scenarios
+// ---------------------------------------------------------------------------
+
+export interface ModelParameters {
+  burnPercentageBps: number;
+  /** Governance timelock (default 86 400). */
+  delaySeconds?: number;
+}
+
+/** A governance proposal made at the start of `atPeriod`. */
+export interface ModelProposal {
+  atPeriod: number;
+  burnPercentageBps?: number;
+  delaySeconds?: number;
+}
+
+/**
+ * Authority actions at the end of each period, as bps of `total_accrued`.
+ * Amounts below `MIN_BURN_AMOUNT_LAMPORTS` are skipped, as the program would
+ * reject them.
+ */
+export interface PayoutPolicy {
+  distributeBps?: number;
+  manualBurnBps?: number;
+}
+
+export interface Scenario {
+  periods: number;
+  /** Period length in seconds (default 86 400). */
+  periodSeconds?: number;
+  flow: FeeFlow;
+  params: ModelParameters;
+  proposals?: ModelProposal[];
+  payout?: PayoutPolicy;
+}
+
+export interface PeriodResult {
+  period: number;
+  /** Burn percentage in effect during the period. */
+  burnPercentageBps: number;
+  gross: BN;
+  autoBurned: BN;
+  manualBurned: BN;
+  distributed: BN;
+  /** `total_accrued` at the end of the period. */
+  retained: BN;
+}
+
+export interface ScenarioReport {
+  periods: PeriodResult[];
+  totalGross: BN;
+  totalBurned: BN;
+  totalDistributed: BN;
+  /** Final `total_accrued`. */
+  retained: BN;
+  /** Burned / gross, in bps (truncated). */
+  effectiveBurnBps: number;
+}
+
+function validateDelay(delaySeconds: number): void {
+  if (delaySeconds < MIN_DELAY_SECONDS || delaySeconds > MAX_DELAY_SECONDS) {
+    throw new RangeError("InvalidDelay");
+  }
+}
+
+/** Portion of `balance` in bps, or zero if it falls below the dust floor. */
+function payoutAmount(balance: BN, bps: number | undefined): BN {
+  if (!bps) return new BN(0);
+  const amount = balance.muln(bps).divn(BPS_DENOMINATOR);
+  return amount.ltn(MIN_BURN_AMOUNT_LAMPORTS) ? new BN(0) : amount;
+}
+
+/**
+ * Run a scenario period by period.
+ *
+ * Proposals follow the on-chain timelock: a proposal is released
+ * `delay_seconds` (the delay in effect when proposed) after it is made and
+ * executes at the first period start at or after that time, unless its
+ * execution window has closed by then. Proposals are independent; ones
+ * released together execute in the order they were made.
+ */
+export function runScenario(scenario: Scenario): ScenarioReport {
+  const periodSeconds = scenario.periodSeconds ?? 86_400;
+  let burnBps = scenario.params.burnPercentageBps;
+  let delay = scenario.params.delaySeconds ?? DEFAULT_DELAY_SECONDS;
+  validateBurnBps(burnBps);
+  validateDelay(delay);
+
+  let pending: (ModelProposal & { releaseTime: number })[] = [];
+  let retained = new BN(0);
+  const periods: PeriodResult[] = [];
+  const totals = { gross: new BN(0), burned: new BN(0), distributed: new BN(0) };
+
+  for (let period = 0; period < scenario.periods; period++) {
+    const now = period * periodSeconds;
+
+    for (const p of pending.filter((p) => now >= p.releaseTime)) {
+      if (now <= p.releaseTime + PROPOSAL_EXECUTION_WINDOW_SECONDS) {
+        burnBps = p.burnPercentageBps ?? burnBps;
+        delay = p.delaySeconds ?? delay;
+      }
+    }
+    pending = pending.filter((p) => now < p.releaseTime);
+    for (const p of scenario.proposals ?? []) {
+      if (p.atPeriod !== period) continue;
+      if (p.burnPercentageBps !== undefined) validateBurnBps(p.burnPercentageBps);
+      if (p.delaySeconds !== undefined) validateDelay(p.delaySeconds);
+      pending.push({ ...p, releaseTime: now + delay });
+    }
+
+    const result: PeriodResult = {
+      period,
+      burnPercentageBps: burnBps,
+      gross: new BN(0),
+      autoBurned: new BN(0),
+      manualBurned: new BN(0),
+      distributed: new BN(0),
+      retained,
+    };
+
+    for (const amount of scenario.flow(period)) {
+      // accrue_fee rejects zero with AmountTooSmall
+      if (amount.isZero()) continue;
+      const { burned, net } = computeBurnSplit(amount, burnBps);
+      result.gross = result.gross.add(amount);
+      result.autoBurned = result.autoBurned.add(burned);
+      retained = checkedAdd(retained, net);
+    }
+
+    result.distributed = payoutAmount(retained, scenario.payout?.distributeBps);
+    retained = retained.sub(result.distributed);
+    result.manualBurned = payoutAmount(retained, scenario.payout?.manualBurnBps);
+    retained = retained.sub(result.manualBurned);
+    result.retained = retained;
+
+    totals.gross = totals.gross.add(result.gross);
+    totals.burned = totals.burned.add(result.autoBurned).add(result.manualBurned);
+    totals.distributed = totals.distributed.add(result.distributed);
+    periods.push(result);
+  }
+
+  return {
+    periods,
+    totalGross: totals.gross,
+    totalBurned: totals.burned,
+    totalDistributed: totals.distributed,
+    retained,
+    effectiveBurnBps: totals.gross.isZero()
+      ? 0
+      : totals.burned.muln(BPS_DENOMINATOR).div(totals.gross).toNumber(),
+  };
+}
+
+export interface LabeledParameters {
+  label: string;
+  params: ModelParameters;
+}
+
+/**
+ * Run the same scenario under several parameter sets, side by side.
+ *
+ * @param scenario  Base scenario; its `params` are replaced per entry.
+ * @param paramSets Parameter sets to compare.
+ */
+export function compareScenarios(
+  scenario: Omit<Scenario, "params">,
+  paramSets: LabeledParameters[]
+): (ScenarioReport & { label: string })[] {
+  return paramSets.map(({ label, params }) => ({
+    label,
+    ...runScenario({ ...scenario, params }),
+  }));
+}
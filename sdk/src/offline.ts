@@ -0,0 +1,254 @@
+import { BorshInstructionCoder } from "@coral-xyz/anchor";
+import {
+  NonceAccount,
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import { translateError } from "./errors";
+import { toPlain } from "./json";
+import {
+  fetchLandedTransaction,
+  SendOptions,
+  SendResult,
+  withConfirmTimeout,
+} from "./sender";
+import type { SolForgeClient } from "./index";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface DurableNonceOptions {
+  /** Nonce account whose stored value replaces the recent blockhash. */
+  nonceAccount: PublicKey;
+  /** Fee payer; must sign. */
+  feePayer: PublicKey;
+  /** Nonce authority; must sign (defaults to `feePayer`). */
+  nonceAuthority?: PublicKey;
+}
+
+/** One instruction of a `SigningRequest`, decoded for review. */
+export interface DescribedInstruction {
+  programId: string;
+  /** SolForge / System instruction name, `null` for other programs. */
+  name: string | null;
+  /** Decoded SolForge arguments (amounts as decimal strings). */
+  args: Record<string, unknown> | null;
+  accounts: string[];
+}
+
+/**
+ * JSON envelope for collecting signatures out of band. `transaction` is the
+ * authoritative payload; the other fields are for the approvers.
+ */
+export interface SigningRequest {
+  /** Base64 wire transaction, unsigned or partially signed. */
+  transaction: string;
+  feePayer: string;
+  /** Every key that must sign. */
+  signers: string[];
+  /** Keys that have not signed yet. */
+  missingSigners: string[];
+  nonceAccount: string | null;
+  nonce: string;
+  instructions: DescribedInstruction[];
+}
+
+/** Anything `submitSigned` and `parseTransaction` accept. */
+export type SignedTransactionInput = Transaction | string | SigningRequest;
+
+// ---------------------------------------------------------------------------
+// Building & serialization
+// ---------------------------------------------------------------------------
+
+/**
+ * Build an unsigned transaction that stays valid until its nonce is
+ * advanced, so it can wait for approvals without a blockhash expiring.
+ *
+ * @throws If the nonce account does not exist or `nonceAuthority` is not
+ *         its authority.
+ */
+export async function buildOfflineTransaction(
+  client: SolForgeClient,
+  instructions: TransactionInstruction[],
+  options: DurableNonceOptions
+): Promise<Transaction> {
+  const nonceAuthority = options.nonceAuthority ?? options.feePayer;
+  const info = await client.provider.connection.getAccountInfo(
+    options.nonceAccount
+  );
+  if (!info) {
+    throw new Error(`Nonce account ${options.nonceAccount.toBase58()} not found`);
+  }
+  const nonce = NonceAccount.fromAccountData(info.data);
+  if (!nonce.authorizedPubkey.equals(nonceAuthority)) {
+    throw new Error(
+      `Nonce authority is ${nonce.authorizedPubkey.toBase58()}, not ${nonceAuthority.toBase58()}`
+    );
+  }
+
+  const tx = new Transaction({
+    feePayer: options.feePayer,
+    nonceInfo: {
+      nonce: nonce.nonce,
+      nonceInstruction: SystemProgram.nonceAdvance({
+        noncePubkey: options.nonceAccount,
+        authorizedPubkey: nonceAuthority,
+      }),
+    },
+  }).add(...instructions);
+  // Round-trip so the advance instruction and signer slots are materialized
+  return Transaction.from(serializeTransaction(tx));
+}
+
+/** Wire bytes of a possibly partially signed transaction. */
+export function serializeTransaction(tx: Transaction): Buffer {
+  return tx.serialize({ requireAllSignatures: false, verifySignatures: false });
+}
+
+/** Load a transaction from base64, a `SigningRequest` or as-is. */
+export function parseTransaction(input: SignedTransactionInput): Transaction {
+  if (input instanceof Transaction) return input;
+  const base64 = typeof input === "string" ? input : input.transaction;
+  return Transaction.from(Buffer.from(base64, "base64"));
+}
+
+/** Required signers that have not signed `tx` yet. */
+export function missingSigners(tx: Transaction): PublicKey[] {
+  return tx.signatures
+    .filter(({ signature }) => signature === null)
+    .map(({ publicKey }) => publicKey);
+}
+
+/** Nonce account of a durable-nonce transaction, else `null`. */
+function nonceAccountOf(tx: Transaction): PublicKey | null {
+  const [first] = tx.instructions;
+  if (!first?.programId.equals(SystemProgram.programId)) return null;
+  try {
+    return SystemInstruction.decodeInstructionType(first) === "AdvanceNonceAccount"
+      ? first.keys[0].pubkey
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function describe(
+  client: SolForgeClient,
+  ix: TransactionInstruction
+): DescribedInstruction {
+  let name: string | null = null;
+  let args: Record<string, unknown> | null = null;
+  if (ix.programId.equals(client.program.programId)) {
+    const coder = client.program.coder.instruction as BorshInstructionCoder;
+    const decoded = coder.decode(ix.data);
+    name = decoded?.name ?? null;
+    args = decoded ? (toPlain(decoded.data) as Record<string, unknown>) : null;
+  } else if (ix.programId.equals(SystemProgram.programId)) {
+    try {
+      name = SystemInstruction.decodeInstructionType(ix);
+    } catch {
+      // Unknown system instruction layout
+    }
+  }
+  return {
+    programId: ix.programId.toBase58(),
+    name,
+    args,
+    accounts: ix.keys.map((k) => k.pubkey.toBase58()),
+  };
+}
+
+/**
+ * Wrap `input` in a JSON signing request, with SolForge instructions
+ * decoded so approvers can see what they sign.
+ */
+export function toSigningRequest(
+  client: SolForgeClient,
+  input: SignedTransactionInput
+): SigningRequest {
+  const tx = parseTransaction(input);
+  const nonceAccount = nonceAccountOf(tx);
+  return {
+    transaction: serializeTransaction(tx).toString("base64"),
+    feePayer: (tx.feePayer ?? tx.signatures[0].publicKey).toBase58(),
+    signers: tx.signatures.map(({ publicKey }) => publicKey.toBase58()),
+    missingSigners: missingSigners(tx).map((k) => k.toBase58()),
+    nonceAccount: nonceAccount?.toBase58() ?? null,
+    nonce: tx.recentBlockhash!,
+    instructions: tx.instructions.map((ix) => describe(client, ix)),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Submission
+// ---------------------------------------------------------------------------
+
+/**
+ * Submit a fully signed durable-nonce transaction and confirm it against
+ * its nonce. Re-submitting the same transaction is safe: it can land once.
+ *
+ * Only `commitment`, `skipPreflight` and `confirmTimeoutMs` apply; the
+ * compute budget is fixed at signing time.
+ *
+ * @throws If signatures are missing or invalid, or the transaction does not
+ *         use a durable nonce. Program failures become typed errors.
+ */
+export async function submitSigned(
+  client: SolForgeClient,
+  input: SignedTransactionInput,
+  options: SendOptions = {}
+): Promise<SendResult> {
+  const connection = client.provider.connection;
+  const commitment = options.commitment ?? client.commitment;
+  const tx = parseTransaction(input);
+
+  const missing = missingSigners(tx);
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing signatures from ${missing.map((k) => k.toBase58()).join(", ")}`
+    );
+  }
+  if (!tx.verifySignatures()) throw new Error("Invalid transaction signature");
+  const nonceAccount = nonceAccountOf(tx);
+  if (!nonceAccount) throw new Error("Transaction does not use a durable nonce");
+
+  try {
+    const minContextSlot = await connection.getSlot(commitment);
+    const signature = await connection.sendRawTransaction(tx.serialize(), {
+      skipPreflight: options.skipPreflight,
+      preflightCommitment: commitment,
+    });
+    const { context, value } = await withConfirmTimeout(
+      connection.confirmTransaction(
+        {
+          signature,
+          nonceAccountPubkey: nonceAccount,
+          nonceValue: tx.recentBlockhash!,
+          minContextSlot,
+        },
+        commitment
+      ),
+      signature,
+      options.confirmTimeoutMs
+    );
+    const landed = await fetchLandedTransaction(
+      connection,
+      signature,
+      context.slot,
+      value.err,
+      commitment
+    );
+    return {
+      signature: landed.signature,
+      slot: landed.slot,
+      fee: landed.fee,
+      events: client.decodeEvents(landed.logs),
+    };
+  } catch (err) {
+    throw translateError(err, client.program.programId);
+  }
+}
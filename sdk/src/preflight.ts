@@ -0,0 +1,464 @@
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { computeSpendingAllowance, isUncapped, spendingCapsArgs } from "./caps";
+import type { Outflow, SpendingCapsState } from "./caps";
+import {
+  BPS_DENOMINATOR,
+  MAX_DELAY_SECONDS,
+  MAX_DISTRIBUTION_RECIPIENTS,
+  MIN_BURN_AMOUNT_LAMPORTS,
+  MIN_DELAY_SECONDS,
+} from "./constants";
+import {
+  AlreadyClaimedError,
+  AmountTooSmallError,
+  DistributionExpiredError,
+  DistributionNotExpiredError,
+  InsufficientBalanceError,
+  InvalidBurnPercentageError,
+  InvalidDelayError,
+  InvalidDistributionError,
+  InvalidFeeRateError,
+  InvalidProofError,
+  NoSurplusError,
+  InvalidScheduleError,
+  PausedError,
+  RecipientNotAllowedError,
+  InvalidSpendingCapError,
+  NoChangeProposedError,
+  NoPendingUpdateError,
+  ProposalExpiredError,
+  ScheduleEndedError,
+  ScheduleNotDueError,
+  SpendingCapExceededError,
+  TimelockNotExpiredError,
+  UnauthorizedError,
+} from "./errors";
+import {
+  hashDistributionLeaf,
+  isDistributionClaimed,
+  verifyDistributionProof,
+} from "./distribution";
+import type { AllowlistEntryState } from "./allowlist";
+import type { DistributionClaim, DistributionState } from "./distribution";
+import type { ParameterUpdate, ProposalState } from "./governance";
+import type { VaultState } from "./index";
+import { computeFeeQuote, computeScheduledPayout } from "./model";
+import type { RewardScheduleParams, RewardScheduleState } from "./schedule";
+import type { TokenVaultState } from "./token";
+
+// ---------------------------------------------------------------------------
+// Client-side preflight checks
+//
+// Each check mirrors a `require!` or account constraint in `lib.rs` and
+// throws the same typed error the program would, before anything is signed.
+// ---------------------------------------------------------------------------
+
+function checkDelay(delaySeconds: number): void {
+  if (delaySeconds < MIN_DELAY_SECONDS || delaySeconds > MAX_DELAY_SECONDS) {
+    throw new InvalidDelayError();
+  }
+}
+
+function checkAuthority(vault: VaultState, authority: PublicKey): void {
+  if (!vault.authority.equals(authority)) throw new UnauthorizedError();
+}
+
+/** `initialize_vault` argument validation. */
+export function checkInitializeVault(
+  feeBps: number,
+  burnBps: number,
+  delaySeconds?: number
+): void {
+  if (feeBps > BPS_DENOMINATOR) throw new InvalidFeeRateError();
+  if (burnBps > BPS_DENOMINATOR) throw new InvalidBurnPercentageError();
+  if (delaySeconds !== undefined) checkDelay(delaySeconds);
+}
+
+/**
+ * Pause check of every instruction that moves funds in or out of the vault,
+ * and of proposal execution.
+ */
+export function checkNotPaused(vault: VaultState): void {
+  if (vault.paused) throw new PausedError();
+}
+
+/** `accrue_fee` rejects zero. */
+export function checkAccrueFee(amountLamports: BN): void {
+  if (amountLamports.lten(0)) throw new AmountTooSmallError();
+}
+
+/** `accrue_fee_on_volume` rejects volumes whose fee rounds to zero. */
+export function checkAccrueFeeOnVolume(vault: VaultState, volumeLamports: BN): void {
+  checkNotPaused(vault);
+  if (computeFeeQuote(volumeLamports, vault.feeBasisPoints, 0).fee.isZero()) {
+    throw new AmountTooSmallError();
+  }
+}
+
+/** Shared by `burn_sol` and `distribute_rewards`. */
+export function checkWithdrawal(
+  vault: VaultState,
+  authority: PublicKey,
+  amountLamports: BN
+): void {
+  checkAuthority(vault, authority);
+  checkNotPaused(vault);
+  if (amountLamports.ltn(MIN_BURN_AMOUNT_LAMPORTS)) {
+    throw new AmountTooSmallError();
+  }
+  if (amountLamports.gt(vault.totalAccrued)) {
+    throw new InsufficientBalanceError();
+  }
+}
+
+/**
+ * Spending cap check shared by every capped outflow.
+ *
+ * @param now Cluster unix time (from the `Clock` sysvar).
+ */
+export function checkSpendingCap(
+  vault: VaultState,
+  outflow: Outflow,
+  amountLamports: BN,
+  now: number
+): void {
+  const { remaining } = computeSpendingAllowance(vault, now)[outflow];
+  if (remaining && amountLamports.gt(remaining)) throw new SpendingCapExceededError();
+}
+
+/** Mirrors `validate_spending_caps`. */
+export function checkSpendingCaps(caps: SpendingCapsState): void {
+  const conflicting = (lamports: BN, bps: number) => !lamports.isZero() && bps !== 0;
+  const window = caps.windowSeconds.toNumber();
+  if (
+    conflicting(caps.distributionLamports, caps.distributionBps) ||
+    conflicting(caps.burnLamports, caps.burnBps) ||
+    caps.distributionBps > BPS_DENOMINATOR ||
+    caps.burnBps > BPS_DENOMINATOR ||
+    !(window > 0 || (window === 0 && isUncapped(caps)))
+  ) {
+    throw new InvalidSpendingCapError();
+  }
+}
+
+/**
+ * `sweep_surplus` validation. Only burning is paused and capped.
+ *
+ * @param surplus Unaccounted lamports (see `fetchVaultSurplus`).
+ * @param now     Cluster unix time (from the `Clock` sysvar).
+ */
+export function checkSweepSurplus(
+  vault: VaultState,
+  authority: PublicKey,
+  surplus: BN,
+  burn: boolean,
+  now: number
+): void {
+  checkAuthority(vault, authority);
+  if (burn) checkNotPaused(vault);
+  if (surplus.lten(0)) throw new NoSurplusError();
+  if (burn) checkSpendingCap(vault, "burn", surplus, now);
+}
+
+/** `propose_parameter_update` validation. */
+export function checkProposeParameterUpdate(
+  vault: VaultState,
+  authority: PublicKey,
+  update: ParameterUpdate
+): void {
+  checkAuthority(vault, authority);
+  if (
+    update.burnBps === undefined &&
+    update.delaySeconds === undefined &&
+    update.feeBps === undefined &&
+    update.spendingCaps === undefined &&
+    update.allowlistEnabled === undefined &&
+    update.guardian === undefined
+  ) {
+    throw new NoChangeProposedError();
+  }
+  if (update.burnBps !== undefined && update.burnBps > BPS_DENOMINATOR) {
+    throw new InvalidBurnPercentageError();
+  }
+  if (update.delaySeconds !== undefined) checkDelay(update.delaySeconds);
+  if (update.feeBps !== undefined && update.feeBps > BPS_DENOMINATOR) {
+    throw new InvalidFeeRateError();
+  }
+  if (update.spendingCaps !== undefined) {
+    checkSpendingCaps(spendingCapsArgs(update.spendingCaps));
+  }
+}
+
+/**
+ * `execute_parameter_update` validation.
+ *
+ * @param now Cluster unix time (from the `Clock` sysvar, not local time).
+ */
+export function checkExecuteParameterUpdate(
+  vault: VaultState,
+  authority: PublicKey,
+  proposal: ProposalState,
+  now: number
+): void {
+  checkAuthority(vault, authority);
+  checkNotPaused(vault);
+  checkCancelParameterProposal(vault, authority, proposal);
+  if (proposal.releaseTime.gtn(now)) throw new TimelockNotExpiredError();
+  if (proposal.expiresAt.ltn(now)) throw new ProposalExpiredError();
+}
+
+/** `cancel_parameter_proposal` validation. */
+export function checkCancelParameterProposal(
+  vault: VaultState,
+  authority: PublicKey,
+  proposal: ProposalState
+): void {
+  checkAuthority(vault, authority);
+  if (!("pending" in proposal.status)) throw new NoPendingUpdateError();
+}
+
+/**
+ * `distribute_rewards` recipient check in allowlist mode.
+ *
+ * @param entry The recipient's allowlist entry (`null` if none).
+ */
+export function checkAllowlisted(
+  vault: VaultState,
+  entry: AllowlistEntryState | null
+): void {
+  if (vault.allowlistEnabled && !entry?.active) throw new RecipientNotAllowedError();
+}
+
+/** `propose_allowlist_addition` / `remove_allowlist_recipient` validation. */
+export function checkManageAllowlist(vault: VaultState, authority: PublicKey): void {
+  checkAuthority(vault, authority);
+}
+
+/**
+ * `execute_allowlist_addition` validation.
+ *
+ * @param now Cluster unix time (from the `Clock` sysvar).
+ */
+export function checkExecuteAllowlistAddition(
+  vault: VaultState,
+  authority: PublicKey,
+  entry: AllowlistEntryState,
+  now: number
+): void {
+  checkAuthority(vault, authority);
+  checkNotPaused(vault);
+  if (entry.active) throw new NoPendingUpdateError();
+  if (entry.releaseTime.gtn(now)) throw new TimelockNotExpiredError();
+}
+
+/** `pause` validation: only the guardian can pause. */
+export function checkPause(vault: VaultState, guardian: PublicKey): void {
+  if (!vault.guardian?.equals(guardian)) throw new UnauthorizedError();
+}
+
+/** `propose_unpause` validation. */
+export function checkProposeUnpause(vault: VaultState, authority: PublicKey): void {
+  checkAuthority(vault, authority);
+  if (!vault.paused) throw new NoChangeProposedError();
+}
+
+/**
+ * `unpause` validation.
+ *
+ * @param now Cluster unix time (from the `Clock` sysvar).
+ */
+export function checkUnpause(vault: VaultState, authority: PublicKey, now: number): void {
+  checkAuthority(vault, authority);
+  if (!vault.paused || vault.unpauseReleaseTime.isZero()) {
+    throw new NoPendingUpdateError();
+  }
+  if (vault.unpauseReleaseTime.gtn(now)) throw new TimelockNotExpiredError();
+}
+
+/** `propose_authority_transfer` validation. */
+export function checkProposeAuthorityTransfer(
+  vault: VaultState,
+  authority: PublicKey,
+  newAuthority: PublicKey
+): void {
+  checkAuthority(vault, authority);
+  if (newAuthority.equals(vault.authority)) throw new NoChangeProposedError();
+}
+
+/**
+ * `accept_authority_transfer` validation.
+ *
+ * @param newAuthority Signer accepting the transfer.
+ * @param now          Cluster unix time (from the `Clock` sysvar).
+ */
+export function checkAcceptAuthorityTransfer(
+  vault: VaultState,
+  newAuthority: PublicKey,
+  now: number
+): void {
+  if (vault.pendingAuthority === null) throw new NoPendingUpdateError();
+  if (!vault.pendingAuthority.equals(newAuthority)) {
+    throw new UnauthorizedError();
+  }
+  if (now < vault.authorityTransferReleaseTime.toNumber()) {
+    throw new TimelockNotExpiredError();
+  }
+}
+
+/** `cancel_authority_transfer` validation. */
+export function checkCancelAuthorityTransfer(
+  vault: VaultState,
+  authority: PublicKey
+): void {
+  checkAuthority(vault, authority);
+  if (vault.pendingAuthority === null) throw new NoPendingUpdateError();
+}
+
+/**
+ * Shared by `burn_tokens` and `distribute_token_rewards`. Token amounts have
+ * no dust floor, only zero is rejected.
+ *
+ * @param tokenVault Per-mint state (`null` skips the balance check).
+ */
+export function checkTokenWithdrawal(
+  vault: VaultState,
+  tokenVault: TokenVaultState | null,
+  authority: PublicKey,
+  amount: BN
+): void {
+  checkAuthority(vault, authority);
+  checkNotPaused(vault);
+  if (amount.lten(0)) throw new AmountTooSmallError();
+  if (tokenVault && amount.gt(tokenVault.totalAccrued)) {
+    throw new InsufficientBalanceError();
+  }
+}
+
+/**
+ * `create_reward_schedule` / `update_reward_schedule` validation.
+ *
+ * @param now Cluster unix time (from the `Clock` sysvar).
+ */
+export function checkRewardSchedule(
+  vault: VaultState,
+  authority: PublicKey,
+  params: RewardScheduleParams,
+  now: number
+): void {
+  checkAuthority(vault, authority);
+  if ("bps" in params.amount) {
+    const { bps } = params.amount;
+    if (bps <= 0 || bps > BPS_DENOMINATOR) throw new InvalidScheduleError();
+  } else {
+    const lamports = new BN(params.amount.lamports);
+    if (lamports.isZero()) throw new InvalidScheduleError();
+    if (lamports.ltn(MIN_BURN_AMOUNT_LAMPORTS)) throw new AmountTooSmallError();
+  }
+  if (params.intervalSeconds <= 0) throw new InvalidScheduleError();
+  if (params.endTime != null && params.endTime <= now) {
+    throw new InvalidScheduleError();
+  }
+}
+
+/**
+ * `crank_reward_schedule` validation: due, not ended, and a payout that
+ * passes the `distribute_rewards` checks, allowlist, pause and spending cap
+ * included.
+ *
+ * @param entry The recipient's allowlist entry (only read in allowlist mode).
+ * @param now   Cluster unix time (from the `Clock` sysvar).
+ */
+export function checkCrankRewardSchedule(
+  vault: VaultState,
+  schedule: RewardScheduleState,
+  entry: AllowlistEntryState | null,
+  now: number
+): void {
+  if (now < schedule.nextPayoutAt.toNumber()) throw new ScheduleNotDueError();
+  if (schedule.endTime !== null && schedule.nextPayoutAt.gt(schedule.endTime)) {
+    throw new ScheduleEndedError();
+  }
+  checkAllowlisted(vault, entry);
+  checkNotPaused(vault);
+  const amount = computeScheduledPayout(
+    schedule.amountLamports,
+    schedule.amountBps,
+    vault.totalAccrued
+  );
+  if (amount.ltn(MIN_BURN_AMOUNT_LAMPORTS)) throw new AmountTooSmallError();
+  if (amount.gt(vault.totalAccrued)) throw new InsufficientBalanceError();
+  checkSpendingCap(vault, "distribution", amount, now);
+}
+
+/**
+ * `create_distribution` validation.
+ *
+ * @param now Cluster unix time (from the `Clock` sysvar).
+ */
+export function checkCreateDistribution(
+  vault: VaultState,
+  authority: PublicKey,
+  totalAmount: BN,
+  numRecipients: number,
+  expiresAt: number,
+  now: number
+): void {
+  checkAuthority(vault, authority);
+  checkNotPaused(vault);
+  // Merkle recipients cannot be checked against the allowlist
+  if (vault.allowlistEnabled) throw new RecipientNotAllowedError();
+  if (numRecipients <= 0 || numRecipients > MAX_DISTRIBUTION_RECIPIENTS) {
+    throw new InvalidDistributionError();
+  }
+  if (expiresAt <= now) throw new InvalidDistributionError();
+  if (totalAmount.ltn(MIN_BURN_AMOUNT_LAMPORTS)) throw new AmountTooSmallError();
+  if (totalAmount.gt(vault.totalAccrued)) throw new InsufficientBalanceError();
+  checkSpendingCap(vault, "distribution", totalAmount, now);
+}
+
+/**
+ * `claim_distribution` validation, including the merkle proof.
+ *
+ * @param claimant Signer claiming `claim`.
+ * @param now      Cluster unix time (from the `Clock` sysvar).
+ */
+export function checkClaimDistribution(
+  vault: VaultState,
+  distribution: DistributionState,
+  claim: DistributionClaim,
+  claimant: PublicKey,
+  now: number
+): void {
+  checkNotPaused(vault);
+  if (now >= distribution.expiresAt.toNumber()) throw new DistributionExpiredError();
+  if (claim.index >= distribution.numRecipients) throw new InvalidProofError();
+  if (isDistributionClaimed(distribution, claim.index)) throw new AlreadyClaimedError();
+  const leaf = hashDistributionLeaf(claim.index, claimant, claim.amount);
+  if (!verifyDistributionProof(Buffer.from(distribution.merkleRoot), leaf, claim.proof)) {
+    throw new InvalidProofError();
+  }
+  if (distribution.claimedAmount.add(claim.amount).gt(distribution.totalAmount)) {
+    throw new InsufficientBalanceError();
+  }
+}
+
+/**
+ * `sweep_distribution` validation: expired, or fully claimed.
+ *
+ * @param now Cluster unix time (from the `Clock` sysvar).
+ */
+export function checkSweepDistribution(
+  vault: VaultState,
+  authority: PublicKey,
+  distribution: DistributionState,
+  now: number
+): void {
+  checkAuthority(vault, authority);
+  if (
+    now < distribution.expiresAt.toNumber() &&
+    distribution.numClaimed < distribution.numRecipients
+  ) {
+    throw new DistributionNotExpiredError();
+  }
+}
@@ -0,0 +1,204 @@
+import { BN, BorshInstructionCoder } from "@coral-xyz/anchor";
+import {
+  ConfirmedSignatureInfo,
+  Finality,
+  PublicKey,
+  TransactionSignature,
+} from "@solana/web3.js";
+import { SolForgeEvent } from "./events";
+import type { SolForgeClient } from "./index";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The vault's lamports split into rent, `total_accrued` and the rest. */
+export interface VaultSurplus {
+  /** Lamports held by the vault PDA. */
+  balance: BN;
+  /** Rent-exempt minimum for the vault account. */
+  rentExempt: BN;
+  totalAccrued: BN;
+  /**
+   * `balance - rentExempt - totalAccrued`: lamports no instruction can
+   * spend until `sweep_surplus`. Negative would mean a shortfall.
+   */
+  surplus: BN;
+}
+
+/**
+ * - `direct-transfer`: lamports reached the vault in a transaction without
+ *   any SolForge instruction (e.g. a plain system transfer to the PDA).
+ * - `rent`: lamports sent before `initialize_vault` that went toward the
+ *   rent-exempt minimum instead of the surplus (negative).
+ * - `swept`: `sweep_surplus` accounted for or burned the surplus (negative).
+ * - `unexplained`: a SolForge transaction moved the vault's lamports by a
+ *   different amount than its events imply, e.g. a transfer bundled with a
+ *   SolForge instruction.
+ */
+export type DiscrepancyCause = "direct-transfer" | "rent" | "swept" | "unexplained";
+
+/** One transaction that changed the surplus. */
+export interface Discrepancy {
+  signature: TransactionSignature;
+  slot: number;
+  blockTime: number | null;
+  /** Change to the surplus; negative when it shrank. */
+  amount: BN;
+  cause: DiscrepancyCause;
+  /** Fee payer, usually the sender of a direct transfer. */
+  feePayer: PublicKey;
+}
+
+export interface ReconcileReport extends VaultSurplus {
+  /** Oldest first. */
+  discrepancies: Discrepancy[];
+  /**
+   * Surplus not covered by `discrepancies`. Non-zero when the RPC node no
+   * longer serves the vault's full history.
+   */
+  unexplained: BN;
+  /** Successful transactions scanned. */
+  transactions: number;
+}
+
+export interface ReconcileOptions {
+  /** Commitment used to read the history (default `"confirmed"`). */
+  commitment?: Finality;
+}
+
+// ---------------------------------------------------------------------------
+// Reconciliation
+// ---------------------------------------------------------------------------
+
+/** Change to `total_accrued` implied by one event. */
+function accruedDelta(event: SolForgeEvent): BN {
+  switch (event.name) {
+    case "FeeAccrued":
+      return event.data.net;
+    case "SolBurned":
+    case "RewardsDistributed":
+      return event.data.amount.neg();
+    case "DistributionCreated":
+      return event.data.totalAmount.neg();
+    case "DistributionSwept":
+      return event.data.amount;
+    case "SurplusSwept":
+      return event.data.burned ? new BN(0) : event.data.amount;
+    default:
+      return new BN(0);
+  }
+}
+
+/** Lamports, rent-exempt minimum and `total_accrued` of the vault. */
+export async function fetchVaultSurplus(
+  client: SolForgeClient
+): Promise<VaultSurplus | null> {
+  const connection = client.provider.connection;
+  const [info, vault] = await Promise.all([
+    connection.getAccountInfo(client.vaultPda),
+    client.getVaultState(),
+  ]);
+  if (!info || !vault) return null;
+  const balance = new BN(info.lamports);
+  const rentExempt = new BN(
+    await connection.getMinimumBalanceForRentExemption(info.data.length)
+  );
+  return {
+    balance,
+    rentExempt,
+    totalAccrued: vault.totalAccrued,
+    surplus: balance.sub(rentExempt).sub(vault.totalAccrued),
+  };
+}
+
+/**
+ * Explain the vault's surplus from its full transaction history. Each
+ * transaction's lamport change is compared with the `total_accrued` change
+ * its events imply; whatever differs changed the surplus.
+ *
+ * @returns `null` if the vault is not initialized.
+ */
+export async function reconcileVault(
+  client: SolForgeClient,
+  options: ReconcileOptions = {}
+): Promise<ReconcileReport | null> {
+  const surplus = await fetchVaultSurplus(client);
+  if (!surplus) return null;
+  const connection = client.provider.connection;
+  const commitment = options.commitment ?? "confirmed";
+  const coder = client.program.coder.instruction as BorshInstructionCoder;
+
+  const signatures: ConfirmedSignatureInfo[] = [];
+  let before: TransactionSignature | undefined;
+  for (;;) {
+    const page = await connection.getSignaturesForAddress(
+      client.vaultPda,
+      { before, limit: 1000 },
+      commitment
+    );
+    signatures.push(...page);
+    if (page.length < 1000) break;
+    before = page[page.length - 1].signature;
+  }
+  const ok = signatures.filter((s) => s.err === null).reverse();
+
+  const discrepancies: Discrepancy[] = [];
+  let transactions = 0;
+  for (let i = 0; i < ok.length; i += 1000) {
+    const page = ok.slice(i, i + 1000);
+    const txs = await connection.getTransactions(
+      page.map((s) => s.signature),
+      { commitment, maxSupportedTransactionVersion: 0 }
+    );
+    txs.forEach((tx, j) => {
+      if (!tx?.meta || tx.meta.err) return;
+      transactions++;
+      const message = tx.transaction.message;
+      const keys = message.getAccountKeys({
+        accountKeysFromLookups: tx.meta.loadedAddresses,
+      });
+      const position = keys.keySegments().flat().findIndex((k) => k.equals(client.vaultPda));
+      if (position < 0) return;
+
+      let amount = new BN(tx.meta.postBalances[position]).sub(
+        new BN(tx.meta.preBalances[position])
+      );
+      const events = client.decodeEvents(tx.meta.logMessages ?? []);
+      for (const event of events) amount = amount.sub(accruedDelta(event));
+
+      const names = message.compiledInstructions
+        .filter((ix) => keys.get(ix.programIdIndex)?.equals(client.program.programId))
+        .map((ix) => coder.decode(Buffer.from(ix.data))?.name);
+      let cause: DiscrepancyCause;
+      if (names.includes("initializeVault")) {
+        amount = amount.sub(surplus.rentExempt);
+        cause = "rent";
+      } else if (names.length === 0) {
+        cause = "direct-transfer";
+      } else if (events.some((e) => e.name === "SurplusSwept")) {
+        cause = "swept";
+      } else {
+        cause = "unexplained";
+      }
+      if (amount.isZero()) return;
+
+      discrepancies.push({
+        signature: page[j].signature,
+        slot: tx.slot,
+        blockTime: tx.blockTime ?? null,
+        amount,
+        cause,
+        feePayer: keys.get(0)!,
+      });
+    });
+  }
+
+  const explained = discrepancies.reduce((sum, d) => sum.add(d.amount), new BN(0));
+  return {
+    ...surplus,
+    discrepancies,
+    unexplained: surplus.surplus.sub(explained),
+    transactions,
+  };
+}
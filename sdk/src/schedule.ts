@@ -0,0 +1,216 @@
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey, TransactionSignature } from "@solana/web3.js";
+import { recordSpending } from "./caps";
+import { PROGRAM_ID } from "./constants";
+import { SolForgeError } from "./errors";
+import { computeScheduledPayout } from "./model";
+import { checkCrankRewardSchedule } from "./preflight";
+import { SendOptions } from "./sender";
+import type { SolForgeClient } from "./index";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Reward schedule account (mirrors on-chain `RewardSchedule` struct). */
+export interface RewardScheduleState {
+  vault: PublicKey;
+  id: BN;
+  recipient: PublicKey;
+  /** Fixed payout; 0 for a bps schedule. */
+  amountLamports: BN;
+  /** Share of `totalAccrued` paid per crank; 0 for a fixed schedule. */
+  amountBps: number;
+  intervalSeconds: BN;
+  nextPayoutAt: BN;
+  endTime: BN | null;
+  totalPaid: BN;
+  bump: number;
+}
+
+/** A schedule found by `listRewardSchedules`. */
+export interface RewardScheduleInfo {
+  address: PublicKey;
+  state: RewardScheduleState;
+}
+
+/** Per-payout amount: fixed lamports, or bps of the retained balance. */
+export type ScheduleAmount = { lamports: BN | number } | { bps: number };
+
+export interface RewardScheduleParams {
+  amount: ScheduleAmount;
+  intervalSeconds: number;
+  /** Unix time after which no payout is due (default: never ends). */
+  endTime?: number | null;
+}
+
+export interface NewRewardSchedule extends RewardScheduleParams {
+  recipient: PublicKey;
+}
+
+export interface CrankOptions extends SendOptions {
+  /**
+   * Keep cranking a schedule until it is no longer due, paying every
+   * interval missed since the last crank (default `false`: one payout per
+   * schedule per call).
+   */
+  catchUp?: boolean;
+}
+
+/**
+ * - `sent`: payout confirmed.
+ * - `skipped`: not sent because a preflight check failed (`error` says why,
+ *   e.g. `InsufficientBalance`).
+ * - `failed`: sent and rejected, or the send threw.
+ */
+export type CrankStatus = "sent" | "skipped" | "failed";
+
+export interface CrankResult {
+  schedule: PublicKey;
+  recipient: PublicKey;
+  amount: BN;
+  status: CrankStatus;
+  signature?: TransactionSignature;
+  error?: unknown;
+}
+
+export interface CrankReport {
+  results: CrankResult[];
+  totalPaid: BN;
+}
+
+// ---------------------------------------------------------------------------
+// Addresses & encoding
+// ---------------------------------------------------------------------------
+
+const SCHEDULE_SEED = Buffer.from("schedule");
+
+/**
+ * Derive a reward schedule PDA: seeds `["schedule", vault, id (u64 LE)]`.
+ *
+ * @param vault     Vault PDA.
+ * @param id        Schedule id.
+ * @param programId Program ID (defaults to on-chain address).
+ */
+export function findRewardScheduleAddress(
+  vault: PublicKey,
+  id: BN | number,
+  programId: PublicKey = PROGRAM_ID
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [SCHEDULE_SEED, vault.toBuffer(), new BN(id).toArrayLike(Buffer, "le", 8)],
+    programId
+  );
+}
+
+/** `(amount_lamports, amount_bps)` instruction arguments for `amount`. */
+export function scheduleAmountArgs(amount: ScheduleAmount): [BN, number] {
+  return "bps" in amount ? [new BN(0), amount.bps] : [new BN(amount.lamports), 0];
+}
+
+/** Whether `schedule` can be cranked at cluster time `now`. */
+export function isScheduleDue(schedule: RewardScheduleState, now: number): boolean {
+  return (
+    schedule.nextPayoutAt.lten(now) &&
+    (schedule.endTime === null || schedule.nextPayoutAt.lte(schedule.endTime))
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/** Every schedule of `client`'s vault, by id. */
+export async function fetchRewardSchedules(
+  client: SolForgeClient
+): Promise<RewardScheduleInfo[]> {
+  const coder = client.program.coder.accounts;
+  const accounts = await client.provider.connection.getProgramAccounts(
+    client.program.programId,
+    {
+      filters: [
+        { memcmp: coder.memcmp("rewardSchedule") },
+        // `vault` follows the 8-byte discriminator
+        { memcmp: { offset: 8, bytes: client.vaultPda.toBase58() } },
+      ],
+    }
+  );
+  return accounts
+    .map(({ pubkey, account }) => ({
+      address: pubkey,
+      state: coder.decode<RewardScheduleState>("rewardSchedule", account.data),
+    }))
+    .sort((a, b) => a.state.id.cmp(b.state.id));
+}
+
+// ---------------------------------------------------------------------------
+// Crank
+// ---------------------------------------------------------------------------
+
+/**
+ * Pay out every due schedule of `client`'s vault, earliest first. Payouts
+ * that would fail the program's checks at the current balance are skipped
+ * rather than sent. Any wallet can crank; it only pays the transaction fee.
+ */
+export async function crankDueSchedules(
+  client: SolForgeClient,
+  options: CrankOptions = {}
+): Promise<CrankReport> {
+  const { catchUp = false, ...sendOptions } = options;
+  const [schedules, vault, now] = await Promise.all([
+    fetchRewardSchedules(client),
+    client.getVaultState(),
+    client.getClusterTime(),
+  ]);
+  const results: CrankResult[] = [];
+  let totalPaid = new BN(0);
+  if (!vault) return { results, totalPaid };
+
+  const due = schedules
+    .filter(({ state }) => isScheduleDue(state, now))
+    .sort((a, b) => a.state.nextPayoutAt.cmp(b.state.nextPayoutAt));
+
+  for (const { address, state } of due) {
+    const entry = vault.allowlistEnabled
+      ? await client.getAllowlistEntry(state.recipient)
+      : null;
+    do {
+      const amount = computeScheduledPayout(
+        state.amountLamports,
+        state.amountBps,
+        vault.totalAccrued
+      );
+      const result: CrankResult = {
+        schedule: address,
+        recipient: state.recipient,
+        amount,
+        status: "sent",
+      };
+      results.push(result);
+      try {
+        checkCrankRewardSchedule(vault, state, entry, now);
+      } catch (err) {
+        if (!(err instanceof SolForgeError)) throw err;
+        Object.assign(result, { status: "skipped", error: err });
+        break;
+      }
+      try {
+        const sent = await client.sendInstructions(
+          [await client.crankRewardScheduleIx(address, state.recipient)],
+          sendOptions
+        );
+        result.signature = sent.signature;
+      } catch (err) {
+        Object.assign(result, { status: "failed", error: err });
+        break;
+      }
+      // Track what the program did so later payouts are computed right
+      recordSpending(vault, "distribution", amount, now);
+      vault.totalAccrued = vault.totalAccrued.sub(amount);
+      state.nextPayoutAt = state.nextPayoutAt.add(state.intervalSeconds);
+      state.totalPaid = state.totalPaid.add(amount);
+      totalPaid = totalPaid.add(amount);
+    } while (catchUp && isScheduleDue(state, now));
+  }
+  return { results, totalPaid };
+}
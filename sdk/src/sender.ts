@@ -0,0 +1,264 @@
+import { AnchorProvider, utils } from "@coral-xyz/anchor";
+import {
+  AddressLookupTableAccount,
+  Commitment,
+  ComputeBudgetProgram,
+  Connection,
+  Finality,
+  Transaction,
+  TransactionExpiredBlockheightExceededError,
+  TransactionInstruction,
+  TransactionMessage,
+  TransactionSignature,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { SolForgeEvent } from "./events";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Priority fee source, e.g. wrapping `getRecentPrioritizationFees` or a
+ * provider's fee API.
+ *
+ * @returns Compute unit price in micro-lamports.
+ */
+export type PriorityFeeEstimator = (
+  instructions: TransactionInstruction[]
+) => Promise<number>;
+
+export interface SendOptions {
+  /** Compute unit limit (default: none set, runtime default applies). */
+  computeUnitLimit?: number;
+  /** Priority fee in micro-lamports per compute unit. Wins over the estimator. */
+  computeUnitPrice?: number;
+  /** Called per send when `computeUnitPrice` is not set. */
+  priorityFeeEstimator?: PriorityFeeEstimator;
+  /** Confirmation commitment (default: the provider's, else `confirmed`). */
+  commitment?: Commitment;
+  skipPreflight?: boolean;
+  /** Re-sends with a fresh blockhash after the previous one expired (default 0). */
+  maxRetries?: number;
+  /** Stop waiting for confirmation after this long (default: until expiry). */
+  confirmTimeoutMs?: number;
+  /** Tables to compress account keys; if set, a v0 transaction is sent. */
+  lookupTables?: AddressLookupTableAccount[];
+}
+
+export interface SendResult {
+  signature: TransactionSignature;
+  slot: number;
+  /** Lamports paid in fees, or `null` if the transaction was not fetchable. */
+  fee: number | null;
+  events: SolForgeEvent[];
+}
+
+/** What a `TransactionSender` reports for a landed transaction. */
+export interface LandedTransaction {
+  signature: TransactionSignature;
+  slot: number;
+  fee: number | null;
+  logs: string[];
+}
+
+/**
+ * Signs, submits and confirms instructions for a client. Failures must
+ * throw; program failures should carry the transaction `logs` so they can
+ * be mapped to typed errors.
+ */
+export interface TransactionSender {
+  send(
+    instructions: TransactionInstruction[],
+    options: SendOptions
+  ): Promise<LandedTransaction>;
+}
+
+/**
+ * Confirmation did not arrive within `confirmTimeoutMs`. The transaction may
+ * still land — check `signature` before re-sending.
+ */
+export class ConfirmationTimeoutError extends Error {
+  constructor(readonly signature: TransactionSignature, timeoutMs: number) {
+    super(`Transaction ${signature} not confirmed after ${timeoutMs} ms`);
+    this.name = "ConfirmationTimeoutError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Compute budget
+// ---------------------------------------------------------------------------
+
+/**
+ * Prepend `ComputeBudget` instructions for the configured unit limit and
+ * price (resolving the estimator if no fixed price is set).
+ */
+export async function withComputeBudget(
+  instructions: TransactionInstruction[],
+  options: SendOptions
+): Promise<TransactionInstruction[]> {
+  const budget: TransactionInstruction[] = [];
+  if (options.computeUnitLimit !== undefined) {
+    budget.push(
+      ComputeBudgetProgram.setComputeUnitLimit({ units: options.computeUnitLimit })
+    );
+  }
+  const price =
+    options.computeUnitPrice ??
+    (await options.priorityFeeEstimator?.(instructions));
+  if (price !== undefined && price > 0) {
+    budget.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: price }));
+  }
+  return [...budget, ...instructions];
+}
+
+// ---------------------------------------------------------------------------
+// RPC sender
+// ---------------------------------------------------------------------------
+
+/**
+ * Reject with `ConfirmationTimeoutError` if `promise` has not settled after
+ * `timeoutMs` (no limit if unset).
+ */
+export function withConfirmTimeout<T>(
+  promise: Promise<T>,
+  signature: TransactionSignature,
+  timeoutMs?: number
+): Promise<T> {
+  if (timeoutMs === undefined) return promise;
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new ConfirmationTimeoutError(signature, timeoutMs)),
+      timeoutMs
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Read fee and logs of a confirmed transaction. A failed transaction (`err`
+ * from the confirmation) is thrown with its logs attached.
+ *
+ * @param confirmedSlot Slot of the confirmation, used if the transaction
+ *                      cannot be fetched yet.
+ */
+export async function fetchLandedTransaction(
+  connection: Connection,
+  signature: TransactionSignature,
+  confirmedSlot: number,
+  err: unknown,
+  commitment: Commitment
+): Promise<LandedTransaction> {
+  // `getTransaction` does not serve `processed`
+  const finality: Finality = commitment === "finalized" ? "finalized" : "confirmed";
+  const tx = await connection.getTransaction(signature, {
+    commitment: finality,
+    maxSupportedTransactionVersion: 0,
+  });
+  const logs = tx?.meta?.logMessages ?? [];
+  if (err) {
+    throw Object.assign(
+      new Error(`Transaction ${signature} failed: ${JSON.stringify(err)}`),
+      { logs }
+    );
+  }
+  return {
+    signature,
+    slot: tx?.slot ?? confirmedSlot,
+    fee: tx?.meta?.fee ?? null,
+    logs,
+  };
+}
+
+/**
+ * Default sender: signs with the client wallet and talks to the connection
+ * directly.
+ *
+ * Only blockhash expiry is retried — the transaction provably did not land.
+ * A timeout is not, since the transaction may still be processed.
+ */
+export class RpcSender implements TransactionSender {
+  /**
+   * @param connection Cluster connection.
+   * @param wallet     Fee payer and signer.
+   * @param commitment Default confirmation commitment.
+   */
+  constructor(
+    private readonly connection: Connection,
+    private readonly wallet: AnchorProvider["wallet"],
+    private readonly commitment: Commitment = "confirmed"
+  ) {}
+
+  async send(
+    instructions: TransactionInstruction[],
+    options: SendOptions
+  ): Promise<LandedTransaction> {
+    const { connection } = this;
+    const commitment = options.commitment ?? this.commitment;
+
+    for (let attempt = 0; ; attempt++) {
+      const { blockhash, lastValidBlockHeight } =
+        await connection.getLatestBlockhash(commitment);
+      const { signature, raw } = await this.sign(
+        instructions,
+        blockhash,
+        lastValidBlockHeight,
+        options.lookupTables
+      );
+
+      await connection.sendRawTransaction(raw, {
+        skipPreflight: options.skipPreflight,
+        preflightCommitment: commitment,
+      });
+      try {
+        const { context, value } = await withConfirmTimeout(
+          connection.confirmTransaction(
+            { signature, blockhash, lastValidBlockHeight },
+            commitment
+          ),
+          signature,
+          options.confirmTimeoutMs
+        );
+        return await fetchLandedTransaction(
+          connection,
+          signature,
+          context.slot,
+          value.err,
+          commitment
+        );
+      } catch (err) {
+        const expired = err instanceof TransactionExpiredBlockheightExceededError;
+        if (!expired || attempt >= (options.maxRetries ?? 0)) throw err;
+      }
+    }
+  }
+
+  /** Sign as a legacy transaction, or as v0 if lookup tables are given. */
+  private async sign(
+    instructions: TransactionInstruction[],
+    blockhash: string,
+    lastValidBlockHeight: number,
+    lookupTables?: AddressLookupTableAccount[]
+  ): Promise<{ signature: TransactionSignature; raw: Uint8Array }> {
+    const { wallet } = this;
+    if (lookupTables) {
+      const tx = await wallet.signTransaction(
+        new VersionedTransaction(
+          new TransactionMessage({
+            payerKey: wallet.publicKey,
+            recentBlockhash: blockhash,
+            instructions,
+          }).compileToV0Message(lookupTables)
+        )
+      );
+      return { signature: utils.bytes.bs58.encode(tx.signatures[0]), raw: tx.serialize() };
+    }
+    const tx = await wallet.signTransaction(
+      new Transaction({ feePayer: wallet.publicKey, blockhash, lastValidBlockHeight }).add(
+        ...instructions
+      )
+    );
+    return { signature: utils.bytes.bs58.encode(tx.signature!), raw: tx.serialize() };
+  }
+}
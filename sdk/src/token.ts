@@ -0,0 +1,150 @@
+import { BN } from "@coral-xyz/anchor";
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import { PROGRAM_ID } from "./constants";
+
+// ---------------------------------------------------------------------------
+// Token programs
+// ---------------------------------------------------------------------------
+
+export const TOKEN_PROGRAM_ID = new PublicKey(
+  "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"
+);
+
+export const TOKEN_2022_PROGRAM_ID = new PublicKey(
+  "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb"
+);
+
+export const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey(
+  "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL"
+);
+
+// ---------------------------------------------------------------------------
+// Token vault account type (mirrors on-chain TokenVault struct)
+// ---------------------------------------------------------------------------
+
+export interface TokenVaultState {
+  vault: PublicKey;
+  mint: PublicKey;
+  /** Token program of the mint (classic SPL or Token-2022). */
+  tokenProgram: PublicKey;
+  totalAccrued: BN;
+  bump: number;
+  tokenAccountBump: number;
+}
+
+// ---------------------------------------------------------------------------
+// Addresses
+// ---------------------------------------------------------------------------
+
+const TOKEN_VAULT_SEED = Buffer.from("token_vault");
+const VAULT_TOKENS_SEED = Buffer.from("vault_tokens");
+
+/**
+ * Derive the per-mint accounting PDA: seeds `["token_vault", vault, mint]`.
+ *
+ * @param vault     Vault PDA.
+ * @param mint      Token mint.
+ * @param programId Program ID (defaults to on-chain address).
+ */
+export function findTokenVaultAddress(
+  vault: PublicKey,
+  mint: PublicKey,
+  programId: PublicKey = PROGRAM_ID
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [TOKEN_VAULT_SEED, vault.toBuffer(), mint.toBuffer()],
+    programId
+  );
+}
+
+/**
+ * Derive the token account holding a vault's tokens of `mint`: seeds
+ * `["vault_tokens", vault, mint]`, owned by the vault PDA.
+ *
+ * @param vault     Vault PDA.
+ * @param mint      Token mint.
+ * @param programId Program ID (defaults to on-chain address).
+ */
+export function findVaultTokenAccountAddress(
+  vault: PublicKey,
+  mint: PublicKey,
+  programId: PublicKey = PROGRAM_ID
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [VAULT_TOKENS_SEED, vault.toBuffer(), mint.toBuffer()],
+    programId
+  );
+}
+
+/**
+ * Associated token account of `owner` for `mint`. Off-curve owners (PDAs)
+ * are allowed.
+ *
+ * @param tokenProgram Token program of the mint (defaults to classic SPL).
+ */
+export function getAssociatedTokenAddress(
+  mint: PublicKey,
+  owner: PublicKey,
+  tokenProgram: PublicKey = TOKEN_PROGRAM_ID
+): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [owner.toBuffer(), tokenProgram.toBuffer(), mint.toBuffer()],
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  )[0];
+}
+
+/**
+ * `CreateIdempotent` instruction of the associated token program: creates
+ * the ATA of `owner` if it does not exist yet, otherwise does nothing.
+ *
+ * @param payer        Rent payer; must sign.
+ * @param tokenProgram Token program of the mint (defaults to classic SPL).
+ */
+export function createAssociatedTokenAccountIdempotentIx(
+  payer: PublicKey,
+  owner: PublicKey,
+  mint: PublicKey,
+  tokenProgram: PublicKey = TOKEN_PROGRAM_ID
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+    keys: [
+      { pubkey: payer, isSigner: true, isWritable: true },
+      {
+        pubkey: getAssociatedTokenAddress(mint, owner, tokenProgram),
+        isSigner: false,
+        isWritable: true,
+      },
+      { pubkey: owner, isSigner: false, isWritable: false },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: tokenProgram, isSigner: false, isWritable: false },
+    ],
+    data: Buffer.from([1]),
+  });
+}
+
+/**
+ * Token program that owns `mint`.
+ *
+ * @throws If the mint does not exist or belongs to neither token program.
+ */
+export async function fetchTokenProgram(
+  connection: Connection,
+  mint: PublicKey
+): Promise<PublicKey> {
+  const info = await connection.getAccountInfo(mint);
+  if (!info) throw new Error(`Mint ${mint.toBase58()} not found`);
+  if (
+    !info.owner.equals(TOKEN_PROGRAM_ID) &&
+    !info.owner.equals(TOKEN_2022_PROGRAM_ID)
+  ) {
+    throw new Error(`${mint.toBase58()} is not an SPL token mint`);
+  }
+  return info.owner;
+}
@@ -0,0 +1,166 @@
+import { BN } from "@coral-xyz/anchor";
+import { sha256 } from "@noble/hashes/sha256";
+import { Connection, PublicKey } from "@solana/web3.js";
+import type { SpendingCapsState } from "./caps";
+import { PROGRAM_ID } from "./constants";
+
+// ---------------------------------------------------------------------------
+// Vault account type (mirrors on-chain Vault struct)
+// ---------------------------------------------------------------------------
+
+export interface VaultState {
+  authority: PublicKey;
+  namespace: PublicKey;
+  totalAccrued: BN;
+  feeBasisPoints: number;
+  burnPercentageBps: number;
+  delaySeconds: BN;
+  bump: number;
+  /** Id the next governance proposal will get. */
+  proposalCount: BN;
+  pendingAuthority: PublicKey | null;
+  authorityTransferReleaseTime: BN;
+  spendingCaps: SpendingCapsState;
+  /** Start of the current spending cap window. */
+  windowStart: BN;
+  /** `totalAccrued` at `windowStart`, the base for bps caps. */
+  windowStartBalance: BN;
+  distributedInWindow: BN;
+  burnedInWindow: BN;
+  /** Outflows to chosen recipients only pay active allowlist entries. */
+  allowlistEnabled: boolean;
+  /** Key that can pause the vault, separate from `authority`. */
+  guardian: PublicKey | null;
+  paused: boolean;
+  /** When the authority may unpause; 0 if no unpause is pending. */
+  unpauseReleaseTime: BN;
+  /** Id the next reward schedule will get. */
+  scheduleCount: BN;
+  /** Id the next distribution round will get. */
+  distributionCount: BN;
+}
+
+// ---------------------------------------------------------------------------
+// Layout
+// ---------------------------------------------------------------------------
+
+/** First 8 bytes of every vault account: `sha256("account:Vault")[..8]`. */
+export const VAULT_DISCRIMINATOR = Buffer.from(sha256("account:Vault").subarray(0, 8));
+
+/** Allocated size of a vault account (`Vault::INIT_SPACE`). */
+export const VAULT_ACCOUNT_SIZE = 261;
+
+/**
+ * Sequential borsh reader. Options are not padded, so field offsets after
+ * the first `Option` depend on the data.
+ */
+class BorshReader {
+  private offset = 0;
+
+  constructor(private readonly data: Buffer) {}
+
+  private take(length: number): Buffer {
+    if (this.offset + length > this.data.length) {
+      throw new Error(
+        `Vault data too short: need ${this.offset + length} bytes, got ${this.data.length}`
+      );
+    }
+    const bytes = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  u8(): number {
+    return this.take(1)[0];
+  }
+
+  u16(): number {
+    return this.take(2).readUInt16LE(0);
+  }
+
+  u64(): BN {
+    return new BN(this.take(8), "le");
+  }
+
+  i64(): BN {
+    return new BN(this.take(8), "le").fromTwos(64);
+  }
+
+  bool(): boolean {
+    return this.u8() !== 0;
+  }
+
+  pubkey(): PublicKey {
+    return new PublicKey(this.take(32));
+  }
+
+  option<T>(read: () => T): T | null {
+    return this.bool() ? read() : null;
+  }
+}
+
+/**
+ * Decode a vault account without Anchor, e.g. in a backend that only has a
+ * `Connection`. Same result as Anchor's coder for `"vault"`.
+ *
+ * @param data Raw account data, discriminator included.
+ * @throws If `data` is not a `Vault` account.
+ */
+export function decodeVault(data: Buffer): VaultState {
+  if (data.length < 8 || !VAULT_DISCRIMINATOR.equals(data.subarray(0, 8))) {
+    throw new Error("Invalid vault account discriminator");
+  }
+  const r = new BorshReader(data.subarray(8));
+  // Field order must match the Rust struct
+  return {
+    authority: r.pubkey(),
+    namespace: r.pubkey(),
+    totalAccrued: r.u64(),
+    feeBasisPoints: r.u16(),
+    burnPercentageBps: r.u16(),
+    delaySeconds: r.i64(),
+    bump: r.u8(),
+    proposalCount: r.u64(),
+    pendingAuthority: r.option(() => r.pubkey()),
+    authorityTransferReleaseTime: r.i64(),
+    spendingCaps: {
+      windowSeconds: r.i64(),
+      distributionLamports: r.u64(),
+      distributionBps: r.u16(),
+      burnLamports: r.u64(),
+      burnBps: r.u16(),
+    },
+    windowStart: r.i64(),
+    windowStartBalance: r.u64(),
+    distributedInWindow: r.u64(),
+    burnedInWindow: r.u64(),
+    allowlistEnabled: r.bool(),
+    guardian: r.option(() => r.pubkey()),
+    paused: r.bool(),
+    unpauseReleaseTime: r.i64(),
+    scheduleCount: r.u64(),
+    distributionCount: r.u64(),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/**
+ * Fetch and decode the vault at `address`.
+ *
+ * @param programId Program that owns initialized vaults.
+ * @returns `null` if the vault is not initialized: no account, or only
+ *          lamports sent to the PDA before `initialize_vault`.
+ * @throws On RPC failures, or if the account holds something else.
+ */
+export async function fetchVaultState(
+  connection: Connection,
+  address: PublicKey,
+  programId: PublicKey = PROGRAM_ID
+): Promise<VaultState | null> {
+  const info = await connection.getAccountInfo(address);
+  if (!info || !info.owner.equals(programId)) return null;
+  return decodeVault(info.data);
+}
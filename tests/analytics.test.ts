@@ -0,0 +1,91 @@
+import { BN } from "@coral-xyz/anchor";
+import { Keypair } from "@solana/web3.js";
+import { expect } from "chai";
+import { computeVaultAnalytics, IndexedEvent, SolForgeEvent } from "../sdk/src";
+
+const DAY = 86_400;
+
+let slot = 0;
+function indexed(event: SolForgeEvent, blockTime: number): IndexedEvent {
+  slot++;
+  return { ...event, signature: `sig${slot}`, slot, blockTime, index: 0 };
+}
+
+describe("vault analytics", () => {
+  it("averages per day over windows longer than 2^26 seconds", () => {
+    const days = 20_000;
+    const net = new BN(days).mul(new BN(1_000_000_000));
+    const events = [
+      indexed(
+        {
+          name: "FeeAccrued",
+          data: {
+            payer: Keypair.generate().publicKey,
+            gross: net,
+            burned: new BN(0),
+            net,
+            totalAccrued: net,
+          },
+        },
+        1_700_000_000
+      ),
+    ];
+
+    const report = computeVaultAnalytics(events, { from: 0, to: days * DAY });
+    expect(days * DAY).to.be.greaterThan(2 ** 26);
+    expect(report.runway.inflowPerDay.toString()).to.equal("1000000000");
+    expect(report.burnedPerDay.isZero()).to.equal(true);
+  });
+
+  it("takes the retained balance from the latest event that reports it", () => {
+    const distribution = Keypair.generate().publicKey;
+    const fee = indexed(
+      {
+        name: "FeeAccrued",
+        data: {
+          payer: Keypair.generate().publicKey,
+          gross: new BN(1_000),
+          burned: new BN(0),
+          net: new BN(1_000),
+          totalAccrued: new BN(1_000),
+        },
+      },
+      1_000
+    );
+    const swept = indexed(
+      {
+        name: "SurplusSwept",
+        data: { amount: new BN(500), burned: false, totalAccrued: new BN(1_500) },
+      },
+      2_000
+    );
+    const created = indexed(
+      {
+        name: "DistributionCreated",
+        data: {
+          distribution,
+          id: new BN(0),
+          merkleRoot: new Array(32).fill(0),
+          totalAmount: new BN(1_200),
+          numRecipients: 2,
+          expiresAt: new BN(10_000),
+          remaining: new BN(300),
+        },
+      },
+      3_000
+    );
+    const returned = indexed(
+      {
+        name: "DistributionSwept",
+        data: { distribution, amount: new BN(400), totalAccrued: new BN(700) },
+      },
+      4_000
+    );
+
+    const retained = (events: IndexedEvent[]) =>
+      computeVaultAnalytics(events).runway.retained.toNumber();
+    expect(retained([fee, swept])).to.equal(1_500);
+    expect(retained([fee, swept, created])).to.equal(300);
+    expect(retained([fee, swept, created, returned])).to.equal(700);
+  });
+});
@@ -0,0 +1,237 @@
+import { utils, Wallet } from "@coral-xyz/anchor";
+import {
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import { BankrunProvider } from "anchor-bankrun";
+import { Clock, ProgramTestContext, startAnchor } from "solana-bankrun";
+import {
+  getAssociatedTokenAddress,
+  LandedTransaction,
+  PROGRAM_ID,
+  SolForgeClient,
+  SolForgeClientOptions,
+  SOLFORGE_IDL,
+  TOKEN_PROGRAM_ID,
+  TransactionSender,
+} from "../sdk/src";
+
+// Base SPL layouts, shared by classic SPL and extension-less Token-2022
+const MINT_SIZE = 82;
+const TOKEN_ACCOUNT_SIZE = 165;
+const MINT_SUPPLY_OFFSET = 36;
+const TOKEN_AMOUNT_OFFSET = 64;
+
+export interface VaultParams {
+  feeBps?: number;
+  burnBps?: number;
+  delaySeconds?: number;
+  guardian?: PublicKey;
+}
+
+/**
+ * Sends through the bank directly: bankrun's connection cannot fetch
+ * blockhashes or transactions, which the default `RpcSender` needs.
+ */
+class BankrunSender implements TransactionSender {
+  constructor(
+    private readonly context: ProgramTestContext,
+    private readonly signer: Keypair
+  ) {}
+
+  async send(instructions: TransactionInstruction[]): Promise<LandedTransaction> {
+    const { banksClient } = this.context;
+    const tx = new Transaction().add(...instructions);
+    tx.feePayer = this.signer.publicKey;
+    [tx.recentBlockhash] = (await banksClient.getLatestBlockhash())!;
+    tx.sign(this.signer);
+
+    const { result, meta } = await banksClient.tryProcessTransaction(tx);
+    const logs = meta?.logMessages ?? [];
+    if (result) {
+      throw Object.assign(new Error(`Transaction failed: ${result}`), { logs });
+    }
+    const fee = await banksClient.getFeeForMessage(tx.compileMessage());
+    return {
+      signature: utils.bytes.bs58.encode(tx.signature!),
+      slot: Number(await banksClient.getSlot()),
+      fee: fee === null ? null : Number(fee),
+      logs,
+    };
+  }
+}
+
+/**
+ * In-process program test harness (solana-bankrun). Each test gets its own
+ * vault via `freshVault`, and the cluster clock can be moved with `warp`.
+ *
+ * bankrun's connection only serves account reads, so anything that needs
+ * signatures, transaction history or blockhash RPCs lives in `rpc.test.ts`.
+ */
+export class Harness {
+  private constructor(readonly context: ProgramTestContext) {}
+
+  /** Boot a bank with the program from `target/deploy` loaded. */
+  static async start(): Promise<Harness> {
+    return new Harness(await startAnchor(".", [], []));
+  }
+
+  /** Funded default signer; authority of vaults from `freshVault`. */
+  get payer(): Keypair {
+    return this.context.payer;
+  }
+
+  /**
+   * A client that signs with `wallet`. The client reads accounts through the
+   * `BankrunProvider` connection; sends go through `BankrunSender`.
+   */
+  client(
+    wallet: Keypair = this.payer,
+    options: SolForgeClientOptions = {}
+  ): SolForgeClient {
+    const provider = new BankrunProvider(this.context, new Wallet(wallet));
+    return SolForgeClient.create(
+      provider,
+      SOLFORGE_IDL,
+      PROGRAM_ID,
+      { ...options, sender: new BankrunSender(this.context, wallet) }
+    );
+  }
+
+  /**
+   * Initialize a vault under a random namespace, owned by `payer`.
+   * Defaults: 5% fee, 20% burn, program default delay.
+   */
+  async freshVault(
+    params: VaultParams = {},
+    options: SolForgeClientOptions = {}
+  ): Promise<SolForgeClient> {
+    const client = this.client(this.payer, {
+      ...options,
+      namespace: Keypair.generate().publicKey,
+    });
+    await client.initializeVault(
+      params.feeBps ?? 500,
+      params.burnBps ?? 2000,
+      params.delaySeconds,
+      params.guardian
+    );
+    return client;
+  }
+
+  /**
+   * Move the cluster clock forward by `seconds`. Also advances one slot so
+   * that re-sending an identical instruction gets a new blockhash.
+   */
+  async warp(seconds: number): Promise<void> {
+    const { slot, unixTimestamp } = await this.context.banksClient.getClock();
+    this.context.warpToSlot(slot + BigInt(1));
+    // Warping may re-estimate the timestamp; pin it so deltas are exact
+    const clock = await this.context.banksClient.getClock();
+    this.context.setClock(
+      new Clock(
+        clock.slot,
+        clock.epochStartTimestamp,
+        clock.epoch,
+        clock.leaderScheduleEpoch,
+        unixTimestamp + BigInt(seconds)
+      )
+    );
+  }
+
+  /** Current cluster unix time. */
+  async now(): Promise<number> {
+    return Number((await this.context.banksClient.getClock()).unixTimestamp);
+  }
+
+  /** A new keypair holding `lamports` (default 10 SOL). */
+  fund(lamports: number = 10 * LAMPORTS_PER_SOL): Keypair {
+    const keypair = Keypair.generate();
+    this.context.setAccount(keypair.publicKey, {
+      lamports,
+      data: Buffer.alloc(0),
+      owner: SystemProgram.programId,
+      executable: false,
+    });
+    return keypair;
+  }
+
+  async balance(address: PublicKey): Promise<number> {
+    return Number(await this.context.banksClient.getBalance(address));
+  }
+
+  // ─── SPL tokens (written directly into the bank) ─────────────────────
+
+  /** A new mint without mint or freeze authority. */
+  createMint(decimals = 6, tokenProgram: PublicKey = TOKEN_PROGRAM_ID): PublicKey {
+    const mint = Keypair.generate().publicKey;
+    const data = Buffer.alloc(MINT_SIZE);
+    data.writeUInt8(decimals, 44);
+    data.writeUInt8(1, 45); // is_initialized
+    this.setTokenAccount(mint, data, tokenProgram);
+    return mint;
+  }
+
+  /**
+   * Credit `amount` to the associated token account of `owner` (created if
+   * missing) and raise the mint's supply to match.
+   *
+   * @returns The token account.
+   */
+  async mintTo(
+    mint: PublicKey,
+    owner: PublicKey,
+    amount: number | bigint,
+    tokenProgram: PublicKey = TOKEN_PROGRAM_ID
+  ): Promise<PublicKey> {
+    const ata = getAssociatedTokenAddress(mint, owner, tokenProgram);
+    const existing = await this.context.banksClient.getAccount(ata);
+    const account = existing
+      ? Buffer.from(existing.data)
+      : Buffer.alloc(TOKEN_ACCOUNT_SIZE);
+    if (!existing) {
+      mint.toBuffer().copy(account, 0);
+      owner.toBuffer().copy(account, 32);
+      account.writeUInt8(1, 108); // state: Initialized
+    }
+    account.writeBigUInt64LE(
+      account.readBigUInt64LE(TOKEN_AMOUNT_OFFSET) + BigInt(amount),
+      TOKEN_AMOUNT_OFFSET
+    );
+    this.setTokenAccount(ata, account, tokenProgram);
+
+    const mintData = Buffer.from(
+      (await this.context.banksClient.getAccount(mint))!.data
+    );
+    mintData.writeBigUInt64LE(
+      mintData.readBigUInt64LE(MINT_SUPPLY_OFFSET) + BigInt(amount),
+      MINT_SUPPLY_OFFSET
+    );
+    this.setTokenAccount(mint, mintData, tokenProgram);
+    return ata;
+  }
+
+  async tokenBalance(tokenAccount: PublicKey): Promise<number> {
+    const account = await this.context.banksClient.getAccount(tokenAccount);
+    if (!account) return 0;
+    return Number(Buffer.from(account.data).readBigUInt64LE(TOKEN_AMOUNT_OFFSET));
+  }
+
+  async mintSupply(mint: PublicKey): Promise<number> {
+    const account = await this.context.banksClient.getAccount(mint);
+    return Number(Buffer.from(account!.data).readBigUInt64LE(MINT_SUPPLY_OFFSET));
+  }
+
+  private setTokenAccount(address: PublicKey, data: Buffer, owner: PublicKey): void {
+    this.context.setAccount(address, {
+      lamports: LAMPORTS_PER_SOL,
+      data,
+      owner,
+      executable: false,
+    });
+  }
+}
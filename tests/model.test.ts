@@ -0,0 +1,163 @@
+import { BN } from "@coral-xyz/anchor";
+import { expect } from "chai";
+import {
+  compareScenarios,
+  constantFlow,
+  MIN_BURN_AMOUNT_LAMPORTS as MIN_BURN_AMOUNT,
+  PROPOSAL_EXECUTION_WINDOW_SECONDS as EXECUTION_WINDOW,
+  replayFlow,
+  runScenario,
+  steppedFlow,
+} from "../sdk/src";
+
+const DAY = 86_400;
+const HOUR = 3_600;
+const SOL = 1_000_000_000;
+
+const amounts = (payments: BN[]) => payments.map((p) => p.toNumber());
+
+describe("scenario model", () => {
+  describe("fee flows", () => {
+    it("applies the latest step starting at or before each period", () => {
+      const flow = steppedFlow([
+        { fromPeriod: 5, amountLamports: new BN(300), paymentsPerPeriod: 2 },
+        { fromPeriod: 2, amountLamports: new BN(100) },
+      ]);
+
+      expect(amounts(flow(0))).to.deep.equal([]);
+      expect(amounts(flow(2))).to.deep.equal([100]);
+      expect(amounts(flow(4))).to.deep.equal([100]);
+      expect(amounts(flow(5))).to.deep.equal([300, 300]);
+    });
+
+    it("replays recorded payments in the period they were made", () => {
+      const flow = replayFlow(
+        [
+          { timestamp: 999, amountLamports: new BN(1) },
+          { timestamp: 1_000, amountLamports: new BN(2) },
+          { timestamp: 1_000 + DAY - 1, amountLamports: new BN(3) },
+          { timestamp: 1_000 + 3 * DAY, amountLamports: new BN(4) },
+        ],
+        1_000,
+        DAY
+      );
+
+      expect(amounts(flow(0))).to.deep.equal([2, 3]);
+      expect(amounts(flow(1))).to.deep.equal([]);
+      expect(amounts(flow(3))).to.deep.equal([4]);
+    });
+  });
+
+  describe("runScenario", () => {
+    it("applies a proposal from the first period after its release", () => {
+      const report = runScenario({
+        periods: 5,
+        flow: constantFlow(new BN(SOL)),
+        params: { burnPercentageBps: 1_000 },
+        proposals: [{ atPeriod: 2, burnPercentageBps: 5_000 }],
+      });
+
+      expect(report.periods.map((p) => p.burnPercentageBps)).to.deep.equal([
+        1_000, 1_000, 1_000, 5_000, 5_000,
+      ]);
+      expect(report.periods[2].autoBurned.toNumber()).to.equal(SOL / 10);
+      expect(report.periods[3].autoBurned.toNumber()).to.equal(SOL / 2);
+      expect(report.totalBurned.toNumber()).to.equal((3 * SOL) / 10 + SOL);
+    });
+
+    it("drops a proposal whose execution window closed before a period start", () => {
+      const scenario = {
+        periods: 3,
+        flow: constantFlow(new BN(SOL)),
+        params: { burnPercentageBps: 1_000 },
+        proposals: [{ atPeriod: 0, burnPercentageBps: 5_000 }],
+      };
+
+      // Released after one day; the next period starts exactly at the end
+      // of the window, which is still executable
+      const atWindowEnd = runScenario({
+        ...scenario,
+        periodSeconds: DAY + EXECUTION_WINDOW,
+      });
+      expect(atWindowEnd.periods.map((p) => p.burnPercentageBps)).to.deep.equal([
+        1_000, 5_000, 5_000,
+      ]);
+
+      const pastWindow = runScenario({
+        ...scenario,
+        periodSeconds: DAY + EXECUTION_WINDOW + 1,
+      });
+      expect(pastWindow.periods.map((p) => p.burnPercentageBps)).to.deep.equal([
+        1_000, 1_000, 1_000,
+      ]);
+    });
+
+    it("times later proposals with a newly executed delay", () => {
+      const report = runScenario({
+        periods: 36,
+        periodSeconds: HOUR,
+        flow: constantFlow(new BN(SOL)),
+        params: { burnPercentageBps: 1_000, delaySeconds: DAY },
+        proposals: [
+          { atPeriod: 0, delaySeconds: HOUR },
+          // Made under the old delay, so still released 24 periods later
+          { atPeriod: 10, burnPercentageBps: 2_000 },
+          { atPeriod: 30, burnPercentageBps: 5_000 },
+        ],
+      });
+
+      const burnBps = (period: number) => report.periods[period].burnPercentageBps;
+      expect(burnBps(30)).to.equal(1_000);
+      expect(burnBps(31)).to.equal(5_000);
+      expect(burnBps(33)).to.equal(5_000);
+      expect(burnBps(34)).to.equal(2_000);
+    });
+
+    it("skips payouts below the dust floor", () => {
+      const report = runScenario({
+        periods: 3,
+        flow: constantFlow(new BN(SOL)),
+        params: { burnPercentageBps: 0 },
+        payout: { distributeBps: 10, manualBurnBps: 5 },
+      });
+      const [first, second, third] = report.periods;
+
+      // 0.1% of 1 SOL is exactly the floor; 0.05% of the rest is below it
+      expect(first.distributed.toNumber()).to.equal(MIN_BURN_AMOUNT);
+      expect(first.manualBurned.toNumber()).to.equal(0);
+      expect(first.retained.toNumber()).to.equal(SOL - MIN_BURN_AMOUNT);
+      expect(second.manualBurned.toNumber()).to.equal(0);
+      expect(third.manualBurned.toNumber()).to.be.at.least(MIN_BURN_AMOUNT);
+      expect(report.totalBurned.eq(third.manualBurned)).to.equal(true);
+    });
+  });
+
+  describe("compareScenarios", () => {
+    it("runs one scenario per parameter set, in order", () => {
+      const scenario = {
+        periods: 4,
+        flow: steppedFlow([
+          { fromPeriod: 0, amountLamports: new BN(SOL) },
+          { fromPeriod: 2, amountLamports: new BN(2 * SOL) },
+        ]),
+        payout: { distributeBps: 1_000 },
+      };
+
+      const results = compareScenarios(scenario, [
+        { label: "current", params: { burnPercentageBps: 1_000 } },
+        { label: "aggressive", params: { burnPercentageBps: 5_000 } },
+      ]);
+
+      expect(results.map((r) => r.label)).to.deep.equal(["current", "aggressive"]);
+      expect(results.map((r) => r.effectiveBurnBps)).to.deep.equal([1_000, 5_000]);
+      expect(results[0].totalGross.toNumber()).to.equal(6 * SOL);
+      expect(results[1].totalGross.toNumber()).to.equal(6 * SOL);
+      expect(results[1].retained.lt(results[0].retained)).to.equal(true);
+
+      expect(results[1]).to.deep.equal({
+        label: "aggressive",
+        ...runScenario({ ...scenario, params: { burnPercentageBps: 5_000 } }),
+      });
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import * as anchor from "@coral-xyz/anchor";
+import { BN, Program } from "@coral-xyz/anchor";
+import {
+  analyticsToCsv,
+  MemoryEventStore,
+  MIN_BURN_AMOUNT_LAMPORTS as MIN_BURN_AMOUNT,
+  parseTransaction,
+  SolForgeClient,
+  SolForgeIdl,
+  SolForgeIndexer,
+} from "../sdk/src";
+import {
+  Keypair,
+  LAMPORTS_PER_SOL,
+  NONCE_ACCOUNT_LENGTH,
+  SystemProgram,
+  Transaction,
+} from "@solana/web3.js";
+import { expect } from "chai";
+
+// Features that read signatures / transaction history or fetch blockhashes
+// over RPC, which bankrun does not serve. Run against a local validator.
+
+describe("sol_forge (rpc)", () => {
+  const provider = anchor.AnchorProvider.env();
+  anchor.setProvider(provider);
+
+  const program = anchor.workspace.SolForge as Program<SolForgeIdl>;
+  const authority = provider.wallet;
+  const client = SolForgeClient.create(provider, program.idl, program.programId, {
+    namespace: Keypair.generate().publicKey,
+  });
+
+  before(async () => {
+    await client.initializeVault(500, 2000);
+    await client.accrueFee(LAMPORTS_PER_SOL);
+  });
+
+  it("decodes events from a confirmed transaction", async () => {
+    const result = await client.accrueFee(100_000_000);
+    const events = await client.getTransactionEvents(result.signature);
+    expect(result.fee).to.be.greaterThan(0);
+
+    expect(events).to.have.lengthOf(1);
+    const [event] = events;
+    if (event.name !== "FeeAccrued") return expect.fail("no FeeAccrued");
+    expect(event.data.burned.toNumber()).to.equal(20_000_000);
+  });
+
+  it("lists every vault of the program", async () => {
+    const addresses = (await client.listVaults()).map((v) => v.address.toBase58());
+    expect(addresses).to.include(client.vaultPda.toBase58());
+  });
+
+  it("lists every proposal with its status", async () => {
+    const first = await client.proposeParameterUpdate({ burnBps: 5000 });
+    const second = await client.proposeParameterUpdate({ delaySeconds: 7200 });
+    await client.cancelParameterProposal(first.id);
+
+    const proposals = await client.listProposals();
+    const find = (id: BN) => proposals.find((p) => p.id.eq(id))!;
+    expect(second.id.toNumber()).to.equal(first.id.toNumber() + 1);
+    expect(find(first.id).status).to.equal("canceled");
+    const pending = find(second.id);
+    expect(pending.status).to.equal("pending");
+    expect(pending.address.toBase58()).to.equal(second.proposal.toBase58());
+    expect(pending.proposed.delaySeconds.toNumber()).to.equal(7200);
+    expect(pending.secondsRemaining).to.be.greaterThan(0);
+    expect(pending.state.proposer.toBase58()).to.equal(authority.publicKey.toBase58());
+
+    await client.cancelParameterProposal(second.id);
+  });
+
+  it("pays several recipients in one batched transaction", async () => {
+    const recipients = [Keypair.generate(), Keypair.generate(), Keypair.generate()];
+    const vaultBefore = await client.getVaultState();
+
+    const report = await client.distributeRewardsBatch(
+      recipients.map((r) => ({ recipient: r.publicKey, amount: MIN_BURN_AMOUNT }))
+    );
+
+    expect(report.results.map((r) => r.status)).to.deep.equal(["sent", "sent", "sent"]);
+    expect(new Set(report.results.map((r) => r.signature)).size).to.equal(1);
+    expect(report.retryable).to.be.empty;
+    const vaultAfter = await client.getVaultState();
+    expect(vaultAfter.totalAccrued.toNumber()).to.equal(
+      vaultBefore.totalAccrued.toNumber() - 3 * MIN_BURN_AMOUNT
+    );
+  });
+
+  it("submits a durable-nonce burn signed out of band", async () => {
+    const nonceAccount = Keypair.generate();
+    await provider.sendAndConfirm(
+      new Transaction().add(
+        ...SystemProgram.createNonceAccount({
+          fromPubkey: authority.publicKey,
+          noncePubkey: nonceAccount.publicKey,
+          authorizedPubkey: authority.publicKey,
+          lamports: await provider.connection.getMinimumBalanceForRentExemption(
+            NONCE_ACCOUNT_LENGTH
+          ),
+        }).instructions
+      ),
+      [nonceAccount]
+    );
+
+    // No wallet: builds and submits, never signs
+    const readOnly = SolForgeClient.create(
+      provider.connection,
+      program.idl,
+      program.programId,
+      { namespace: client.namespace }
+    );
+    const unsigned = await readOnly.buildOfflineTransaction(
+      [await readOnly.burnSolIx(MIN_BURN_AMOUNT, authority.publicKey)],
+      { nonceAccount: nonceAccount.publicKey, feePayer: authority.publicKey }
+    );
+    const request = readOnly.toSigningRequest(unsigned);
+    expect(request.missingSigners).to.deep.equal([authority.publicKey.toBase58()]);
+    expect(request.instructions.map((ix) => ix.name)).to.deep.equal([
+      "AdvanceNonceAccount",
+      "burnSol",
+    ]);
+    expect(request.instructions[1].args).to.deep.equal({
+      amountLamports: MIN_BURN_AMOUNT.toString(),
+    });
+
+    // Approver signs the JSON request elsewhere
+    const signed = await authority.signTransaction(
+      parseTransaction(JSON.parse(JSON.stringify(request)))
+    );
+    const before = await readOnly.getVaultState();
+    const result = await readOnly.submitSigned(signed.serialize().toString("base64"));
+
+    expect(result.events.map((e) => e.name)).to.deep.equal(["SolBurned"]);
+    const after = await readOnly.getVaultState();
+    expect(after.totalAccrued.toNumber()).to.equal(
+      before.totalAccrued.toNumber() - MIN_BURN_AMOUNT
+    );
+  });
+
+  it("refuses to send from a read-only client", async () => {
+    const readOnly = SolForgeClient.create(
+      provider.connection,
+      program.idl,
+      program.programId,
+      { namespace: client.namespace }
+    );
+    expect(await readOnly.getVaultState()).to.not.be.null;
+    try {
+      await readOnly.accrueFee(MIN_BURN_AMOUNT);
+      expect.fail("should have thrown");
+    } catch (err: any) {
+      expect(err.message).to.contain("Read-only client");
+    }
+  });
+
+  it("indexes vault history and is idempotent across syncs", async () => {
+    const store = new MemoryEventStore();
+    const indexer = new SolForgeIndexer(client, store);
+
+    const first = await indexer.sync();
+    expect(first.events).to.be.greaterThan(0);
+    const accruals = await store.getEvents({ name: "FeeAccrued" });
+    expect(accruals.length).to.be.greaterThan(0);
+
+    await indexer.sync();
+    expect(await store.getEvents({ name: "FeeAccrued" })).to.have.lengthOf(
+      accruals.length
+    );
+  });
+
+  it("computes analytics from indexed events", async () => {
+    const store = new MemoryEventStore();
+    await new SolForgeIndexer(client, store).sync();
+
+    const report = await client.getAnalytics(store, { bucket: "hour" });
+    const vault = await client.getVaultState();
+    expect(report.ratios.configuredBps).to.equal(2000);
+    expect(report.ratios.autoBurnBps).to.equal(2000);
+    expect(report.runway.retained.eq(vault.totalAccrued)).to.be.true;
+    expect(report.topPayers[0].payer.toBase58()).to.equal(
+      authority.publicKey.toBase58()
+    );
+    expect(report.recipients).to.have.lengthOf(3);
+    const bucketed = report.buckets.reduce((sum, b) => sum.add(b.gross), new BN(0));
+    expect(bucketed.eq(report.totals.gross)).to.be.true;
+
+    const csv = analyticsToCsv(report).recipients.trim().split("\n");
+    expect(csv[0]).to.equal("recipient,amount,distributions");
+    expect(csv).to.have.lengthOf(4);
+  });
+
+  it("lists schedules and cranks the due ones", async () => {
+    const recipients = [Keypair.generate().publicKey, Keypair.generate().publicKey];
+    const { id } = await client.createRewardSchedule({
+      recipient: recipients[0],
+      amount: { lamports: MIN_BURN_AMOUNT },
+      intervalSeconds: 1,
+    });
+    const later = await client.createRewardSchedule({
+      recipient: recipients[1],
+      amount: { lamports: MIN_BURN_AMOUNT },
+      intervalSeconds: 86_400,
+    });
+    expect(later.id.eq(id.addn(1))).to.be.true;
+    expect((await client.listRewardSchedules()).map((s) => s.state.id.toNumber())).to.deep.equal(
+      [id.toNumber(), later.id.toNumber()]
+    );
+    await new Promise((resolve) => setTimeout(resolve, 2_000));
+
+    const report = await client.crankDueSchedules();
+
+    expect(report.results.map((r) => r.status)).to.deep.equal(["sent"]);
+    expect(report.results[0].recipient.toBase58()).to.equal(recipients[0].toBase58());
+    expect(report.totalPaid.toNumber()).to.equal(MIN_BURN_AMOUNT);
+    expect(await provider.connection.getBalance(recipients[0])).to.equal(MIN_BURN_AMOUNT);
+  });
+
+  it("traces lamports sent straight to the vault and sweeps them", async () => {
+    const direct = 10_000_000;
+    const before = await client.getVaultSurplus();
+    const signature = await provider.sendAndConfirm(
+      new Transaction().add(
+        SystemProgram.transfer({
+          fromPubkey: authority.publicKey,
+          toPubkey: client.vaultPda,
+          lamports: direct,
+        })
+      )
+    );
+
+    const report = await client.reconcile();
+    expect(report.surplus.sub(before.surplus).toNumber()).to.equal(direct);
+    const transfer = report.discrepancies.find((d) => d.signature === signature);
+    expect(transfer.cause).to.equal("direct-transfer");
+    expect(transfer.amount.toNumber()).to.equal(direct);
+    expect(transfer.feePayer.toBase58()).to.equal(authority.publicKey.toBase58());
+    expect(report.unexplained.isZero()).to.be.true;
+
+    await client.sweepSurplus();
+    expect((await client.getVaultSurplus()).surplus.isZero()).to.be.true;
+  });
+
+  it("lists allowlist entries with their status", async () => {
+    const recipient = Keypair.generate().publicKey;
+    await client.proposeAllowlistAddition(recipient);
+
+    const entries = await client.listAllowlist();
+    const entry = entries.find((e) => e.state.recipient.equals(recipient));
+    expect(entry.status).to.equal("pending");
+    expect(entry.address.toBase58()).to.equal(
+      client.allowlistEntryAddress(recipient).toBase58()
+    );
+  });
+});
@@ -1,123 +1,314 @@
-import * as anchor from "@coral-xyz/anchor";
-import { Program, AnchorError, BN } from "@coral-xyz/anchor";
-import { SolForge } from "../target/types/sol_forge";
-import { PublicKey, Keypair, SystemProgram, LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { BN, Idl } from "@coral-xyz/anchor";
+import {
+  AlreadyClaimedError,
+  AmountTooSmallError,
+  BPS_DENOMINATOR,
+  computeBurnSplit,
+  computeFeeQuote,
+  decodeVault,
+  DEFAULT_DELAY_SECONDS as DEFAULT_DELAY,
+  DistributionExpiredError,
+  DistributionNotExpiredError,
+  DistributionTree,
+  findVaultTokenAccountAddress,
+  getAssociatedTokenAddress,
+  INCINERATOR,
+  InsufficientBalanceError,
+  InvalidBurnPercentageError,
+  InvalidDelayError,
+  InvalidFeeRateError,
+  InvalidProofError,
+  InvalidScheduleError,
+  InvalidSpendingCapError,
+  JsonFileEventStore,
+  MAX_DELAY_SECONDS as MAX_DELAY,
+  MemoryEventStore,
+  MIN_BURN_AMOUNT_LAMPORTS as MIN_BURN_AMOUNT,
+  MIN_DELAY_SECONDS as MIN_DELAY,
+  NoChangeProposedError,
+  NoPendingUpdateError,
+  NoSurplusError,
+  PausedError,
+  PROPOSAL_EXECUTION_WINDOW_SECONDS,
+  ProposalExpiredError,
+  RecipientNotAllowedError,
+  ScheduleEndedError,
+  ScheduleNotDueError,
+  SOLFORGE_IDL,
+  SolForgeClient,
+  SolForgeIndexer,
+  SpendingCapExceededError,
+  SpendingCapsParams,
+  TimelockNotExpiredError,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  UnauthorizedError,
+  VAULT_ACCOUNT_SIZE,
+} from "../sdk/src";
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  LAMPORTS_PER_SOL,
+} from "@solana/web3.js";
 import { expect } from "chai";
-
-// Solana's native incinerator address
-const INCINERATOR = new PublicKey("1nc1nerator11111111111111111111111111111111");
-
-const MIN_BURN_AMOUNT = 1_000_000; // 0.001 SOL
-const DEFAULT_DELAY = 86_400;
-const MIN_DELAY = 3_600;
-const MAX_DELAY = 604_800;
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Harness } from "./harness";
 
 describe("sol_forge", () => {
-  const provider = anchor.AnchorProvider.env();
-  anchor.setProvider(provider);
-
-  const program = anchor.workspace.SolForge as Program<SolForge>;
-  const authority = provider.wallet;
-
-  let vaultPda: PublicKey;
-  let vaultBump: number;
+  let harness: Harness;
+  // Fresh vault (5% fee, 20% burn, default delay) for every test
+  let client: SolForgeClient;
 
   before(async () => {
-    [vaultPda, vaultBump] = PublicKey.findProgramAddressSync(
-      [Buffer.from("vault")],
-      program.programId
-    );
+    harness = await Harness.start();
+  });
+
+  beforeEach(async () => {
+    client = await harness.freshVault();
   });
 
   // ─── Helper ──────────────────────────────────────────────────────────
 
-  async function airdrop(pubkey: PublicKey, sol: number) {
-    const sig = await provider.connection.requestAirdrop(
-      pubkey,
-      sol * LAMPORTS_PER_SOL
-    );
-    await provider.connection.confirmTransaction(sig);
+  async function getVault() {
+    const vault = await client.getVaultState();
+    if (!vault) throw new Error("vault not initialized");
+    return vault;
   }
 
-  async function getVault() {
-    return program.account.vault.fetch(vaultPda);
+  async function getProposal(id: BN | number) {
+    const proposal = await client.getProposal(id);
+    if (!proposal) throw new Error(`proposal ${id} not found`);
+    return proposal;
   }
 
-  function expectAnchorError(err: any, codeOrName: string) {
-    expect(err).to.be.instanceOf(AnchorError);
-    const anchorErr = err as AnchorError;
-    expect(
-      anchorErr.error.errorCode.code === codeOrName ||
-        anchorErr.error.errorCode.number.toString() === codeOrName
-    ).to.be.true;
+  async function expectError(
+    action: Promise<unknown>,
+    errorClass: new (...args: any[]) => Error
+  ) {
+    try {
+      await action;
+    } catch (err: any) {
+      expect(err).to.be.instanceOf(errorClass);
+      return;
+    }
+    expect.fail("should have thrown");
+  }
+
+  /** Client for the current vault, signing as a funded non-authority. */
+  function imposterClient(): SolForgeClient {
+    return harness.client(harness.fund(), { namespace: client.namespace });
   }
 
   // ─── initialize_vault ────────────────────────────────────────────────
 
   describe("initialize_vault", () => {
     it("initializes with valid params and default delay", async () => {
-      const feeBps = 500; // 5%
-      const burnBps = 2000; // 20%
-
-      await program.methods
-        .initializeVault(feeBps, burnBps, null)
-        .accounts({
-          vault: vaultPda,
-          authority: authority.publicKey,
-          systemProgram: SystemProgram.programId,
-        })
-        .rpc();
-
       const vault = await getVault();
       expect(vault.authority.toBase58()).to.equal(
-        authority.publicKey.toBase58()
+        harness.payer.publicKey.toBase58()
       );
-      expect(vault.feeBasisPoints).to.equal(feeBps);
-      expect(vault.burnPercentageBps).to.equal(burnBps);
+      expect(vault.namespace.toBase58()).to.equal(client.namespace.toBase58());
+      expect(vault.feeBasisPoints).to.equal(500);
+      expect(vault.burnPercentageBps).to.equal(2000);
       expect(vault.delaySeconds.toNumber()).to.equal(DEFAULT_DELAY);
       expect(vault.totalAccrued.toNumber()).to.equal(0);
-      expect(vault.bump).to.equal(vaultBump);
-      expect(vault.pendingBurnPercentageBps).to.be.null;
-      expect(vault.pendingDelaySeconds).to.be.null;
-      expect(vault.pendingReleaseTime.toNumber()).to.equal(0);
+      expect(vault.bump).to.equal(client.vaultBump);
+      expect(vault.proposalCount.toNumber()).to.equal(0);
+      expect(vault.scheduleCount.toNumber()).to.equal(0);
+      expect(vault.distributionCount.toNumber()).to.equal(0);
+      expect(vault.spendingCaps.windowSeconds.toNumber()).to.equal(0);
+      expect(vault.allowlistEnabled).to.be.false;
+      expect(vault.guardian).to.be.null;
+      expect(vault.paused).to.be.false;
+      expect(vault.pendingAuthority).to.be.null;
+    });
+
+    it("records the guardian", async () => {
+      const guardian = Keypair.generate().publicKey;
+      const vault = await (await harness.freshVault({ guardian })).getVaultState();
+      expect(vault!.guardian!.toBase58()).to.equal(guardian.toBase58());
     });
 
     it("fails to re-initialize (account already exists)", async () => {
       try {
-        await program.methods
-          .initializeVault(100, 100, null)
-          .accounts({
-            vault: vaultPda,
-            authority: authority.publicKey,
-            systemProgram: SystemProgram.programId,
-          })
-          .rpc();
+        await client.initializeVault(100, 100);
         expect.fail("should have thrown");
       } catch (err: any) {
-        // Anchor rejects init on already-initialized account
-        expect(err.toString()).to.contain("already in use");
+        // System program rejects init on an already-allocated account
+        expect(String(err.logs ?? err)).to.contain("already in use");
       }
     });
 
-    // NOTE: The following validation tests require fresh vault PDAs per test,
-    // which Anchor's singleton PDA design prevents. We document the expected
-    // behavior; in a real scenario these would use a factory or separate seeds.
+    it("keeps vaults in different namespaces independent", async () => {
+      const other = await harness.freshVault({ feeBps: 100, burnBps: 1000 });
+      await client.accrueFee(LAMPORTS_PER_SOL);
+
+      expect(other.vaultPda.equals(client.vaultPda)).to.be.false;
+      const otherVault = await other.getVaultState();
+      expect(otherVault!.feeBasisPoints).to.equal(100);
+      expect(otherVault!.totalAccrued.toNumber()).to.equal(0);
+    });
+
+    it("accepts fee_bps and burn_bps of exactly 10000", async () => {
+      const vault = await (
+        await harness.freshVault({ feeBps: BPS_DENOMINATOR, burnBps: BPS_DENOMINATOR })
+      ).getVaultState();
+      expect(vault!.feeBasisPoints).to.equal(BPS_DENOMINATOR);
+      expect(vault!.burnPercentageBps).to.equal(BPS_DENOMINATOR);
+    });
 
     it("rejects fee_bps > 10000", async () => {
-      // Cannot test in isolation with singleton PDA after first init.
-      // Validated by the require!(fee_bps <= 10_000) constraint.
-      // If vault were re-initializable:
-      // expectAnchorError(err, "InvalidFeeRate");
+      await expectError(
+        harness.freshVault({ feeBps: BPS_DENOMINATOR + 1 }),
+        InvalidFeeRateError
+      );
     });
 
     it("rejects burn_bps > 10000", async () => {
-      // Same limitation as above.
-      // expectAnchorError(err, "InvalidBurnPercentage");
+      await expectError(
+        harness.freshVault({ burnBps: BPS_DENOMINATOR + 1 }),
+        InvalidBurnPercentageError
+      );
+    });
+
+    it("accepts delay at MIN_DELAY and MAX_DELAY", async () => {
+      for (const delay of [MIN_DELAY, MAX_DELAY]) {
+        const vault = await (
+          await harness.freshVault({ delaySeconds: delay })
+        ).getVaultState();
+        expect(vault!.delaySeconds.toNumber()).to.equal(delay);
+      }
     });
 
     it("rejects delay outside allowed range", async () => {
-      // Same limitation.
-      // expectAnchorError(err, "InvalidDelay");
+      for (const delay of [MIN_DELAY - 1, MAX_DELAY + 1]) {
+        await expectError(
+          harness.freshVault({ delaySeconds: delay }),
+          InvalidDelayError
+        );
+      }
+    });
+  });
+
+  // ─── Vault decoding ──────────────────────────────────────────────────
+
+  describe("vault decoding", () => {
+    it("bundles the IDL anchor build emits", () => {
+      const built: Idl = require("../target/idl/sol_forge.json");
+      const byName = <T extends { name: string }>(items: T[] = []) =>
+        [...items].sort((a, b) => a.name.localeCompare(b.name));
+      const shape = (idl: Idl) => ({
+        instructions: byName(idl.instructions).map((ix) => ({
+          name: ix.name,
+          discriminator: ix.discriminator,
+          accounts: ix.accounts.map((a) => a.name),
+          args: ix.args,
+        })),
+        accounts: byName(idl.accounts),
+        events: byName(idl.events),
+        errors: idl.errors,
+      });
+      expect(shape(SOLFORGE_IDL as Idl)).to.deep.equal(shape(built));
+    });
+
+    it("decodes a vault the same as Anchor's coder", async () => {
+      const guarded = await harness.freshVault({ guardian: Keypair.generate().publicKey });
+      await guarded.accrueFee(LAMPORTS_PER_SOL);
+      const info = await guarded.provider.connection.getAccountInfo(guarded.vaultPda);
+
+      expect(info!.data.length).to.equal(VAULT_ACCOUNT_SIZE);
+      expect(JSON.stringify(decodeVault(info!.data))).to.equal(
+        JSON.stringify(guarded.program.coder.accounts.decode("vault", info!.data))
+      );
+    });
+
+    it("rejects accounts that are not a vault", () => {
+      expect(() => decodeVault(Buffer.alloc(VAULT_ACCOUNT_SIZE))).to.throw(
+        "discriminator"
+      );
+    });
+
+    it("returns null for a vault that was never initialized", async () => {
+      const missing = harness.client(harness.payer, {
+        namespace: Keypair.generate().publicKey,
+      });
+      expect(await missing.getVaultState()).to.be.null;
+
+      // Lamports sent to the PDA do not make it a vault
+      await client.sendInstructions([
+        SystemProgram.transfer({
+          fromPubkey: harness.payer.publicKey,
+          toPubkey: missing.vaultPda,
+          lamports: LAMPORTS_PER_SOL,
+        }),
+      ]);
+      expect(await missing.getVaultState()).to.be.null;
+    });
+
+    it("throws on fetch errors instead of reporting no vault", async () => {
+      const failing = SolForgeClient.create({
+        getAccountInfo: async () => {
+          throw new Error("429 Too Many Requests");
+        },
+      } as unknown as Connection);
+      try {
+        await failing.getVaultState();
+        expect.fail("should have thrown");
+      } catch (err: any) {
+        expect(err.message).to.contain("429");
+      }
+    });
+  });
+
+  // ─── event indexer ───────────────────────────────────────────────────
+
+  describe("event indexer", () => {
+    it("does not checkpoint past a transaction the RPC node did not return", async () => {
+      const signatures = ["first", "second", "third"].map((signature, i) => ({
+        signature,
+        slot: 10 + i,
+        err: null,
+        memo: null,
+        blockTime: null,
+      }));
+      let dropped: string | null = "second";
+      const connection = {
+        getSlot: async () => 100,
+        // Newest first, stopping at `until` like the real RPC method
+        getSignaturesForAddress: async (_: PublicKey, options: { until?: string }) =>
+          signatures
+            .slice(signatures.findIndex((s) => s.signature === options.until) + 1)
+            .reverse(),
+        getTransactions: async (requested: string[]) =>
+          requested.map((signature) =>
+            signature === dropped
+              ? null
+              : {
+                  slot: signatures.find((s) => s.signature === signature)!.slot,
+                  blockTime: null,
+                  meta: { err: null, logMessages: [] },
+                }
+          ),
+      } as unknown as Connection;
+      const indexer = new SolForgeIndexer(
+        SolForgeClient.create(connection),
+        new MemoryEventStore()
+      );
+
+      const first = await indexer.sync();
+      expect(first.missing).to.equal(1);
+      expect(first.transactions).to.equal(2);
+      expect(first.checkpoint?.signature).to.equal("first");
+
+      dropped = null;
+      const second = await indexer.sync();
+      expect(second.missing).to.equal(0);
+      expect(second.transactions).to.equal(2);
+      expect(second.checkpoint?.signature).to.equal("third");
     });
   });
 
@@ -126,587 +317,1866 @@ describe("sol_forge", () => {
   describe("accrue_fee", () => {
     it("accrues a fee and auto-burns the correct portion", async () => {
       const amount = 1_000_000_000; // 1 SOL
-      const vault = await getVault();
-      const burnBps = vault.burnPercentageBps; // 2000 = 20%
-      const prevAccrued = vault.totalAccrued.toNumber();
+      const expectedBurn = 200_000_000; // 20%
 
-      const expectedBurn = Math.floor((amount * burnBps) / 10_000);
-      const expectedNet = amount - expectedBurn;
+      const incineratorBefore = await harness.balance(INCINERATOR);
+      const vaultLamportsBefore = await harness.balance(client.vaultPda);
+      await client.accrueFee(amount);
 
-      const incineratorBefore = await provider.connection.getBalance(
-        INCINERATOR
+      const vault = await getVault();
+      expect(vault.totalAccrued.toNumber()).to.equal(amount - expectedBurn);
+      expect((await harness.balance(INCINERATOR)) - incineratorBefore).to.equal(
+        expectedBurn
       );
+      expect(
+        (await harness.balance(client.vaultPda)) - vaultLamportsBefore
+      ).to.equal(amount - expectedBurn);
+    });
 
-      await program.methods
-        .accrueFee(new BN(amount))
-        .accounts({
-          vault: vaultPda,
-          payer: authority.publicKey,
-          incinerator: INCINERATOR,
-          systemProgram: SystemProgram.programId,
-        })
-        .rpc();
+    it("accrues multiple fees cumulatively", async () => {
+      await client.accrueFee(1_000_000_000);
+      await client.accrueFee(500_000_000);
 
-      const vaultAfter = await getVault();
-      expect(vaultAfter.totalAccrued.toNumber()).to.equal(
-        prevAccrued + expectedNet
-      );
+      const vault = await getVault();
+      expect(vault.totalAccrued.toNumber()).to.equal(800_000_000 + 400_000_000);
+    });
 
-      // Verify incinerator received the burn
-      const incineratorAfter = await provider.connection.getBalance(
-        INCINERATOR
-      );
-      expect(incineratorAfter - incineratorBefore).to.equal(expectedBurn);
+    it("rounds the burn down, crediting the remainder to the vault", async () => {
+      // 3333 bps makes every amount below a non-integer split
+      const odd = await harness.freshVault({ burnBps: 3333 });
+      let accrued = new BN(0);
+
+      for (const amount of [1, 2, 3, 4, 9_999, 123_456_789]) {
+        const expected = computeBurnSplit(new BN(amount), 3333);
+        expect(expected.burned.toNumber()).to.equal(
+          Math.floor((amount * 3333) / BPS_DENOMINATOR)
+        );
+
+        const incineratorBefore = await harness.balance(INCINERATOR);
+        await odd.accrueFee(amount);
+        accrued = accrued.add(expected.net);
+
+        expect((await harness.balance(INCINERATOR)) - incineratorBefore).to.equal(
+          expected.burned.toNumber()
+        );
+        expect((await odd.getVaultState())!.totalAccrued.toString()).to.equal(
+          accrued.toString()
+        );
+      }
     });
 
-    it("accrues multiple fees cumulatively", async () => {
-      const vault1 = await getVault();
-      const amount = 500_000_000; // 0.5 SOL
-      const burnBps = vault1.burnPercentageBps;
-      const expectedNet = amount - Math.floor((amount * burnBps) / 10_000);
+    it("burns nothing at 0% and everything at 100%", async () => {
+      const amount = 7_777_777;
+      for (const burnBps of [0, BPS_DENOMINATOR]) {
+        const vault = await harness.freshVault({ burnBps });
+        const incineratorBefore = await harness.balance(INCINERATOR);
+        await vault.accrueFee(amount);
+
+        const burned = burnBps === 0 ? 0 : amount;
+        expect((await harness.balance(INCINERATOR)) - incineratorBefore).to.equal(burned);
+        expect((await vault.getVaultState())!.totalAccrued.toNumber()).to.equal(
+          amount - burned
+        );
+      }
+    });
+
+    it("composes accrue_fee with other instructions in one transaction", async () => {
+      const counterparty = Keypair.generate();
+      const amount = 200_000_000; // 0.2 SOL
 
-      await program.methods
-        .accrueFee(new BN(amount))
-        .accounts({
-          vault: vaultPda,
-          payer: authority.publicKey,
-          incinerator: INCINERATOR,
-          systemProgram: SystemProgram.programId,
-        })
-        .rpc();
+      await client.sendInstructions([
+        SystemProgram.transfer({
+          fromPubkey: harness.payer.publicKey,
+          toPubkey: counterparty.publicKey,
+          lamports: LAMPORTS_PER_SOL / 10,
+        }),
+        await client.accrueFeeIx(amount),
+      ]);
+
+      const vault = await getVault();
+      expect(vault.totalAccrued.toNumber()).to.equal(
+        computeBurnSplit(new BN(amount), 2000).net.toNumber()
+      );
+      expect(await harness.balance(counterparty.publicKey)).to.equal(
+        LAMPORTS_PER_SOL / 10
+      );
+    });
 
-      const vault2 = await getVault();
-      expect(vault2.totalAccrued.toNumber()).to.equal(
-        vault1.totalAccrued.toNumber() + expectedNet
+    it("emits a decodable FeeAccrued event", async () => {
+      const amount = 100_000_000; // 0.1 SOL
+      const { events } = await client.accrueFee(amount);
+
+      expect(events).to.have.lengthOf(1);
+      const [event] = events;
+      expect(event.name).to.equal("FeeAccrued");
+      if (event.name !== "FeeAccrued") return;
+      expect(event.data.payer.toBase58()).to.equal(
+        harness.payer.publicKey.toBase58()
       );
+      expect(event.data.gross.toNumber()).to.equal(amount);
+      expect(event.data.burned.toNumber()).to.equal(20_000_000);
+      expect(event.data.net.toNumber()).to.equal(80_000_000);
     });
 
     it("rejects zero amount (dust protection)", async () => {
-      try {
-        await program.methods
-          .accrueFee(new BN(0))
-          .accounts({
-            vault: vaultPda,
-            payer: authority.publicKey,
-            incinerator: INCINERATOR,
-            systemProgram: SystemProgram.programId,
-          })
-          .rpc();
-        expect.fail("should have thrown");
-      } catch (err: any) {
-        expectAnchorError(err, "AmountTooSmall");
-      }
+      await expectError(client.accrueFee(0), AmountTooSmallError);
+    });
+
+    it("pays the configured priority fee and reports it", async () => {
+      const payerBefore = await harness.balance(harness.payer.publicKey);
+      const plain = await client.accrueFee(1_000_000);
+      const payerMid = await harness.balance(harness.payer.publicKey);
+      const priority = await client.accrueFee(2_000_000, {
+        computeUnitLimit: 200_000,
+        computeUnitPrice: 10_000, // micro-lamports → 2 000 lamports
+      });
+      const payerAfter = await harness.balance(harness.payer.publicKey);
+
+      expect(payerBefore - payerMid).to.equal(1_000_000 + plain.fee!);
+      expect(payerMid - payerAfter).to.equal(2_000_000 + priority.fee!);
+      expect(priority.fee! - plain.fee!).to.equal(2_000);
+      expect(priority.slot).to.be.greaterThan(0);
     });
 
     it("allows any payer (not just authority)", async () => {
-      const randomPayer = Keypair.generate();
-      await airdrop(randomPayer.publicKey, 2);
+      await imposterClient().accrueFee(100_000_000);
 
-      const amount = 100_000_000; // 0.1 SOL
+      const vault = await getVault();
+      expect(vault.totalAccrued.toNumber()).to.equal(80_000_000);
+    });
+  });
+
+  // ─── accrue_fee_on_volume ────────────────────────────────────────────
+
+  describe("accrue_fee_on_volume", () => {
+    it("charges fee_bps of the volume and splits the fee", async () => {
+      const volume = 10 * LAMPORTS_PER_SOL;
+      const quote = await client.quoteFee(volume);
+      expect(quote.fee.toNumber()).to.equal(LAMPORTS_PER_SOL / 2); // 5%
+      expect(quote.burned.toNumber()).to.equal(LAMPORTS_PER_SOL / 10); // 20% of fee
 
-      await program.methods
-        .accrueFee(new BN(amount))
-        .accounts({
-          vault: vaultPda,
-          payer: randomPayer.publicKey,
-          incinerator: INCINERATOR,
-          systemProgram: SystemProgram.programId,
-        })
-        .signers([randomPayer])
-        .rpc();
+      const payerBefore = await harness.balance(harness.payer.publicKey);
+      const incineratorBefore = await harness.balance(INCINERATOR);
+      const { fee, events } = await client.accrueFeeOnVolume(volume);
 
-      // If it didn't throw, any payer works ✓
+      expect(payerBefore - (await harness.balance(harness.payer.publicKey))).to.equal(
+        quote.fee.toNumber() + fee!
+      );
+      expect((await harness.balance(INCINERATOR)) - incineratorBefore).to.equal(
+        quote.burned.toNumber()
+      );
+      expect((await getVault()).totalAccrued.toString()).to.equal(quote.net.toString());
+      const [event] = events;
+      if (event?.name !== "FeeAccrued") return expect.fail("no FeeAccrued");
+      expect(event.data.gross.toString()).to.equal(quote.fee.toString());
+    });
+
+    it("rounds the fee down like the program", async () => {
+      const odd = await harness.freshVault({ feeBps: 33, burnBps: 3333 });
+      for (const volume of [304, 9_999, 123_456_789]) {
+        const before = (await odd.getVaultState())!.totalAccrued;
+        const quote = computeFeeQuote(new BN(volume), 33, 3333);
+        expect((await odd.quoteFee(volume)).net.toString()).to.equal(
+          quote.net.toString()
+        );
+
+        await odd.accrueFeeOnVolume(volume);
+        expect(
+          (await odd.getVaultState())!.totalAccrued.sub(before).toString()
+        ).to.equal(quote.net.toString());
+      }
+    });
+
+    it("rejects a volume whose fee rounds to zero", async () => {
+      // 5% of 19 lamports rounds to 0
+      await expectError(client.accrueFeeOnVolume(19), AmountTooSmallError);
+      const zeroFee = await harness.freshVault({ feeBps: 0 });
+      await expectError(zeroFee.accrueFeeOnVolume(LAMPORTS_PER_SOL), AmountTooSmallError);
     });
   });
 
   // ─── burn_sol ────────────────────────────────────────────────────────
 
   describe("burn_sol", () => {
+    beforeEach(async () => {
+      await client.accrueFee(LAMPORTS_PER_SOL); // 0.8 SOL accrued
+    });
+
     it("authority burns SOL from vault", async () => {
       const vaultBefore = await getVault();
-      const burnAmount = MIN_BURN_AMOUNT;
-
-      const incBefore = await provider.connection.getBalance(INCINERATOR);
+      const incineratorBefore = await harness.balance(INCINERATOR);
 
-      await program.methods
-        .burnSol(new BN(burnAmount))
-        .accounts({
-          vault: vaultPda,
-          authority: authority.publicKey,
-          incinerator: INCINERATOR,
-          systemProgram: SystemProgram.programId,
-        })
-        .rpc();
+      await client.burnSol(MIN_BURN_AMOUNT);
 
       const vaultAfter = await getVault();
       expect(vaultAfter.totalAccrued.toNumber()).to.equal(
-        vaultBefore.totalAccrued.toNumber() - burnAmount
+        vaultBefore.totalAccrued.toNumber() - MIN_BURN_AMOUNT
       );
+      expect((await harness.balance(INCINERATOR)) - incineratorBefore).to.equal(
+        MIN_BURN_AMOUNT
+      );
+    });
 
-      const incAfter = await provider.connection.getBalance(INCINERATOR);
-      expect(incAfter - incBefore).to.equal(burnAmount);
+    it("burns the entire accrued balance", async () => {
+      const { totalAccrued } = await getVault();
+      const incineratorBefore = await harness.balance(INCINERATOR);
+
+      await client.burnSol(totalAccrued);
+
+      expect((await getVault()).totalAccrued.toNumber()).to.equal(0);
+      expect((await harness.balance(INCINERATOR)) - incineratorBefore).to.equal(
+        totalAccrued.toNumber()
+      );
     });
 
     it("rejects burn below MIN_BURN_AMOUNT (dust protection)", async () => {
-      try {
-        await program.methods
-          .burnSol(new BN(MIN_BURN_AMOUNT - 1))
-          .accounts({
-            vault: vaultPda,
-            authority: authority.publicKey,
-            incinerator: INCINERATOR,
-            systemProgram: SystemProgram.programId,
-          })
-          .rpc();
-        expect.fail("should have thrown");
-      } catch (err: any) {
-        expectAnchorError(err, "AmountTooSmall");
-      }
+      await expectError(client.burnSol(MIN_BURN_AMOUNT - 1), AmountTooSmallError);
     });
 
     it("rejects burn exceeding vault balance", async () => {
       const vault = await getVault();
-      const tooMuch = vault.totalAccrued.toNumber() + LAMPORTS_PER_SOL;
+      await expectError(
+        client.burnSol(vault.totalAccrued.addn(1)),
+        InsufficientBalanceError
+      );
+    });
 
+    it("carries program logs on typed errors", async () => {
+      const vault = await getVault();
       try {
-        await program.methods
-          .burnSol(new BN(tooMuch))
-          .accounts({
-            vault: vaultPda,
-            authority: authority.publicKey,
-            incinerator: INCINERATOR,
-            systemProgram: SystemProgram.programId,
-          })
-          .rpc();
+        await client.burnSol(vault.totalAccrued.addn(LAMPORTS_PER_SOL));
         expect.fail("should have thrown");
       } catch (err: any) {
-        expectAnchorError(err, "InsufficientBalance");
+        expect(err).to.be.instanceOf(InsufficientBalanceError);
+        expect(err.logs).to.not.be.empty;
       }
     });
 
-    it("rejects unauthorized caller", async () => {
-      const imposter = Keypair.generate();
-      await airdrop(imposter.publicKey, 1);
+    it("preflight rejects locally without sending", async () => {
+      const checked = harness.client(harness.payer, {
+        namespace: client.namespace,
+        preflight: true,
+      });
 
       try {
-        await program.methods
-          .burnSol(new BN(MIN_BURN_AMOUNT))
-          .accounts({
-            vault: vaultPda,
-            authority: imposter.publicKey,
-            incinerator: INCINERATOR,
-            systemProgram: SystemProgram.programId,
-          })
-          .signers([imposter])
-          .rpc();
+        await checked.burnSol(MIN_BURN_AMOUNT - 1);
         expect.fail("should have thrown");
       } catch (err: any) {
-        expectAnchorError(err, "Unauthorized");
+        expect(err).to.be.instanceOf(AmountTooSmallError);
+        expect(err.logs).to.be.empty;
       }
     });
+
+    it("rejects unauthorized caller", async () => {
+      await expectError(imposterClient().burnSol(MIN_BURN_AMOUNT), UnauthorizedError);
+    });
   });
 
   // ─── distribute_rewards ──────────────────────────────────────────────
 
   describe("distribute_rewards", () => {
+    beforeEach(async () => {
+      await client.accrueFee(LAMPORTS_PER_SOL); // 0.8 SOL accrued
+    });
+
     it("distributes SOL to a recipient", async () => {
-      const recipient = Keypair.generate();
+      const recipient = Keypair.generate().publicKey;
       const vaultBefore = await getVault();
-      const distAmount = MIN_BURN_AMOUNT;
 
-      const recipientBefore = await provider.connection.getBalance(
-        recipient.publicKey
-      );
-
-      await program.methods
-        .distributeRewards(new BN(distAmount))
-        .accounts({
-          vault: vaultPda,
-          authority: authority.publicKey,
-          recipient: recipient.publicKey,
-          systemProgram: SystemProgram.programId,
-        })
-        .rpc();
+      await client.distributeRewards(recipient, MIN_BURN_AMOUNT);
 
       const vaultAfter = await getVault();
       expect(vaultAfter.totalAccrued.toNumber()).to.equal(
-        vaultBefore.totalAccrued.toNumber() - distAmount
+        vaultBefore.totalAccrued.toNumber() - MIN_BURN_AMOUNT
       );
+      expect(await harness.balance(recipient)).to.equal(MIN_BURN_AMOUNT);
+    });
+
+    it("sends batched payments through the client's sender", async () => {
+      const recipients = [0, 1, 2].map(() => Keypair.generate().publicKey);
 
-      const recipientAfter = await provider.connection.getBalance(
-        recipient.publicKey
+      const report = await client.distributeRewardsBatch(
+        recipients.map((recipient) => ({ recipient, amount: MIN_BURN_AMOUNT })),
+        { maxPaymentsPerTransaction: 2 }
       );
-      expect(recipientAfter - recipientBefore).to.equal(distAmount);
+
+      expect(report.results.map((r) => r.status)).to.deep.equal(["sent", "sent", "sent"]);
+      expect(new Set(report.results.map((r) => r.signature)).size).to.equal(2);
+      for (const recipient of recipients) {
+        expect(await harness.balance(recipient)).to.equal(MIN_BURN_AMOUNT);
+      }
     });
 
     it("rejects distribution below MIN_BURN_AMOUNT", async () => {
-      const recipient = Keypair.generate();
-      try {
-        await program.methods
-          .distributeRewards(new BN(MIN_BURN_AMOUNT - 1))
-          .accounts({
-            vault: vaultPda,
-            authority: authority.publicKey,
-            recipient: recipient.publicKey,
-            systemProgram: SystemProgram.programId,
-          })
-          .rpc();
-        expect.fail("should have thrown");
-      } catch (err: any) {
-        expectAnchorError(err, "AmountTooSmall");
-      }
+      await expectError(
+        client.distributeRewards(Keypair.generate().publicKey, MIN_BURN_AMOUNT - 1),
+        AmountTooSmallError
+      );
     });
 
     it("rejects distribution exceeding vault balance", async () => {
-      const recipient = Keypair.generate();
       const vault = await getVault();
-      const tooMuch = vault.totalAccrued.toNumber() + LAMPORTS_PER_SOL;
-
-      try {
-        await program.methods
-          .distributeRewards(new BN(tooMuch))
-          .accounts({
-            vault: vaultPda,
-            authority: authority.publicKey,
-            recipient: recipient.publicKey,
-            systemProgram: SystemProgram.programId,
-          })
-          .rpc();
-        expect.fail("should have thrown");
-      } catch (err: any) {
-        expectAnchorError(err, "InsufficientBalance");
-      }
+      await expectError(
+        client.distributeRewards(
+          Keypair.generate().publicKey,
+          vault.totalAccrued.addn(1)
+        ),
+        InsufficientBalanceError
+      );
     });
 
     it("rejects unauthorized caller", async () => {
-      const imposter = Keypair.generate();
-      const recipient = Keypair.generate();
-      await airdrop(imposter.publicKey, 1);
-
-      try {
-        await program.methods
-          .distributeRewards(new BN(MIN_BURN_AMOUNT))
-          .accounts({
-            vault: vaultPda,
-            authority: imposter.publicKey,
-            recipient: recipient.publicKey,
-            systemProgram: SystemProgram.programId,
-          })
-          .signers([imposter])
-          .rpc();
-        expect.fail("should have thrown");
-      } catch (err: any) {
-        expectAnchorError(err, "Unauthorized");
-      }
+      await expectError(
+        imposterClient().distributeRewards(
+          Keypair.generate().publicKey,
+          MIN_BURN_AMOUNT
+        ),
+        UnauthorizedError
+      );
     });
   });
 
-  // ─── propose_parameter_update ────────────────────────────────────────
+  // ─── reward schedules ────────────────────────────────────────────────
 
-  describe("propose_parameter_update", () => {
-    it("proposes a burn percentage update", async () => {
-      const newBurnBps = 3000; // 30%
+  describe("reward schedules", () => {
+    const INTERVAL = 3_600;
+    let recipient: PublicKey;
 
-      await program.methods
-        .proposeParameterUpdate(newBurnBps, null)
-        .accounts({
-          vault: vaultPda,
-          authority: authority.publicKey,
-        })
-        .rpc();
+    beforeEach(async () => {
+      await client.accrueFee(LAMPORTS_PER_SOL); // 0.8 SOL accrued
+      recipient = Keypair.generate().publicKey;
+    });
 
-      const vault = await getVault();
-      expect(vault.pendingBurnPercentageBps).to.equal(newBurnBps);
-      expect(vault.pendingDelaySeconds).to.be.null;
-      expect(vault.pendingReleaseTime.toNumber()).to.be.greaterThan(0);
+    async function getSchedule(address: PublicKey) {
+      const schedule = await client.getRewardSchedule(address);
+      if (!schedule) throw new Error("schedule not found");
+      return schedule;
+    }
+
+    it("creates a schedule due one interval out", async () => {
+      const now = await harness.now();
+      const { schedule, events } = await client.createRewardSchedule({
+        recipient,
+        amount: { lamports: MIN_BURN_AMOUNT },
+        intervalSeconds: INTERVAL,
+      });
+
+      const state = await getSchedule(schedule);
+      expect(state.recipient.toBase58()).to.equal(recipient.toBase58());
+      expect(state.amountLamports.toNumber()).to.equal(MIN_BURN_AMOUNT);
+      expect(state.nextPayoutAt.toNumber()).to.equal(now + INTERVAL);
+      expect(state.endTime).to.be.null;
+      expect(events.map((e) => e.name)).to.deep.equal(["RewardScheduleCreated"]);
     });
 
-    it("proposes a delay update", async () => {
-      const newDelay = new BN(7200); // 2 hours
+    it("lets anyone crank a due payout", async () => {
+      const { schedule } = await client.createRewardSchedule({
+        recipient,
+        amount: { lamports: MIN_BURN_AMOUNT },
+        intervalSeconds: INTERVAL,
+      });
+      const before = await getSchedule(schedule);
+      const vaultBefore = await getVault();
+      await harness.warp(INTERVAL);
 
-      await program.methods
-        .proposeParameterUpdate(null, newDelay)
-        .accounts({
-          vault: vaultPda,
-          authority: authority.publicKey,
-        })
-        .rpc();
+      const { events } = await imposterClient().crankRewardSchedule(schedule);
+
+      const after = await getSchedule(schedule);
+      expect(await harness.balance(recipient)).to.equal(MIN_BURN_AMOUNT);
+      expect((await getVault()).totalAccrued.toNumber()).to.equal(
+        vaultBefore.totalAccrued.toNumber() - MIN_BURN_AMOUNT
+      );
+      expect(after.nextPayoutAt.toNumber()).to.equal(
+        before.nextPayoutAt.toNumber() + INTERVAL
+      );
+      expect(after.totalPaid.toNumber()).to.equal(MIN_BURN_AMOUNT);
+      expect(events.map((e) => e.name)).to.deep.equal([
+        "RewardsDistributed",
+        "RewardSchedulePaid",
+      ]);
+    });
 
+    it("pays a bps schedule from the retained balance", async () => {
+      const { schedule } = await client.createRewardSchedule({
+        recipient,
+        amount: { bps: 1000 },
+        intervalSeconds: INTERVAL,
+      });
       const vault = await getVault();
-      expect(vault.pendingDelaySeconds.toNumber()).to.equal(7200);
+      await harness.warp(INTERVAL);
+
+      await client.crankRewardSchedule(schedule);
+
+      expect(await harness.balance(recipient)).to.equal(
+        vault.totalAccrued.muln(1000).divn(BPS_DENOMINATOR).toNumber()
+      );
     });
 
-    it("proposes both burn and delay", async () => {
-      await program.methods
-        .proposeParameterUpdate(5000, new BN(MIN_DELAY))
-        .accounts({
-          vault: vaultPda,
-          authority: authority.publicKey,
-        })
-        .rpc();
+    it("catches up missed intervals one crank at a time", async () => {
+      const { schedule } = await client.createRewardSchedule({
+        recipient,
+        amount: { lamports: MIN_BURN_AMOUNT },
+        intervalSeconds: INTERVAL,
+      });
+      await harness.warp(INTERVAL * 2);
+
+      await client.crankRewardSchedule(schedule);
+      await harness.warp(1);
+      await client.crankRewardSchedule(schedule);
+
+      expect(await harness.balance(recipient)).to.equal(MIN_BURN_AMOUNT * 2);
+      await harness.warp(1);
+      await expectError(client.crankRewardSchedule(schedule), ScheduleNotDueError);
+    });
 
-      const vault = await getVault();
-      expect(vault.pendingBurnPercentageBps).to.equal(5000);
-      expect(vault.pendingDelaySeconds.toNumber()).to.equal(MIN_DELAY);
+    it("rejects a crank before the payout is due", async () => {
+      const { schedule } = await client.createRewardSchedule({
+        recipient,
+        amount: { lamports: MIN_BURN_AMOUNT },
+        intervalSeconds: INTERVAL,
+      });
+      await expectError(client.crankRewardSchedule(schedule), ScheduleNotDueError);
     });
 
-    it("rejects when no change proposed (both null)", async () => {
-      try {
-        await program.methods
-          .proposeParameterUpdate(null, null)
-          .accounts({
-            vault: vaultPda,
-            authority: authority.publicKey,
-          })
-          .rpc();
-        expect.fail("should have thrown");
-      } catch (err: any) {
-        expectAnchorError(err, "NoChangeProposed");
-      }
+    it("stops paying after the end time", async () => {
+      const now = await harness.now();
+      const { schedule } = await client.createRewardSchedule({
+        recipient,
+        amount: { lamports: MIN_BURN_AMOUNT },
+        intervalSeconds: INTERVAL,
+        endTime: now + INTERVAL,
+      });
+      await harness.warp(INTERVAL * 2);
+
+      await client.crankRewardSchedule(schedule);
+      await harness.warp(1);
+
+      await expectError(client.crankRewardSchedule(schedule), ScheduleEndedError);
     });
 
-    it("rejects invalid burn_bps > 10000", async () => {
-      try {
-        await program.methods
-          .proposeParameterUpdate(10001, null)
-          .accounts({
-            vault: vaultPda,
-            authority: authority.publicKey,
-          })
-          .rpc();
-        expect.fail("should have thrown");
-      } catch (err: any) {
-        expectAnchorError(err, "InvalidBurnPercentage");
-      }
+    it("rejects a schedule without an amount", async () => {
+      await expectError(
+        client.createRewardSchedule({
+          recipient,
+          amount: { lamports: 0 },
+          intervalSeconds: INTERVAL,
+        }),
+        InvalidScheduleError
+      );
     });
 
-    it("rejects delay below MIN_DELAY", async () => {
-      try {
-        await program.methods
-          .proposeParameterUpdate(null, new BN(MIN_DELAY - 1))
-          .accounts({
-            vault: vaultPda,
-            authority: authority.publicKey,
-          })
-          .rpc();
-        expect.fail("should have thrown");
-      } catch (err: any) {
-        expectAnchorError(err, "InvalidDelay");
-      }
+    it("rejects a non-positive interval", async () => {
+      await expectError(
+        client.createRewardSchedule({
+          recipient,
+          amount: { lamports: MIN_BURN_AMOUNT },
+          intervalSeconds: 0,
+        }),
+        InvalidScheduleError
+      );
     });
 
-    it("rejects delay above MAX_DELAY", async () => {
-      try {
-        await program.methods
-          .proposeParameterUpdate(null, new BN(MAX_DELAY + 1))
-          .accounts({
-            vault: vaultPda,
-            authority: authority.publicKey,
-          })
-          .rpc();
-        expect.fail("should have thrown");
-      } catch (err: any) {
-        expectAnchorError(err, "InvalidDelay");
-      }
+    it("rejects a fixed amount below MIN_BURN_AMOUNT", async () => {
+      await expectError(
+        client.createRewardSchedule({
+          recipient,
+          amount: { lamports: MIN_BURN_AMOUNT - 1 },
+          intervalSeconds: INTERVAL,
+        }),
+        AmountTooSmallError
+      );
     });
 
-    it("rejects unauthorized caller", async () => {
-      const imposter = Keypair.generate();
-      await airdrop(imposter.publicKey, 1);
+    it("updates the amount and keeps the next payout time", async () => {
+      const { schedule } = await client.createRewardSchedule({
+        recipient,
+        amount: { lamports: MIN_BURN_AMOUNT },
+        intervalSeconds: INTERVAL,
+      });
+      const before = await getSchedule(schedule);
+
+      await client.updateRewardSchedule(schedule, {
+        amount: { bps: 500 },
+        intervalSeconds: INTERVAL * 2,
+      });
+
+      const after = await getSchedule(schedule);
+      expect(after.amountLamports.toNumber()).to.equal(0);
+      expect(after.amountBps).to.equal(500);
+      expect(after.intervalSeconds.toNumber()).to.equal(INTERVAL * 2);
+      expect(after.nextPayoutAt.eq(before.nextPayoutAt)).to.be.true;
+    });
 
-      try {
-        await program.methods
-          .proposeParameterUpdate(1000, null)
-          .accounts({
-            vault: vaultPda,
-            authority: imposter.publicKey,
-          })
-          .signers([imposter])
-          .rpc();
-        expect.fail("should have thrown");
-      } catch (err: any) {
-        expectAnchorError(err, "Unauthorized");
-      }
+    it("closes a canceled schedule", async () => {
+      const { schedule } = await client.createRewardSchedule({
+        recipient,
+        amount: { lamports: MIN_BURN_AMOUNT },
+        intervalSeconds: INTERVAL,
+      });
+
+      const { events } = await client.cancelRewardSchedule(schedule);
+
+      expect(await client.getRewardSchedule(schedule)).to.be.null;
+      expect(events.map((e) => e.name)).to.deep.equal(["RewardScheduleCanceled"]);
+    });
+
+    it("does not reuse the id of a canceled schedule", async () => {
+      const params = {
+        recipient,
+        amount: { lamports: MIN_BURN_AMOUNT },
+        intervalSeconds: INTERVAL,
+      };
+      const first = await client.createRewardSchedule(params);
+      await client.cancelRewardSchedule(first.schedule);
+
+      const second = await client.createRewardSchedule(params);
+
+      expect(second.id.toNumber()).to.equal(first.id.toNumber() + 1);
+      expect(second.schedule.toBase58()).to.not.equal(first.schedule.toBase58());
+      expect((await getVault()).scheduleCount.toNumber()).to.equal(2);
+    });
+
+    it("rejects schedule management by a non-authority", async () => {
+      const imposter = imposterClient();
+      await expectError(
+        imposter.createRewardSchedule({
+          recipient,
+          amount: { lamports: MIN_BURN_AMOUNT },
+          intervalSeconds: INTERVAL,
+        }),
+        UnauthorizedError
+      );
+
+      const { schedule } = await client.createRewardSchedule({
+        recipient,
+        amount: { lamports: MIN_BURN_AMOUNT },
+        intervalSeconds: INTERVAL,
+      });
+      await expectError(imposter.cancelRewardSchedule(schedule), UnauthorizedError);
     });
   });
 
-  // ─── execute_parameter_update ────────────────────────────────────────
+  // ─── distributions ───────────────────────────────────────────────────
+
+  describe("distributions", () => {
+    const LIFETIME = 86_400;
+    let recipients: Keypair[];
+    let tree: DistributionTree;
+
+    beforeEach(async () => {
+      await client.accrueFee(LAMPORTS_PER_SOL); // 0.8 SOL accrued
+      recipients = [harness.fund(), harness.fund(), harness.fund()];
+      tree = new DistributionTree(
+        recipients.map((r, i) => ({
+          recipient: r.publicKey,
+          amount: MIN_BURN_AMOUNT * (i + 1),
+        }))
+      );
+    });
 
-  describe("execute_parameter_update", () => {
-    it("rejects execution before timelock expires", async () => {
-      // Ensure there's a pending proposal
-      await program.methods
-        .proposeParameterUpdate(4000, null)
-        .accounts({
-          vault: vaultPda,
-          authority: authority.publicKey,
-        })
-        .rpc();
+    async function publish(): Promise<PublicKey> {
+      const { distribution } = await client.createDistribution({
+        tree,
+        expiresAt: (await harness.now()) + LIFETIME,
+      });
+      return distribution;
+    }
 
-      try {
-        await program.methods
-          .executeParameterUpdate()
-          .accounts({
-            vault: vaultPda,
-            authority: authority.publicKey,
-          })
-          .rpc();
-        expect.fail("should have thrown");
-      } catch (err: any) {
-        expectAnchorError(err, "TimelockNotExpired");
-      }
+    function recipientClient(recipient: Keypair): SolForgeClient {
+      return harness.client(recipient, { namespace: client.namespace });
+    }
+
+    it("moves the round's total out of the retained balance", async () => {
+      const vaultBefore = await getVault();
+
+      const distribution = await publish();
+
+      const state = await client.getDistribution(distribution);
+      expect(state!.totalAmount.toNumber()).to.equal(MIN_BURN_AMOUNT * 6);
+      expect(state!.numRecipients).to.equal(3);
+      expect(Buffer.from(state!.merkleRoot).equals(tree.root)).to.be.true;
+      expect((await getVault()).totalAccrued.toNumber()).to.equal(
+        vaultBefore.totalAccrued.toNumber() - MIN_BURN_AMOUNT * 6
+      );
     });
 
-    it("rejects execution when no pending update exists", async () => {
-      // Cancel any pending first
-      try {
-        await program.methods
-          .cancelParameterProposal()
-          .accounts({
-            vault: vaultPda,
-            authority: authority.publicKey,
-          })
-          .rpc();
-      } catch {
-        // ignore if nothing pending
-      }
+    it("pays a recipient who claims with a proof", async () => {
+      const distribution = await publish();
+      const recipient = recipients[1];
+      const before = await harness.balance(recipient.publicKey);
 
-      try {
-        await program.methods
-          .executeParameterUpdate()
-          .accounts({
-            vault: vaultPda,
-            authority: authority.publicKey,
-          })
-          .rpc();
-        expect.fail("should have thrown");
-      } catch (err: any) {
-        expectAnchorError(err, "NoPendingUpdate");
-      }
+      const { fee, events } = await recipientClient(recipient).claimDistribution(
+        distribution,
+        tree
+      );
+
+      expect(await harness.balance(recipient.publicKey)).to.equal(
+        before + MIN_BURN_AMOUNT * 2 - fee!
+      );
+      expect(events.map((e) => e.name)).to.deep.equal(["DistributionClaimed"]);
+      const status = await client.getClaimStatus(distribution, tree, recipient.publicKey);
+      expect(status.status).to.equal("claimed");
+      const other = await client.getClaimStatus(distribution, tree, recipients[0].publicKey);
+      expect(other.status).to.equal("claimable");
     });
 
-    it("rejects unauthorized caller", async () => {
-      // Set up a proposal first
-      await program.methods
-        .proposeParameterUpdate(2500, null)
-        .accounts({
-          vault: vaultPda,
-          authority: authority.publicKey,
-        })
-        .rpc();
-
-      const imposter = Keypair.generate();
-      await airdrop(imposter.publicKey, 1);
+    it("rejects a second claim of the same leaf", async () => {
+      const distribution = await publish();
+      const claimant = recipientClient(recipients[0]);
+      await claimant.claimDistribution(distribution, tree);
+      await harness.warp(1);
 
-      try {
-        await program.methods
-          .executeParameterUpdate()
-          .accounts({
-            vault: vaultPda,
-            authority: imposter.publicKey,
-          })
-          .signers([imposter])
-          .rpc();
-        expect.fail("should have thrown");
-      } catch (err: any) {
-        expectAnchorError(err, "Unauthorized");
-      }
+      await expectError(claimant.claimDistribution(distribution, tree), AlreadyClaimedError);
     });
 
-    // NOTE: Testing successful execution requires advancing the validator clock
-    // past the timelock period. With solana-test-validator this can be done via
-    // `solana warp-slot` or bankrun's `context.warpToSlot()`.
-    // In a bankrun / solana-program-test environment:
-    //
-    // it("executes after timelock expires", async () => {
-    //   await warpForward(DEFAULT_DELAY + 1);
-    //   await program.methods.executeParameterUpdate().accounts({...}).rpc();
-    //   const vault = await getVault();
-    //   expect(vault.burnPercentageBps).to.equal(2500);
-    //   expect(vault.pendingBurnPercentageBps).to.be.null;
-    // });
-  });
+    it("rejects a claim with another recipient's proof", async () => {
+      const distribution = await publish();
+      const claim = tree.claim(recipients[0].publicKey)!;
 
-  // ─── cancel_parameter_proposal ───────────────────────────────────────
+      await expectError(
+        imposterClient().claimDistribution(distribution, claim),
+        InvalidProofError
+      );
+    });
 
-  describe("cancel_parameter_proposal", () => {
-    it("cancels a pending proposal", async () => {
-      // Ensure pending proposal exists from previous tests or create one
+    it("rejects a claim after expiry", async () => {
+      const distribution = await publish();
+      await harness.warp(LIFETIME);
+
+      await expectError(
+        recipientClient(recipients[0]).claimDistribution(distribution, tree),
+        DistributionExpiredError
+      );
+      const status = await client.getClaimStatus(distribution, tree, recipients[0].publicKey);
+      expect(status.status).to.equal("expired");
+    });
+
+    it("sweeps unclaimed funds back after expiry", async () => {
       const vaultBefore = await getVault();
-      if (!vaultBefore.pendingBurnPercentageBps && !vaultBefore.pendingDelaySeconds) {
-        await program.methods
-          .proposeParameterUpdate(1500, null)
-          .accounts({
-            vault: vaultPda,
-            authority: authority.publicKey,
-          })
-          .rpc();
-      }
+      const distribution = await publish();
+      await recipientClient(recipients[0]).claimDistribution(distribution, tree);
+      await harness.warp(LIFETIME);
 
-      await program.methods
-        .cancelParameterProposal()
-        .accounts({
-          vault: vaultPda,
-          authority: authority.publicKey,
-        })
-        .rpc();
+      const { events } = await client.sweepDistribution(distribution);
 
-      const vaultAfter = await getVault();
-      expect(vaultAfter.pendingBurnPercentageBps).to.be.null;
-      expect(vaultAfter.pendingDelaySeconds).to.be.null;
-      expect(vaultAfter.pendingReleaseTime.toNumber()).to.equal(0);
+      expect((await getVault()).totalAccrued.toNumber()).to.equal(
+        vaultBefore.totalAccrued.toNumber() - MIN_BURN_AMOUNT
+      );
+      expect(await client.getDistribution(distribution)).to.be.null;
+      const [event] = events;
+      if (event?.name !== "DistributionSwept") return expect.fail("no DistributionSwept");
+      expect(event.data.amount.toNumber()).to.equal(MIN_BURN_AMOUNT * 5);
     });
 
-    it("rejects cancel when no pending update", async () => {
-      try {
-        await program.methods
-          .cancelParameterProposal()
-          .accounts({
-            vault: vaultPda,
-            authority: authority.publicKey,
-          })
-          .rpc();
-        expect.fail("should have thrown");
-      } catch (err: any) {
-        expectAnchorError(err, "NoPendingUpdate");
-      }
+    it("does not reuse the id of a swept round", async () => {
+      const first = await publish();
+      await harness.warp(LIFETIME);
+      await client.sweepDistribution(first);
+
+      const second = await publish();
+
+      expect(second.toBase58()).to.not.equal(first.toBase58());
+      expect((await client.getDistribution(second))?.id.toNumber()).to.equal(1);
+      expect((await getVault()).distributionCount.toNumber()).to.equal(2);
     });
 
-    it("rejects unauthorized caller", async () => {
-      // Create a proposal to cancel
-      await program.methods
-        .proposeParameterUpdate(1000, null)
-        .accounts({
-          vault: vaultPda,
-          authority: authority.publicKey,
-        })
-        .rpc();
-
-      const imposter = Keypair.generate();
-      await airdrop(imposter.publicKey, 1);
+    it("rejects a sweep before expiry", async () => {
+      const distribution = await publish();
+      await expectError(client.sweepDistribution(distribution), DistributionNotExpiredError);
+    });
 
-      try {
-        await program.methods
-          .cancelParameterProposal()
-          .accounts({
-            vault: vaultPda,
-            authority: imposter.publicKey,
-          })
-          .signers([imposter])
-          .rpc();
-        expect.fail("should have thrown");
-      } catch (err: any) {
-        expectAnchorError(err, "Unauthorized");
-      }
+    it("rejects a round exceeding the retained balance", async () => {
+      const vault = await getVault();
+      tree = new DistributionTree([
+        { recipient: recipients[0].publicKey, amount: vault.totalAccrued.addn(1) },
+      ]);
+      await expectError(publish(), InsufficientBalanceError);
+    });
+
+    it("rejects publishing by a non-authority", async () => {
+      await expectError(
+        imposterClient().createDistribution({
+          tree,
+          expiresAt: (await harness.now()) + LIFETIME,
+        }),
+        UnauthorizedError
+      );
+    });
+  });
 
-      // Cleanup: cancel the proposal with the real authority
-      await program.methods
-        .cancelParameterProposal()
-        .accounts({
-          vault: vaultPda,
-          authority: authority.publicKey,
-        })
-        .rpc();
+  // ─── sweep_surplus ───────────────────────────────────────────────────
+
+  describe("sweep_surplus", () => {
+    const DIRECT = 10_000_000; // 0.01 SOL sent straight to the PDA
+
+    beforeEach(async () => {
+      await client.accrueFee(LAMPORTS_PER_SOL); // 0.8 SOL accrued
+    });
+
+    async function sendDirect(): Promise<void> {
+      await client.sendInstructions([
+        SystemProgram.transfer({
+          fromPubkey: harness.payer.publicKey,
+          toPubkey: client.vaultPda,
+          lamports: DIRECT,
+        }),
+      ]);
+    }
+
+    it("adds lamports sent straight to the vault to total_accrued", async () => {
+      await sendDirect();
+      const vaultBefore = await getVault();
+
+      const { events } = await client.sweepSurplus();
+
+      expect((await getVault()).totalAccrued.toNumber()).to.equal(
+        vaultBefore.totalAccrued.toNumber() + DIRECT
+      );
+      const [event] = events;
+      if (event?.name !== "SurplusSwept") return expect.fail("no SurplusSwept");
+      expect(event.data.amount.toNumber()).to.equal(DIRECT);
+      expect(event.data.burned).to.be.false;
+    });
+
+    it("burns the surplus when asked", async () => {
+      await sendDirect();
+      const vaultBefore = await getVault();
+      const incineratorBefore = await harness.balance(INCINERATOR);
+
+      await client.sweepSurplus(true);
+
+      expect((await getVault()).totalAccrued.eq(vaultBefore.totalAccrued)).to.be.true;
+      expect(await harness.balance(INCINERATOR)).to.equal(incineratorBefore + DIRECT);
+    });
+
+    it("rejects a sweep without surplus", async () => {
+      await expectError(client.sweepSurplus(), NoSurplusError);
+    });
+
+    it("rejects unauthorized caller", async () => {
+      await sendDirect();
+      await expectError(imposterClient().sweepSurplus(), UnauthorizedError);
+    });
+  });
+
+  // ─── spending caps ───────────────────────────────────────────────────
+
+  describe("spending caps", () => {
+    const WINDOW = 86_400;
+
+    beforeEach(async () => {
+      await client.accrueFee(LAMPORTS_PER_SOL); // 0.8 SOL accrued
+    });
+
+    async function applyCaps(caps: SpendingCapsParams): Promise<void> {
+      const { id } = await client.proposeParameterUpdate({ spendingCaps: caps });
+      await harness.warp(DEFAULT_DELAY);
+      await client.executeParameterUpdate(id);
+    }
+
+    it("starts uncapped", async () => {
+      const allowance = await client.getSpendingAllowance();
+      expect(allowance?.distribution.limit).to.be.null;
+      expect(allowance?.burn.limit).to.be.null;
+      await client.distributeRewards(Keypair.generate().publicKey, 700_000_000);
+    });
+
+    it("caps distributions per window in lamports", async () => {
+      await applyCaps({ windowSeconds: WINDOW, distribution: { lamports: 10 * MIN_BURN_AMOUNT } });
+
+      await client.distributeRewards(Keypair.generate().publicKey, 6 * MIN_BURN_AMOUNT);
+      await expectError(
+        client.distributeRewards(Keypair.generate().publicKey, 5 * MIN_BURN_AMOUNT),
+        SpendingCapExceededError
+      );
+      await client.distributeRewards(Keypair.generate().publicKey, 4 * MIN_BURN_AMOUNT);
+
+      const vault = await getVault();
+      expect(vault.distributedInWindow.toNumber()).to.equal(10 * MIN_BURN_AMOUNT);
+      // Burns have their own, unset cap
+      await client.burnSol(100 * MIN_BURN_AMOUNT);
+    });
+
+    it("caps burns as bps of the balance at the window start", async () => {
+      await applyCaps({ windowSeconds: WINDOW, burn: { bps: 1000 } });
+      const limit = (await getVault()).totalAccrued.divn(10);
+
+      await client.burnSol(limit);
+      await expectError(client.burnSol(MIN_BURN_AMOUNT), SpendingCapExceededError);
+    });
+
+    it("resets the allowance when the window ends", async () => {
+      await applyCaps({ windowSeconds: WINDOW, distribution: { lamports: 10 * MIN_BURN_AMOUNT } });
+      await client.distributeRewards(Keypair.generate().publicKey, 10 * MIN_BURN_AMOUNT);
+      await expectError(
+        client.distributeRewards(Keypair.generate().publicKey, MIN_BURN_AMOUNT),
+        SpendingCapExceededError
+      );
+
+      await harness.warp(WINDOW);
+      const allowance = await client.getSpendingAllowance();
+      expect(allowance?.distribution.remaining?.toNumber()).to.equal(10 * MIN_BURN_AMOUNT);
+      await client.distributeRewards(Keypair.generate().publicKey, 10 * MIN_BURN_AMOUNT);
+    });
+
+    it("counts distribution rounds against the distribution cap", async () => {
+      await applyCaps({ windowSeconds: WINDOW, distribution: { lamports: 10 * MIN_BURN_AMOUNT } });
+      const tree = new DistributionTree([
+        { recipient: Keypair.generate().publicKey, amount: new BN(11 * MIN_BURN_AMOUNT) },
+      ]);
+      await expectError(
+        client.createDistribution({
+          tree,
+          expiresAt: (await harness.now()) + 3_600,
+        }),
+        SpendingCapExceededError
+      );
+    });
+
+    it("reports the remaining allowance", async () => {
+      await applyCaps({
+        windowSeconds: WINDOW,
+        distribution: { lamports: 10 * MIN_BURN_AMOUNT },
+        burn: { bps: 500 },
+      });
+      await client.distributeRewards(Keypair.generate().publicKey, 3 * MIN_BURN_AMOUNT);
+
+      const allowance = await client.getSpendingAllowance();
+      const vault = await getVault();
+      expect(allowance?.distribution.spent.toNumber()).to.equal(3 * MIN_BURN_AMOUNT);
+      expect(allowance?.distribution.remaining?.toNumber()).to.equal(7 * MIN_BURN_AMOUNT);
+      expect(allowance?.burn.limit?.eq(vault.windowStartBalance.muln(500).divn(BPS_DENOMINATOR)))
+        .to.be.true;
+      expect(allowance?.windowEnd).to.equal(vault.windowStart.toNumber() + WINDOW);
+    });
+
+    it("only changes caps through the timelock", async () => {
+      const { id } = await client.proposeParameterUpdate({
+        spendingCaps: { windowSeconds: WINDOW, distribution: { lamports: MIN_BURN_AMOUNT } },
+      });
+      await client.distributeRewards(Keypair.generate().publicKey, 10 * MIN_BURN_AMOUNT);
+
+      await harness.warp(DEFAULT_DELAY);
+      await client.executeParameterUpdate(id);
+      await expectError(
+        client.distributeRewards(Keypair.generate().publicKey, 2 * MIN_BURN_AMOUNT),
+        SpendingCapExceededError
+      );
+    });
+
+    it("counts burned surplus against the burn cap", async () => {
+      await applyCaps({ windowSeconds: WINDOW, burn: { lamports: MIN_BURN_AMOUNT } });
+      await client.sendInstructions([
+        SystemProgram.transfer({
+          fromPubkey: harness.payer.publicKey,
+          toPubkey: client.vaultPda,
+          lamports: 2 * MIN_BURN_AMOUNT,
+        }),
+      ]);
+
+      await expectError(client.sweepSurplus(true), SpendingCapExceededError);
+      // Adding it to total_accrued moves nothing, so it is not capped
+      await client.sweepSurplus();
+      expect((await getVault()).burnedInWindow.toNumber()).to.equal(0);
+    });
+
+    it("keeps proposed caps typed through a JSON event store", async () => {
+      const { signature, slot, events } = await client.proposeParameterUpdate({
+        spendingCaps: { windowSeconds: WINDOW, distribution: { lamports: MIN_BURN_AMOUNT } },
+      });
+      const [event] = events;
+      if (event?.name !== "ParameterUpdateProposed") {
+        return expect.fail("no ParameterUpdateProposed");
+      }
+      const path = join(mkdtempSync(join(tmpdir(), "solforge-")), "events.json");
+      await new JsonFileEventStore(path).putEvents([
+        { ...event, signature, slot, blockTime: null, index: 0 },
+      ]);
+
+      // A second store reads the file back
+      const [stored] = await new JsonFileEventStore(path).getEvents();
+      if (stored?.name !== "ParameterUpdateProposed") {
+        return expect.fail("no ParameterUpdateProposed");
+      }
+      const caps = stored.data.proposedSpendingCaps;
+      expect(caps?.windowSeconds).to.be.instanceOf(BN);
+      expect(caps?.windowSeconds.toNumber()).to.equal(WINDOW);
+      expect(caps?.distributionLamports.toNumber()).to.equal(MIN_BURN_AMOUNT);
+      expect(caps?.burnLamports.isZero()).to.be.true;
+      expect(stored.data.proposal).to.be.instanceOf(PublicKey);
+      expect(stored.data.id.eq(event.data.id)).to.be.true;
+    });
+
+    it("preflight rejects an outflow over the cap locally", async () => {
+      await applyCaps({ windowSeconds: WINDOW, burn: { lamports: MIN_BURN_AMOUNT } });
+      const checked = harness.client(harness.payer, {
+        namespace: client.namespace,
+        preflight: true,
+      });
+
+      try {
+        await checked.burnSol(2 * MIN_BURN_AMOUNT);
+        expect.fail("should have thrown");
+      } catch (err: any) {
+        expect(err).to.be.instanceOf(SpendingCapExceededError);
+        expect(err.logs).to.be.empty;
+      }
+    });
+
+    it("rejects a bps cap above 100%", async () => {
+      await expectError(
+        client.proposeParameterUpdate({
+          spendingCaps: { windowSeconds: WINDOW, burn: { bps: BPS_DENOMINATOR + 1 } },
+        }),
+        InvalidSpendingCapError
+      );
+    });
+
+    it("rejects caps without a window", async () => {
+      await expectError(
+        client.proposeParameterUpdate({
+          spendingCaps: { windowSeconds: 0, burn: { lamports: MIN_BURN_AMOUNT } },
+        }),
+        InvalidSpendingCapError
+      );
+    });
+  });
+
+  // ─── recipient allowlist ─────────────────────────────────────────────
+
+  describe("recipient allowlist", () => {
+    let recipient: PublicKey;
+
+    beforeEach(async () => {
+      await client.accrueFee(LAMPORTS_PER_SOL); // 0.8 SOL accrued
+      recipient = Keypair.generate().publicKey;
+    });
+
+    async function setAllowlistMode(enabled: boolean): Promise<void> {
+      const { id } = await client.proposeParameterUpdate({ allowlistEnabled: enabled });
+      await harness.warp(DEFAULT_DELAY);
+      await client.executeParameterUpdate(id);
+    }
+
+    async function allowlist(address: PublicKey): Promise<void> {
+      await client.proposeAllowlistAddition(address);
+      await harness.warp(DEFAULT_DELAY);
+      await client.executeAllowlistAddition(address);
+    }
+
+    it("only switches allowlist mode through the timelock", async () => {
+      const { id } = await client.proposeParameterUpdate({ allowlistEnabled: true });
+      expect((await getVault()).allowlistEnabled).to.be.false;
+      await client.distributeRewards(recipient, MIN_BURN_AMOUNT);
+
+      await harness.warp(DEFAULT_DELAY);
+      await client.executeParameterUpdate(id);
+      expect((await getVault()).allowlistEnabled).to.be.true;
+    });
+
+    it("rejects recipients not on the allowlist", async () => {
+      await setAllowlistMode(true);
+      await expectError(
+        client.distributeRewards(recipient, MIN_BURN_AMOUNT),
+        RecipientNotAllowedError
+      );
+    });
+
+    it("adds a recipient once the timelock expires", async () => {
+      await setAllowlistMode(true);
+      const { entry, events } = await client.proposeAllowlistAddition(recipient);
+      expect(entry.toBase58()).to.equal(client.allowlistEntryAddress(recipient).toBase58());
+      expect(events[0]?.name).to.equal("AllowlistAdditionProposed");
+
+      // Proposed is not allowed
+      await expectError(
+        client.distributeRewards(recipient, MIN_BURN_AMOUNT),
+        RecipientNotAllowedError
+      );
+      await expectError(client.executeAllowlistAddition(recipient), TimelockNotExpiredError);
+
+      await harness.warp(DEFAULT_DELAY);
+      await client.executeAllowlistAddition(recipient);
+      expect((await client.getAllowlistEntry(recipient))?.active).to.be.true;
+      expect(await client.isAllowlisted(recipient)).to.be.true;
+
+      await client.distributeRewards(recipient, MIN_BURN_AMOUNT);
+      expect(await harness.balance(recipient)).to.equal(MIN_BURN_AMOUNT);
+    });
+
+    it("rejects executing an addition twice", async () => {
+      await allowlist(recipient);
+      await harness.warp(1);
+      await expectError(client.executeAllowlistAddition(recipient), NoPendingUpdateError);
+    });
+
+    it("removes a recipient immediately", async () => {
+      await setAllowlistMode(true);
+      await allowlist(recipient);
+
+      const { events } = await client.removeAllowlistRecipient(recipient);
+
+      const [event] = events;
+      if (event?.name !== "AllowlistRecipientRemoved") {
+        return expect.fail("no AllowlistRecipientRemoved");
+      }
+      expect(event.data.wasActive).to.be.true;
+      expect(await client.getAllowlistEntry(recipient)).to.be.null;
+      await expectError(
+        client.distributeRewards(recipient, MIN_BURN_AMOUNT),
+        RecipientNotAllowedError
+      );
+    });
+
+    it("withdraws a pending addition", async () => {
+      await client.proposeAllowlistAddition(recipient);
+
+      const { events } = await client.removeAllowlistRecipient(recipient);
+
+      const [event] = events;
+      if (event?.name !== "AllowlistRecipientRemoved") {
+        return expect.fail("no AllowlistRecipientRemoved");
+      }
+      expect(event.data.wasActive).to.be.false;
+      expect(await client.getAllowlistEntry(recipient)).to.be.null;
+    });
+
+    it("rejects schedules for recipients not on the allowlist", async () => {
+      await setAllowlistMode(true);
+      const schedule = {
+        recipient,
+        amount: { lamports: MIN_BURN_AMOUNT },
+        intervalSeconds: 3_600,
+      };
+      await expectError(client.createRewardSchedule(schedule), RecipientNotAllowedError);
+
+      await allowlist(recipient);
+      await client.createRewardSchedule(schedule);
+    });
+
+    it("stops cranking a schedule whose recipient is not allowlisted", async () => {
+      // Created before allowlist mode, so only the crank can catch it
+      const { schedule } = await client.createRewardSchedule({
+        recipient,
+        amount: { lamports: MIN_BURN_AMOUNT },
+        intervalSeconds: 3_600,
+      });
+      await setAllowlistMode(true);
+      await harness.warp(3_600);
+      await expectError(client.crankRewardSchedule(schedule), RecipientNotAllowedError);
+
+      await allowlist(recipient);
+      await client.crankRewardSchedule(schedule);
+      expect(await harness.balance(recipient)).to.equal(MIN_BURN_AMOUNT);
+
+      await client.removeAllowlistRecipient(recipient);
+      await harness.warp(3_600);
+      await expectError(client.crankRewardSchedule(schedule), RecipientNotAllowedError);
+    });
+
+    it("rejects token rewards to owners not on the allowlist", async () => {
+      const mint = harness.createMint(6, TOKEN_PROGRAM_ID);
+      await harness.mintTo(mint, harness.payer.publicKey, 10_000_000, TOKEN_PROGRAM_ID);
+      await client.initializeTokenVault(mint);
+      await client.accrueTokenFee(mint, 10_000_000);
+      await setAllowlistMode(true);
+
+      await expectError(
+        client.distributeTokenRewards(mint, recipient, 1_000_000),
+        RecipientNotAllowedError
+      );
+
+      await allowlist(recipient);
+      await client.distributeTokenRewards(mint, recipient, 1_000_000);
+      expect(
+        await harness.tokenBalance(
+          getAssociatedTokenAddress(mint, recipient, TOKEN_PROGRAM_ID)
+        )
+      ).to.equal(1_000_000);
+    });
+
+    it("rejects distribution rounds in allowlist mode", async () => {
+      await setAllowlistMode(true);
+      await allowlist(recipient);
+      // Even a tree of allowlisted recipients, since the program cannot see it
+      const tree = new DistributionTree([{ recipient, amount: MIN_BURN_AMOUNT }]);
+      await expectError(
+        client.createDistribution({
+          tree,
+          expiresAt: (await harness.now()) + 86_400,
+        }),
+        RecipientNotAllowedError
+      );
+    });
+
+    it("pays any recipient again once allowlist mode is off", async () => {
+      await setAllowlistMode(true);
+      await setAllowlistMode(false);
+      await client.distributeRewards(recipient, MIN_BURN_AMOUNT);
+    });
+
+    it("preflight rejects a recipient not on the allowlist locally", async () => {
+      await setAllowlistMode(true);
+      const checked = harness.client(harness.payer, {
+        namespace: client.namespace,
+        preflight: true,
+      });
+
+      try {
+        await checked.distributeRewards(recipient, MIN_BURN_AMOUNT);
+        expect.fail("should have thrown");
+      } catch (err: any) {
+        expect(err).to.be.instanceOf(RecipientNotAllowedError);
+        expect(err.logs).to.be.empty;
+      }
+    });
+
+    it("rejects unauthorized allowlist changes", async () => {
+      await expectError(
+        imposterClient().proposeAllowlistAddition(recipient),
+        UnauthorizedError
+      );
+      await client.proposeAllowlistAddition(recipient);
+      await expectError(
+        imposterClient().removeAllowlistRecipient(recipient),
+        UnauthorizedError
+      );
+    });
+  });
+
+  // ─── emergency pause ─────────────────────────────────────────────────
+
+  describe("emergency pause", () => {
+    let guardian: Keypair;
+
+    beforeEach(async () => {
+      guardian = harness.fund();
+      client = await harness.freshVault({ guardian: guardian.publicKey });
+      await client.accrueFee(LAMPORTS_PER_SOL); // 0.8 SOL accrued
+    });
+
+    function guardianClient(): SolForgeClient {
+      return harness.client(guardian, { namespace: client.namespace });
+    }
+
+    it("lets only the guardian pause", async () => {
+      await expectError(imposterClient().pause(), UnauthorizedError);
+      await expectError(client.pause(), UnauthorizedError);
+
+      const { events } = await guardianClient().pause();
+
+      expect(events.map((e) => e.name)).to.deep.equal(["VaultPaused"]);
+      expect((await getVault()).paused).to.be.true;
+      expect(await client.isPaused()).to.be.true;
+    });
+
+    it("blocks accruals, burns, distributions, cranks and execution", async () => {
+      const recipient = Keypair.generate().publicKey;
+      const { id } = await client.proposeParameterUpdate({ burnBps: 3000 });
+      const { schedule } = await client.createRewardSchedule({
+        recipient,
+        amount: { lamports: MIN_BURN_AMOUNT },
+        intervalSeconds: MIN_DELAY,
+      });
+      await guardianClient().pause();
+      await harness.warp(DEFAULT_DELAY);
+
+      await expectError(client.accrueFee(LAMPORTS_PER_SOL), PausedError);
+      await expectError(client.accrueFeeOnVolume(10 * LAMPORTS_PER_SOL), PausedError);
+      await expectError(client.burnSol(MIN_BURN_AMOUNT), PausedError);
+      await expectError(client.distributeRewards(recipient, MIN_BURN_AMOUNT), PausedError);
+      await expectError(client.crankRewardSchedule(schedule), PausedError);
+      await expectError(client.executeParameterUpdate(id), PausedError);
+      expect(await harness.balance(recipient)).to.equal(0);
+    });
+
+    it("blocks distribution rounds and claims", async () => {
+      const recipient = harness.fund();
+      const tree = new DistributionTree([
+        { recipient: recipient.publicKey, amount: MIN_BURN_AMOUNT },
+      ]);
+      const expiresAt = (await harness.now()) + DEFAULT_DELAY * 2;
+      const { distribution } = await client.createDistribution({ tree, expiresAt });
+      await guardianClient().pause();
+
+      await expectError(
+        client.createDistribution({ tree, expiresAt }),
+        PausedError
+      );
+      await expectError(
+        harness
+          .client(recipient, { namespace: client.namespace })
+          .claimDistribution(distribution, tree),
+        PausedError
+      );
+    });
+
+    it("blocks token accruals, burns and distributions", async () => {
+      const mint = harness.createMint(6, TOKEN_PROGRAM_ID);
+      await harness.mintTo(mint, harness.payer.publicKey, 20_000_000, TOKEN_PROGRAM_ID);
+      await client.initializeTokenVault(mint);
+      await client.accrueTokenFee(mint, 10_000_000);
+      await guardianClient().pause();
+
+      await expectError(client.accrueTokenFee(mint, 10_000_000), PausedError);
+      await expectError(client.burnTokens(mint, 1_000_000), PausedError);
+      await expectError(
+        client.distributeTokenRewards(mint, Keypair.generate().publicKey, 1_000_000),
+        PausedError
+      );
+      expect((await client.getTokenVaultState(mint))!.totalAccrued.toNumber()).to.equal(
+        8_000_000
+      );
+    });
+
+    it("blocks burning surplus but still adds it to total_accrued", async () => {
+      await client.sendInstructions([
+        SystemProgram.transfer({
+          fromPubkey: harness.payer.publicKey,
+          toPubkey: client.vaultPda,
+          lamports: MIN_BURN_AMOUNT,
+        }),
+      ]);
+      await guardianClient().pause();
+
+      await expectError(client.sweepSurplus(true), PausedError);
+      await client.sweepSurplus();
+    });
+
+    it("still lets the authority cancel proposals", async () => {
+      const { id } = await client.proposeParameterUpdate({ burnBps: 3000 });
+      await guardianClient().pause();
+
+      await client.cancelParameterProposal(id);
+      expect((await getProposal(id)).status).to.equal("canceled");
+    });
+
+    it("unpauses only after the timelock", async () => {
+      await guardianClient().pause();
+      const now = await harness.now();
+
+      const { events } = await client.proposeUnpause();
+
+      const [event] = events;
+      if (event?.name !== "UnpauseProposed") return expect.fail("no UnpauseProposed");
+      expect(event.data.releaseAt.toNumber()).to.equal(now + DEFAULT_DELAY);
+      await expectError(client.unpause(), TimelockNotExpiredError);
+
+      await harness.warp(DEFAULT_DELAY);
+      const unpaused = await client.unpause();
+
+      expect(unpaused.events.map((e) => e.name)).to.deep.equal(["VaultUnpaused"]);
+      const vault = await getVault();
+      expect(vault.paused).to.be.false;
+      expect(vault.unpauseReleaseTime.toNumber()).to.equal(0);
+      await client.accrueFee(LAMPORTS_PER_SOL);
+    });
+
+    it("lets only the authority unpause", async () => {
+      await guardianClient().pause();
+      await expectError(guardianClient().proposeUnpause(), UnauthorizedError);
+      await client.proposeUnpause();
+      await harness.warp(DEFAULT_DELAY);
+      await expectError(guardianClient().unpause(), UnauthorizedError);
+    });
+
+    it("rejects unpause without a pending proposal", async () => {
+      await expectError(client.proposeUnpause(), NoChangeProposedError);
+      await guardianClient().pause();
+      await expectError(client.unpause(), NoPendingUpdateError);
+    });
+
+    it("withdraws a pending unpause when paused again", async () => {
+      await guardianClient().pause();
+      await client.proposeUnpause();
+      await harness.warp(DEFAULT_DELAY);
+
+      await guardianClient().pause();
+
+      expect((await getVault()).unpauseReleaseTime.toNumber()).to.equal(0);
+      await expectError(client.unpause(), NoPendingUpdateError);
+    });
+
+    it("changes the guardian through the timelock", async () => {
+      const next = harness.fund();
+      const { id } = await client.proposeParameterUpdate({ guardian: next.publicKey });
+      expect((await getProposal(id)).proposed.guardian!.toBase58()).to.equal(
+        next.publicKey.toBase58()
+      );
+      await harness.warp(DEFAULT_DELAY);
+      await client.executeParameterUpdate(id);
+
+      await expectError(guardianClient().pause(), UnauthorizedError);
+      await harness.client(next, { namespace: client.namespace }).pause();
+    });
+
+    it("removes the guardian with the default key", async () => {
+      const { id } = await client.proposeParameterUpdate({ guardian: PublicKey.default });
+      await harness.warp(DEFAULT_DELAY);
+      await client.executeParameterUpdate(id);
+
+      expect((await getVault()).guardian).to.be.null;
+      await expectError(guardianClient().pause(), UnauthorizedError);
+    });
+
+    it("preflight rejects actions on a paused vault locally", async () => {
+      await guardianClient().pause();
+      const checked = harness.client(harness.payer, {
+        namespace: client.namespace,
+        preflight: true,
+      });
+
+      try {
+        await checked.accrueFee(LAMPORTS_PER_SOL);
+        expect.fail("should have thrown");
+      } catch (err: any) {
+        expect(err).to.be.instanceOf(PausedError);
+        expect(err.logs).to.be.empty;
+      }
+    });
+  });
+
+  // ─── token vaults ────────────────────────────────────────────────────
+
+  for (const [label, tokenProgram] of [
+    ["spl-token", TOKEN_PROGRAM_ID],
+    ["token-2022", TOKEN_2022_PROGRAM_ID],
+  ] as const) {
+    describe(`token vault (${label})`, () => {
+      const funded = 1_000_000_000;
+      let mint: PublicKey;
+      let vaultTokens: PublicKey;
+
+      beforeEach(async () => {
+        mint = harness.createMint(6, tokenProgram);
+        await harness.mintTo(mint, harness.payer.publicKey, funded, tokenProgram);
+        await client.initializeTokenVault(mint);
+        [vaultTokens] = findVaultTokenAccountAddress(client.vaultPda, mint);
+      });
+
+      async function tokenVault() {
+        const state = await client.getTokenVaultState(mint);
+        if (!state) throw new Error("token vault not initialized");
+        return state;
+      }
+
+      it("initializes per-mint accounting", async () => {
+        const state = await tokenVault();
+        expect(state.vault.toBase58()).to.equal(client.vaultPda.toBase58());
+        expect(state.mint.toBase58()).to.equal(mint.toBase58());
+        expect(state.tokenProgram.toBase58()).to.equal(tokenProgram.toBase58());
+        expect(state.totalAccrued.toNumber()).to.equal(0);
+        expect(await harness.tokenBalance(vaultTokens)).to.equal(0);
+      });
+
+      it("accrues tokens and burns the burn share from supply", async () => {
+        const amount = 10_000_000;
+        const { events } = await client.accrueTokenFee(mint, amount);
+
+        expect((await tokenVault()).totalAccrued.toNumber()).to.equal(8_000_000);
+        expect(await harness.tokenBalance(vaultTokens)).to.equal(8_000_000);
+        expect(await harness.mintSupply(mint)).to.equal(funded - 2_000_000);
+        expect(
+          await harness.tokenBalance(
+            getAssociatedTokenAddress(mint, harness.payer.publicKey, tokenProgram)
+          )
+        ).to.equal(funded - amount);
+        const [event] = events;
+        if (event?.name !== "TokenFeeAccrued") return expect.fail("no TokenFeeAccrued");
+        expect(event.data.mint.toBase58()).to.equal(mint.toBase58());
+        expect(event.data.burned.toNumber()).to.equal(2_000_000);
+      });
+
+      it("keeps SOL and per-mint accounting separate", async () => {
+        await client.accrueTokenFee(mint, 10_000_000);
+        expect((await getVault()).totalAccrued.toNumber()).to.equal(0);
+
+        const other = harness.createMint(9, tokenProgram);
+        await harness.mintTo(other, harness.payer.publicKey, funded, tokenProgram);
+        await client.initializeTokenVault(other);
+        await client.accrueTokenFee(other, 5_000_000);
+
+        expect((await tokenVault()).totalAccrued.toNumber()).to.equal(8_000_000);
+        expect(
+          (await client.getTokenVaultState(other))!.totalAccrued.toNumber()
+        ).to.equal(4_000_000);
+      });
+
+      it("burns vault tokens on request", async () => {
+        await client.accrueTokenFee(mint, 10_000_000);
+        const supplyBefore = await harness.mintSupply(mint);
+        await client.burnTokens(mint, 3_000_000);
+
+        expect((await tokenVault()).totalAccrued.toNumber()).to.equal(5_000_000);
+        expect(await harness.tokenBalance(vaultTokens)).to.equal(5_000_000);
+        expect(supplyBefore - (await harness.mintSupply(mint))).to.equal(3_000_000);
+      });
+
+      it("distributes into a recipient ATA it creates", async () => {
+        await client.accrueTokenFee(mint, 10_000_000);
+        const recipient = Keypair.generate().publicKey;
+
+        await client.distributeTokenRewards(mint, recipient, 1_500_000);
+        // Existing ATA is reused
+        await client.distributeTokenRewards(mint, recipient, 500_000);
+
+        expect(
+          await harness.tokenBalance(
+            getAssociatedTokenAddress(mint, recipient, tokenProgram)
+          )
+        ).to.equal(2_000_000);
+        expect((await tokenVault()).totalAccrued.toNumber()).to.equal(6_000_000);
+      });
+
+      it("rejects withdrawals above the per-mint balance", async () => {
+        await client.accrueTokenFee(mint, 10_000_000);
+        await expectError(client.burnTokens(mint, 8_000_001), InsufficientBalanceError);
+        await expectError(
+          client.distributeTokenRewards(mint, Keypair.generate().publicKey, 8_000_001),
+          InsufficientBalanceError
+        );
+      });
+
+      it("rejects zero amounts", async () => {
+        await expectError(client.accrueTokenFee(mint, 0), AmountTooSmallError);
+        await expectError(client.burnTokens(mint, 0), AmountTooSmallError);
+      });
+
+      it("rejects withdrawals by a non-authority", async () => {
+        await client.accrueTokenFee(mint, 10_000_000);
+        await expectError(imposterClient().burnTokens(mint, 1_000_000), UnauthorizedError);
+        await expectError(
+          imposterClient().distributeTokenRewards(
+            mint,
+            Keypair.generate().publicKey,
+            1_000_000
+          ),
+          UnauthorizedError
+        );
+      });
+    });
+  }
+
+  // ─── propose_parameter_update ────────────────────────────────────────
+
+  describe("propose_parameter_update", () => {
+    it("proposes a burn percentage update", async () => {
+      const now = await harness.now();
+      const { id, proposal: address } = await client.proposeParameterUpdate({
+        burnBps: 3000,
+      });
+
+      expect(id.toNumber()).to.equal(0);
+      const proposal = await getProposal(id);
+      expect(proposal.address.toBase58()).to.equal(address.toBase58());
+      expect(proposal.status).to.equal("pending");
+      expect(proposal.state.burnPercentageBps).to.equal(3000);
+      expect(proposal.state.delaySeconds).to.be.null;
+      expect(proposal.state.proposer.toBase58()).to.equal(harness.payer.publicKey.toBase58());
+      expect(proposal.state.releaseTime.toNumber()).to.equal(now + DEFAULT_DELAY);
+      expect(proposal.state.expiresAt.toNumber()).to.equal(
+        now + DEFAULT_DELAY + PROPOSAL_EXECUTION_WINDOW_SECONDS
+      );
+      expect((await getVault()).proposalCount.toNumber()).to.equal(1);
+    });
+
+    it("proposes a delay update", async () => {
+      const { id } = await client.proposeParameterUpdate({ delaySeconds: 7200 });
+
+      const { state } = await getProposal(id);
+      expect(state.burnPercentageBps).to.be.null;
+      expect(state.delaySeconds!.toNumber()).to.equal(7200);
+    });
+
+    it("proposes a fee rate update", async () => {
+      const { id } = await client.proposeParameterUpdate({ feeBps: 30 });
+
+      const proposal = await getProposal(id);
+      expect(proposal.state.feeBasisPoints).to.equal(30);
+      expect(proposal.state.burnPercentageBps).to.be.null;
+      expect(proposal.proposed.feeBasisPoints).to.equal(30);
+      expect(proposal.proposed.burnPercentageBps).to.equal(2000);
+      expect((await getVault()).feeBasisPoints).to.equal(500);
+    });
+
+    it("rejects invalid fee_bps > 10000", async () => {
+      await expectError(
+        client.proposeParameterUpdate({ feeBps: BPS_DENOMINATOR + 1 }),
+        InvalidFeeRateError
+      );
+    });
+
+    it("proposes both burn and delay", async () => {
+      const { id } = await client.proposeParameterUpdate({
+        burnBps: 5000,
+        delaySeconds: MIN_DELAY,
+      });
+
+      const { state } = await getProposal(id);
+      expect(state.burnPercentageBps).to.equal(5000);
+      expect(state.delaySeconds!.toNumber()).to.equal(MIN_DELAY);
+    });
+
+    it("keeps earlier proposals when proposing again", async () => {
+      const first = await client.proposeParameterUpdate({ burnBps: 5000 });
+      await harness.warp(100);
+      const second = await client.proposeParameterUpdate({ delaySeconds: MIN_DELAY });
+
+      expect(second.id.toNumber()).to.equal(first.id.toNumber() + 1);
+      const a = await getProposal(first.id);
+      const b = await getProposal(second.id);
+      expect(a.state.burnPercentageBps).to.equal(5000);
+      expect(a.state.delaySeconds).to.be.null;
+      expect(b.state.burnPercentageBps).to.be.null;
+      expect(b.state.delaySeconds!.toNumber()).to.equal(MIN_DELAY);
+      expect(b.state.releaseTime.sub(a.state.releaseTime).toNumber()).to.equal(100);
+    });
+
+    it("carries the id in its event", async () => {
+      await client.proposeParameterUpdate({ burnBps: 5000 });
+      const { id, proposal, events } = await client.proposeParameterUpdate({
+        burnBps: 6000,
+      });
+
+      const [event] = events;
+      if (event?.name !== "ParameterUpdateProposed") {
+        return expect.fail("no ParameterUpdateProposed");
+      }
+      expect(event.data.id.toNumber()).to.equal(id.toNumber());
+      expect(event.data.proposal.toBase58()).to.equal(proposal.toBase58());
+      expect(event.data.proposedBurnBps).to.equal(6000);
+    });
+
+    it("reports pending status against the cluster clock", async () => {
+      const { id } = await client.proposeParameterUpdate({ burnBps: 5000 });
+      await harness.warp(1000);
+
+      const proposal = await getProposal(id);
+      expect(proposal.status).to.equal("pending");
+      expect(proposal.secondsRemaining).to.equal(DEFAULT_DELAY - 1000);
+      expect(proposal.clusterTime).to.equal(await harness.now());
+    });
+
+    it("rejects when no change proposed (both null)", async () => {
+      await expectError(client.proposeParameterUpdate({}), NoChangeProposedError);
+    });
+
+    it("rejects invalid burn_bps > 10000", async () => {
+      await expectError(
+        client.proposeParameterUpdate({ burnBps: BPS_DENOMINATOR + 1 }),
+        InvalidBurnPercentageError
+      );
+    });
+
+    it("accepts delay at MIN_DELAY and MAX_DELAY", async () => {
+      const min = await client.proposeParameterUpdate({ delaySeconds: MIN_DELAY });
+      expect((await getProposal(min.id)).state.delaySeconds!.toNumber()).to.equal(MIN_DELAY);
+
+      const max = await client.proposeParameterUpdate({ delaySeconds: MAX_DELAY });
+      expect((await getProposal(max.id)).state.delaySeconds!.toNumber()).to.equal(MAX_DELAY);
+    });
+
+    it("rejects delay below MIN_DELAY", async () => {
+      await expectError(
+        client.proposeParameterUpdate({ delaySeconds: MIN_DELAY - 1 }),
+        InvalidDelayError
+      );
+    });
+
+    it("rejects delay above MAX_DELAY", async () => {
+      await expectError(
+        client.proposeParameterUpdate({ delaySeconds: MAX_DELAY + 1 }),
+        InvalidDelayError
+      );
+    });
+
+    it("rejects unauthorized caller", async () => {
+      await expectError(
+        imposterClient().proposeParameterUpdate({ burnBps: 1000 }),
+        UnauthorizedError
+      );
+    });
+  });
+
+  // ─── execute_parameter_update ────────────────────────────────────────
+
+  describe("execute_parameter_update", () => {
+    it("executes after timelock expires", async () => {
+      const { id } = await client.proposeParameterUpdate({ burnBps: 2500 });
+      await harness.warp(DEFAULT_DELAY + 1);
+
+      const { events } = await client.executeParameterUpdate(id);
+
+      const vault = await getVault();
+      expect(vault.burnPercentageBps).to.equal(2500);
+      expect(vault.delaySeconds.toNumber()).to.equal(DEFAULT_DELAY);
+      expect((await getProposal(id)).status).to.equal("executed");
+      const [event] = events;
+      if (event?.name !== "ParameterUpdateExecuted") {
+        return expect.fail("no ParameterUpdateExecuted");
+      }
+      expect(event.data.id.toNumber()).to.equal(id.toNumber());
+    });
+
+    it("executes exactly at the release time, not a second before", async () => {
+      const { id } = await client.proposeParameterUpdate({ burnBps: 2500 });
+
+      await harness.warp(DEFAULT_DELAY - 1);
+      await expectError(client.executeParameterUpdate(id), TimelockNotExpiredError);
+
+      await harness.warp(1);
+      expect((await getProposal(id)).status).to.equal("executable");
+      await client.executeParameterUpdate(id);
+      expect((await getVault()).burnPercentageBps).to.equal(2500);
+    });
+
+    it("executes proposals independently, by id", async () => {
+      const burn = await client.proposeParameterUpdate({ burnBps: 2500 });
+      const fee = await client.proposeParameterUpdate({ feeBps: 100 });
+      await harness.warp(DEFAULT_DELAY);
+
+      await client.executeParameterUpdate(fee.id);
+      let vault = await getVault();
+      expect(vault.feeBasisPoints).to.equal(100);
+      expect(vault.burnPercentageBps).to.equal(2000);
+      expect((await getProposal(burn.id)).status).to.equal("executable");
+
+      await client.executeParameterUpdate(burn.id);
+      vault = await getVault();
+      expect(vault.burnPercentageBps).to.equal(2500);
+      expect(vault.feeBasisPoints).to.equal(100);
+    });
+
+    it("applies the new burn rate to later accruals", async () => {
+      const { id } = await client.proposeParameterUpdate({ burnBps: 5000 });
+      await harness.warp(DEFAULT_DELAY);
+      await client.executeParameterUpdate(id);
+
+      const incineratorBefore = await harness.balance(INCINERATOR);
+      await client.accrueFee(LAMPORTS_PER_SOL);
+      expect((await harness.balance(INCINERATOR)) - incineratorBefore).to.equal(
+        LAMPORTS_PER_SOL / 2
+      );
+    });
+
+    it("applies the new fee rate to later volume fees", async () => {
+      const { id } = await client.proposeParameterUpdate({ feeBps: 100 });
+      await harness.warp(DEFAULT_DELAY);
+      await client.executeParameterUpdate(id);
+
+      const vault = await getVault();
+      expect(vault.feeBasisPoints).to.equal(100);
+      expect((await client.quoteFee(LAMPORTS_PER_SOL)).fee.toNumber()).to.equal(
+        LAMPORTS_PER_SOL / 100
+      );
+    });
+
+    it("uses the new delay for the next proposal only", async () => {
+      const minDelay = await harness.freshVault({ delaySeconds: MIN_DELAY });
+      const { id } = await minDelay.proposeParameterUpdate({ delaySeconds: MAX_DELAY });
+      await harness.warp(MIN_DELAY);
+      await minDelay.executeParameterUpdate(id);
+
+      const now = await harness.now();
+      const next = await minDelay.proposeParameterUpdate({ burnBps: 3000 });
+      const vault = await minDelay.getVaultState();
+      expect(vault!.delaySeconds.toNumber()).to.equal(MAX_DELAY);
+      const proposal = await minDelay.getProposal(next.id);
+      expect(proposal!.state.releaseTime.toNumber()).to.equal(now + MAX_DELAY);
+    });
+
+    it("rejects execution before timelock expires", async () => {
+      const { id } = await client.proposeParameterUpdate({ burnBps: 4000 });
+      await expectError(client.executeParameterUpdate(id), TimelockNotExpiredError);
+    });
+
+    it("rejects execution after the execution window", async () => {
+      const { id } = await client.proposeParameterUpdate({ burnBps: 4000 });
+      await harness.warp(DEFAULT_DELAY + PROPOSAL_EXECUTION_WINDOW_SECONDS + 1);
+
+      expect((await getProposal(id)).status).to.equal("expired");
+      await expectError(client.executeParameterUpdate(id), ProposalExpiredError);
+      expect((await getVault()).burnPercentageBps).to.equal(2000);
+    });
+
+    it("rejects executing a proposal twice", async () => {
+      const { id } = await client.proposeParameterUpdate({ burnBps: 2500 });
+      await harness.warp(DEFAULT_DELAY);
+      await client.executeParameterUpdate(id);
+      await harness.warp(1);
+
+      await expectError(client.executeParameterUpdate(id), NoPendingUpdateError);
+    });
+
+    it("rejects unauthorized caller", async () => {
+      const { id } = await client.proposeParameterUpdate({ burnBps: 2500 });
+      await harness.warp(DEFAULT_DELAY);
+
+      await expectError(imposterClient().executeParameterUpdate(id), UnauthorizedError);
+    });
+  });
+
+  // ─── cancel_parameter_proposal ───────────────────────────────────────
+
+  describe("cancel_parameter_proposal", () => {
+    it("cancels a pending proposal", async () => {
+      const { id } = await client.proposeParameterUpdate({
+        burnBps: 1500,
+        delaySeconds: MIN_DELAY,
+        feeBps: 100,
+      });
+      const { events } = await client.cancelParameterProposal(id);
+
+      const vault = await getVault();
+      expect(vault.burnPercentageBps).to.equal(2000);
+      expect(vault.feeBasisPoints).to.equal(500);
+      expect((await getProposal(id)).status).to.equal("canceled");
+      const [event] = events;
+      if (event?.name !== "ParameterUpdateCanceled") {
+        return expect.fail("no ParameterUpdateCanceled");
+      }
+      expect(event.data.id.toNumber()).to.equal(id.toNumber());
+      expect(event.data.expired).to.be.false;
+    });
+
+    it("cancels one proposal and leaves the others", async () => {
+      const keep = await client.proposeParameterUpdate({ burnBps: 1500 });
+      const drop = await client.proposeParameterUpdate({ feeBps: 100 });
+      await client.cancelParameterProposal(drop.id);
+      await harness.warp(DEFAULT_DELAY);
+
+      await expectError(client.executeParameterUpdate(drop.id), NoPendingUpdateError);
+      await client.executeParameterUpdate(keep.id);
+      const vault = await getVault();
+      expect(vault.burnPercentageBps).to.equal(1500);
+      expect(vault.feeBasisPoints).to.equal(500);
+    });
+
+    it("records a lapsed proposal as expired", async () => {
+      const { id } = await client.proposeParameterUpdate({ burnBps: 1500 });
+      await harness.warp(DEFAULT_DELAY + PROPOSAL_EXECUTION_WINDOW_SECONDS + 1);
+
+      const { events } = await client.cancelParameterProposal(id);
+
+      const proposal = await getProposal(id);
+      expect(proposal.status).to.equal("expired");
+      expect("expired" in proposal.state.status).to.be.true;
+      const [event] = events;
+      if (event?.name !== "ParameterUpdateCanceled") {
+        return expect.fail("no ParameterUpdateCanceled");
+      }
+      expect(event.data.expired).to.be.true;
+    });
+
+    it("rejects cancel when the proposal is no longer pending", async () => {
+      const { id } = await client.proposeParameterUpdate({ burnBps: 1500 });
+      await client.cancelParameterProposal(id);
+      await harness.warp(1);
+
+      await expectError(client.cancelParameterProposal(id), NoPendingUpdateError);
+    });
+
+    it("rejects unauthorized caller", async () => {
+      const { id } = await client.proposeParameterUpdate({ burnBps: 1000 });
+      await expectError(imposterClient().cancelParameterProposal(id), UnauthorizedError);
+    });
+  });
+
+  // ─── authority transfer ──────────────────────────────────────────────
+
+  describe("authority transfer", () => {
+    let nominee: Keypair;
+
+    beforeEach(() => {
+      nominee = harness.fund();
+    });
+
+    function nomineeClient(): SolForgeClient {
+      return harness.client(nominee, { namespace: client.namespace });
+    }
+
+    it("records the nominee and release time", async () => {
+      const now = await harness.now();
+      const { events } = await client.proposeAuthorityTransfer(nominee.publicKey);
+
+      const vault = await getVault();
+      expect(vault.authority.toBase58()).to.equal(harness.payer.publicKey.toBase58());
+      expect(vault.pendingAuthority!.toBase58()).to.equal(nominee.publicKey.toBase58());
+      expect(vault.authorityTransferReleaseTime.toNumber()).to.equal(now + DEFAULT_DELAY);
+      const [event] = events;
+      if (event?.name !== "AuthorityTransferProposed") {
+        return expect.fail("no AuthorityTransferProposed");
+      }
+      expect(event.data.newAuthority.toBase58()).to.equal(nominee.publicKey.toBase58());
+    });
+
+    it("hands over to the nominee after the timelock", async () => {
+      await client.proposeAuthorityTransfer(nominee.publicKey);
+      await harness.warp(DEFAULT_DELAY);
+
+      const { events } = await nomineeClient().acceptAuthorityTransfer();
+
+      expect(events.map((e) => e.name)).to.deep.equal(["AuthorityTransferred"]);
+      const vault = await getVault();
+      expect(vault.authority.toBase58()).to.equal(nominee.publicKey.toBase58());
+      expect(vault.pendingAuthority).to.be.null;
+      expect(vault.authorityTransferReleaseTime.toNumber()).to.equal(0);
+
+      // Old authority is locked out, the new one governs
+      await expectError(client.proposeParameterUpdate({
+        burnBps: 1000,
+      }), UnauthorizedError);
+      await nomineeClient().proposeParameterUpdate({ burnBps: 1000 });
+    });
+
+    it("rejects accept before the timelock expires", async () => {
+      await client.proposeAuthorityTransfer(nominee.publicKey);
+      await harness.warp(DEFAULT_DELAY - 1);
+
+      await expectError(nomineeClient().acceptAuthorityTransfer(), TimelockNotExpiredError);
+    });
+
+    it("rejects accept by anyone but the nominee", async () => {
+      await client.proposeAuthorityTransfer(nominee.publicKey);
+      await harness.warp(DEFAULT_DELAY);
+
+      await expectError(imposterClient().acceptAuthorityTransfer(), UnauthorizedError);
+      await expectError(client.acceptAuthorityTransfer(), UnauthorizedError);
+    });
+
+    it("restarts the timelock when re-proposed", async () => {
+      await client.proposeAuthorityTransfer(Keypair.generate().publicKey);
+      await harness.warp(DEFAULT_DELAY);
+      await client.proposeAuthorityTransfer(nominee.publicKey);
+
+      await expectError(nomineeClient().acceptAuthorityTransfer(), TimelockNotExpiredError);
+    });
+
+    it("rejects proposing the current authority", async () => {
+      await expectError(
+        client.proposeAuthorityTransfer(harness.payer.publicKey),
+        NoChangeProposedError
+      );
+    });
+
+    it("cancels a pending transfer", async () => {
+      await client.proposeAuthorityTransfer(nominee.publicKey);
+      await client.cancelAuthorityTransfer();
+      await harness.warp(DEFAULT_DELAY);
+
+      const vault = await getVault();
+      expect(vault.pendingAuthority).to.be.null;
+      await expectError(nomineeClient().acceptAuthorityTransfer(), NoPendingUpdateError);
+      await expectError(client.cancelAuthorityTransfer(), NoPendingUpdateError);
+    });
+
+    it("rejects propose and cancel by a non-authority", async () => {
+      await expectError(
+        imposterClient().proposeAuthorityTransfer(nominee.publicKey),
+        UnauthorizedError
+      );
+      await client.proposeAuthorityTransfer(nominee.publicKey);
+      await expectError(nomineeClient().cancelAuthorityTransfer(), UnauthorizedError);
     });
   });
 });